@@ -0,0 +1,87 @@
+/**
+ * Example: Comparing the Move Generation Backends
+ *
+ * Times the array and bitboard backends on the same positions:
+ * - Legal move generation (getLegalMoves)
+ * - Perft through the game, making and taking back every move
+ *
+ * Each figure is the fastest of several runs after a warm-up run.
+ *
+ * Run with: npm run benchmark
+ */
+
+import { Game } from '../src/engine/game';
+import { perft } from '../src/engine/perft';
+import type { MoveGeneratorBackend } from '../src/types';
+
+const POSITIONS = [
+  {
+    name: 'Starting position',
+    fen: 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1',
+    depth: 4,
+  },
+  {
+    name: 'Kiwipete',
+    fen: 'r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1',
+    depth: 3,
+  },
+  { name: 'Endgame', fen: '8/2p5/3p4/KP5r/1R3p1k/8/4P1P1/8 w - - 0 1', depth: 4 },
+];
+
+const BACKENDS: MoveGeneratorBackend[] = ['array', 'bitboard'];
+const RUNS = 3;
+const GENERATIONS = 2000;
+
+/**
+ * Time a task, keeping the fastest of several runs after a warm-up run
+ */
+function fastest(task: () => void): number {
+  task();
+
+  let best = Infinity;
+  for (let run = 0; run < RUNS; run++) {
+    const start = performance.now();
+    task();
+    best = Math.min(best, performance.now() - start);
+  }
+  return best;
+}
+
+function benchmark() {
+  console.log('⏱️  Move Generation Backend Benchmark\n');
+
+  for (const { name, fen, depth } of POSITIONS) {
+    console.log(`${name} (${fen})`);
+
+    const generation: Record<string, number> = {};
+    const search: Record<string, number> = {};
+
+    for (const backend of BACKENDS) {
+      const game = new Game({ fen, backend });
+      let nodes = 0;
+
+      generation[backend] = fastest(() => {
+        for (let i = 0; i < GENERATIONS; i++) {
+          game.getLegalMoves();
+        }
+      });
+      search[backend] = fastest(() => {
+        nodes = perft(game, depth).nodes;
+      });
+
+      console.log(
+        `  ${backend.padEnd(8)} getLegalMoves x${GENERATIONS}: ${generation[backend].toFixed(0)}ms, ` +
+          `perft(${depth}) ${nodes.toLocaleString()} nodes: ${search[backend].toFixed(0)}ms`
+      );
+    }
+
+    const generationSpeedup = (generation.array ?? 0) / (generation.bitboard ?? 1);
+    const searchSpeedup = (search.array ?? 0) / (search.bitboard ?? 1);
+    console.log(
+      `  bitboard speedup: ${generationSpeedup.toFixed(1)}x move generation, ` +
+        `${searchSpeedup.toFixed(1)}x perft\n`
+    );
+  }
+}
+
+benchmark();
@@ -0,0 +1,150 @@
+/**
+ * EPD Test Suites
+ *
+ * Runs an AI engine over the positions of an EPD test suite (WAC, STS,
+ * Bratko-Kopec, ...) and checks the move it chooses in each against the bm
+ * (best moves) and am (moves to avoid) operations, so engine regressions
+ * show up as a falling pass count.
+ *
+ * @module ai/epd-suite
+ */
+
+import type { Fen, Move, MoveOptions } from '@/types/index';
+import { Game } from '../engine/game';
+import { EpdParser } from '../engine/epd';
+import type { EpdRecord } from '../engine/epd';
+import type { AIEngine } from './engine';
+
+/**
+ * Result of one position of a test suite
+ */
+export interface EpdTestResult {
+  id: string | null; // id operation, if any
+  fen: Fen;
+  bestMoves: string[]; // bm operands
+  avoidMoves: string[]; // am operands
+  move: string; // SAN of the move the engine chose
+  passed: boolean;
+  score: number; // Centipawns for the side to move
+  depth: number;
+  nodesEvaluated: number;
+  thinkingTime: number; // Milliseconds
+  epd: string; // The record with the engine's acd, ce and pv operations
+}
+
+/**
+ * Result of a test suite
+ */
+export interface EpdSuiteResult {
+  results: EpdTestResult[];
+  passed: number;
+  failed: number;
+  total: number;
+}
+
+/**
+ * Run an engine over an EPD test suite
+ *
+ * Records without bm or am operations are not tests and are skipped. A
+ * position passes if the engine chooses one of the best moves, when given,
+ * and none of the moves to avoid.
+ *
+ * @param engine - AI engine to test
+ * @param suite - EPD records, or the text of an EPD file
+ * @returns Result of each position and the totals
+ * @throws InvalidEpdError if the suite text is malformed
+ */
+export async function runEpdSuite(
+  engine: AIEngine,
+  suite: EpdRecord[] | string
+): Promise<EpdSuiteResult> {
+  const records = typeof suite === 'string' ? EpdParser.parseAll(suite) : suite;
+  const results: EpdTestResult[] = [];
+
+  for (const record of records) {
+    const bestMoves = record.operations['bm'] ?? [];
+    const avoidMoves = record.operations['am'] ?? [];
+    if (bestMoves.length === 0 && avoidMoves.length === 0) continue;
+
+    results.push(await runEpdTest(engine, record, bestMoves, avoidMoves));
+  }
+
+  const passed = results.filter((result) => result.passed).length;
+  return { results, passed, failed: results.length - passed, total: results.length };
+}
+
+/**
+ * Let the engine choose a move in one position and check it
+ */
+async function runEpdTest(
+  engine: AIEngine,
+  record: EpdRecord,
+  bestMoves: string[],
+  avoidMoves: string[]
+): Promise<EpdTestResult> {
+  const game = new Game({ fen: record.fen });
+  const analysis = await engine.analyze(game);
+  const chosen = analysis.bestMove;
+
+  // Suites write SAN in different styles, so compare the moves themselves
+  const isChosen = (san: string): boolean => {
+    const { move } = game.parseMove(san);
+    return move !== undefined && isSameMove(move, chosen);
+  };
+  const passed = (bestMoves.length === 0 || bestMoves.some(isChosen)) && !avoidMoves.some(isChosen);
+
+  // Engine scores are from white's point of view, ce from the side to move's
+  const score = game.getTurn() === 'white' ? analysis.score : -analysis.score;
+  const pv = toSan(record.fen, analysis.principalVariation ?? [chosen]);
+
+  return {
+    id: record.operations['id']?.[0] ?? null,
+    fen: record.fen,
+    bestMoves,
+    avoidMoves,
+    move: toSan(record.fen, [chosen])[0] ?? `${chosen.from}${chosen.to}`,
+    passed,
+    score,
+    depth: analysis.depth,
+    nodesEvaluated: analysis.nodesEvaluated,
+    thinkingTime: analysis.thinkingTime,
+    epd: EpdParser.generate(record.fen, {
+      ...record.operations,
+      acd: [String(analysis.depth)],
+      ce: [String(score)],
+      pv,
+    }),
+  };
+}
+
+/**
+ * Check if move options describe a move
+ */
+function isSameMove(options: MoveOptions, move: Move): boolean {
+  return (
+    options.from === move.from && options.to === move.to && options.promotion === move.promotion
+  );
+}
+
+/**
+ * Write a line of moves from a position in SAN
+ *
+ * Stops at the first move that cannot be played.
+ */
+function toSan(fen: Fen, moves: Move[]): string[] {
+  const game = new Game({ fen });
+  const line: string[] = [];
+
+  for (const move of moves) {
+    const played = game.move({
+      from: move.from,
+      to: move.to,
+      ...(move.promotion && { promotion: move.promotion }),
+      ...(move.drop && { drop: move.drop }),
+    });
+    if (!played?.san) break;
+    line.push(played.san);
+  }
+
+  return line;
+}
@@ -14,6 +14,10 @@ export { MinimaxAI } from './minimax';
 export { OpeningBook, createDefaultOpeningBook, loadOpeningBookFromFile } from './opening-book';
 export type { OpeningMove, OpeningBookConfig, OpeningBookData } from './opening-book';
 
+// Export EPD test suite runner
+export { runEpdSuite } from './epd-suite';
+export type { EpdTestResult, EpdSuiteResult } from './epd-suite';
+
 // Export engine types and interfaces
 export type { AIEngine, AIConfig, AIDifficulty, AIAnalysis, MoveEvaluation } from './engine';
 
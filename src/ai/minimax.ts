@@ -11,6 +11,7 @@ import type { Move } from '@/types/index';
 import type { Game } from '@/engine/game';
 import type { AIEngine, AIConfig, AIAnalysis, MoveEvaluation } from './engine';
 import { mergeConfig } from './engine';
+import { EngineError, IllegalMoveError } from '../utils/errors';
 import { evaluateBoard } from './evaluation';
 import type { OpeningBook } from './opening-book';
 
@@ -23,6 +24,18 @@ interface SearchStats {
   maxDepthReached: number;
 }
 
+/**
+ * Transposition table entry
+ *
+ * Scores are stored from white's perspective together with the kind of
+ * bound the alpha-beta window produced for them.
+ */
+interface TranspositionEntry {
+  depth: number;
+  score: number;
+  bound: 'exact' | 'lower' | 'upper';
+}
+
 /**
  * Minimax AI Engine
  *
@@ -41,6 +54,9 @@ export class MinimaxAI implements AIEngine {
     maxDepthReached: 0,
   };
 
+  // Search results keyed by Zobrist hash, cleared before every search
+  private transpositionTable: Map<bigint, TranspositionEntry> = new Map();
+
   /**
    * Create a new Minimax AI engine
    *
@@ -81,8 +97,8 @@ export class MinimaxAI implements AIEngine {
   public async analyze(game: Game): Promise<AIAnalysis> {
     const startTime = Date.now();
 
-    // Check opening book first (if available)
-    if (this.openingBook) {
+    // Check opening book first (if available); its lines are standard chess
+    if (this.openingBook && game.getVariant() === 'standard') {
       const bookMove = this.openingBook.getMove(game);
       if (bookMove) {
         // Convert the opening book move notation to a Move object
@@ -109,10 +125,11 @@ export class MinimaxAI implements AIEngine {
       pruneCount: 0,
       maxDepthReached: 0,
     };
+    this.transpositionTable.clear();
 
     const legalMoves = game.getLegalMoves();
     if (legalMoves.length === 0) {
-      throw new Error('No legal moves available');
+      throw new EngineError('No legal moves available', 'NO_LEGAL_MOVES', { fen: game.getFen() });
     }
 
     // Only one legal move? Return it immediately
@@ -132,13 +149,10 @@ export class MinimaxAI implements AIEngine {
 
     // Evaluate each legal move
     for (const move of legalMoves) {
-      // Make the move
-      const gameCopy = this.cloneGame(game);
-      gameCopy.move(move);
-
-      // Search deeper from this position
-      const score = this.minimax(
-        gameCopy,
+      // Search deeper from the position after the move
+      const score = this.searchMove(
+        game,
+        move,
         this.config.maxDepth - 1,
         -Infinity,
         Infinity,
@@ -216,36 +230,61 @@ export class MinimaxAI implements AIEngine {
     this.stats.nodesEvaluated++;
     this.stats.maxDepthReached = Math.max(this.stats.maxDepthReached, this.config.maxDepth - depth);
 
+    // Repetitions and the fifty-move rule are draws; the search shares the
+    // game's position history, so repeating an earlier position counts too
+    if (game.getRepetitionCount() >= 2 || game.getHalfMoveClock() >= 100) {
+      return 0;
+    }
+
+    // Variant-specific endings (e.g. King of the Hill) score like checkmate
+    const outcome = game.getVariantOutcome();
+    if (outcome) {
+      if (!outcome.winner) return 0;
+      const ply = this.config.maxDepth - depth;
+      return outcome.winner === 'white' ? 10000 - ply : -10000 + ply;
+    }
+
+    // Reuse results for positions already searched at least as deeply
+    const hash = game.getHash();
+    const cached = this.transpositionTable.get(hash);
+    if (cached && cached.depth >= depth) {
+      if (cached.bound === 'exact') {
+        return cached.score;
+      }
+      if (cached.bound === 'lower') {
+        alpha = Math.max(alpha, cached.score);
+      } else {
+        beta = Math.min(beta, cached.score);
+      }
+      if (beta <= alpha) {
+        return cached.score;
+      }
+    }
+    const originalAlpha = alpha;
+    const originalBeta = beta;
+
     // Terminal conditions
-    const status = game.getStatus();
-    if (status === 'checkmate') {
+    const legalMoves = game.getLegalMoves();
+    if (legalMoves.length === 0) {
+      if (!game.isInCheck()) {
+        return 0; // Stalemate is neutral
+      }
       // Checkmate is very bad/good depending on side
       return maximizingPlayer
         ? -10000 + (this.config.maxDepth - depth)
         : 10000 - (this.config.maxDepth - depth);
     }
-    if (status === 'stalemate' || status === 'draw') {
-      return 0; // Draw is neutral
-    }
 
     // Depth limit reached or time up
     if (depth === 0 || Date.now() - startTime > this.config.maxThinkingTime) {
       return evaluateBoard(game.getBoard(), 'white');
     }
 
-    const legalMoves = game.getLegalMoves();
-    if (legalMoves.length === 0) {
-      return 0; // No moves (shouldn't happen, but defensive)
-    }
-
     if (maximizingPlayer) {
       let maxEval = -Infinity;
 
       for (const move of legalMoves) {
-        const gameCopy = this.cloneGame(game);
-        gameCopy.move(move);
-
-        const evaluation = this.minimax(gameCopy, depth - 1, alpha, beta, false, startTime);
+        const evaluation = this.searchMove(game, move, depth - 1, alpha, beta, false, startTime);
 
         maxEval = Math.max(maxEval, evaluation);
         alpha = Math.max(alpha, evaluation);
@@ -262,15 +301,13 @@ export class MinimaxAI implements AIEngine {
         }
       }
 
+      this.storeTransposition(hash, depth, maxEval, originalAlpha, originalBeta, startTime);
       return maxEval;
     } else {
       let minEval = Infinity;
 
       for (const move of legalMoves) {
-        const gameCopy = this.cloneGame(game);
-        gameCopy.move(move);
-
-        const evaluation = this.minimax(gameCopy, depth - 1, alpha, beta, true, startTime);
+        const evaluation = this.searchMove(game, move, depth - 1, alpha, beta, true, startTime);
 
         minEval = Math.min(minEval, evaluation);
         beta = Math.min(beta, evaluation);
@@ -287,10 +324,46 @@ export class MinimaxAI implements AIEngine {
         }
       }
 
+      this.storeTransposition(hash, depth, minEval, originalAlpha, originalBeta, startTime);
       return minEval;
     }
   }
 
+  /**
+   * Store a search result in the transposition table
+   *
+   * Results from searches interrupted by the time limit are incomplete
+   * and are not stored.
+   *
+   * @param hash - Position hash
+   * @param depth - Remaining depth the score was searched to
+   * @param score - Search result
+   * @param alpha - Alpha value the node was searched with
+   * @param beta - Beta value the node was searched with
+   * @param startTime - Search start time for time management
+   */
+  private storeTransposition(
+    hash: bigint,
+    depth: number,
+    score: number,
+    alpha: number,
+    beta: number,
+    startTime: number
+  ): void {
+    if (Date.now() - startTime > this.config.maxThinkingTime) {
+      return;
+    }
+
+    let bound: TranspositionEntry['bound'] = 'exact';
+    if (score <= alpha) {
+      bound = 'upper';
+    } else if (score >= beta) {
+      bound = 'lower';
+    }
+
+    this.transpositionTable.set(hash, { depth, score, bound });
+  }
+
   /**
    * Evaluate a specific move
    *
@@ -299,12 +372,23 @@ export class MinimaxAI implements AIEngine {
    * @returns Move evaluation
    */
   public async evaluateMove(game: Game, move: Move): Promise<MoveEvaluation> {
-    const gameCopy = this.cloneGame(game);
-    gameCopy.move(move);
+    const legalMove = game
+      .getLegalMoves()
+      .find(
+        (m) =>
+          m.from === move.from &&
+          m.to === move.to &&
+          m.promotion === move.promotion &&
+          m.drop === move.drop
+      );
+    if (!legalMove) {
+      throw new IllegalMoveError(`Illegal move: ${move.from}${move.to}`, 'illegal_move', move);
+    }
 
     const maximizingPlayer = game.getTurn() !== 'white';
-    const score = this.minimax(
-      gameCopy,
+    const score = this.searchMove(
+      game,
+      legalMove,
       this.config.maxDepth - 1,
       -Infinity,
       Infinity,
@@ -321,21 +405,34 @@ export class MinimaxAI implements AIEngine {
   }
 
   /**
-   * Clone a game state for search
+   * Search the position after a move
    *
-   * Creates a deep copy by exporting to FEN and loading it back.
-   * This ensures complete isolation between search branches.
+   * The move is made on the game itself and always taken back, so the
+   * search needs no copies and sees the full position history.
    *
-   * @param game - Game to clone
-   * @returns Cloned game
+   * @param game - Current game state
+   * @param move - Legal move to search
+   * @param depth - Remaining search depth after the move
+   * @param alpha - Alpha value for pruning
+   * @param beta - Beta value for pruning
+   * @param maximizingPlayer - True if white is to move after the move
+   * @param startTime - Search start time for time management
+   * @returns Score of the resulting position
    */
-  private cloneGame(game: Game): Game {
-    // Clone by creating a new game from FEN string
-    // This avoids circular dependency issues
-    const fen = game.getFen();
-    const GameClass = game.constructor as typeof Game;
-    const cloned = new GameClass();
-    cloned.loadFen(fen);
-    return cloned;
+  private searchMove(
+    game: Game,
+    move: Move,
+    depth: number,
+    alpha: number,
+    beta: number,
+    maximizingPlayer: boolean,
+    startTime: number
+  ): number {
+    game.makeMove(move);
+    try {
+      return this.minimax(game, depth, alpha, beta, maximizingPlayer, startTime);
+    } finally {
+      game.unmakeMove();
+    }
   }
 }
@@ -8,6 +8,8 @@
  */
 
 import type { Game } from '../engine/game.js';
+import { hashFen } from '../engine/zobrist';
+import { OpeningBookError } from '../utils/errors';
 
 /**
  * Represents a single move in the opening book with metadata
@@ -76,7 +78,7 @@ export interface OpeningBookData {
  * ```
  */
 export class OpeningBook {
-  private positions: Map<string, OpeningMove[]> = new Map();
+  private positions: Map<bigint, OpeningMove[]> = new Map();
   private config: Required<OpeningBookConfig>;
   private maxDepth: number = 12;
   private version: string = '1.0.0';
@@ -98,7 +100,12 @@ export class OpeningBook {
   /**
    * Load opening book data from a JSON object
    *
+   * Positions are indexed by Zobrist hash, so FEN keys that describe the
+   * same position (e.g. differing only in an irrelevant en passant square)
+   * share a single entry.
+   *
    * @param data - Opening book data to load
+   * @throws OpeningBookError if a position is not a valid FEN
    */
   public loadData(data: OpeningBookData): void {
     this.version = data.version;
@@ -106,7 +113,12 @@ export class OpeningBook {
     this.positions.clear();
 
     for (const [fen, moves] of Object.entries(data.positions)) {
-      this.positions.set(fen, moves);
+      try {
+        this.positions.set(hashFen(fen), moves);
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        throw new OpeningBookError(`Invalid opening book position '${fen}': ${reason}`, { fen });
+      }
     }
   }
 
@@ -127,11 +139,8 @@ export class OpeningBook {
       return null;
     }
 
-    // Get current position FEN (without move counters for matching)
-    const fen = this.normalizeFEN(game.getFen());
-
     // Lookup moves for this position
-    const moves = this.positions.get(fen);
+    const moves = this.positions.get(game.getHash());
     if (!moves || moves.length === 0) {
       return null;
     }
@@ -153,8 +162,7 @@ export class OpeningBook {
    * @returns True if position is in the book
    */
   public hasPosition(fen: string): boolean {
-    const normalizedFEN = this.normalizeFEN(fen);
-    return this.positions.has(normalizedFEN);
+    return this.positions.has(this.hashPosition(fen));
   }
 
   /**
@@ -164,8 +172,7 @@ export class OpeningBook {
    * @returns Array of opening moves, or empty array if not found
    */
   public getMoves(fen: string): OpeningMove[] {
-    const normalizedFEN = this.normalizeFEN(fen);
-    return this.positions.get(normalizedFEN) ?? [];
+    return this.positions.get(this.hashPosition(fen)) ?? [];
   }
 
   /**
@@ -212,16 +219,18 @@ export class OpeningBook {
   }
 
   /**
-   * Normalize FEN string for consistent lookup
-   * Removes move counters (halfmove and fullmove) which don't affect position
+   * Hash a FEN string for lookup
+   * Move counters (halfmove and fullmove) are optional and don't affect the hash
    *
-   * @param fen - Full FEN string
-   * @returns Normalized FEN string (first 4 fields only)
+   * @param fen - FEN string with 4 or 6 fields
+   * @returns Zobrist hash, or -1 for unparseable FEN (never matches an entry)
    */
-  private normalizeFEN(fen: string): string {
-    const parts = fen.split(' ');
-    // Keep only: board, active color, castling rights, en passant
-    return parts.slice(0, 4).join(' ');
+  private hashPosition(fen: string): bigint {
+    try {
+      return hashFen(fen);
+    } catch {
+      return -1n;
+    }
   }
 
   /**
@@ -254,7 +263,7 @@ export class OpeningBook {
     }
 
     // This should never happen as we filter empty arrays earlier
-    throw new Error('No moves available for selection');
+    throw new OpeningBookError('No moves available for selection');
   }
 }
 
@@ -263,15 +272,26 @@ export class OpeningBook {
  *
  * @param filePath - Path to the JSON file
  * @returns Opening book with loaded data
+ * @throws OpeningBookError if the file cannot be read or holds no positions
  */
 export async function loadOpeningBookFromFile(filePath: string): Promise<OpeningBook> {
   // Dynamic import for Node.js fs module
   const fs = await import('fs/promises');
-  const data = await fs.readFile(filePath, 'utf-8');
-  const bookData = JSON.parse(data) as OpeningBookData;
+  let bookData: Partial<OpeningBookData> | null;
+  try {
+    const data = await fs.readFile(filePath, 'utf-8');
+    bookData = JSON.parse(data) as Partial<OpeningBookData> | null;
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new OpeningBookError(`Cannot read opening book '${filePath}': ${reason}`, { filePath });
+  }
+
+  if (!bookData?.positions || typeof bookData.positions !== 'object') {
+    throw new OpeningBookError(`Invalid opening book '${filePath}': no positions`, { filePath });
+  }
 
   const book = new OpeningBook();
-  book.loadData(bookData);
+  book.loadData(bookData as OpeningBookData);
   return book;
 }
 
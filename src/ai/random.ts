@@ -10,6 +10,7 @@ import type { Move } from '@/types/index';
 import type { Game } from '@/engine/game';
 import type { AIEngine, AIConfig, AIAnalysis, MoveEvaluation } from './engine';
 import { mergeConfig } from './engine';
+import { EngineError } from '../utils/errors';
 
 /**
  * Random AI Engine
@@ -41,7 +42,7 @@ export class RandomAI implements AIEngine {
     const legalMoves = game.getLegalMoves();
 
     if (legalMoves.length === 0) {
-      throw new Error('No legal moves available');
+      throw new EngineError('No legal moves available', 'NO_LEGAL_MOVES', { fen: game.getFen() });
     }
 
     // Simple random selection
@@ -70,7 +71,7 @@ export class RandomAI implements AIEngine {
     const legalMoves = game.getLegalMoves();
 
     if (legalMoves.length === 0) {
-      throw new Error('No legal moves available');
+      throw new EngineError('No legal moves available', 'NO_LEGAL_MOVES', { fen: game.getFen() });
     }
 
     // Pick random move
@@ -12,8 +12,22 @@ import compression from 'compression';
 import { randomUUID } from 'crypto';
 import { Game } from './engine/game';
 import { PgnParser } from './engine/pgn';
+import { FenParser } from './engine/fen';
+import { PositionBuilder } from './engine/position-builder';
+import { formatTimeControl } from './engine/clock';
+import { ChessError, EngineError, GameOverError, OpeningBookError } from './utils/errors';
 import type { AIDifficulty } from './ai/engine';
-import type { Square } from './types';
+import type {
+  Color,
+  FenIssue,
+  GameResultString,
+  GameStatus,
+  Piece,
+  Pin,
+  Square,
+  TerminationReason,
+  XrayAttacker,
+} from './types';
 import { MinimaxAI, createDefaultOpeningBook } from './ai';
 
 // Use crypto.randomUUID instead of uuid package to avoid ESM issues in Jest
@@ -34,11 +48,16 @@ export interface GameResponse {
   turn: 'white' | 'black';
   gameOver: boolean;
   winner: 'white' | 'black' | null;
+  result: GameResultString;
+  termination: TerminationReason | null;
   checkmate: boolean;
   stalemate: boolean;
   check: boolean;
+  status: GameStatus;
   inThreefoldRepetition: boolean;
   inFiftyMoveRule: boolean;
+  canClaimDraw: boolean;
+  clock: ClockState | null;
   moveHistory: MoveRecord[];
   aiEnabled: boolean;
   aiDifficulty: AIDifficulty | null;
@@ -47,6 +66,13 @@ export interface GameResponse {
   updatedAt: string;
 }
 
+export interface ClockState {
+  timeControl: string;
+  white: number; // Milliseconds left
+  black: number;
+  running: 'white' | 'black' | null;
+}
+
 export interface MoveRecord {
   from: string;
   to: string;
@@ -54,13 +80,26 @@ export interface MoveRecord {
   capturedPiece: string | null;
   promotion: string | null;
   san: string;
+  clock: number | null;
   timestamp: string;
 }
 
+export interface AttacksResponse {
+  square?: Square; // Only with ?square=
+  piece?: Piece | null;
+  attackers?: Record<Color, Square[]>;
+  defenders?: Square[]; // Pieces protecting the piece on the square
+  xrayAttackers?: Record<Color, XrayAttacker[]>;
+  checkers: Square[]; // Pieces checking the side to move
+  pins: Record<Color, Pin[]>;
+  discoveredCheckPossible: boolean; // For the side to move
+}
+
 export interface ErrorResponse {
   error: string;
   code: string;
-  details?: string;
+  details?: string | FenIssue[]; // FEN diagnostics for rejected positions
+  candidates?: string[]; // Moves the player may have meant, for rejected moves
   timestamp: string;
 }
 
@@ -138,6 +177,8 @@ export class ApiServer {
     router.post('/games/:id/moves', this.makeMove.bind(this));
     router.get('/games/:id/moves', this.getMoveHistory.bind(this));
     router.post('/games/:id/undo', this.undoMove.bind(this));
+    router.post('/games/:id/redo', this.redoMove.bind(this));
+    router.post('/games/:id/claim-draw', this.claimDraw.bind(this));
 
     // AI Operations
     router.post('/games/:id/ai-move', this.getAIMove.bind(this));
@@ -146,7 +187,9 @@ export class ApiServer {
     // Analysis
     router.get('/games/:id/analysis', this.getAnalysis.bind(this));
     router.get('/games/:id/legal-moves', this.getLegalMoves.bind(this));
+    router.get('/games/:id/attacks', this.getAttacks.bind(this));
     router.post('/games/:id/fen', this.loadFromFEN.bind(this));
+    router.put('/games/:id/board', this.setBoard.bind(this));
     router.get('/games/:id/pgn', this.getPGN.bind(this));
 
     // Mount router
@@ -172,10 +215,12 @@ export class ApiServer {
 
     // Global error handler
     this.app.use((err: Error, _req: Request, res: Response, _next: NextFunction) => {
+      if (err instanceof ChessError) {
+        this.sendError(res, err, err.message, err.code);
+        return;
+      }
       console.error('Server error:', err);
-      res
-        .status(500)
-        .json(this.createErrorResponse('Internal Server Error', 'INTERNAL_ERROR', err.message));
+      this.sendError(res, err, 'Internal Server Error', 'INTERNAL_ERROR');
     });
   }
 
@@ -206,28 +251,49 @@ export class ApiServer {
 
   /**
    * POST /games - Create new game
+   *
+   * A game given as PGN is replayed from its starting position, which its
+   * SetUp and FEN tags may set.
    */
   private createGame(req: Request, res: Response): void {
     try {
-      const { fen, aiEnabled, aiDifficulty, useOpeningBook } = req.body;
+      const { fen, pgn, aiEnabled, aiDifficulty, useOpeningBook, timeControl } = req.body;
 
       // Create game
-      const game = new Game();
-      if (fen) {
-        try {
-          game.loadFen(fen);
-        } catch (error) {
+      let game: Game;
+      if (pgn) {
+        if (fen || timeControl) {
           res
             .status(400)
             .json(
               this.createErrorResponse(
-                'Invalid FEN string',
-                'INVALID_FEN',
-                error instanceof Error ? error.message : 'Unknown error'
+                'A game imported from PGN cannot have a FEN or time control',
+                'INVALID_INPUT'
               )
             );
           return;
         }
+        try {
+          game = PgnParser.loadGameOrThrow(pgn);
+        } catch (error) {
+          this.sendError(res, error, 'Invalid PGN', 'INVALID_PGN', 400);
+          return;
+        }
+      } else {
+        try {
+          game = new Game(timeControl ? { timeControl } : undefined);
+        } catch (error) {
+          this.sendError(res, error, 'Invalid time control', 'INVALID_TIME_CONTROL', 400);
+          return;
+        }
+      }
+      if (fen) {
+        try {
+          game.loadFen(fen);
+        } catch (error) {
+          this.sendError(res, error, 'Invalid FEN string', 'INVALID_FEN', 400);
+          return;
+        }
       }
 
       // Generate ID and store
@@ -240,19 +306,12 @@ export class ApiServer {
         createdAt: new Date(),
         updatedAt: new Date(),
       });
+      this.watchGame(gameId, game);
 
       // Return response
       res.status(201).json(this.gameToResponse(gameId, game));
     } catch (error) {
-      res
-        .status(500)
-        .json(
-          this.createErrorResponse(
-            'Failed to create game',
-            'INTERNAL_ERROR',
-            error instanceof Error ? error.message : 'Unknown error'
-          )
-        );
+      this.sendError(res, error, 'Failed to create game', 'INTERNAL_ERROR');
     }
   }
 
@@ -351,45 +410,48 @@ export class ApiServer {
       return;
     }
 
-    const { from, to, promotion } = req.body;
-    if (!from || !to) {
+    const { from, to, promotion, move: notation, strict } = req.body;
+    if (notation === undefined && (!from || !to)) {
       res
         .status(400)
         .json(
           this.createErrorResponse(
             'Missing required move parameters',
             'INVALID_INPUT',
-            'Both "from" and "to" are required'
+            'Either "move" or both "from" and "to" are required'
           )
         );
       return;
     }
-
-    // Check if game is over
-    if (game.isGameOver()) {
-      res.status(409).json(this.createErrorResponse('Game is already over', 'GAME_OVER'));
-      return;
-    }
-
-    // Make the move
-    const move = game.move({ from, to, promotion });
-    if (!move) {
+    if (notation !== undefined && typeof notation !== 'string') {
       res
         .status(400)
         .json(
           this.createErrorResponse(
-            'Invalid move',
-            'INVALID_MOVE',
-            `Cannot move from ${from} to ${to}`
+            'Invalid move parameter',
+            'INVALID_INPUT',
+            '"move" must be a string'
           )
         );
       return;
     }
 
-    // Update metadata
-    const metadata = this.gameMetadata.get(id);
-    if (metadata) {
-      metadata.updatedAt = new Date();
+    // Make the move. A flag that fell since the last move ends the game, and
+    // the error code tells why any other move was rejected
+    const result =
+      notation !== undefined
+        ? game.tryMove(notation, { strict: strict === true })
+        : game.tryMove({ from, to, promotion });
+    if (!result.valid) {
+      res.status(result.code === 'game_over' ? 409 : 400).json({
+        ...this.createErrorResponse(
+          result.code === 'game_over' ? 'Game is already over' : 'Invalid move',
+          result.code.toUpperCase(),
+          result.error
+        ),
+        ...(result.candidates ? { candidates: result.candidates } : {}),
+      });
+      return;
     }
 
     // Return updated game state
@@ -419,6 +481,7 @@ export class ApiServer {
       capturedPiece: move.captured ? move.captured.type : null,
       promotion: move.promotion ?? null,
       san: move.san ?? '',
+      clock: move.clock ?? null,
       timestamp: new Date().toISOString(),
     }));
 
@@ -426,7 +489,7 @@ export class ApiServer {
   }
 
   /**
-   * POST /games/:id/undo - Undo last move
+   * POST /games/:id/undo - Undo last move (or `count` moves)
    */
   private undoMove(req: Request, res: Response): void {
     const id = req.params['id'];
@@ -441,8 +504,22 @@ export class ApiServer {
       return;
     }
 
-    const undoneMove = game.undo();
-    if (!undoneMove) {
+    const count = this.parseMoveCount(req.body?.count);
+    if (count === null) {
+      res
+        .status(400)
+        .json(
+          this.createErrorResponse(
+            'Invalid move count',
+            'INVALID_INPUT',
+            '"count" must be a positive integer'
+          )
+        );
+      return;
+    }
+
+    const undoneMoves = game.undo(count);
+    if (undoneMoves.length === 0) {
       res
         .status(400)
         .json(
@@ -451,10 +528,100 @@ export class ApiServer {
       return;
     }
 
-    // Update metadata
-    const metadata = this.gameMetadata.get(id);
-    if (metadata) {
-      metadata.updatedAt = new Date();
+    res.json(this.gameToResponse(id, game));
+  }
+
+  /**
+   * POST /games/:id/redo - Redo last undone move (or `count` moves)
+   */
+  private redoMove(req: Request, res: Response): void {
+    const id = req.params['id'];
+    if (!id) {
+      res.status(400).json(this.createErrorResponse('Missing game ID', 'MISSING_ID'));
+      return;
+    }
+
+    const game = this.games.get(id);
+    if (!game) {
+      res.status(404).json(this.createErrorResponse('Game not found', 'GAME_NOT_FOUND'));
+      return;
+    }
+
+    const count = this.parseMoveCount(req.body?.count);
+    if (count === null) {
+      res
+        .status(400)
+        .json(
+          this.createErrorResponse(
+            'Invalid move count',
+            'INVALID_INPUT',
+            '"count" must be a positive integer'
+          )
+        );
+      return;
+    }
+
+    const replayedMoves = game.redo(count);
+    if (replayedMoves.length === 0) {
+      res
+        .status(400)
+        .json(
+          this.createErrorResponse('No moves to redo', 'NO_MOVES', 'The game has no moves to redo')
+        );
+      return;
+    }
+
+    res.json(this.gameToResponse(id, game));
+  }
+
+  /**
+   * POST /games/:id/claim-draw - Claim a draw by threefold repetition or the
+   * fifty-move rule, optionally based on an intended move
+   */
+  private claimDraw(req: Request, res: Response): void {
+    const id = req.params['id'];
+    if (!id) {
+      res.status(400).json(this.createErrorResponse('Missing game ID', 'MISSING_ID'));
+      return;
+    }
+
+    const game = this.games.get(id);
+    if (!game) {
+      res.status(404).json(this.createErrorResponse('Game not found', 'GAME_NOT_FOUND'));
+      return;
+    }
+
+    if (game.isGameOver()) {
+      res.status(409).json(this.createErrorResponse('Game is already over', 'GAME_OVER'));
+      return;
+    }
+
+    const { from, to, promotion } = req.body ?? {};
+    if (Boolean(from) !== Boolean(to)) {
+      res
+        .status(400)
+        .json(
+          this.createErrorResponse(
+            'Incomplete move',
+            'INVALID_INPUT',
+            'A claim based on a move needs both "from" and "to"'
+          )
+        );
+      return;
+    }
+
+    const move = from && to ? { from, to, promotion } : undefined;
+    if (!game.claimDraw(move)) {
+      res
+        .status(400)
+        .json(
+          this.createErrorResponse(
+            'No draw can be claimed',
+            'NO_DRAW_CLAIM',
+            'Neither threefold repetition nor the fifty-move rule applies'
+          )
+        );
+      return;
     }
 
     res.json(this.gameToResponse(id, game));
@@ -533,11 +700,6 @@ export class ApiServer {
         return;
       }
 
-      // Update metadata
-      if (metadata) {
-        metadata.updatedAt = new Date();
-      }
-
       // Return response with AI metrics
       res.json({
         ...this.gameToResponse(id, game),
@@ -552,15 +714,7 @@ export class ApiServer {
         },
       });
     } catch (error) {
-      res
-        .status(500)
-        .json(
-          this.createErrorResponse(
-            'AI move generation failed',
-            'AI_ERROR',
-            error instanceof Error ? error.message : 'Unknown error'
-          )
-        );
+      this.sendError(res, error, 'AI move generation failed', 'AI_ERROR');
     }
   }
 
@@ -654,15 +808,7 @@ export class ApiServer {
         },
       });
     } catch (error) {
-      res
-        .status(500)
-        .json(
-          this.createErrorResponse(
-            'AI hint generation failed',
-            'AI_ERROR',
-            error instanceof Error ? error.message : 'Unknown error'
-          )
-        );
+      this.sendError(res, error, 'AI hint generation failed', 'AI_ERROR');
     }
   }
 
@@ -709,15 +855,7 @@ export class ApiServer {
           .map((move) => move.san ?? `${move.from}-${move.to}`),
       });
     } catch (error) {
-      res
-        .status(500)
-        .json(
-          this.createErrorResponse(
-            'Position analysis failed',
-            'AI_ERROR',
-            error instanceof Error ? error.message : 'Unknown error'
-          )
-        );
+      this.sendError(res, error, 'Position analysis failed', 'AI_ERROR');
     }
   }
 
@@ -757,6 +895,61 @@ export class ApiServer {
     res.json({ moves: legalMoves });
   }
 
+  /**
+   * GET /games/:id/attacks - Get checks, pins and the attacks on a square
+   */
+  private getAttacks(req: Request, res: Response): void {
+    const id = req.params['id'];
+    if (!id) {
+      res.status(400).json(this.createErrorResponse('Missing game ID', 'MISSING_ID'));
+      return;
+    }
+
+    const game = this.games.get(id);
+    if (!game) {
+      res.status(404).json(this.createErrorResponse('Game not found', 'GAME_NOT_FOUND'));
+      return;
+    }
+
+    const response: AttacksResponse = {
+      checkers: game.getCheckers(),
+      pins: { white: game.getPinnedPieces('white'), black: game.getPinnedPieces('black') },
+      discoveredCheckPossible: game.isDiscoveredCheckPossible(),
+    };
+
+    const square = req.query['square'];
+    if (square !== undefined) {
+      if (typeof square !== 'string' || !/^[a-h][1-8]$/.test(square)) {
+        res
+          .status(400)
+          .json(
+            this.createErrorResponse(
+              'Invalid square',
+              'INVALID_SQUARE',
+              `Expected a square such as e4, got '${String(square)}'`
+            )
+          );
+        return;
+      }
+
+      Object.assign(response, {
+        square,
+        piece: game.getBoard().getPiece(square),
+        attackers: {
+          white: game.getAttackers(square, 'white'),
+          black: game.getAttackers(square, 'black'),
+        },
+        defenders: game.getDefenders(square),
+        xrayAttackers: {
+          white: game.getXrayAttackers(square, 'white'),
+          black: game.getXrayAttackers(square, 'black'),
+        },
+      });
+    }
+
+    res.json(response);
+  }
+
   /**
    * POST /games/:id/fen - Load from FEN
    */
@@ -783,26 +976,90 @@ export class ApiServer {
       return;
     }
 
+    const issues = FenParser.diagnose(fen);
+    if (issues.length > 0 && this.requiresLegalPosition(game)) {
+      res.status(400).json(this.createErrorResponse('Invalid FEN string', 'INVALID_FEN', issues));
+      return;
+    }
+
     try {
       game.loadFen(fen);
 
-      // Update metadata
-      const metadata = this.gameMetadata.get(id);
-      if (metadata) {
-        metadata.updatedAt = new Date();
-      }
-
       res.json(this.gameToResponse(id, game));
     } catch (error) {
+      this.sendError(res, error, 'Invalid FEN string', 'INVALID_FEN', 400);
+    }
+  }
+
+  /**
+   * PUT /games/:id/board - Set up a position piece by piece
+   */
+  private setBoard(req: Request, res: Response): void {
+    const id = req.params['id'];
+    if (!id) {
+      res.status(400).json(this.createErrorResponse('Missing game ID', 'MISSING_ID'));
+      return;
+    }
+
+    const game = this.games.get(id);
+    if (!game) {
+      res.status(404).json(this.createErrorResponse('Game not found', 'GAME_NOT_FOUND'));
+      return;
+    }
+
+    const { pieces, turn, castling, enPassant } = req.body;
+    if (typeof pieces !== 'object' || pieces === null || Array.isArray(pieces)) {
+      res
+        .status(400)
+        .json(
+          this.createErrorResponse(
+            'Missing pieces',
+            'INVALID_INPUT',
+            'pieces must map squares to FEN piece letters, e.g. { "e1": "K" }'
+          )
+        );
+      return;
+    }
+    if (turn !== undefined && turn !== 'white' && turn !== 'black') {
       res
         .status(400)
         .json(
           this.createErrorResponse(
-            'Invalid FEN string',
-            'INVALID_FEN',
-            error instanceof Error ? error.message : 'Unknown error'
+            'Invalid turn',
+            'INVALID_INPUT',
+            "turn must be 'white' or 'black'"
           )
         );
+      return;
+    }
+
+    const builder = new PositionBuilder();
+    try {
+      for (const [square, letter] of Object.entries(pieces as Record<string, unknown>)) {
+        builder.put(square as Square, String(letter));
+      }
+      if (turn) builder.setTurn(turn);
+      if (castling !== undefined) builder.setCastling(String(castling));
+      if (enPassant !== undefined) builder.setEnPassant(enPassant);
+    } catch (error) {
+      this.sendError(res, error, 'Invalid position', 'INVALID_INPUT', 400);
+      return;
+    }
+
+    const issues = builder.validate();
+    if (issues.length > 0 && this.requiresLegalPosition(game)) {
+      res
+        .status(400)
+        .json(this.createErrorResponse('Illegal position', 'ILLEGAL_POSITION', issues));
+      return;
+    }
+
+    try {
+      game.loadFen(builder.toFen());
+
+      res.json(this.gameToResponse(id, game));
+    } catch (error) {
+      this.sendError(res, error, 'Invalid position', 'INVALID_FEN', 400);
     }
   }
 
@@ -822,48 +1079,13 @@ export class ApiServer {
       return;
     }
 
-    // Generate PGN from move history
-    const history = game.getHistory();
-    const status = game.getStatus();
-
-    // PGN header
-    let pgn = '[Event "Chess Game"]\n';
-    pgn += `[Date "${new Date().toISOString().split('T')[0]}"]\n`;
-    pgn += '[White "Player"]\n';
-    pgn += '[Black "Player"]\n';
-
-    // Result
-    let result = '*';
-    if (status === 'checkmate') {
-      result = game.getTurn() === 'white' ? '0-1' : '1-0';
-    } else if (
-      status === 'stalemate' ||
-      status === 'fifty_move_rule' ||
-      status === 'threefold_repetition' ||
-      status === 'insufficient_material'
-    ) {
-      result = '1/2-1/2';
-    }
-    pgn += `[Result "${result}"]\n\n`;
-
-    // Moves
-    let moveNumber = 1;
-    for (let i = 0; i < history.length; i++) {
-      const move = history[i];
-      if (!move) continue;
-
-      if (i % 2 === 0) {
-        pgn += `${moveNumber}. `;
-      }
-      pgn += move.san ?? '';
-      if (i % 2 === 1) {
-        pgn += ' ';
-        moveNumber++;
-      } else {
-        pgn += ' ';
-      }
-    }
-    pgn += result;
+    const dateStr = new Date().toISOString().split('T')[0];
+    const pgn = PgnParser.generate(game, {
+      Event: 'Chess Game',
+      Date: dateStr ? dateStr.replace(/-/g, '.') : '????.??.??',
+      White: 'Player',
+      Black: 'Player',
+    });
 
     res.setHeader('Content-Type', 'text/plain');
     res.send(pgn);
@@ -885,6 +1107,8 @@ export class ApiServer {
 
     const status = game.getStatus();
     const turn = game.getTurn();
+    const result = game.getResult();
+    const clock = game.getClock();
 
     // Generate PGN with basic tags
     const dateStr = new Date().toISOString().split('T')[0];
@@ -902,12 +1126,24 @@ export class ApiServer {
       pgn,
       turn,
       gameOver: game.isGameOver(),
-      winner: status === 'checkmate' ? (turn === 'white' ? 'black' : 'white') : null,
+      winner: result.winner,
+      result: result.result,
+      termination: result.termination,
       checkmate: status === 'checkmate',
       stalemate: status === 'stalemate',
       check: game.isInCheck(),
-      inThreefoldRepetition: status === 'threefold_repetition',
-      inFiftyMoveRule: status === 'fifty_move_rule',
+      status,
+      inThreefoldRepetition: game.getRepetitionCount() >= 3,
+      inFiftyMoveRule: game.getHalfMoveClock() >= 100,
+      canClaimDraw: game.canClaimDraw(),
+      clock: clock
+        ? {
+            timeControl: formatTimeControl(clock.getTimeControl()),
+            white: clock.getRemaining('white'),
+            black: clock.getRemaining('black'),
+            running: clock.getRunning(),
+          }
+        : null,
       moveHistory: game.getHistory().map((move) => ({
         from: move.from,
         to: move.to,
@@ -915,6 +1151,7 @@ export class ApiServer {
         capturedPiece: move.captured ? move.captured.type : null,
         promotion: move.promotion ?? null,
         san: move.san ?? '',
+        clock: move.clock ?? null,
         timestamp: new Date().toISOString(),
       })),
       aiEnabled: metadata.aiEnabled,
@@ -925,10 +1162,49 @@ export class ApiServer {
     };
   }
 
+  /**
+   * Keep a game's metadata up to date through its events
+   *
+   * Every change to the game (moves, takebacks, loaded positions and
+   * endings off the board) touches updatedAt, so handlers need not.
+   */
+  private watchGame(id: string, game: Game): void {
+    const touch = (): void => {
+      const metadata = this.gameMetadata.get(id);
+      if (metadata) {
+        metadata.updatedAt = new Date();
+      }
+    };
+
+    game.on('move', touch).on('undo', touch).on('positionLoaded', touch);
+    game.on('gameOver', ({ result }) => {
+      touch();
+      if (process.env['NODE_ENV'] !== 'production') {
+        // eslint-disable-next-line no-console
+        console.log(`Game ${id} over: ${result.result} (${result.termination ?? 'unknown'})`);
+      }
+    });
+  }
+
+  /**
+   * Parse an optional ply count from a request body
+   *
+   * @returns The count (default 1), or null if invalid
+   */
+  private parseMoveCount(value: unknown): number | null {
+    if (value === undefined) return 1;
+    const count = Number(value);
+    return Number.isInteger(count) && count > 0 ? count : null;
+  }
+
   /**
    * Create error response
    */
-  private createErrorResponse(error: string, code: string, details?: string): ErrorResponse {
+  private createErrorResponse(
+    error: string,
+    code: string,
+    details?: string | FenIssue[]
+  ): ErrorResponse {
     return {
       error,
       code,
@@ -937,6 +1213,56 @@ export class ApiServer {
     };
   }
 
+  /**
+   * Check if a game only takes positions that can occur in standard chess
+   *
+   * Other variants have their own rules for kings and pawns.
+   */
+  private requiresLegalPosition(game: Game): boolean {
+    const variant = game.getVariant();
+    return variant === 'standard' || variant === 'chess960';
+  }
+
+  /**
+   * Send the error response for a thrown error
+   *
+   * Errors thrown by the library carry their own code, and their class
+   * decides the HTTP status; other errors use the fallback code and status.
+   */
+  private sendError(
+    res: Response,
+    error: unknown,
+    message: string,
+    fallbackCode: string,
+    fallbackStatus = 500
+  ): void {
+    if (error instanceof ChessError) {
+      res
+        .status(this.getErrorStatus(error))
+        .json(this.createErrorResponse(message, error.code, error.message));
+      return;
+    }
+
+    res
+      .status(fallbackStatus)
+      .json(
+        this.createErrorResponse(
+          message,
+          fallbackCode,
+          error instanceof Error ? error.message : 'Unknown error'
+        )
+      );
+  }
+
+  /**
+   * Get the HTTP status for an error thrown by the library
+   */
+  private getErrorStatus(error: ChessError): number {
+    if (error instanceof GameOverError) return 409;
+    if (error instanceof EngineError || error instanceof OpeningBookError) return 500;
+    return 400;
+  }
+
   // ==================== PUBLIC API ====================
 
   /**
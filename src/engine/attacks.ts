@@ -0,0 +1,226 @@
+/**
+ * Attack Queries
+ *
+ * Which pieces attack, defend, pin or x-ray a square, for teaching tools
+ * and attack overlays. Unlike isSquareUnderAttack() and isKingInCheck(),
+ * these return the squares of the pieces involved.
+ *
+ * @module engine/attacks
+ */
+
+import type { Color, Coordinates, Move, PieceType, Pin, Square, XrayAttacker } from '@/types/index';
+import type { Board } from './board';
+import { getSquareAttackers } from './pieces';
+
+/**
+ * The eight lines out of a square, with the slider that moves along each
+ */
+const LINES: Array<[number, number, 'rook' | 'bishop']> = [
+  [1, 0, 'rook'],
+  [-1, 0, 'rook'],
+  [0, 1, 'rook'],
+  [0, -1, 'rook'],
+  [1, 1, 'bishop'],
+  [1, -1, 'bishop'],
+  [-1, 1, 'bishop'],
+  [-1, -1, 'bishop'],
+];
+
+/**
+ * Get the pieces of a color that attack a square
+ *
+ * @param board - The chess board
+ * @param square - Target square
+ * @param color - Color of the attacking pieces
+ * @returns Squares of the attackers
+ */
+export function getAttackers(board: Board, square: Square, color: Color): Square[] {
+  const coords = board.squareToCoords(square);
+  if (!coords) return [];
+  return toSquares(board, getSquareAttackers(board, coords, color));
+}
+
+/**
+ * Get the pieces that defend the piece on a square
+ *
+ * @param board - The chess board
+ * @param square - Square of the defended piece
+ * @returns Squares of the pieces of the same color attacking the square, empty if it is empty
+ */
+export function getDefenders(board: Board, square: Square): Square[] {
+  const piece = board.getPiece(square);
+  return piece ? getAttackers(board, square, piece.color) : [];
+}
+
+/**
+ * Get the pieces giving check to a king
+ *
+ * @param board - The chess board
+ * @param color - Color of the king
+ * @returns Squares of the checking pieces
+ */
+export function getCheckers(board: Board, color: Color): Square[] {
+  const king = board.findKing(color);
+  return king ? getAttackers(board, king, opposite(color)) : [];
+}
+
+/**
+ * Get the pieces pinned to their king
+ *
+ * @param board - The chess board
+ * @param color - Color of the pinned pieces
+ * @returns Pinned pieces with their pinners and pin rays
+ */
+export function getPinnedPieces(board: Board, color: Color): Pin[] {
+  return findKingLines(board, color, color);
+}
+
+/**
+ * Get the sliding pieces that attack a square through one other piece
+ *
+ * A rook behind a rook on the same file, or a bishop behind a pawn on the
+ * same diagonal, both x-ray the squares beyond.
+ *
+ * @param board - The chess board
+ * @param square - Target square
+ * @param color - Color of the attacking pieces
+ * @returns X-raying pieces with the piece they attack through
+ */
+export function getXrayAttackers(board: Board, square: Square, color: Color): XrayAttacker[] {
+  const coords = board.squareToCoords(square);
+  if (!coords) return [];
+
+  const attackers: XrayAttacker[] = [];
+  for (const [dRow, dCol, slider] of LINES) {
+    const [blocker, behind] = findPiecesAlong(board, coords, dRow, dCol, 2);
+    const piece = behind && board.getPieceAt(behind.row, behind.col);
+    if (blocker && behind && piece?.color === color && slidesAlong(piece.type, slider)) {
+      attackers.push({
+        square: toSquare(board, behind),
+        through: toSquare(board, blocker),
+      });
+    }
+  }
+  return attackers;
+}
+
+/**
+ * Check if a side has a legal move that uncovers check
+ *
+ * That is a move of a piece standing between one of the side's rooks,
+ * bishops or queens and the enemy king, off the line between them.
+ *
+ * @param board - The chess board
+ * @param color - Side to move
+ * @param legalMoves - Legal moves of the side to move
+ * @returns True if a discovered check can be played
+ */
+export function isDiscoveredCheckPossible(
+  board: Board,
+  color: Color,
+  legalMoves: readonly Move[]
+): boolean {
+  // The blockers are the side's own pieces on lines to the enemy king
+  const lines = findKingLines(board, opposite(color), color);
+  return lines.some(({ square, ray }) =>
+    legalMoves.some((move) => move.from === square && !ray.includes(move.to))
+  );
+}
+
+/**
+ * Find the pieces standing alone between a king and an enemy slider
+ *
+ * @param board - The chess board
+ * @param kingColor - Color of the king
+ * @param blockerColor - Color of the pieces in between
+ * @returns Blockers with the slider behind them and the squares from the
+ *   king (exclusive) to the slider (inclusive)
+ */
+function findKingLines(board: Board, kingColor: Color, blockerColor: Color): Pin[] {
+  const kingSquare = board.findKing(kingColor);
+  const king = kingSquare ? board.squareToCoords(kingSquare) : null;
+  if (!king) return [];
+
+  const lines: Pin[] = [];
+  for (const [dRow, dCol, slider] of LINES) {
+    const [blocker, behind] = findPiecesAlong(board, king, dRow, dCol, 2);
+    if (!blocker || !behind) continue;
+
+    const blocking = board.getPieceAt(blocker.row, blocker.col);
+    const attacking = board.getPieceAt(behind.row, behind.col);
+    if (
+      blocking?.color === blockerColor &&
+      attacking?.color === opposite(kingColor) &&
+      slidesAlong(attacking.type, slider)
+    ) {
+      const ray: Square[] = [];
+      let { row, col } = king;
+      do {
+        row += dRow;
+        col += dCol;
+        ray.push(toSquare(board, { row, col }));
+      } while (row !== behind.row || col !== behind.col);
+      lines.push({ square: toSquare(board, blocker), pinner: toSquare(board, behind), ray });
+    }
+  }
+  return lines;
+}
+
+/**
+ * Find the first pieces along a line out of a square
+ *
+ * @param board - The chess board
+ * @param from - Starting square, not included
+ * @param dRow - Row step
+ * @param dCol - Column step
+ * @param count - Number of pieces to find
+ * @returns Coordinates of up to count pieces, nearest first
+ */
+function findPiecesAlong(
+  board: Board,
+  from: Coordinates,
+  dRow: number,
+  dCol: number,
+  count: number
+): Coordinates[] {
+  const found: Coordinates[] = [];
+  let row = from.row + dRow;
+  let col = from.col + dCol;
+
+  while (board.isValidCoords(row, col) && found.length < count) {
+    if (board.getPieceAt(row, col)) {
+      found.push({ row, col });
+    }
+    row += dRow;
+    col += dCol;
+  }
+  return found;
+}
+
+/**
+ * Check if a piece type slides along a rook or bishop line
+ */
+function slidesAlong(type: PieceType, slider: 'rook' | 'bishop'): boolean {
+  return type === slider || type === 'queen';
+}
+
+/**
+ * Convert coordinates on the board to a square
+ */
+function toSquare(board: Board, { row, col }: Coordinates): Square {
+  return board.coordsToSquare(row, col) ?? '';
+}
+
+/**
+ * Convert a list of coordinates to squares
+ */
+function toSquares(board: Board, coords: Coordinates[]): Square[] {
+  return coords.map((coord) => toSquare(board, coord));
+}
+
+/**
+ * Get the other color
+ */
+function opposite(color: Color): Color {
+  return color === 'white' ? 'black' : 'white';
+}
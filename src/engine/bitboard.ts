@@ -0,0 +1,772 @@
+/**
+ * Bitboard Move Generator
+ *
+ * Alternative move generation backend that mirrors the board into 64-bit
+ * BigInt bitboards (bit 0 = a1, bit 63 = h8). Piece attacks come from
+ * precomputed tables, sliding attacks use classical ray lookups, and pins
+ * and checks are resolved with masks instead of cloning the board for every
+ * candidate move.
+ *
+ * @module engine/bitboard
+ */
+
+import type { Move, Square, Color, PieceType, CastlingRights, GameVariant } from '@/types/index';
+import type { Board } from './board';
+import { MoveGenerator } from './moves';
+import type { CastlingSquares } from './moves';
+
+const PAWN = 0;
+const KNIGHT = 1;
+const BISHOP = 2;
+const ROOK = 3;
+const QUEEN = 4;
+const KING = 5;
+
+const PIECE_INDEX: Record<PieceType, number> = {
+  pawn: PAWN,
+  knight: KNIGHT,
+  bishop: BISHOP,
+  rook: ROOK,
+  queen: QUEEN,
+  king: KING,
+};
+
+const PROMOTION_PIECES: readonly PieceType[] = ['queen', 'rook', 'bishop', 'knight'];
+
+const EMPTY = 0n;
+const LOW_WORD = 0xffffffffn;
+
+/**
+ * Ray direction: row/column step and whether square indices increase along it
+ */
+interface RayDirection {
+  dRow: number;
+  dCol: number;
+  positive: boolean;
+  opposite: number;
+}
+
+const DIRECTIONS: readonly RayDirection[] = [
+  { dRow: 1, dCol: 0, positive: true, opposite: 2 }, // North
+  { dRow: 0, dCol: 1, positive: true, opposite: 3 }, // East
+  { dRow: -1, dCol: 0, positive: false, opposite: 0 }, // South
+  { dRow: 0, dCol: -1, positive: false, opposite: 1 }, // West
+  { dRow: 1, dCol: 1, positive: true, opposite: 7 }, // North-east
+  { dRow: 1, dCol: -1, positive: true, opposite: 6 }, // North-west
+  { dRow: -1, dCol: 1, positive: false, opposite: 5 }, // South-east
+  { dRow: -1, dCol: -1, positive: false, opposite: 4 }, // South-west
+];
+
+const ROOK_DIRECTIONS: readonly number[] = [0, 1, 2, 3];
+const BISHOP_DIRECTIONS: readonly number[] = [4, 5, 6, 7];
+
+/**
+ * Legality information shared by all moves of one side
+ */
+interface LegalityContext {
+  king: number; // King square index, or -1 if the side has no king
+  checkers: bigint; // Enemy pieces giving check
+  pinned: bigint; // Own pieces pinned against the king
+}
+
+const SQUARE_BITS: readonly bigint[] = Array.from({ length: 64 }, (_, i) => 1n << BigInt(i));
+const SQUARE_NAMES: readonly Square[] = Array.from(
+  { length: 64 },
+  (_, i) => String.fromCharCode(97 + (i & 7)) + String((i >> 3) + 1)
+);
+
+/**
+ * Build a table of the squares reached by single steps from each square
+ */
+function buildStepTable(steps: ReadonlyArray<readonly [number, number]>): bigint[] {
+  const table: bigint[] = [];
+  for (let sq = 0; sq < 64; sq++) {
+    let bits = EMPTY;
+    for (const [dRow, dCol] of steps) {
+      const row = (sq >> 3) + dRow;
+      const col = (sq & 7) + dCol;
+      if (row >= 0 && row < 8 && col >= 0 && col < 8) {
+        bits |= 1n << BigInt(row * 8 + col);
+      }
+    }
+    table.push(bits);
+  }
+  return table;
+}
+
+/**
+ * Build the ray table for one direction (excluding the origin square)
+ */
+function buildRayTable(direction: RayDirection): bigint[] {
+  const table: bigint[] = [];
+  for (let sq = 0; sq < 64; sq++) {
+    let row = (sq >> 3) + direction.dRow;
+    let col = (sq & 7) + direction.dCol;
+    let bits = EMPTY;
+    while (row >= 0 && row < 8 && col >= 0 && col < 8) {
+      bits |= 1n << BigInt(row * 8 + col);
+      row += direction.dRow;
+      col += direction.dCol;
+    }
+    table.push(bits);
+  }
+  return table;
+}
+
+const KNIGHT_ATTACKS = buildStepTable([
+  [2, 1],
+  [2, -1],
+  [-2, 1],
+  [-2, -1],
+  [1, 2],
+  [1, -2],
+  [-1, 2],
+  [-1, -2],
+]);
+
+const KING_ATTACKS = buildStepTable([
+  [1, 0],
+  [-1, 0],
+  [0, 1],
+  [0, -1],
+  [1, 1],
+  [1, -1],
+  [-1, 1],
+  [-1, -1],
+]);
+
+/** Squares attacked by a pawn of each color standing on a square */
+const PAWN_ATTACKS: Record<Color, bigint[]> = {
+  white: buildStepTable([
+    [1, 1],
+    [1, -1],
+  ]),
+  black: buildStepTable([
+    [-1, 1],
+    [-1, -1],
+  ]),
+};
+
+const RAYS: readonly bigint[][] = DIRECTIONS.map(buildRayTable);
+
+/** Every square a bishop or rook on a square would reach on an empty board */
+const DIAGONAL_RAYS: readonly bigint[] = Array.from({ length: 64 }, (_, sq) =>
+  BISHOP_DIRECTIONS.reduce((bits, dir) => bits | (RAYS[dir]?.[sq] ?? EMPTY), EMPTY)
+);
+const ORTHOGONAL_RAYS: readonly bigint[] = Array.from({ length: 64 }, (_, sq) =>
+  ROOK_DIRECTIONS.reduce((bits, dir) => bits | (RAYS[dir]?.[sq] ?? EMPTY), EMPTY)
+);
+
+/**
+ * Single-bit mask for a square index
+ */
+function bit(sq: number): bigint {
+  return SQUARE_BITS[sq] ?? EMPTY;
+}
+
+/**
+ * Ray from a square in a direction, excluding the square itself
+ */
+function rayFrom(dir: number, sq: number): bigint {
+  return RAYS[dir]?.[sq] ?? EMPTY;
+}
+
+/**
+ * Index of the least significant set bit
+ */
+function lsb(bits: bigint): number {
+  const low = Number(bits & LOW_WORD);
+  if (low !== 0) {
+    return 31 - Math.clz32(low & -low);
+  }
+  const high = Number((bits >> 32n) & LOW_WORD);
+  return 63 - Math.clz32(high & -high);
+}
+
+/**
+ * Index of the most significant set bit
+ */
+function msb(bits: bigint): number {
+  const high = Number((bits >> 32n) & LOW_WORD);
+  if (high !== 0) {
+    return 63 - Math.clz32(high);
+  }
+  return 31 - Math.clz32(Number(bits & LOW_WORD));
+}
+
+/**
+ * Squares strictly between two aligned squares, and the full line through
+ * them, indexed by `a * 64 + b` (empty when the squares are not aligned)
+ */
+const BETWEEN: bigint[] = new Array<bigint>(64 * 64).fill(EMPTY);
+const LINE: bigint[] = new Array<bigint>(64 * 64).fill(EMPTY);
+
+for (let a = 0; a < 64; a++) {
+  DIRECTIONS.forEach((direction, dir) => {
+    const ray = rayFrom(dir, a);
+    const line = ray | rayFrom(direction.opposite, a) | bit(a);
+    let rest = ray;
+    while (rest !== EMPTY) {
+      const b = lsb(rest);
+      rest &= rest - 1n;
+      BETWEEN[a * 64 + b] = ray ^ rayFrom(dir, b) ^ bit(b);
+      LINE[a * 64 + b] = line;
+    }
+  });
+}
+
+/**
+ * Sliding attacks along the given directions, stopping at the first blocker
+ */
+function slidingAttacks(sq: number, occupied: bigint, directions: readonly number[]): bigint {
+  let attacks = EMPTY;
+  for (const dir of directions) {
+    const ray = rayFrom(dir, sq);
+    const blockers = ray & occupied;
+    if (blockers === EMPTY) {
+      attacks |= ray;
+    } else {
+      const first = DIRECTIONS[dir]?.positive ? lsb(blockers) : msb(blockers);
+      attacks |= ray ^ rayFrom(dir, first);
+    }
+  }
+  return attacks;
+}
+
+/**
+ * Get the opposing color
+ */
+function opponent(color: Color): Color {
+  return color === 'white' ? 'black' : 'white';
+}
+
+/**
+ * Bitboard Move Generator class
+ *
+ * Drop-in replacement for {@link MoveGenerator}. The bitboards are updated
+ * lazily from the squares the board reports changed, so the generator stays
+ * valid when the board is edited through the Board API. Locating the castling
+ * king and rook is delegated to the base class.
+ */
+export class BitboardMoveGenerator extends MoveGenerator {
+  /** Piece bitboards indexed by color offset (white 0, black 6) plus piece index */
+  private pieces: bigint[] = [];
+  private colorOccupancy: Record<Color, bigint> = { white: EMPTY, black: EMPTY };
+  private occupied = EMPTY;
+  private mailbox = new Array<number>(64).fill(-1); // Bitboard index per square, -1 if empty
+  private syncedRevision = -1;
+
+  /**
+   * Create a new bitboard move generator
+   *
+   * @param board - The chess board
+   * @param castlingRights - Castling rights for both colors
+   * @param enPassantSquare - Current en passant target square
+   * @param variant - Chess variant (decides how castling moves are encoded)
+   */
+  constructor(
+    board: Board,
+    castlingRights: CastlingRights,
+    enPassantSquare: Square | null = null,
+    variant: GameVariant = 'standard'
+  ) {
+    super(board, castlingRights, enPassantSquare, variant);
+    this.sync();
+  }
+
+  /**
+   * Generate all legal moves for a color
+   *
+   * @param color - Color to generate moves for
+   * @returns Array of legal moves
+   */
+  public override generateLegalMoves(color: Color): Move[] {
+    this.sync();
+
+    const moves: Move[] = [];
+    const context = this.legalityContext(color);
+    let own = this.colorOccupancy[color];
+
+    while (own !== EMPTY) {
+      const sq = lsb(own);
+      own &= own - 1n;
+      this.addMovesFrom(sq, color, context, moves);
+    }
+
+    return moves;
+  }
+
+  /**
+   * Generate legal moves from a specific square
+   *
+   * @param from - Starting square
+   * @param color - Color of the piece
+   * @returns Array of legal moves
+   */
+  public override generateLegalMovesFrom(from: Square, color: Color): Move[] {
+    this.sync();
+
+    const coords = this.board.squareToCoords(from);
+    if (!coords) return [];
+
+    const moves: Move[] = [];
+    this.addMovesFrom(coords.row * 8 + coords.col, color, this.legalityContext(color), moves);
+    return moves;
+  }
+
+  /**
+   * Check if a move is legal (doesn't leave king in check)
+   *
+   * @param from - Starting square
+   * @param to - Destination square
+   * @param color - Color making the move
+   * @returns True if the move is legal
+   */
+  public override isMoveLegal(from: Square, to: Square, color: Color): boolean {
+    this.sync();
+
+    const fromCoords = this.board.squareToCoords(from);
+    const toCoords = this.board.squareToCoords(to);
+    if (!fromCoords || !toCoords) return false;
+
+    return this.leavesKingSafe(
+      fromCoords.row * 8 + fromCoords.col,
+      toCoords.row * 8 + toCoords.col,
+      color
+    );
+  }
+
+  /**
+   * Check if the current player is in check
+   *
+   * @param color - Color to check
+   * @returns True if the color's king is attacked
+   */
+  public override isInCheck(color: Color): boolean {
+    this.sync();
+
+    const kingBits = this.bitsOf(color, KING);
+    if (kingBits === EMPTY) return false;
+    return this.attackersOf(lsb(kingBits), opponent(color), this.occupied) !== EMPTY;
+  }
+
+  /**
+   * Check whether a legal move gives check, without making it
+   *
+   * Castling is left to the caller, as the rook may be the checking piece.
+   *
+   * @param move - Legal move
+   * @param color - Color making the move
+   * @returns True if the move checks the opponent, or null for castling and drops
+   */
+  public override givesCheck(move: Move, color: Color): boolean | null {
+    if (move.castling || move.drop) return null;
+    this.sync();
+
+    const enemyKing = this.bitsOf(opponent(color), KING);
+    if (enemyKing === EMPTY) return false;
+
+    const fromCoords = this.board.squareToCoords(move.from);
+    const toCoords = this.board.squareToCoords(move.to);
+    if (!fromCoords || !toCoords) return null;
+
+    const from = fromCoords.row * 8 + fromCoords.col;
+    const to = toCoords.row * 8 + toCoords.col;
+    const captured = move.enPassant ? fromCoords.row * 8 + toCoords.col : to;
+    const fromBit = bit(from);
+    const toBit = bit(to);
+    const occupied = (this.occupied & ~fromBit & ~bit(captured)) | toBit;
+    const king = lsb(enemyKing);
+
+    // Direct check from the landing square
+    const piece = PIECE_INDEX[move.promotion ?? move.piece.type];
+    if ((this.attacksFrom(to, piece, color, occupied) & enemyKing) !== EMPTY) {
+      return true;
+    }
+
+    // Discovered check, possible only when a vacated square lines up with the king
+    const aligned =
+      (LINE[king * 64 + from] ?? EMPTY) !== EMPTY ||
+      (move.enPassant === true && (LINE[king * 64 + captured] ?? EMPTY) !== EMPTY);
+    return aligned && (this.attackersOf(king, color, occupied) & ~fromBit) !== EMPTY;
+  }
+
+  /**
+   * Check if a position is checkmate
+   *
+   * @param color - Color to check
+   * @returns True if checkmate
+   */
+  public override isCheckmate(color: Color): boolean {
+    this.sync();
+    const context = this.legalityContext(color);
+    return context.checkers !== EMPTY && !this.hasLegalMove(color, context);
+  }
+
+  /**
+   * Check if a position is stalemate
+   *
+   * @param color - Color to check
+   * @returns True if stalemate
+   */
+  public override isStalemate(color: Color): boolean {
+    this.sync();
+    const context = this.legalityContext(color);
+    return context.checkers === EMPTY && !this.hasLegalMove(color, context);
+  }
+
+  /**
+   * Check that a move does not leave the mover's king in check
+   *
+   * Tested on the bitboards instead of a copy of the board, which also
+   * covers en passant captures opening a line to the king.
+   *
+   * @param move - Pseudo-legal move
+   * @param color - Color making the move
+   * @returns True if the king is safe after the move
+   */
+  protected override isKingSafeAfter(move: Move, color: Color): boolean {
+    this.sync();
+
+    const fromCoords = this.board.squareToCoords(move.from);
+    const toCoords = this.board.squareToCoords(move.to);
+    if (!fromCoords || !toCoords) return super.isKingSafeAfter(move, color);
+
+    const from = fromCoords.row * 8 + fromCoords.col;
+    const to = toCoords.row * 8 + toCoords.col;
+    const captured = move.enPassant ? fromCoords.row * 8 + toCoords.col : to;
+    return this.leavesKingSafe(from, to, color, captured);
+  }
+
+  /**
+   * Check the path and attack conditions for castling
+   *
+   * Applies the same rules as the array backend using bitboard attack tests.
+   *
+   * @param color - King color
+   * @param squares - King and rook squares
+   * @returns True if castling is legal
+   */
+  protected override canCastle(color: Color, squares: CastlingSquares): boolean {
+    this.sync();
+
+    const base = squares.row * 8;
+    const kingFrom = base + squares.kingFrom;
+    const rookFrom = base + squares.rookFrom;
+    const kingTo = base + squares.kingTo;
+    const rookTo = base + squares.rookTo;
+    const enemy = opponent(color);
+
+    // Every square the king and rook cross must be empty, apart from themselves
+    const first = Math.min(kingFrom, kingTo, rookFrom, rookTo);
+    const last = Math.max(kingFrom, kingTo, rookFrom, rookTo);
+    for (let sq = first; sq <= last; sq++) {
+      if (sq !== kingFrom && sq !== rookFrom && (this.occupied & bit(sq)) !== EMPTY) {
+        return false;
+      }
+    }
+
+    // King cannot be in check or pass through an attacked square
+    for (let sq = Math.min(kingFrom, kingTo); sq <= Math.max(kingFrom, kingTo); sq++) {
+      if (this.isAttacked(sq, enemy, this.occupied, EMPTY)) {
+        return false;
+      }
+    }
+
+    // The castling rook may have been screening the king's destination
+    const occupied = (this.occupied & ~bit(kingFrom) & ~bit(rookFrom)) | bit(kingTo) | bit(rookTo);
+    return !this.isAttacked(kingTo, enemy, occupied, EMPTY);
+  }
+
+  /**
+   * Bring the bitboards up to date if the board changed since the last sync
+   *
+   * Only the squares changed since then are updated, unless the board no
+   * longer knows which they were.
+   */
+  private sync(): void {
+    const revision = this.board.getRevision();
+    if (revision === this.syncedRevision) return;
+
+    const changes = this.board.getChangesSince(this.syncedRevision);
+    if (changes) {
+      for (const sq of changes) {
+        this.syncSquare(sq);
+      }
+    } else {
+      this.pieces = new Array<bigint>(12).fill(EMPTY);
+      this.colorOccupancy = { white: EMPTY, black: EMPTY };
+      this.mailbox.fill(-1);
+      for (let sq = 0; sq < 64; sq++) {
+        this.syncSquare(sq);
+      }
+    }
+
+    this.occupied = this.colorOccupancy.white | this.colorOccupancy.black;
+    this.syncedRevision = revision;
+  }
+
+  /**
+   * Move the bits of one square to the bitboard of the piece now on it
+   */
+  private syncSquare(sq: number): void {
+    const piece = this.board.getPieceAt(sq >> 3, sq & 7);
+    const index = piece ? this.pieceIndex(piece.color, PIECE_INDEX[piece.type]) : -1;
+    const previous = this.mailbox[sq] ?? -1;
+    // Squares a move changed and its unmaking restored need no update
+    if (index === previous) return;
+
+    const mask = bit(sq);
+    if (previous >= 0) {
+      const clear = ~mask;
+      this.pieces[previous] = (this.pieces[previous] ?? EMPTY) & clear;
+      this.colorOccupancy[previous < 6 ? 'white' : 'black'] &= clear;
+    }
+
+    if (piece) {
+      this.pieces[index] = (this.pieces[index] ?? EMPTY) | mask;
+      this.colorOccupancy[piece.color] |= mask;
+    }
+    this.mailbox[sq] = index;
+  }
+
+  /**
+   * Index into the piece bitboards for a color and piece
+   */
+  private pieceIndex(color: Color, piece: number): number {
+    return color === 'white' ? piece : piece + 6;
+  }
+
+  /**
+   * Get the bitboard for one piece type of a color
+   */
+  private bitsOf(color: Color, piece: number): bigint {
+    return this.pieces[this.pieceIndex(color, piece)] ?? EMPTY;
+  }
+
+  /**
+   * Get the pieces of a color attacking a square
+   *
+   * @param sq - Target square index
+   * @param by - Attacking color
+   * @param occupied - Occupancy to use for sliding pieces
+   */
+  private attackersOf(sq: number, by: Color, occupied: bigint): bigint {
+    let attackers =
+      ((PAWN_ATTACKS[opponent(by)][sq] ?? EMPTY) & this.bitsOf(by, PAWN)) |
+      ((KNIGHT_ATTACKS[sq] ?? EMPTY) & this.bitsOf(by, KNIGHT)) |
+      ((KING_ATTACKS[sq] ?? EMPTY) & this.bitsOf(by, KING));
+
+    // Trace the rays only when a slider stands somewhere on them
+    const queens = this.bitsOf(by, QUEEN);
+    const diagonal = (this.bitsOf(by, BISHOP) | queens) & (DIAGONAL_RAYS[sq] ?? EMPTY);
+    if (diagonal !== EMPTY) {
+      attackers |= slidingAttacks(sq, occupied, BISHOP_DIRECTIONS) & diagonal;
+    }
+    const orthogonal = (this.bitsOf(by, ROOK) | queens) & (ORTHOGONAL_RAYS[sq] ?? EMPTY);
+    if (orthogonal !== EMPTY) {
+      attackers |= slidingAttacks(sq, occupied, ROOK_DIRECTIONS) & orthogonal;
+    }
+    return attackers;
+  }
+
+  /**
+   * Squares a piece on a square attacks
+   *
+   * @param sq - Square index of the piece
+   * @param piece - Piece index
+   * @param color - Color of the piece
+   * @param occupied - Occupancy to use for sliding pieces
+   */
+  private attacksFrom(sq: number, piece: number, color: Color, occupied: bigint): bigint {
+    switch (piece) {
+      case PAWN:
+        return PAWN_ATTACKS[color][sq] ?? EMPTY;
+      case KNIGHT:
+        return KNIGHT_ATTACKS[sq] ?? EMPTY;
+      case BISHOP:
+        return slidingAttacks(sq, occupied, BISHOP_DIRECTIONS);
+      case ROOK:
+        return slidingAttacks(sq, occupied, ROOK_DIRECTIONS);
+      case QUEEN:
+        return (
+          slidingAttacks(sq, occupied, ROOK_DIRECTIONS) |
+          slidingAttacks(sq, occupied, BISHOP_DIRECTIONS)
+        );
+      case KING:
+        return KING_ATTACKS[sq] ?? EMPTY;
+      default:
+        return EMPTY;
+    }
+  }
+
+  /**
+   * Check whether a square is attacked by a color
+   *
+   * @param sq - Target square index
+   * @param by - Attacking color
+   * @param occupied - Occupancy to use for sliding pieces
+   * @param removed - Squares whose pieces should be ignored (captured pieces)
+   */
+  private isAttacked(sq: number, by: Color, occupied: bigint, removed: bigint): boolean {
+    return (this.attackersOf(sq, by, occupied) & ~removed) !== EMPTY;
+  }
+
+  /**
+   * Find the king, checking pieces and pinned pieces of a color
+   */
+  private legalityContext(color: Color): LegalityContext {
+    const kingBits = this.bitsOf(color, KING);
+    if (kingBits === EMPTY) {
+      return { king: -1, checkers: EMPTY, pinned: EMPTY };
+    }
+
+    const king = lsb(kingBits);
+    const enemy = opponent(color);
+    const checkers = this.attackersOf(king, enemy, this.occupied);
+
+    // Enemy sliders that would attack the king through an empty board
+    const queens = this.bitsOf(enemy, QUEEN);
+    let snipers =
+      (slidingAttacks(king, EMPTY, BISHOP_DIRECTIONS) & (this.bitsOf(enemy, BISHOP) | queens)) |
+      (slidingAttacks(king, EMPTY, ROOK_DIRECTIONS) & (this.bitsOf(enemy, ROOK) | queens));
+
+    let pinned = EMPTY;
+    while (snipers !== EMPTY) {
+      const sniper = lsb(snipers);
+      snipers &= snipers - 1n;
+
+      const blockers = (BETWEEN[king * 64 + sniper] ?? EMPTY) & this.occupied;
+      // Exactly one blocker, and it is ours
+      if (blockers !== EMPTY && (blockers & (blockers - 1n)) === EMPTY) {
+        pinned |= blockers & this.colorOccupancy[color];
+      }
+    }
+
+    return { king, checkers, pinned };
+  }
+
+  /**
+   * Check that moving a piece does not leave its own king attacked
+   *
+   * @param from - Square the piece leaves
+   * @param to - Square the piece lands on
+   * @param color - Color of the piece
+   * @param captured - Square of the captured piece, if not the destination (en passant)
+   */
+  private leavesKingSafe(from: number, to: number, color: Color, captured = to): boolean {
+    const king = this.bitsOf(color, KING);
+    if (king === EMPTY) return true;
+
+    const fromBit = bit(from);
+    const toBit = bit(to);
+    const removed = bit(captured);
+    const kingSq = (king & fromBit) !== EMPTY ? to : lsb(king);
+    const occupied = (this.occupied & ~fromBit & ~removed) | toBit;
+    return !this.isAttacked(kingSq, opponent(color), occupied, removed | toBit);
+  }
+
+  /**
+   * Pseudo-legal destination squares for the piece on a square
+   */
+  private targetsFrom(sq: number, piece: number, color: Color): bigint {
+    if (piece === PAWN) {
+      return this.pawnTargets(sq, color);
+    }
+    return this.attacksFrom(sq, piece, color, this.occupied) & ~this.colorOccupancy[color];
+  }
+
+  /**
+   * Pawn pushes and captures (en passant excluded)
+   */
+  private pawnTargets(sq: number, color: Color): bigint {
+    const enemy = this.colorOccupancy[opponent(color)];
+    let targets = (PAWN_ATTACKS[color][sq] ?? EMPTY) & enemy;
+
+    const step = color === 'white' ? 8 : -8;
+    const single = sq + step;
+    if (single < 0 || single > 63 || (this.occupied & bit(single)) !== EMPTY) {
+      return targets;
+    }
+    targets |= bit(single);
+
+    const startRow = color === 'white' ? 1 : 6;
+    if (sq >> 3 === startRow && (this.occupied & bit(single + step)) === EMPTY) {
+      targets |= bit(single + step);
+    }
+
+    return targets;
+  }
+
+  /**
+   * Append the legal moves of the piece on a square
+   */
+  private addMovesFrom(sq: number, color: Color, context: LegalityContext, moves: Move[]): void {
+    const boardPiece = this.board.getPieceAt(sq >> 3, sq & 7);
+    if (boardPiece?.color !== color) return;
+
+    const piece = PIECE_INDEX[boardPiece.type];
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    const from = SQUARE_NAMES[sq]!;
+    let targets = this.targetsFrom(sq, piece, color);
+
+    // King moves and evasions are verified individually; a pinned piece
+    // may only move along the line through its king and the pinner
+    const verify = piece === KING || context.checkers !== EMPTY;
+    if (!verify && (context.pinned & bit(sq)) !== EMPTY) {
+      targets &= LINE[context.king * 64 + sq] ?? EMPTY;
+    }
+
+    while (targets !== EMPTY) {
+      const to = lsb(targets);
+      targets &= targets - 1n;
+
+      if (verify && !this.leavesKingSafe(sq, to, color)) continue;
+
+      const captured = this.board.getPieceAt(to >> 3, to & 7);
+      const move: Move = {
+        from,
+        // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+        to: SQUARE_NAMES[to]!,
+        piece: boardPiece,
+        captured: captured ?? undefined,
+      };
+
+      if (piece === PAWN && this.isPawnPromotionRank(to >> 3, color)) {
+        for (const promotion of PROMOTION_PIECES) {
+          moves.push({ ...move, promotion });
+        }
+      } else {
+        moves.push(move);
+      }
+    }
+
+    if (piece === PAWN && this.enPassantSquare) {
+      const enPassantMove = this.getEnPassantMove(from, color);
+      if (enPassantMove) {
+        moves.push(enPassantMove);
+      }
+    }
+
+    if (piece === KING) {
+      moves.push(...this.getCastlingMoves(color));
+    }
+  }
+
+  /**
+   * Check whether a color has at least one legal move
+   */
+  private hasLegalMove(color: Color, context: LegalityContext): boolean {
+    const moves: Move[] = [];
+    let own = this.colorOccupancy[color];
+
+    while (own !== EMPTY) {
+      const sq = lsb(own);
+      own &= own - 1n;
+      this.addMovesFrom(sq, color, context, moves);
+      if (moves.length > 0) return true;
+    }
+
+    return false;
+  }
+}
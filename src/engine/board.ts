@@ -8,6 +8,17 @@
 
 import type { Piece, Color, PieceType, Square, Coordinates } from '@/types/index';
 
+/**
+ * Most changed squares remembered before the change log starts over
+ */
+const MAX_CHANGES = 64;
+
+/**
+ * Character codes of the first file and rank letters
+ */
+const FILE_A = 'a'.charCodeAt(0);
+const RANK_1 = '1'.charCodeAt(0);
+
 /**
  * Chess Board class
  *
@@ -16,6 +27,9 @@ import type { Piece, Color, PieceType, Square, Coordinates } from '@/types/index
  */
 export class Board {
   private board: (Piece | null)[][];
+  private revision = 0; // Incremented on every change, lets caches detect edits
+  private changes: number[] = []; // Squares (row * 8 + col) changed since changesFrom
+  private changesFrom = 0; // Revision the change log starts at
 
   /**
    * Create a new board
@@ -43,6 +57,7 @@ export class Board {
    */
   public setupStartingPosition(): void {
     this.board = this.createEmptyBoard();
+    this.restartChanges();
 
     // Set up pawns
     for (let col = 0; col < 8; col++) {
@@ -117,6 +132,7 @@ export class Board {
     if (!coords) return;
     // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
     this.board[coords.row]![coords.col] = piece;
+    this.recordChange(coords.row * 8 + coords.col);
   }
 
   /**
@@ -137,6 +153,7 @@ export class Board {
       return;
     // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
     this.board[row]![col] = piece;
+    this.recordChange(row * 8 + col);
   }
 
   /**
@@ -168,13 +185,10 @@ export class Board {
   public squareToCoords(square: Square): Coordinates | null {
     if (!square?.length || square.length !== 2) return null;
 
-    const file = square.charAt(0);
-    const rank = square.charAt(1);
-
-    const col = file.charCodeAt(0) - 'a'.charCodeAt(0);
-    const row = parseInt(rank, 10) - 1;
+    const col = square.charCodeAt(0) - FILE_A;
+    const row = square.charCodeAt(1) - RANK_1;
 
-    if (col < 0 || col > 7 || row < 0 || row > 7 || isNaN(row)) {
+    if (col < 0 || col > 7 || row < 0 || row > 7) {
       return null;
     }
 
@@ -269,6 +283,59 @@ export class Board {
    */
   public clear(): void {
     this.board = this.createEmptyBoard();
+    this.restartChanges();
+  }
+
+  /**
+   * Get the board revision
+   *
+   * The revision changes whenever a piece is placed, moved or removed
+   * through the Board API, so derived data can tell when it is stale.
+   * Direct edits to the array returned by getBoard() are not tracked.
+   *
+   * @returns Revision counter
+   */
+  public getRevision(): number {
+    return this.revision;
+  }
+
+  /**
+   * Get the squares changed since a revision
+   *
+   * Lets derived data be updated square by square instead of rebuilt.
+   * Only the most recent changes are remembered.
+   *
+   * @param revision - Revision the derived data was last synced at
+   * @returns Changed squares as row * 8 + col, in the order they changed, or
+   *   null if they are no longer known and everything must be rebuilt
+   */
+  public getChangesSince(revision: number): number[] | null {
+    if (revision < this.changesFrom || revision > this.revision) {
+      return null;
+    }
+    return this.changes.slice(revision - this.changesFrom);
+  }
+
+  /**
+   * Record a change to one square
+   */
+  private recordChange(square: number): void {
+    this.revision++;
+    if (this.changes.length < MAX_CHANGES) {
+      this.changes.push(square);
+    } else {
+      this.changes = [];
+      this.changesFrom = this.revision;
+    }
+  }
+
+  /**
+   * Record a change to the whole board, forgetting the changed squares
+   */
+  private restartChanges(): void {
+    this.revision++;
+    this.changes = [];
+    this.changesFrom = this.revision;
   }
 
   /**
@@ -0,0 +1,88 @@
+/**
+ * Castling Geometry
+ *
+ * Rook files and destination squares for castling. In standard chess the
+ * castling rooks start on the a- and h-files; Chess960 positions record the
+ * rook files in the castling rights. Wherever the king and rook start, they
+ * always end on the same squares: g- and f-file for kingside castling,
+ * c- and d-file for queenside castling.
+ *
+ * @module engine/castling
+ */
+
+import type { CastlingRights, CastlingSide, Color, File } from '@/types/index';
+
+/**
+ * Castling right names
+ */
+export type CastlingRightKey =
+  'whiteKingside' | 'whiteQueenside' | 'blackKingside' | 'blackQueenside';
+
+/**
+ * Both castling sides, kingside first
+ */
+export const CASTLING_SIDES: readonly CastlingSide[] = ['kingside', 'queenside'];
+
+/**
+ * Destination file index of the king after castling
+ */
+export const KING_CASTLING_FILE: Record<CastlingSide, number> = { kingside: 6, queenside: 2 };
+
+/**
+ * Destination file index of the rook after castling
+ */
+export const ROOK_CASTLING_FILE: Record<CastlingSide, number> = { kingside: 5, queenside: 3 };
+
+/**
+ * Get the castling right name for a color and side
+ *
+ * @param color - Castling color
+ * @param side - Castling side
+ * @returns Key into CastlingRights
+ */
+export function getCastlingRightKey(color: Color, side: CastlingSide): CastlingRightKey {
+  if (color === 'white') {
+    return side === 'kingside' ? 'whiteKingside' : 'whiteQueenside';
+  }
+  return side === 'kingside' ? 'blackKingside' : 'blackQueenside';
+}
+
+/**
+ * Get the back rank row index of a color
+ *
+ * @param color - Piece color
+ * @returns 0 for white, 7 for black
+ */
+export function getBackRank(color: Color): number {
+  return color === 'white' ? 0 : 7;
+}
+
+/**
+ * Get the starting file of the rook a castling right refers to
+ *
+ * @param rights - Castling rights (with optional Chess960 rook files)
+ * @param color - Castling color
+ * @param side - Castling side
+ * @returns File index (0-7)
+ */
+export function getCastlingRookFile(
+  rights: CastlingRights,
+  color: Color,
+  side: CastlingSide
+): number {
+  const file = rights.rookFiles?.[getCastlingRightKey(color, side)];
+  if (file) {
+    return file.charCodeAt(0) - 'a'.charCodeAt(0);
+  }
+  return side === 'kingside' ? 7 : 0;
+}
+
+/**
+ * Convert a file index to its letter
+ *
+ * @param col - File index (0-7)
+ * @returns File letter
+ */
+export function fileLetter(col: number): File {
+  return String.fromCharCode('a'.charCodeAt(0) + col) as File;
+}
@@ -0,0 +1,116 @@
+/**
+ * Chess960 (Fischer Random) Starting Positions
+ *
+ * Generates the 960 starting positions from their standard index using
+ * Scharnagl's numbering, in which position 518 is the classical setup.
+ *
+ * @module engine/chess960
+ */
+
+import type { Fen } from '@/types/index';
+import { ChessError } from '../utils/errors';
+
+/**
+ * Number of Chess960 starting positions
+ */
+export const CHESS960_POSITION_COUNT = 960;
+
+/**
+ * Index of the classical starting position
+ */
+export const CHESS960_STANDARD_INDEX = 518;
+
+/**
+ * Knight placements on the five squares left after bishops and queen
+ */
+const KNIGHT_PLACEMENTS: ReadonlyArray<readonly [number, number]> = [
+  [0, 1],
+  [0, 2],
+  [0, 3],
+  [0, 4],
+  [1, 2],
+  [1, 3],
+  [1, 4],
+  [2, 3],
+  [2, 4],
+  [3, 4],
+];
+
+/**
+ * Get white's back rank for a Chess960 position
+ *
+ * @param index - Position index (0-959)
+ * @returns Piece letters from the a-file to the h-file (e.g. "RNBQKBNR")
+ * @throws ChessError if the index is out of range
+ */
+export function getChess960BackRank(index: number): string {
+  if (!Number.isInteger(index) || index < 0 || index >= CHESS960_POSITION_COUNT) {
+    throw new ChessError(`Invalid Chess960 position index: ${index}`, 'INVALID_CHESS960_INDEX', {
+      index,
+    });
+  }
+
+  const rank: (string | null)[] = new Array<string | null>(8).fill(null);
+  let n = index;
+
+  // Light-squared bishop on b, d, f or h; dark-squared bishop on a, c, e or g
+  rank[(n % 4) * 2 + 1] = 'B';
+  n = Math.floor(n / 4);
+  rank[(n % 4) * 2] = 'B';
+  n = Math.floor(n / 4);
+
+  // Queen on one of the six remaining squares
+  const queenSlot = n % 6;
+  n = Math.floor(n / 6);
+  placeOnEmpty(rank, queenSlot, 'Q');
+
+  // Knights on two of the five remaining squares (the second index shifts
+  // down by one once the first knight is placed)
+  // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+  const [first, second] = KNIGHT_PLACEMENTS[n]!;
+  placeOnEmpty(rank, first, 'N');
+  placeOnEmpty(rank, second - 1, 'N');
+
+  // Rook, king, rook on the last three squares, left to right
+  placeOnEmpty(rank, 0, 'R');
+  placeOnEmpty(rank, 0, 'K');
+  placeOnEmpty(rank, 0, 'R');
+
+  return rank.join('');
+}
+
+/**
+ * Get the FEN of a Chess960 starting position
+ *
+ * @param index - Position index (0-959)
+ * @returns FEN with full castling rights in X-FEN notation
+ * @throws ChessError if the index is out of range
+ */
+export function getChess960Fen(index: number): Fen {
+  const white = getChess960BackRank(index);
+  return `${white.toLowerCase()}/pppppppp/8/8/8/8/PPPPPPPP/${white} w KQkq - 0 1`;
+}
+
+/**
+ * Pick a random Chess960 position index
+ *
+ * @returns Position index (0-959)
+ */
+export function randomChess960Index(): number {
+  return Math.floor(Math.random() * CHESS960_POSITION_COUNT);
+}
+
+/**
+ * Place a piece on the n-th empty square of a rank
+ */
+function placeOnEmpty(rank: (string | null)[], slot: number, piece: string): void {
+  let remaining = slot;
+  for (let i = 0; i < rank.length; i++) {
+    if (rank[i] !== null) continue;
+    if (remaining === 0) {
+      rank[i] = piece;
+      return;
+    }
+    remaining--;
+  }
+}
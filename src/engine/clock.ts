@@ -0,0 +1,390 @@
+/**
+ * Chess Clock
+ *
+ * Keeps the thinking time of both players under a time control: sudden
+ * death, Fischer increment, Bronstein delay, simple (US) delay and
+ * multi-period controls such as "40/7200:3600+30". Time controls can be
+ * read from and written in the PGN TimeControl tag format, where times are
+ * given in seconds.
+ *
+ * @module engine/clock
+ */
+
+import type { Color, ClockMode, TimeControl, TimeControlStage } from '@/types/index';
+import { ChessError } from '../utils/errors';
+
+/**
+ * One period of a PGN TimeControl tag: "[moves/]seconds[+increment]"
+ */
+const STAGE_PATTERN = /^(?:(\d+)\/)?(\d+(?:\.\d+)?)(?:\+(\d+(?:\.\d+)?))?$/;
+
+/**
+ * Parse a PGN TimeControl tag
+ *
+ * Periods are separated by colons; a period with a move count is followed
+ * by the next one, and the last period repeats if it has a move count.
+ *
+ * @param value - TimeControl tag value (e.g. "300+3" or "40/7200:3600+30")
+ * @param mode - How the per-move time is applied
+ * @returns Parsed time control
+ * @throws ChessError if the value is not a timed control ("?", "-" or sandclock) or malformed
+ */
+export function parseTimeControl(value: string, mode: ClockMode = 'increment'): TimeControl {
+  const stages: TimeControlStage[] = [];
+
+  for (const period of value.trim().split(':')) {
+    const match = STAGE_PATTERN.exec(period);
+    if (!match) {
+      throw new ChessError(`Invalid time control: '${value}'`, 'INVALID_TIME_CONTROL', { value });
+    }
+
+    const [, moves, seconds, increment] = match;
+    stages.push({
+      ...(moves ? { moves: parseInt(moves, 10) } : {}),
+      time: Math.round(parseFloat(seconds ?? '0') * 1000),
+      increment: Math.round(parseFloat(increment ?? '0') * 1000),
+    });
+  }
+
+  if (stages.some((stage, index) => stage.moves === 0 || (index > 0 && stage.time === 0))) {
+    throw new ChessError(`Invalid time control: '${value}'`, 'INVALID_TIME_CONTROL', { value });
+  }
+
+  return { stages, mode };
+}
+
+/**
+ * Write a time control in the PGN TimeControl tag format
+ *
+ * The clock mode is not part of the format and is left out.
+ *
+ * @param timeControl - Time control to write
+ * @returns Tag value (e.g. "40/7200:3600+30")
+ */
+export function formatTimeControl(timeControl: TimeControl): string {
+  const seconds = (ms: number): string => String(ms / 1000);
+
+  return timeControl.stages
+    .map((stage) => {
+      const moves = stage.moves ? `${stage.moves}/` : '';
+      const increment = stage.increment > 0 ? `+${seconds(stage.increment)}` : '';
+      return `${moves}${seconds(stage.time)}${increment}`;
+    })
+    .join(':');
+}
+
+/**
+ * Format a clock reading for a PGN %clk comment
+ *
+ * @param ms - Time in milliseconds
+ * @returns Time as H:MM:SS, rounded down to whole seconds
+ */
+export function formatClockTime(ms: number): string {
+  const total = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const seconds = total % 60;
+  return `${hours}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+}
+
+/**
+ * Chess clock options
+ */
+export interface ChessClockOptions {
+  mode?: ClockMode; // Used when the time control is given as a string
+  now?: () => number; // Time source in milliseconds, Date.now by default
+}
+
+/**
+ * A player's clock as it was when they pressed it, so the press can be taken back
+ */
+interface ClockPress {
+  color: Color;
+  remaining: number; // Time left at the press, before the increment
+  stageIndex: number;
+  stageMoves: number;
+  running: boolean; // False for the first press, which starts the clock
+}
+
+/**
+ * Chess clock for two players
+ *
+ * The clock of one player runs at a time. press() ends that player's move,
+ * applies the increment or delay and starts the opponent's clock. A flag
+ * falls when the running clock reaches zero; the clock then stops.
+ */
+export class ChessClock {
+  private readonly timeControl: TimeControl;
+  private readonly now: () => number;
+  private remaining: Record<Color, number>; // Time left, not counting the running move
+  private stageIndex: Record<Color, number>; // Current period of each player
+  private stageMoves: Record<Color, number>; // Moves made in the current period
+  private moveCount: Record<Color, number>;
+  private running: Color | null; // Player whose move is being timed
+  private paused: boolean;
+  private moveElapsed: number; // Time used on the running move before the last resume
+  private resumedAt: number; // When the running clock last started counting
+  private flagged: Color | null;
+  private presses: ClockPress[]; // Most recent last, for undoPress()
+
+  /**
+   * Create a new clock
+   *
+   * @param timeControl - Time control, or a PGN TimeControl tag value
+   * @param options - Clock mode for tag values and the time source
+   */
+  constructor(timeControl: TimeControl | string, options: ChessClockOptions = {}) {
+    this.timeControl =
+      typeof timeControl === 'string' ? parseTimeControl(timeControl, options.mode) : timeControl;
+    if (this.timeControl.stages.length === 0) {
+      throw new ChessError('Invalid time control: no periods', 'INVALID_TIME_CONTROL');
+    }
+
+    this.now = options.now ?? Date.now;
+    this.remaining = { white: 0, black: 0 };
+    this.stageIndex = { white: 0, black: 0 };
+    this.stageMoves = { white: 0, black: 0 };
+    this.moveCount = { white: 0, black: 0 };
+    this.running = null;
+    this.paused = false;
+    this.moveElapsed = 0;
+    this.resumedAt = 0;
+    this.flagged = null;
+    this.presses = [];
+    this.reset();
+  }
+
+  /**
+   * Get the time control
+   *
+   * @returns Time control being played
+   */
+  public getTimeControl(): TimeControl {
+    return this.timeControl;
+  }
+
+  /**
+   * Put both clocks back to the start of the first period
+   */
+  public reset(): void {
+    const first = this.getStage(0);
+    this.remaining = { white: first.time, black: first.time };
+    this.stageIndex = { white: 0, black: 0 };
+    this.stageMoves = { white: 0, black: 0 };
+    this.moveCount = { white: 0, black: 0 };
+    this.running = null;
+    this.paused = false;
+    this.moveElapsed = 0;
+    this.flagged = null;
+    this.presses = [];
+  }
+
+  /**
+   * Start a player's clock
+   *
+   * @param color - Player to move
+   */
+  public start(color: Color): void {
+    if (this.flagged) return;
+
+    this.running = color;
+    this.paused = false;
+    this.moveElapsed = 0;
+    this.resumedAt = this.now();
+  }
+
+  /**
+   * End a player's move and start the opponent's clock
+   *
+   * The first press of a clock that has not been started charges no time.
+   *
+   * @param color - Player who just moved
+   * @returns Time left on the player's clock after the move, in milliseconds
+   * @throws ChessError with code CLOCK_OUT_OF_TURN if the other player's clock is running
+   */
+  public press(color: Color): number {
+    if (this.running && this.running !== color) {
+      throw new ChessError(`It is not ${color}'s move on the clock`, 'CLOCK_OUT_OF_TURN', {
+        color,
+        running: this.running,
+      });
+    }
+    this.presses.push({
+      color,
+      remaining: this.getRemaining(color),
+      stageIndex: this.stageIndex[color],
+      stageMoves: this.stageMoves[color],
+      running: this.running !== null,
+    });
+    if (this.getFlagged()) {
+      return this.getRemaining(color);
+    }
+
+    const stage = this.getStage(this.stageIndex[color]);
+    const elapsed = this.running ? this.getMoveElapsed() : 0;
+
+    switch (this.timeControl.mode) {
+      case 'increment':
+        this.remaining[color] += stage.increment - elapsed;
+        break;
+      case 'bronstein':
+        this.remaining[color] += Math.min(elapsed, stage.increment) - elapsed;
+        break;
+      case 'delay':
+        this.remaining[color] -= Math.max(0, elapsed - stage.increment);
+        break;
+    }
+
+    // Completing the moves of a period adds the time of the next one
+    this.moveCount[color]++;
+    this.stageMoves[color]++;
+    if (stage.moves && this.stageMoves[color] >= stage.moves) {
+      const next = Math.min(this.stageIndex[color] + 1, this.timeControl.stages.length - 1);
+      this.stageIndex[color] = next;
+      this.stageMoves[color] = 0;
+      this.remaining[color] += this.getStage(next).time;
+    }
+
+    this.start(color === 'white' ? 'black' : 'white');
+    return this.remaining[color];
+  }
+
+  /**
+   * Take back the last press, e.g. when its move is undone
+   *
+   * The opponent keeps the time used since the press. The player who
+   * pressed gets back the time they had at the press, without its
+   * increment, and their clock runs again, unless the press was the first
+   * one that started the clock.
+   */
+  public undoPress(): void {
+    const press = this.presses.pop();
+    if (!press || this.flagged) return;
+
+    const { color } = press;
+    this.stop();
+    this.remaining[color] = press.remaining;
+    this.stageIndex[color] = press.stageIndex;
+    this.stageMoves[color] = press.stageMoves;
+    this.moveCount[color]--;
+    if (press.running) {
+      this.start(color);
+    }
+  }
+
+  /**
+   * Stop the running clock without ending the move
+   */
+  public pause(): void {
+    if (!this.running || this.paused) return;
+
+    this.moveElapsed = this.getMoveElapsed();
+    this.paused = true;
+  }
+
+  /**
+   * Continue the move that was paused
+   */
+  public resume(): void {
+    if (!this.running || !this.paused) return;
+
+    this.paused = false;
+    this.resumedAt = this.now();
+  }
+
+  /**
+   * Stop the clock, e.g. when the game is over
+   */
+  public stop(): void {
+    if (this.running && !this.paused) {
+      this.remaining[this.running] = this.getRemaining(this.running);
+    }
+    this.running = null;
+    this.paused = false;
+    this.moveElapsed = 0;
+  }
+
+  /**
+   * Get the player whose clock is running
+   *
+   * @returns Color of the player to move, or null if the clock is stopped
+   */
+  public getRunning(): Color | null {
+    return this.running;
+  }
+
+  /**
+   * Check if the running clock is paused
+   *
+   * @returns True if paused
+   */
+  public isPaused(): boolean {
+    return this.paused;
+  }
+
+  /**
+   * Get the time left on a player's clock, including the move in progress
+   *
+   * @param color - Player
+   * @returns Time left in milliseconds (never below zero)
+   */
+  public getRemaining(color: Color): number {
+    if (this.running !== color) {
+      return Math.max(0, this.remaining[color]);
+    }
+
+    const elapsed = this.getMoveElapsed();
+    const charged =
+      this.timeControl.mode === 'delay'
+        ? Math.max(0, elapsed - this.getStage(this.stageIndex[color]).increment)
+        : elapsed;
+    return Math.max(0, this.remaining[color] - charged);
+  }
+
+  /**
+   * Get the player whose flag has fallen
+   *
+   * Checks the running clock, so polling this detects a flag fall during a
+   * move. The clock stops when a flag falls.
+   *
+   * @returns Color out of time, or null
+   */
+  public getFlagged(): Color | null {
+    if (!this.flagged && this.running && this.getRemaining(this.running) === 0) {
+      this.flagged = this.running;
+      this.stop();
+      this.remaining[this.flagged] = 0;
+    }
+    return this.flagged;
+  }
+
+  /**
+   * Get the number of moves a player has completed
+   *
+   * @param color - Player
+   * @returns Completed moves
+   */
+  public getMoveCount(color: Color): number {
+    return this.moveCount[color];
+  }
+
+  /**
+   * Get the time used on the move in progress
+   */
+  private getMoveElapsed(): number {
+    return this.paused ? this.moveElapsed : this.moveElapsed + this.now() - this.resumedAt;
+  }
+
+  /**
+   * Get a period of the time control
+   */
+  private getStage(index: number): TimeControlStage {
+    const stage = this.timeControl.stages[index];
+    if (!stage) {
+      throw new ChessError(`Invalid time control period ${index}`, 'INVALID_TIME_CONTROL', {
+        period: index,
+      });
+    }
+    return stage;
+  }
+}
@@ -0,0 +1,261 @@
+/**
+ * Dead Position Analysis
+ *
+ * A position is dead (FIDE Article 5.2.2) when neither player can checkmate
+ * by any series of legal moves, however badly the opponent plays. This
+ * covers the usual insufficient-material cases, any number of bishops that
+ * all stand on squares of one color, and pawn structures locked so that
+ * neither king can ever break through.
+ *
+ * The same material test decides flag-fall results (Article 6.9): a player
+ * who runs out of time only loses if the opponent could still mate.
+ *
+ * @module engine/dead-position
+ */
+
+import type { Color, Square } from '@/types/index';
+import type { Board } from './board';
+
+/**
+ * Piece counts of one side, bishops split by square color
+ */
+interface Material {
+  pawns: number;
+  knights: number;
+  rooks: number;
+  queens: number;
+  lightBishops: number;
+  darkBishops: number;
+}
+
+/**
+ * Count the material of one color
+ *
+ * @param board - Board to inspect
+ * @param color - Color to count
+ * @returns Piece counts
+ */
+function countMaterial(board: Board, color: Color): Material {
+  const material: Material = {
+    pawns: 0,
+    knights: 0,
+    rooks: 0,
+    queens: 0,
+    lightBishops: 0,
+    darkBishops: 0,
+  };
+
+  for (const { square, piece } of board.findPieces(color)) {
+    switch (piece.type) {
+      case 'pawn':
+        material.pawns++;
+        break;
+      case 'knight':
+        material.knights++;
+        break;
+      case 'rook':
+        material.rooks++;
+        break;
+      case 'queen':
+        material.queens++;
+        break;
+      case 'bishop':
+        if (isLightSquare(board, square)) {
+          material.lightBishops++;
+        } else {
+          material.darkBishops++;
+        }
+        break;
+    }
+  }
+
+  return material;
+}
+
+/**
+ * Check if a square is a light square (h1 is light)
+ */
+function isLightSquare(board: Board, square: Square): boolean {
+  const coords = board.squareToCoords(square);
+  return coords !== null && (coords.row + coords.col) % 2 === 1;
+}
+
+/**
+ * Check if a color could ever deliver checkmate
+ *
+ * Helpmates count: the opponent's pieces may block its own king. A lone
+ * knight therefore mates only if the opponent has some piece to block with,
+ * and bishops on one square color only if the opponent has a piece that can
+ * stand on the other color. Two knights can mate a bare king this way, so
+ * KNN vs K is not dead.
+ *
+ * @param board - Board to inspect
+ * @param color - Color that would give mate
+ * @returns True if some series of legal moves ends in mate by this color
+ */
+export function canCheckmate(board: Board, color: Color): boolean {
+  const own = countMaterial(board, color);
+  if (own.pawns > 0 || own.rooks > 0 || own.queens > 0) {
+    return true;
+  }
+
+  const bishops = own.lightBishops + own.darkBishops;
+  if (own.knights + bishops === 0) {
+    return false;
+  }
+  if (
+    own.knights >= 2 ||
+    (own.knights > 0 && bishops > 0) ||
+    (own.lightBishops > 0 && own.darkBishops > 0)
+  ) {
+    return true;
+  }
+
+  const other = countMaterial(board, color === 'white' ? 'black' : 'white');
+  const otherPieces =
+    other.pawns +
+    other.knights +
+    other.rooks +
+    other.queens +
+    other.lightBishops +
+    other.darkBishops;
+
+  // A single knight needs any blocker next to the enemy king
+  if (own.knights > 0) {
+    return otherPieces > 0;
+  }
+
+  // Bishops of one color never attack the squares of the other color, so
+  // the king can only be mated if something of its own stands there
+  const sameColorBishops = own.lightBishops > 0 ? other.lightBishops : other.darkBishops;
+  return otherPieces > sameColorBishops;
+}
+
+/**
+ * Check if neither color has enough material to checkmate
+ *
+ * @param board - Board to inspect
+ * @returns True for K vs K, K+minor vs K, same-colored bishops only, etc.
+ */
+export function isInsufficientMaterial(board: Board): boolean {
+  return !canCheckmate(board, 'white') && !canCheckmate(board, 'black');
+}
+
+/**
+ * Check if running out of time draws instead of losing
+ *
+ * @param board - Board to inspect
+ * @param flagged - Color whose time ran out
+ * @returns True if the opponent could not checkmate by any series of legal moves
+ */
+export function isTimeoutDraw(board: Board, flagged: Color): boolean {
+  return !canCheckmate(board, flagged === 'white' ? 'black' : 'white');
+}
+
+/**
+ * Check if kings and pawns are locked so that no check is ever possible
+ *
+ * Every pawn must be blocked head-on by another pawn with no pawn captures
+ * available, and neither king may reach a square from which it could take
+ * an enemy pawn. The reachable squares are found with a flood fill that
+ * only avoids the king's own pawns and squares covered by enemy pawns, so
+ * it never underestimates how far a king can walk.
+ *
+ * @param board - Board to inspect
+ * @param enPassantSquare - Current en passant target square
+ * @returns True if the pawn structure can never change and no check can occur
+ */
+export function isLockedPosition(board: Board, enPassantSquare: Square | null = null): boolean {
+  if (enPassantSquare) {
+    return false;
+  }
+
+  const pieces = [...board.findPieces('white'), ...board.findPieces('black')];
+  if (pieces.some(({ piece }) => piece.type !== 'pawn' && piece.type !== 'king')) {
+    return false;
+  }
+
+  for (const { square, piece } of pieces) {
+    if (piece.type !== 'pawn') continue;
+
+    const coords = board.squareToCoords(square);
+    if (!coords) return false;
+    const forward = coords.row + (piece.color === 'white' ? 1 : -1);
+
+    // Blocked head-on by a pawn that cannot move either
+    if (board.getPieceAt(forward, coords.col)?.type !== 'pawn') {
+      return false;
+    }
+
+    // No enemy pawn to capture
+    for (const col of [coords.col - 1, coords.col + 1]) {
+      const target = board.getPieceAt(forward, col);
+      if (target?.type === 'pawn' && target.color !== piece.color) {
+        return false;
+      }
+    }
+  }
+
+  return !canKingReachPawn(board, 'white') && !canKingReachPawn(board, 'black');
+}
+
+/**
+ * Flood-fill the squares a king can walk to and look for capturable pawns
+ *
+ * @param board - Board with kings and pawns only
+ * @param color - Color of the king
+ * @returns True if the king can reach an enemy pawn
+ */
+function canKingReachPawn(board: Board, color: Color): boolean {
+  const king = board.findKing(color);
+  const start = king ? board.squareToCoords(king) : null;
+  if (!start) {
+    return false;
+  }
+
+  const enemyDirection = color === 'white' ? -1 : 1;
+  const isCoveredByEnemyPawn = (row: number, col: number): boolean =>
+    [col - 1, col + 1].some((c) => {
+      const piece = board.getPieceAt(row - enemyDirection, c);
+      return piece?.type === 'pawn' && piece.color !== color;
+    });
+
+  const visited = new Set<number>([start.row * 8 + start.col]);
+  const queue = [start];
+
+  while (queue.length > 0) {
+    const current = queue.pop();
+    if (!current) break;
+
+    for (let dr = -1; dr <= 1; dr++) {
+      for (let dc = -1; dc <= 1; dc++) {
+        const row = current.row + dr;
+        const col = current.col + dc;
+        if (!board.isValidCoords(row, col) || visited.has(row * 8 + col)) continue;
+        visited.add(row * 8 + col);
+
+        const piece = board.getPieceAt(row, col);
+        if (piece?.type === 'pawn' && piece.color === color) continue;
+        if (isCoveredByEnemyPawn(row, col)) continue;
+        if (piece?.type === 'pawn') {
+          return true;
+        }
+
+        queue.push({ row, col });
+      }
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Check if a position is dead
+ *
+ * @param board - Board to inspect
+ * @param enPassantSquare - Current en passant target square
+ * @returns True if neither player can checkmate by any series of legal moves
+ */
+export function isDeadPosition(board: Board, enPassantSquare: Square | null = null): boolean {
+  return isInsufficientMaterial(board) || isLockedPosition(board, enPassantSquare);
+}
@@ -0,0 +1,188 @@
+/**
+ * EPD (Extended Position Description) Parser and Generator
+ *
+ * An EPD record holds the first four FEN fields followed by operations,
+ * each an opcode and its operands ended by a semicolon:
+ *
+ *   1k1r4/pp1b1R2/3q2pp/4p3/2B5/4Q3/PPP2B2/2K5 b - - bm Qd1+; id "BK.01";
+ *
+ * Common opcodes are bm (best moves) and am (moves to avoid) in SAN, id,
+ * c0-c9 (comments), acd (analysis depth), ce (evaluation in centipawns for
+ * the side to move), pv (principal variation), and hmvc and fmvn, which
+ * carry the FEN clocks. Test suites such as WAC, STS and Bratko-Kopec are
+ * EPD files with one record per line.
+ *
+ * @module engine/epd
+ */
+
+import type { Fen } from '@/types/index';
+import { FenParser } from './fen';
+import { InvalidEpdError } from '../utils/errors';
+
+/**
+ * Opcodes whose operands are strings, always written in quotes
+ */
+const STRING_OPCODES = /^(id|[cv]\d|ecoc|nic)$/;
+
+/**
+ * EPD operations: operands by opcode, in the order they were given
+ */
+export type EpdOperations = Record<string, string[]>;
+
+/**
+ * Parsed EPD record
+ */
+export interface EpdRecord {
+  fen: Fen; // Position, with the clocks from hmvc and fmvn or "0 1"
+  operations: EpdOperations;
+}
+
+/**
+ * EPD Parser and Generator
+ *
+ * Static utility class for working with EPD records.
+ */
+export class EpdParser {
+  /**
+   * Parse an EPD record
+   *
+   * @param epd - EPD record (one line)
+   * @returns Position and operations
+   * @throws InvalidEpdError if the record or its operations are malformed
+   * @throws InvalidFenError if the position is invalid
+   */
+  public static parse(epd: string): EpdRecord {
+    const match = /^\s*(\S+)\s+(\S+)\s+(\S+)\s+(\S+)(.*)$/.exec(epd);
+    if (!match) {
+      throw new InvalidEpdError(`Invalid EPD: expected 4 position fields in '${epd.trim()}'`, {
+        value: epd,
+      });
+    }
+
+    const [, placement, turn, castling, enPassant, rest] = match;
+    const operations = this.parseOperations(rest ?? '');
+
+    const halfMoveClock = operations['hmvc']?.[0] ?? '0';
+    const fullMoveNumber = operations['fmvn']?.[0] ?? '1';
+    const fen = `${placement} ${turn} ${castling} ${enPassant} ${halfMoveClock} ${fullMoveNumber}`;
+    FenParser.parse(fen);
+
+    return { fen, operations };
+  }
+
+  /**
+   * Parse every record of an EPD file
+   *
+   * Blank lines and lines starting with "#" are skipped.
+   *
+   * @param text - EPD file contents
+   * @returns Records in file order
+   * @throws InvalidEpdError naming the line of the first malformed record
+   */
+  public static parseAll(text: string): EpdRecord[] {
+    const records: EpdRecord[] = [];
+
+    text.split(/\r?\n/).forEach((line, index) => {
+      if (line.trim() === '' || line.trimStart().startsWith('#')) return;
+
+      try {
+        records.push(this.parse(line));
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        throw new InvalidEpdError(`Line ${index + 1}: ${reason}`, { line: index + 1, value: line });
+      }
+    });
+
+    return records;
+  }
+
+  /**
+   * Generate an EPD record
+   *
+   * @param fen - Position; its clocks are left out unless given as hmvc and fmvn
+   * @param operations - Operations to append
+   * @returns EPD record
+   */
+  public static generate(fen: Fen, operations: EpdOperations = {}): string {
+    const position = fen.trim().split(/\s+/).slice(0, 4).join(' ');
+
+    const ops = Object.entries(operations).map(([opcode, operands]) => {
+      const written = operands.map((operand) =>
+        STRING_OPCODES.test(opcode) || !/^[^\s";]+$/.test(operand)
+          ? `"${operand.replace(/"/g, "'")}"`
+          : operand
+      );
+      return [opcode, ...written].join(' ') + ';';
+    });
+
+    return [position, ...ops].join(' ');
+  }
+
+  /**
+   * Read the operations after the position fields
+   *
+   * @param text - Operations text
+   * @returns Operands by opcode
+   * @throws InvalidEpdError if an opcode or string operand is malformed
+   */
+  private static parseOperations(text: string): EpdOperations {
+    const operations: EpdOperations = {};
+    // Opcode, then operands up to a semicolon; the last semicolon may be missing
+    const tokenPattern = /\s*(?:"([^"]*)"|([^\s";]+)|(;)|(\S))/y;
+
+    let opcode: string | null = null;
+    let operands: string[] = [];
+    const finish = (): void => {
+      if (opcode !== null) operations[opcode] = operands;
+      opcode = null;
+      operands = [];
+    };
+
+    let match: RegExpExecArray | null;
+    while ((match = tokenPattern.exec(text)) !== null) {
+      const [, quoted, word, semicolon, stray] = match;
+      if (stray !== undefined) {
+        throw new InvalidEpdError(`Invalid EPD: unterminated string in '${text.trim()}'`, {
+          value: text,
+        });
+      }
+
+      if (semicolon !== undefined) {
+        finish();
+      } else if (opcode === null) {
+        if (word === undefined || !/^[A-Za-z][A-Za-z0-9_]{0,14}$/.test(word)) {
+          throw new InvalidEpdError(`Invalid EPD: invalid opcode '${quoted ?? word ?? ''}'`, {
+            value: text,
+          });
+        }
+        opcode = word;
+      } else {
+        operands.push(quoted ?? word ?? '');
+      }
+    }
+    finish();
+
+    return operations;
+  }
+}
+
+/**
+ * Load the records of an EPD file (Node.js only)
+ *
+ * @param filePath - Path to the EPD file
+ * @returns Records in file order
+ * @throws InvalidEpdError if the file cannot be read or holds a malformed record
+ */
+export async function loadEpdFile(filePath: string): Promise<EpdRecord[]> {
+  // Dynamic import for Node.js fs module
+  const fs = await import('fs/promises');
+  let text: string;
+  try {
+    text = await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new InvalidEpdError(`Cannot read EPD file '${filePath}': ${reason}`, { filePath });
+  }
+
+  return EpdParser.parseAll(text);
+}
@@ -0,0 +1,137 @@
+/**
+ * Typed Event Emitter
+ *
+ * Minimal EventEmitter-style on/off/once API whose event names and payload
+ * types come from an event map, so listeners are checked by the compiler.
+ * It has no platform dependencies and runs in Node.js and browsers alike.
+ *
+ * @module engine/events
+ */
+
+/**
+ * Listener for an event with the given payload
+ */
+export type EventListener<Payload> = (payload: Payload) => void;
+
+/**
+ * A registered listener
+ */
+interface ListenerEntry<Payload> {
+  listener: EventListener<Payload>;
+  once: boolean;
+}
+
+/**
+ * Event emitter typed by an event map
+ *
+ * @example
+ * ```typescript
+ * const emitter = new TypedEventEmitter<{ tick: number }>();
+ * emitter.on('tick', (count) => console.log(count));
+ * emitter.emit('tick', 1);
+ * ```
+ */
+export class TypedEventEmitter<Events extends object> {
+  private listeners: { [K in keyof Events]?: ListenerEntry<Events[K]>[] } = {};
+
+  /**
+   * Add a listener
+   *
+   * @param event - Event name
+   * @param listener - Called with the event payload
+   * @returns This emitter, for chaining
+   */
+  public on<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): this {
+    return this.add(event, listener, false);
+  }
+
+  /**
+   * Add a listener that is removed after its first call
+   *
+   * @param event - Event name
+   * @param listener - Called with the event payload
+   * @returns This emitter, for chaining
+   */
+  public once<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): this {
+    return this.add(event, listener, true);
+  }
+
+  /**
+   * Remove a listener added with on() or once()
+   *
+   * @param event - Event name
+   * @param listener - Listener to remove
+   * @returns This emitter, for chaining
+   */
+  public off<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): this {
+    const entries = this.listeners[event];
+    const index = entries?.findIndex((entry) => entry.listener === listener) ?? -1;
+    if (entries && index >= 0) {
+      entries.splice(index, 1);
+    }
+    return this;
+  }
+
+  /**
+   * Remove all listeners of an event, or of every event
+   *
+   * @param event - Event name, or undefined for all events
+   * @returns This emitter, for chaining
+   */
+  public removeAllListeners(event?: keyof Events): this {
+    if (event === undefined) {
+      this.listeners = {};
+    } else {
+      delete this.listeners[event];
+    }
+    return this;
+  }
+
+  /**
+   * Get the number of listeners of an event
+   *
+   * @param event - Event name
+   * @returns Listener count
+   */
+  public listenerCount(event: keyof Events): number {
+    return this.listeners[event]?.length ?? 0;
+  }
+
+  /**
+   * Call the listeners of an event in the order they were added
+   *
+   * @param event - Event name
+   * @param payload - Event payload
+   * @returns True if the event had listeners
+   */
+  public emit<K extends keyof Events>(event: K, payload: Events[K]): boolean {
+    const entries = this.listeners[event];
+    if (!entries || entries.length === 0) {
+      return false;
+    }
+
+    // Listeners added or removed while emitting take effect next time
+    for (const entry of [...entries]) {
+      if (entry.once) {
+        const index = entries.indexOf(entry);
+        if (index >= 0) entries.splice(index, 1);
+      }
+      entry.listener(payload);
+    }
+    return true;
+  }
+
+  /**
+   * Register a listener
+   */
+  private add<K extends keyof Events>(
+    event: K,
+    listener: EventListener<Events[K]>,
+    once: boolean
+  ): this {
+    const entries = this.listeners[event] ?? [];
+    entries.push({ listener, once });
+    this.listeners[event] = entries;
+    return this;
+  }
+}
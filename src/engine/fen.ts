@@ -12,11 +12,74 @@
  * 5. Halfmove clock (for fifty-move rule)
  * 6. Fullmove number
  *
+ * Chess960 castling rights are read in both X-FEN (KQkq for the outermost
+ * rook, a file letter otherwise) and Shredder-FEN (always the rook's file
+ * letter, e.g. "HAha"); either can be generated.
+ *
+ * Three-check positions carry an extra field with the checks each side
+ * still needs, before the clocks ("3+3"); the trailing "+0+0" form, which
+ * counts the checks given instead, is read as well.
+ *
+ * Crazyhouse positions append the pieces in hand to the piece placement,
+ * either in brackets ("[Nn]") or as a ninth rank ("/Nn"), and mark
+ * promoted pieces with a tilde ("Q~").
+ *
  * @module engine/fen
  */
 
-import type { Piece, PieceType, Color, Square, CastlingRights, Fen } from '@/types/index';
+import type {
+  Piece,
+  PieceType,
+  Color,
+  Coordinates,
+  Square,
+  CastlingRights,
+  CastlingRookFiles,
+  CastlingNotation,
+  CastlingSide,
+  CheckCounts,
+  Pockets,
+  Fen,
+  FenIssue,
+} from '@/types/index';
 import { Board } from './board';
+import {
+  CASTLING_SIDES,
+  getBackRank,
+  getCastlingRightKey,
+  getCastlingRookFile,
+  fileLetter,
+} from './castling';
+import { getSquareAttackers, isKingInCheck } from './pieces';
+import { POCKET_PIECE_TYPES, createEmptyPockets, isPocketPieceType } from './pockets';
+import { InvalidFenError } from '../utils/errors';
+
+/**
+ * Checks needed to win a Three-check game
+ */
+export const THREE_CHECK_LIMIT = 3;
+
+/**
+ * Names of the FEN fields, for diagnostics
+ */
+const FEN_FIELD_NAMES = [
+  'piece placement',
+  'side to move',
+  'castling rights',
+  'en passant square',
+  'halfmove clock',
+  'fullmove number',
+] as const;
+
+/**
+ * Optional FEN fields
+ */
+export interface FenOptions {
+  castlingNotation?: CastlingNotation; // 'xfen' (default) or 'shredder'
+  checksGiven?: CheckCounts; // Three-check counters, omitted when undefined
+  pockets?: Pockets; // Crazyhouse pieces in hand, omitted when undefined
+  promoted?: readonly Square[]; // Crazyhouse promoted pieces, marked with "~"
+}
 
 /**
  * FEN Parser and Generator
@@ -33,7 +96,7 @@ export class FenParser {
    *
    * @param fen - FEN string to parse
    * @returns Parsed game state
-   * @throws Error if FEN is invalid
+   * @throws InvalidFenError if FEN is invalid
    */
   public static parse(fen: Fen): {
     board: Board;
@@ -42,11 +105,23 @@ export class FenParser {
     enPassantSquare: Square | null;
     halfMoveClock: number;
     fullMoveNumber: number;
+    checksGiven?: CheckCounts;
+    pockets?: Pockets;
+    promoted?: Square[];
   } {
     const parts = fen.trim().split(/\s+/);
 
+    // Three-check counters are an optional seventh field
+    let checksGiven: CheckCounts | undefined;
+    if (parts.length === 7) {
+      checksGiven = this.extractCheckCounts(parts);
+    }
+
     if (parts.length !== 6) {
-      throw new Error(`Invalid FEN: expected 6 parts, got ${parts.length}`);
+      throw new InvalidFenError(`Invalid FEN: expected 6 parts, got ${parts.length}`, {
+        field: 'fen',
+        value: fen,
+      });
     }
 
     const [piecePlacement, activeColor, castling, enPassant, halfMove, fullMove] = parts as [
@@ -58,14 +133,16 @@ export class FenParser {
       string,
     ];
 
-    // Parse piece placement
-    const board = this.parsePiecePlacement(piecePlacement);
+    // Parse piece placement and any pieces in hand
+    const { placement, pockets } = this.extractPockets(piecePlacement);
+    const promoted: Square[] = [];
+    const board = this.parsePiecePlacement(placement, promoted);
 
     // Parse active color
     const turn = this.parseActiveColor(activeColor);
 
-    // Parse castling rights
-    const castlingRights = this.parseCastlingRights(castling);
+    // Parse castling rights (Chess960 rook files depend on the board)
+    const castlingRights = this.parseCastlingRights(castling, board);
 
     // Parse en passant
     const enPassantSquare = this.parseEnPassant(enPassant);
@@ -81,6 +158,9 @@ export class FenParser {
       enPassantSquare,
       halfMoveClock,
       fullMoveNumber,
+      ...(checksGiven && { checksGiven }),
+      ...(pockets && { pockets }),
+      ...(promoted.length > 0 && { promoted }),
     };
   }
 
@@ -93,6 +173,7 @@ export class FenParser {
    * @param enPassantSquare - En passant target square
    * @param halfMoveClock - Halfmove clock
    * @param fullMoveNumber - Fullmove number
+   * @param options - Castling notation and variant fields
    * @returns FEN string
    */
   public static generate(
@@ -101,22 +182,35 @@ export class FenParser {
     castlingRights: CastlingRights,
     enPassantSquare: Square | null,
     halfMoveClock: number,
-    fullMoveNumber: number
+    fullMoveNumber: number,
+    options: FenOptions = {}
   ): Fen {
     const parts: string[] = [];
 
-    // Generate piece placement
-    parts.push(this.generatePiecePlacement(board));
+    // Generate piece placement and any pieces in hand
+    let placement = this.generatePiecePlacement(board, options.promoted ?? []);
+    if (options.pockets) {
+      placement += `[${this.generatePockets(options.pockets)}]`;
+    }
+    parts.push(placement);
 
     // Generate active color
     parts.push(turn === 'white' ? 'w' : 'b');
 
     // Generate castling rights
-    parts.push(this.generateCastlingRights(castlingRights));
+    parts.push(
+      this.generateCastlingRights(castlingRights, board, options.castlingNotation ?? 'xfen')
+    );
 
     // Generate en passant
     parts.push(enPassantSquare ?? '-');
 
+    // Generate remaining checks
+    if (options.checksGiven) {
+      const { white, black } = options.checksGiven;
+      parts.push(`${THREE_CHECK_LIMIT - white}+${THREE_CHECK_LIMIT - black}`);
+    }
+
     // Generate clocks
     parts.push(halfMoveClock.toString());
     parts.push(fullMoveNumber.toString());
@@ -128,14 +222,18 @@ export class FenParser {
    * Parse piece placement from FEN
    *
    * @param placement - Piece placement string
+   * @param promoted - Collects the squares of pieces marked as promoted
    * @returns Board with pieces
    */
-  private static parsePiecePlacement(placement: string): Board {
+  private static parsePiecePlacement(placement: string, promoted: Square[] = []): Board {
     const board = new Board();
     const ranks = placement.split('/');
 
     if (ranks.length !== 8) {
-      throw new Error(`Invalid FEN: expected 8 ranks, got ${ranks.length}`);
+      throw new InvalidFenError(`Invalid FEN: expected 8 ranks, got ${ranks.length}`, {
+        field: 'placement',
+        value: placement,
+      });
     }
 
     for (let rankIndex = 0; rankIndex < 8; rankIndex++) {
@@ -145,21 +243,40 @@ export class FenParser {
 
       for (const char of rank) {
         if (fileIndex >= 8) {
-          throw new Error(`Invalid FEN: too many squares in rank ${8 - rankIndex}`);
+          throw new InvalidFenError(`Invalid FEN: too many squares in rank ${8 - rankIndex}`, {
+            field: 'placement',
+            value: rank,
+          });
         }
 
         // Check if it's a number (empty squares)
         if (/\d/.test(char)) {
           const emptySquares = parseInt(char, 10);
           if (emptySquares < 1 || emptySquares > 8) {
-            throw new Error(`Invalid FEN: invalid empty square count '${char}'`);
+            throw new InvalidFenError(`Invalid FEN: invalid empty square count '${char}'`, {
+              field: 'placement',
+              value: rank,
+            });
           }
           fileIndex += emptySquares;
+        } else if (char === '~') {
+          // Marks the previous piece as promoted
+          const square = board.coordsToSquare(7 - rankIndex, fileIndex - 1);
+          if (!square || !board.getPiece(square) || promoted.includes(square)) {
+            throw new InvalidFenError(
+              `Invalid FEN: misplaced promotion marker in rank ${8 - rankIndex}`,
+              { field: 'placement', value: rank }
+            );
+          }
+          promoted.push(square);
         } else {
           // It's a piece
           const piece = this.charToPiece(char);
           if (!piece) {
-            throw new Error(`Invalid FEN: unknown piece character '${char}'`);
+            throw new InvalidFenError(`Invalid FEN: unknown piece character '${char}'`, {
+              field: 'placement',
+              value: rank,
+            });
           }
 
           // Convert rank/file to board coordinates
@@ -173,7 +290,10 @@ export class FenParser {
       }
 
       if (fileIndex !== 8) {
-        throw new Error(`Invalid FEN: incomplete rank ${8 - rankIndex}`);
+        throw new InvalidFenError(`Invalid FEN: incomplete rank ${8 - rankIndex}`, {
+          field: 'placement',
+          value: rank,
+        });
       }
     }
 
@@ -184,9 +304,10 @@ export class FenParser {
    * Generate piece placement string for FEN
    *
    * @param board - Chess board
+   * @param promoted - Squares of promoted pieces
    * @returns Piece placement string
    */
-  private static generatePiecePlacement(board: Board): string {
+  private static generatePiecePlacement(board: Board, promoted: readonly Square[]): string {
     const ranks: string[] = [];
 
     // Iterate from rank 8 to rank 1 (row 7 to row 0)
@@ -205,6 +326,10 @@ export class FenParser {
           }
           // Add the piece character
           rankStr += this.pieceToChar(piece);
+          const square = board.coordsToSquare(row, col);
+          if (square && promoted.includes(square)) {
+            rankStr += '~';
+          }
         } else {
           emptyCount++;
         }
@@ -230,16 +355,23 @@ export class FenParser {
   private static parseActiveColor(color: string): Color {
     if (color === 'w') return 'white';
     if (color === 'b') return 'black';
-    throw new Error(`Invalid FEN: invalid active color '${color}'`);
+    throw new InvalidFenError(`Invalid FEN: invalid active color '${color}'`, {
+      field: 'turn',
+      value: color,
+    });
   }
 
   /**
    * Parse castling rights from FEN
    *
+   * KQkq refer to the outermost rook on that side of the king; file letters
+   * (A-H for white, a-h for black) name the rook directly.
+   *
    * @param castling - Castling string
+   * @param board - Board the castling rights apply to
    * @returns Castling rights
    */
-  private static parseCastlingRights(castling: string): CastlingRights {
+  private static parseCastlingRights(castling: string, board: Board): CastlingRights {
     const rights: CastlingRights = {
       whiteKingside: false,
       whiteQueenside: false,
@@ -249,23 +381,52 @@ export class FenParser {
 
     if (castling === '-') return rights;
 
+    const rookFiles: CastlingRookFiles = {
+      whiteKingside: 'h',
+      whiteQueenside: 'a',
+      blackKingside: 'h',
+      blackQueenside: 'a',
+    };
+
     for (const char of castling) {
-      switch (char) {
-        case 'K':
-          rights.whiteKingside = true;
-          break;
-        case 'Q':
-          rights.whiteQueenside = true;
-          break;
-        case 'k':
-          rights.blackKingside = true;
-          break;
-        case 'q':
-          rights.blackQueenside = true;
-          break;
-        default:
-          throw new Error(`Invalid FEN: invalid castling character '${char}'`);
+      const color: Color = char === char.toUpperCase() ? 'white' : 'black';
+      const letter = char.toLowerCase();
+      let side: CastlingSide;
+      let file: number;
+
+      if (letter === 'k' || letter === 'q') {
+        side = letter === 'k' ? 'kingside' : 'queenside';
+        file = this.findOutermostRook(board, color, side);
+      } else if (/^[a-h]$/.test(letter)) {
+        const kingFile = this.findBackRankKing(board, color);
+        if (kingFile === null) {
+          throw new InvalidFenError(
+            `Invalid FEN: castling file '${char}' without a king on the back rank`,
+            { field: 'castling', value: castling }
+          );
+        }
+        file = letter.charCodeAt(0) - 'a'.charCodeAt(0);
+        side = file > kingFile ? 'kingside' : 'queenside';
+      } else {
+        throw new InvalidFenError(`Invalid FEN: invalid castling character '${char}'`, {
+          field: 'castling',
+          value: castling,
+        });
       }
+
+      const key = getCastlingRightKey(color, side);
+      rights[key] = true;
+      rookFiles[key] = fileLetter(file);
+    }
+
+    // Only Chess960 positions carry rook files
+    const isStandard =
+      rookFiles.whiteKingside === 'h' &&
+      rookFiles.whiteQueenside === 'a' &&
+      rookFiles.blackKingside === 'h' &&
+      rookFiles.blackQueenside === 'a';
+    if (!isStandard) {
+      rights.rookFiles = rookFiles;
     }
 
     return rights;
@@ -275,19 +436,157 @@ export class FenParser {
    * Generate castling rights string for FEN
    *
    * @param rights - Castling rights
+   * @param board - Board the castling rights apply to
+   * @param notation - 'xfen' or 'shredder'
    * @returns Castling string
    */
-  private static generateCastlingRights(rights: CastlingRights): string {
+  private static generateCastlingRights(
+    rights: CastlingRights,
+    board: Board,
+    notation: CastlingNotation
+  ): string {
     let str = '';
 
-    if (rights.whiteKingside) str += 'K';
-    if (rights.whiteQueenside) str += 'Q';
-    if (rights.blackKingside) str += 'k';
-    if (rights.blackQueenside) str += 'q';
+    for (const color of ['white', 'black'] as const) {
+      for (const side of CASTLING_SIDES) {
+        if (!rights[getCastlingRightKey(color, side)]) continue;
+
+        const file = getCastlingRookFile(rights, color, side);
+        let char: string;
+        if (notation === 'xfen' && this.findOutermostRook(board, color, side) === file) {
+          char = side === 'kingside' ? 'k' : 'q';
+        } else {
+          char = fileLetter(file);
+        }
+        str += color === 'white' ? char.toUpperCase() : char;
+      }
+    }
 
     return str || '-';
   }
 
+  /**
+   * Find the file of the outermost rook on one side of the king
+   *
+   * @param board - Chess board
+   * @param color - Rook color
+   * @param side - Castling side
+   * @returns File index, or the a-/h-file if there is no such rook
+   */
+  private static findOutermostRook(board: Board, color: Color, side: CastlingSide): number {
+    const row = getBackRank(color);
+    const kingFile = this.findBackRankKing(board, color) ?? 4;
+    const step = side === 'kingside' ? -1 : 1;
+
+    for (let col = side === 'kingside' ? 7 : 0; col !== kingFile; col += step) {
+      const piece = board.getPieceAt(row, col);
+      if (piece?.type === 'rook' && piece.color === color) {
+        return col;
+      }
+    }
+
+    return side === 'kingside' ? 7 : 0;
+  }
+
+  /**
+   * Find the king on its back rank
+   *
+   * @param board - Chess board
+   * @param color - King color
+   * @returns File index, or null if the king is not on its back rank
+   */
+  private static findBackRankKing(board: Board, color: Color): number | null {
+    const row = getBackRank(color);
+    for (let col = 0; col < 8; col++) {
+      const piece = board.getPieceAt(row, col);
+      if (piece?.type === 'king' && piece.color === color) {
+        return col;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Split the pieces in hand off the piece placement
+   *
+   * @param field - Piece placement field, possibly with pieces in hand
+   * @returns Placement of the board and the pockets, if any
+   */
+  private static extractPockets(field: string): { placement: string; pockets?: Pockets } {
+    let placement = field;
+    let inHand: string | undefined;
+
+    const bracketed = field.match(/^(.*)\[([^\]]*)\]$/);
+    if (bracketed) {
+      placement = bracketed[1] ?? '';
+      inHand = bracketed[2] ?? '';
+    } else if (field.split('/').length === 9) {
+      placement = field.slice(0, field.lastIndexOf('/'));
+      inHand = field.slice(field.lastIndexOf('/') + 1);
+    }
+
+    if (inHand === undefined) {
+      return { placement };
+    }
+
+    const pockets = createEmptyPockets();
+    for (const char of inHand.replace(/^-$/, '')) {
+      const piece = this.charToPiece(char);
+      if (!piece || !isPocketPieceType(piece.type)) {
+        throw new InvalidFenError(`Invalid FEN: invalid piece in hand '${char}'`, {
+          field: 'pockets',
+          value: inHand,
+        });
+      }
+      pockets[piece.color][piece.type]++;
+    }
+
+    return { placement, pockets };
+  }
+
+  /**
+   * Generate the pieces in hand, white first
+   *
+   * @param pockets - Pieces in hand
+   * @returns Piece characters (e.g. "QNp"), empty if both pockets are empty
+   */
+  private static generatePockets(pockets: Pockets): string {
+    let str = '';
+    for (const color of ['white', 'black'] as const) {
+      for (const type of POCKET_PIECE_TYPES) {
+        str += this.pieceToChar({ type, color }).repeat(pockets[color][type]);
+      }
+    }
+    return str;
+  }
+
+  /**
+   * Remove the Three-check field from FEN parts
+   *
+   * @param parts - FEN fields, modified in place
+   * @returns Checks given by each color, or undefined if there is no such field
+   */
+  private static extractCheckCounts(parts: string[]): CheckCounts | undefined {
+    // "3+3" before the clocks counts the checks still needed
+    const remaining = parts[4]?.match(/^([0-3])\+([0-3])$/);
+    if (remaining) {
+      parts.splice(4, 1);
+      return {
+        white: THREE_CHECK_LIMIT - Number(remaining[1]),
+        black: THREE_CHECK_LIMIT - Number(remaining[2]),
+      };
+    }
+
+    // "+0+0" at the end counts the checks already given
+    const given = parts[6]?.match(/^\+([0-3])\+([0-3])$/);
+    if (given) {
+      parts.splice(6, 1);
+      return { white: Number(given[1]), black: Number(given[2]) };
+    }
+
+    return undefined;
+  }
+
   /**
    * Parse en passant square from FEN
    *
@@ -299,7 +598,10 @@ export class FenParser {
 
     // Validate square notation
     if (!/^[a-h][36]$/.test(enPassant)) {
-      throw new Error(`Invalid FEN: invalid en passant square '${enPassant}'`);
+      throw new InvalidFenError(`Invalid FEN: invalid en passant square '${enPassant}'`, {
+        field: 'enPassant',
+        value: enPassant,
+      });
     }
 
     return enPassant as Square;
@@ -314,7 +616,10 @@ export class FenParser {
   private static parseHalfMoveClock(halfMove: string): number {
     const clock = parseInt(halfMove, 10);
     if (isNaN(clock) || clock < 0) {
-      throw new Error(`Invalid FEN: invalid halfmove clock '${halfMove}'`);
+      throw new InvalidFenError(`Invalid FEN: invalid halfmove clock '${halfMove}'`, {
+        field: 'halfMoveClock',
+        value: halfMove,
+      });
     }
     return clock;
   }
@@ -328,7 +633,10 @@ export class FenParser {
   private static parseFullMoveNumber(fullMove: string): number {
     const number = parseInt(fullMove, 10);
     if (isNaN(number) || number < 1) {
-      throw new Error(`Invalid FEN: invalid fullmove number '${fullMove}'`);
+      throw new InvalidFenError(`Invalid FEN: invalid fullmove number '${fullMove}'`, {
+        field: 'fullMoveNumber',
+        value: fullMove,
+      });
     }
     return number;
   }
@@ -393,4 +701,409 @@ export class FenParser {
       return false;
     }
   }
+
+  /**
+   * List every problem with a FEN string
+   *
+   * Unlike parse(), which stops at the first problem, this checks every
+   * field, and also whether the position can occur in a standard game: one
+   * king each, no more pieces than promotions allow, no pawns on the first
+   * or last rank, castling rights backed by a king and rook, an en passant
+   * square behind a pawn that just moved two squares, the side not to move
+   * not in check, checks one move could give and clocks that fit the moves
+   * played.
+   *
+   * @param fen - FEN string to check
+   * @returns Problems found, empty if the FEN describes a legal position
+   */
+  public static diagnose(fen: Fen): FenIssue[] {
+    const issues: FenIssue[] = [];
+    const parts = fen
+      .trim()
+      .split(/\s+/)
+      .filter((part) => part !== '');
+
+    // Three-check counters are an optional seventh field
+    if (parts.length === 7) {
+      this.extractCheckCounts(parts);
+    }
+
+    for (let field = parts.length; field < 6; field++) {
+      issues.push({ field, message: `Missing ${FEN_FIELD_NAMES[field] ?? 'field'}` });
+    }
+    if (parts.length > 6) {
+      issues.push({ field: 6, message: `Expected 6 fields, got ${parts.length}` });
+    }
+
+    const [placement, activeColor, castling, enPassant, halfMove, fullMove] = parts;
+    const board = placement === undefined ? null : this.diagnosePlacement(placement, issues);
+
+    let turn: Color | null = null;
+    if (activeColor === 'w' || activeColor === 'b') {
+      turn = activeColor === 'w' ? 'white' : 'black';
+    } else if (activeColor !== undefined) {
+      issues.push({
+        field: 1,
+        message: `Invalid side to move '${activeColor}', expected 'w' or 'b'`,
+      });
+    }
+
+    if (board && turn) {
+      const opponent: Color = turn === 'white' ? 'black' : 'white';
+      if (isKingInCheck(board, opponent)) {
+        issues.push({
+          field: 1,
+          message: `${colorName(opponent)} is in check but it is ${turn}'s move`,
+        });
+      }
+      this.diagnoseCheckers(board, turn, issues);
+    }
+
+    if (castling !== undefined) {
+      this.diagnoseCastling(castling, board, issues);
+    }
+
+    const enPassantSquare =
+      enPassant === undefined ? null : this.diagnoseEnPassant(enPassant, board, turn, issues);
+    this.diagnoseClocks(halfMove, fullMove, turn, enPassantSquare !== null, issues);
+
+    return issues;
+  }
+
+  /**
+   * Check the piece placement field
+   *
+   * @param field - Piece placement field, possibly with pieces in hand
+   * @param issues - Collects the problems found
+   * @returns Board, or null if the placement cannot be read
+   */
+  private static diagnosePlacement(field: string, issues: FenIssue[]): Board | null {
+    let placement: string;
+    try {
+      placement = this.extractPockets(field).placement;
+    } catch {
+      issues.push({ field: 0, message: 'Invalid pieces in hand' });
+      return null;
+    }
+
+    const ranks = placement.split('/');
+    let readable = ranks.length === 8;
+    if (!readable) {
+      issues.push({ field: 0, message: `Expected 8 ranks, got ${ranks.length}` });
+    }
+
+    ranks.forEach((rank, index) => {
+      let squares = 0;
+      for (const char of rank) {
+        if (/\d/.test(char)) {
+          if (char === '0' || char === '9') {
+            issues.push({
+              field: 0,
+              message: `Invalid empty square count '${char}' in rank ${8 - index}`,
+            });
+            readable = false;
+          }
+          squares += Number(char);
+        } else if (char !== '~') {
+          if (!this.charToPiece(char)) {
+            issues.push({
+              field: 0,
+              message: `Invalid piece letter '${char}' in rank ${8 - index}`,
+            });
+            readable = false;
+          }
+          squares++;
+        }
+      }
+
+      if (squares !== 8) {
+        issues.push({ field: 0, message: `Rank ${8 - index} has ${squares} squares, expected 8` });
+        readable = false;
+      }
+    });
+
+    if (!readable) return null;
+
+    let board: Board;
+    try {
+      board = this.parsePiecePlacement(placement);
+    } catch {
+      issues.push({ field: 0, message: "Misplaced promotion marker '~'" });
+      return null;
+    }
+
+    this.diagnoseMaterial(board, issues);
+    return board;
+  }
+
+  /**
+   * Check the kings, piece counts and pawns of a position
+   *
+   * @param board - Chess board
+   * @param issues - Collects the problems found
+   */
+  private static diagnoseMaterial(board: Board, issues: FenIssue[]): void {
+    for (const color of ['white', 'black'] as const) {
+      const name = colorName(color);
+      const pieces = board.findPieces(color);
+      const count = (type: PieceType): number =>
+        pieces.filter(({ piece }) => piece.type === type).length;
+
+      const kings = count('king');
+      if (kings !== 1) {
+        issues.push({
+          field: 0,
+          message: kings === 0 ? `${name} has no king` : `${name} has ${kings} kings`,
+        });
+      }
+
+      // Pieces beyond the starting set must have been promoted from pawns
+      const pawns = count('pawn');
+      const promoted =
+        Math.max(0, count('queen') - 1) +
+        Math.max(0, count('rook') - 2) +
+        Math.max(0, count('bishop') - 2) +
+        Math.max(0, count('knight') - 2);
+
+      if (pieces.length > 16) {
+        issues.push({
+          field: 0,
+          message: `${name} has ${pieces.length} pieces, at most 16 are possible`,
+        });
+      } else if (pawns > 8) {
+        issues.push({ field: 0, message: `${name} has ${pawns} pawns, at most 8 are possible` });
+      } else if (pawns + promoted > 8) {
+        issues.push({
+          field: 0,
+          message: `${name} has ${promoted} promoted pieces but only ${8 - pawns} missing pawns`,
+        });
+      }
+
+      for (const { square, piece } of pieces) {
+        if (piece.type === 'pawn' && (square.endsWith('1') || square.endsWith('8'))) {
+          issues.push({ field: 0, message: `${name} pawn on ${square}, a first or last rank` });
+        }
+      }
+    }
+  }
+
+  /**
+   * Check that the pieces giving check could have done so with one move
+   *
+   * A double check is a piece moving into check while uncovering a rook,
+   * bishop or queen, so at least one checker must be such a piece and the
+   * two checkers cannot stand on one line through the king.
+   *
+   * @param board - Chess board
+   * @param turn - Side to move
+   * @param issues - Collects the problems found
+   */
+  private static diagnoseCheckers(board: Board, turn: Color, issues: FenIssue[]): void {
+    const kingSquare = board.findKing(turn);
+    const king = kingSquare ? board.squareToCoords(kingSquare) : null;
+    if (!king) return;
+
+    const opponent: Color = turn === 'white' ? 'black' : 'white';
+    const checkers = getSquareAttackers(board, king, opponent);
+    const name = colorName(turn);
+
+    if (checkers.length > 2) {
+      issues.push({
+        field: 1,
+        message: `${name} is in check from ${checkers.length} pieces, at most 2 are possible`,
+      });
+      return;
+    }
+
+    const [first, second] = checkers;
+    if (!first || !second) return;
+
+    const isSlider = ({ row, col }: Coordinates): boolean => {
+      const type = board.getPieceAt(row, col)?.type;
+      return type === 'bishop' || type === 'rook' || type === 'queen';
+    };
+    const inLine =
+      (first.row - king.row) * (second.col - king.col) ===
+      (first.col - king.col) * (second.row - king.row);
+
+    if (!(isSlider(first) || isSlider(second)) || inLine) {
+      const squares = [first, second].map(({ row, col }) => board.coordsToSquare(row, col));
+      issues.push({
+        field: 1,
+        message: `${name} is in double check from ${squares.join(' and ')}, which no move can give`,
+      });
+    }
+  }
+
+  /**
+   * Check that castling rights are backed by a king and rook
+   *
+   * @param castling - Castling field
+   * @param board - Board, or null if the placement cannot be read
+   * @param issues - Collects the problems found
+   */
+  private static diagnoseCastling(castling: string, board: Board | null, issues: FenIssue[]): void {
+    if (castling === '-') return;
+
+    if (!/^[KQkqA-Ha-h]+$/.test(castling)) {
+      issues.push({ field: 2, message: `Invalid castling rights '${castling}'` });
+      return;
+    }
+
+    if (!board) {
+      if (new Set(castling).size !== castling.length) {
+        issues.push({ field: 2, message: `Duplicate castling rights in '${castling}'` });
+      }
+      return;
+    }
+
+    const seen = new Set<string>();
+    for (const char of castling) {
+      const color: Color = char === char.toUpperCase() ? 'white' : 'black';
+      const letter = char.toLowerCase();
+      const row = getBackRank(color);
+
+      const kingFile = this.findBackRankKing(board, color);
+      if (kingFile === null) {
+        issues.push({
+          field: 2,
+          message: `Castling right '${char}' but the ${color} king is not on rank ${row + 1}`,
+        });
+        continue;
+      }
+
+      let side: CastlingSide;
+      let file: number;
+      if (letter === 'k' || letter === 'q') {
+        side = letter === 'k' ? 'kingside' : 'queenside';
+        file = this.findOutermostRook(board, color, side);
+      } else {
+        file = letter.charCodeAt(0) - 'a'.charCodeAt(0);
+        side = file > kingFile ? 'kingside' : 'queenside';
+      }
+
+      const key = getCastlingRightKey(color, side);
+      if (seen.has(key)) {
+        issues.push({ field: 2, message: `Duplicate ${color} ${side} castling right '${char}'` });
+      }
+      seen.add(key);
+
+      const rook = board.getPieceAt(row, file);
+      if (rook?.type !== 'rook' || rook.color !== color) {
+        issues.push({
+          field: 2,
+          message: `Castling right '${char}' but there is no ${color} rook on ${fileLetter(file)}${row + 1}`,
+        });
+      }
+    }
+  }
+
+  /**
+   * Check that an en passant square follows a double pawn push
+   *
+   * @param enPassant - En passant field
+   * @param board - Board, or null if the placement cannot be read
+   * @param turn - Side to move, or null if unknown
+   * @param issues - Collects the problems found
+   * @returns En passant square, or null if there is none or it cannot be read
+   */
+  private static diagnoseEnPassant(
+    enPassant: string,
+    board: Board | null,
+    turn: Color | null,
+    issues: FenIssue[]
+  ): Square | null {
+    if (enPassant === '-') return null;
+
+    if (!/^[a-h][36]$/.test(enPassant)) {
+      issues.push({ field: 3, message: `Invalid en passant square '${enPassant}'` });
+      return null;
+    }
+
+    const square = enPassant as Square;
+    if (!turn) return square;
+
+    // The pawn that moved two squares passed this square and stands beyond it
+    const opponent: Color = turn === 'white' ? 'black' : 'white';
+    if (square.charAt(1) !== (turn === 'white' ? '6' : '3')) {
+      issues.push({
+        field: 3,
+        message: `En passant square ${square} is impossible with ${turn} to move`,
+      });
+    } else if (board) {
+      const file = square.charAt(0);
+      const pawn = board.getPiece(`${file}${turn === 'white' ? 5 : 4}` as Square);
+      const origin = `${file}${turn === 'white' ? 7 : 2}` as Square;
+      if (
+        pawn?.type !== 'pawn' ||
+        pawn.color !== opponent ||
+        board.getPiece(square) ||
+        board.getPiece(origin)
+      ) {
+        issues.push({
+          field: 3,
+          message: `En passant square ${square} but no ${opponent} pawn has just moved two squares`,
+        });
+      }
+    }
+
+    return square;
+  }
+
+  /**
+   * Check the halfmove clock and fullmove number
+   *
+   * @param halfMove - Halfmove clock field, if present
+   * @param fullMove - Fullmove number field, if present
+   * @param turn - Side to move, or null if unknown
+   * @param afterPawnPush - Whether an en passant square is set
+   * @param issues - Collects the problems found
+   */
+  private static diagnoseClocks(
+    halfMove: string | undefined,
+    fullMove: string | undefined,
+    turn: Color | null,
+    afterPawnPush: boolean,
+    issues: FenIssue[]
+  ): void {
+    const halfMoveClock =
+      halfMove !== undefined && /^\d+$/.test(halfMove) ? Number(halfMove) : null;
+    if (halfMove !== undefined && halfMoveClock === null) {
+      issues.push({ field: 4, message: `Invalid halfmove clock '${halfMove}'` });
+    }
+
+    const fullMoveNumber =
+      fullMove !== undefined && /^\d+$/.test(fullMove) && Number(fullMove) >= 1
+        ? Number(fullMove)
+        : null;
+    if (fullMove !== undefined && fullMoveNumber === null) {
+      issues.push({ field: 5, message: `Invalid fullmove number '${fullMove}'` });
+    }
+
+    if (halfMoveClock === null) return;
+
+    if (afterPawnPush && halfMoveClock !== 0) {
+      issues.push({
+        field: 4,
+        message: `Halfmove clock is ${halfMoveClock} but must be 0 after a double pawn push`,
+      });
+    }
+
+    if (fullMoveNumber !== null && turn) {
+      const plies = (fullMoveNumber - 1) * 2 + (turn === 'black' ? 1 : 0);
+      if (halfMoveClock > plies) {
+        issues.push({
+          field: 4,
+          message: `Halfmove clock ${halfMoveClock} is more than the ${plies} half-moves played`,
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Capitalized color name, for messages
+ */
+function colorName(color: Color): string {
+  return color === 'white' ? 'White' : 'Black';
 }
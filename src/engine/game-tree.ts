@@ -0,0 +1,524 @@
+/**
+ * Game Tree
+ *
+ * A game with variations for analysis boards: every node holds the move
+ * that leads to it, its comments and NAGs, and the variations that branch
+ * off after it. The tree keeps a Game at the current node, so the position,
+ * legal moves and status are available wherever the user navigates.
+ *
+ * @module engine/game-tree
+ */
+
+import type { Fen, GameConfig, Move, MoveOptions, Pgn } from '@/types/index';
+import { Game } from './game';
+import { PgnParser } from './pgn';
+import type { PgnTags } from './pgn';
+import type { PgnCommands, PgnNode, PgnTree } from './pgn-reader';
+import { writePgn } from './pgn-writer';
+import type { PgnWriteOptions } from './pgn-writer';
+import { formatClockTime } from './clock';
+import { InvalidPgnError } from '../utils/errors';
+
+/**
+ * A position in the game tree and the move that leads to it
+ */
+export interface GameTreeNode {
+  readonly id: number;
+  readonly move: Move | null; // null at the root
+  readonly parent: GameTreeNode | null;
+  readonly children: readonly GameTreeNode[]; // Main continuation first, then variations
+  readonly ply: number; // Half-moves from the root
+  readonly fen: Fen; // Position after the move
+  comments: string[]; // After the move; at the root, before the first move
+  startingComments: string[]; // Before the move, at the start of a variation
+  nags: number[]; // Numeric Annotation Glyphs: 1 is "!", 2 is "?", ...
+  commands: PgnCommands; // Embedded in the comments: { clk: '0:03:12', eval: '0.35' }
+}
+
+/**
+ * Node as the tree itself sees it, with its links writable
+ */
+interface TreeNode extends GameTreeNode {
+  move: Move | null;
+  parent: TreeNode | null;
+  children: TreeNode[];
+}
+
+/**
+ * Game with variations and navigation
+ *
+ * Moves must be made with addMove() rather than on getGame(), so the
+ * tree and its game stay in step.
+ *
+ * @example
+ * const tree = new GameTree();
+ * tree.addMove('e4');
+ * tree.addMove('e5');
+ * tree.back();
+ * tree.addMove('c5'); // Sicilian, a variation after 1. e4
+ * tree.goToNode(tree.getRoot());
+ * tree.goToEnd(); // 1. e4 e5
+ */
+export class GameTree {
+  private readonly game: Game;
+  private readonly root: TreeNode;
+  private readonly nodes = new Map<number, TreeNode>();
+  private current: TreeNode;
+  private nextId = 0;
+
+  /**
+   * Create a tree with no moves
+   *
+   * @param config - Starting position and variant of the game
+   * @throws InvalidFenError if the starting position is invalid
+   */
+  constructor(config: Omit<GameConfig, 'timeControl'> = {}) {
+    this.game = new Game(config);
+    this.root = this.createNode(null, null);
+    this.current = this.root;
+  }
+
+  /**
+   * Create a tree whose main line is the moves of a game
+   *
+   * @param game - Game to copy; it is not changed
+   * @returns New tree at the end of the main line
+   */
+  public static fromGame(game: Game): GameTree {
+    const tree = new GameTree({
+      variant: game.getVariant(),
+      fen: game.getStartingFen(),
+      backend: game.getBackend(),
+    });
+
+    for (const move of game.getHistory()) {
+      const node = tree.addMove(toMoveOptions(move));
+      // The clock is not replayed, but the time left is kept for PGN
+      if (node && move.clock !== undefined) {
+        node.commands['clk'] = formatClockTime(move.clock);
+      }
+    }
+
+    return tree;
+  }
+
+  /**
+   * Create a tree from a PGN game with its variations, comments and NAGs
+   *
+   * @param pgn - PGN text of one game
+   * @returns New tree at the end of the main line
+   * @throws InvalidPgnError if the PGN is malformed or a move cannot be played
+   */
+  public static fromPgn(pgn: Pgn): GameTree {
+    const parsed = PgnParser.parseTree(pgn);
+    const tree = this.fromGame(PgnParser.createGame(parsed.tags));
+
+    tree.root.comments.push(...parsed.comments);
+    Object.assign(tree.root.commands, parsed.commands);
+    tree.addPgnMoves(parsed.children);
+    tree.goToEnd();
+    return tree;
+  }
+
+  /**
+   * Get the game at the current node
+   *
+   * @returns Live game; make moves with addMove() instead of on the game
+   */
+  public getGame(): Game {
+    return this.game;
+  }
+
+  /**
+   * Get the node before the first move
+   *
+   * @returns Root node
+   */
+  public getRoot(): GameTreeNode {
+    return this.root;
+  }
+
+  /**
+   * Get the node the game is at
+   *
+   * @returns Current node
+   */
+  public getCurrentNode(): GameTreeNode {
+    return this.current;
+  }
+
+  /**
+   * Get a node by its id
+   *
+   * @param id - Node id
+   * @returns The node, or null if it is not in the tree
+   */
+  public getNode(id: number): GameTreeNode | null {
+    return this.nodes.get(id) ?? null;
+  }
+
+  /**
+   * Play a move from the current node and go to it
+   *
+   * A move already in the tree is reused; a new move becomes the main
+   * continuation if there is none, and a variation otherwise.
+   *
+   * @param move - Move to play, or the move written as text
+   * @returns The node of the move, or null if the move is illegal
+   */
+  public addMove(move: MoveOptions | string): GameTreeNode | null {
+    const played = typeof move === 'string' ? this.game.move(move) : this.game.move(move);
+    if (!played) {
+      return null;
+    }
+
+    const existing = this.current.children.find(
+      (child) => child.move !== null && isSameMove(child.move, played)
+    );
+    if (existing) {
+      this.current = existing;
+      return existing;
+    }
+
+    const node = this.createNode(this.current, { ...played });
+    this.current.children.push(node);
+    this.current = node;
+    return node;
+  }
+
+  /**
+   * Go one move forward
+   *
+   * @param variation - Continuation to follow: 0 for the main one, 1 for the first variation, ...
+   * @returns The new current node, or null if there is no such continuation
+   */
+  public forward(variation = 0): GameTreeNode | null {
+    const child = this.current.children[variation];
+    if (!child) {
+      return null;
+    }
+    this.playNode(child);
+    return child;
+  }
+
+  /**
+   * Go one move back
+   *
+   * @returns The new current node, or null at the root
+   */
+  public back(): GameTreeNode | null {
+    const parent = this.current.parent;
+    if (!parent) {
+      return null;
+    }
+    this.game.undo();
+    this.current = parent;
+    return parent;
+  }
+
+  /**
+   * Go to the position before the first move
+   *
+   * @returns Root node
+   */
+  public goToStart(): GameTreeNode {
+    while (this.back());
+    return this.current;
+  }
+
+  /**
+   * Follow the main continuation to the end of the current line
+   *
+   * @returns The last node of the line
+   */
+  public goToEnd(): GameTreeNode {
+    while (this.forward());
+    return this.current;
+  }
+
+  /**
+   * Go to a ply of the current line
+   *
+   * The line runs from the root to the current node and on along the main
+   * continuations.
+   *
+   * @param ply - Half-moves from the root, 0 for the root
+   * @returns The new current node, or null if the line is shorter
+   */
+  public goToPly(ply: number): GameTreeNode | null {
+    let target: TreeNode | null | undefined = this.current;
+    while (target && target.ply > ply) {
+      target = target.parent;
+    }
+    while (target && target.ply < ply) {
+      target = target.children[0];
+    }
+    return target ? this.goToNode(target) : null;
+  }
+
+  /**
+   * Go to any node of the tree
+   *
+   * @param node - Node, or its id
+   * @returns The new current node, or null if the node is not in the tree
+   */
+  public goToNode(node: GameTreeNode | number): GameTreeNode | null {
+    const target = this.nodes.get(typeof node === 'number' ? node : node.id);
+    if (!target || (typeof node !== 'number' && target !== node)) {
+      return null;
+    }
+
+    // Back up to the node both lines share, then play down to the target
+    const path = this.getPath(target);
+    while (!path.includes(this.current)) {
+      this.back();
+    }
+    for (const next of path.slice(path.indexOf(this.current) + 1)) {
+      this.playNode(next);
+    }
+    return target;
+  }
+
+  /**
+   * Get the moves from the root to a node
+   *
+   * @param node - Last node of the line, the current node by default
+   * @returns Nodes of the line without the root
+   */
+  public getLine(node: GameTreeNode = this.current): GameTreeNode[] {
+    const target = this.nodes.get(node.id);
+    return target ? this.getPath(target).slice(1) : [];
+  }
+
+  /**
+   * Get the moves of the main line
+   *
+   * @returns Nodes from the first move along the main continuations
+   */
+  public getMainLine(): GameTreeNode[] {
+    const line: TreeNode[] = [];
+    let node = this.root.children[0];
+    while (node) {
+      line.push(node);
+      node = node.children[0];
+    }
+    return line;
+  }
+
+  /**
+   * Check if a node is on the main line
+   *
+   * @param node - Node to check, the current node by default
+   * @returns True if every move up to the node is a main continuation
+   */
+  public isMainLine(node: GameTreeNode = this.current): boolean {
+    return this.findVariationStart(node) === null;
+  }
+
+  /**
+   * Make the variation a node is in the main continuation where it branches off
+   *
+   * Calling it again promotes the line past the next branch, until it is
+   * the main line.
+   *
+   * @param node - Node in the variation, the current node by default
+   * @returns True if a variation was promoted, false on the main line
+   */
+  public promoteVariation(node: GameTreeNode = this.current): boolean {
+    const start = this.findVariationStart(node);
+    if (!start?.parent) {
+      return false;
+    }
+
+    const siblings = start.parent.children;
+    siblings.splice(siblings.indexOf(start), 1);
+    siblings.unshift(start);
+    return true;
+  }
+
+  /**
+   * Delete the variation a node is in, from where it branches off
+   *
+   * If the current node is deleted, the game goes back to the branch point.
+   *
+   * @param node - Node in the variation, the current node by default
+   * @returns True if a variation was deleted, false on the main line
+   */
+  public deleteVariation(node: GameTreeNode = this.current): boolean {
+    const start = this.findVariationStart(node);
+    if (!start?.parent) {
+      return false;
+    }
+
+    if (this.getPath(this.current).includes(start)) {
+      this.goToNode(start.parent);
+    }
+
+    const siblings = start.parent.children;
+    siblings.splice(siblings.indexOf(start), 1);
+    this.forget(start);
+    return true;
+  }
+
+  /**
+   * Write the tree as PGN, with its variations, comments and NAGs
+   *
+   * @param tags - Tags that override or add to the generated ones
+   * @param options - Format and what to include; see writePgn()
+   * @returns PGN text
+   */
+  public toPgn(tags: PgnTags = {}, options: PgnWriteOptions = {}): Pgn {
+    // Tags and the result describe the end of the main line
+    const current = this.current;
+    const mainLine = this.getMainLine();
+    this.goToNode(mainLine[mainLine.length - 1] ?? this.root);
+    const tree: PgnTree = {
+      tags: PgnParser.generateTags(this.game, tags),
+      comments: this.root.comments,
+      commands: this.root.commands,
+      children: this.root.children.map(toPgnNode),
+      result: this.game.getResult().result,
+    };
+    this.goToNode(current);
+
+    return writePgn(tree, options);
+  }
+
+  /**
+   * Add parsed PGN moves, and everything after them, at the current node
+   *
+   * @param moves - Moves playable from the current node, main continuation first
+   * @throws InvalidPgnError naming the move that cannot be played and where it is written
+   */
+  private addPgnMoves(moves: PgnNode[]): void {
+    for (const {
+      san,
+      comments,
+      startingComments,
+      nags,
+      commands,
+      children,
+      line,
+      column,
+    } of moves) {
+      const node = this.addMove(san);
+      if (!node) {
+        const ply = this.current.ply + 1;
+        throw new InvalidPgnError(
+          `Invalid PGN: cannot play '${san}' at ply ${ply}, line ${line}, column ${column}`,
+          { move: san, ply, line, column }
+        );
+      }
+
+      node.comments.push(...comments);
+      node.startingComments.push(...startingComments);
+      node.nags.push(...nags);
+      Object.assign(node.commands, commands);
+
+      this.addPgnMoves(children);
+      this.back();
+    }
+  }
+
+  /**
+   * Play the move of a child of the current node
+   */
+  private playNode(node: TreeNode): void {
+    if (node.move) {
+      this.game.move(toMoveOptions(node.move));
+    }
+    this.current = node;
+  }
+
+  /**
+   * Get the nodes from the root to a node
+   */
+  private getPath(node: TreeNode): TreeNode[] {
+    const path: TreeNode[] = [];
+    for (let step: TreeNode | null = node; step; step = step.parent) {
+      path.unshift(step);
+    }
+    return path;
+  }
+
+  /**
+   * Find the first move of the variation a node is in
+   *
+   * @returns The nearest node, itself included, that is not a main
+   *   continuation, or null if the node is on the main line
+   */
+  private findVariationStart(node: GameTreeNode): TreeNode | null {
+    let step = this.nodes.get(node.id) ?? null;
+    while (step?.parent) {
+      if (step.parent.children[0] !== step) {
+        return step;
+      }
+      step = step.parent;
+    }
+    return null;
+  }
+
+  /**
+   * Create a node for the current position
+   */
+  private createNode(parent: TreeNode | null, move: Move | null): TreeNode {
+    const node: TreeNode = {
+      id: this.nextId++,
+      move,
+      parent,
+      children: [],
+      ply: parent ? parent.ply + 1 : 0,
+      fen: this.game.getFen(),
+      comments: [],
+      startingComments: [],
+      nags: [],
+      commands: {},
+    };
+    this.nodes.set(node.id, node);
+    return node;
+  }
+
+  /**
+   * Drop a deleted node and everything after it from the id index
+   */
+  private forget(node: TreeNode): void {
+    this.nodes.delete(node.id);
+    node.children.forEach((child) => this.forget(child));
+  }
+}
+
+/**
+ * Get the options that replay a move
+ */
+function toMoveOptions(move: Move): MoveOptions {
+  return {
+    from: move.from,
+    to: move.to,
+    ...(move.promotion && { promotion: move.promotion }),
+    ...(move.drop && { drop: move.drop }),
+  };
+}
+
+/**
+ * Check if two moves are the same move
+ */
+function isSameMove(a: Move, b: Move): boolean {
+  return a.from === b.from && a.to === b.to && a.promotion === b.promotion && a.drop === b.drop;
+}
+
+/**
+ * Get the PGN node of a tree node and everything after it
+ */
+function toPgnNode(node: GameTreeNode): PgnNode {
+  const move = node.move;
+  return {
+    san: move?.san ?? `${move?.from ?? ''}${move?.to ?? ''}`,
+    nags: node.nags,
+    comments: node.comments,
+    startingComments: node.startingComments,
+    commands: node.commands,
+    children: node.children.map(toPgnNode),
+    line: 0,
+    column: 0,
+  };
+}
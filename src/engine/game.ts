@@ -11,15 +11,100 @@ import type {
   GameStatus,
   Move,
   MoveOptions,
+  MoveParseOptions,
+  MoveParseResult,
+  MoveResult,
   CastlingRights,
   Square,
   GameConfig,
+  MoveGeneratorBackend,
+  GameVariant,
   Piece,
+  PieceType,
+  Fen,
+  CastlingSide,
+  CheckCounts,
+  DrawClaimReason,
+  GameEventMap,
+  GameResult,
+  GameResultString,
+  TerminationReason,
+  Pockets,
+  PocketPieceType,
+  VariantOutcome,
+  Pin,
+  XrayAttacker,
 } from '@/types/index';
 import { Board } from './board';
-import { MoveGenerator } from './moves';
-import { isKingInCheck } from './pieces';
+import type { MoveGenerator, MoveResolution } from './moves';
 import { FenParser } from './fen';
+import { getVariantByKey } from './variants/index';
+import { clonePockets, createEmptyPockets, isPocketPieceType } from './pockets';
+import { isDeadPosition, isInsufficientMaterial, isTimeoutDraw } from './dead-position';
+import { ChessClock } from './clock';
+import { TypedEventEmitter } from './events';
+import { matchMoveNotation, parseMoveNotation, toMoveOptions } from './notation';
+import type { MoveNotationMatch } from './notation';
+import {
+  getAttackers,
+  getCheckers,
+  getDefenders,
+  getPinnedPieces,
+  getXrayAttackers,
+  isDiscoveredCheckPossible,
+} from './attacks';
+import { GameOverError, IllegalMoveError } from '../utils/errors';
+import type { EventListener } from './events';
+import type { Variant } from './variants/index';
+import {
+  CASTLING_SIDES,
+  KING_CASTLING_FILE,
+  ROOK_CASTLING_FILE,
+  getBackRank,
+  getCastlingRightKey,
+  getCastlingRookFile,
+  fileLetter,
+} from './castling';
+import {
+  computeHash,
+  getPieceKey,
+  getCastlingKey,
+  getEnPassantKey,
+  getCheckCountKey,
+  getPocketsKey,
+  SIDE_TO_MOVE_KEY,
+} from './zobrist';
+
+/**
+ * SAN piece letters
+ */
+const PIECE_LETTERS: Record<PieceType, string> = {
+  king: 'K',
+  queen: 'Q',
+  rook: 'R',
+  bishop: 'B',
+  knight: 'N',
+  pawn: '',
+};
+
+/**
+ * Irreversible state saved before each ply
+ *
+ * Everything a move can change that cannot be recomputed by replaying the
+ * move backwards, so that undo is the exact inverse of move.
+ */
+interface IrreversibleState {
+  castlingRights: CastlingRights;
+  enPassantSquare: Square | null;
+  halfMoveClock: number;
+  fullMoveNumber: number;
+  hash: bigint;
+  hashedEnPassant: Square | null;
+  checksGiven: CheckCounts;
+  pockets: Pockets;
+  promoted: Square[];
+  status: GameStatus;
+}
 
 /**
  * Game class
@@ -37,7 +122,22 @@ export class Game {
   private halfMoveClock: number; // For fifty-move rule
   private fullMoveNumber: number; // Starts at 1, increments after black's move
   private gameStatus: GameStatus;
-  private positionHistory: Map<string, number>; // For threefold repetition
+  private positionHistory: Map<bigint, number>; // For threefold repetition
+  private hash: bigint; // Zobrist hash of the current position
+  private hashedEnPassant: Square | null; // En passant square included in the hash
+  private stateStack: IrreversibleState[]; // One entry per move in moveHistory
+  private redoStack: Move[]; // Undone moves, most recently undone last
+  private backend: MoveGeneratorBackend; // Move generation implementation
+  private variant: Variant; // Rules of the chess variant being played
+  private initialFen: Fen; // Variant starting position, restored by reset()
+  private startingFen: Fen; // Position the game started from
+  private checksGiven: CheckCounts; // Checks given by each side (Three-check)
+  private pockets: Pockets; // Pieces in hand (Crazyhouse)
+  private promoted: Square[]; // Squares of promoted pieces (Crazyhouse)
+  private decidedWinner: Color | null; // Winner of a game ended off the board
+  private drawOffer: Color | null; // Color with a pending draw offer
+  private clock: ChessClock | null; // Clock of a timed game
+  private events: TypedEventEmitter<GameEventMap>;
 
   /**
    * Create a new game
@@ -59,38 +159,239 @@ export class Game {
     this.fullMoveNumber = 1;
     this.gameStatus = 'active';
     this.positionHistory = new Map();
-
-    // Set up starting position unless FEN is provided
-    if (!config?.fen) {
+    this.hash = 0n;
+    this.hashedEnPassant = null;
+    this.stateStack = [];
+    this.redoStack = [];
+    this.backend = config?.backend ?? 'array';
+    this.variant = getVariantByKey(config?.variant ?? 'standard');
+    this.initialFen = this.variant.getStartingFen(config);
+    this.startingFen = this.initialFen;
+    this.checksGiven = { white: 0, black: 0 };
+    this.pockets = createEmptyPockets();
+    this.promoted = [];
+    this.decidedWinner = null;
+    this.drawOffer = null;
+    this.clock = config?.timeControl ? new ChessClock(config.timeControl) : null;
+    this.events = new TypedEventEmitter();
+
+    this.moveGenerator = this.createMoveGenerator();
+
+    // Set up the starting position: an explicit FEN, the variant's starting
+    // position or the standard position
+    if (config?.fen) {
+      this.loadFen(config.fen);
+    } else if (this.variant.key !== 'standard') {
+      this.loadFen(this.initialFen);
+    } else {
       this.board.setupStartingPosition();
+      this.refreshHash();
       this.recordPosition();
     }
-
-    this.moveGenerator = new MoveGenerator(this.board, this.castlingRights, this.enPassantSquare);
   }
 
   /**
    * Make a move
    *
-   * @param moveOptions - Move to make
-   * @returns The executed move or null if invalid
+   * Making a new move discards any moves available to redo, and a move by
+   * the opponent of a player who offered a draw declines the offer. In a
+   * timed game the mover's clock is pressed and the time left is recorded
+   * on the move; a move made after the flag fell ends the game on time.
+   *
+   * A move can also be given as text in SAN ("Nf3"), UCI ("g1f3", "e7e8q")
+   * or long algebraic notation ("Ng1-f3"). Use tryMove() to find out why a
+   * move was rejected.
+   *
+   * @param moveOptions - Move to make, or the move written as text
+   * @param parseOptions - Strict or lenient reading of a move written as text
+   * @returns The executed move or null if invalid, out of time or the game is over
    */
-  public move(moveOptions: MoveOptions): Move | null {
-    // Validate the move
-    const validation = this.moveGenerator.validateMove(moveOptions, this.currentTurn);
-    if (!validation.valid) {
-      return null;
+  public move(moveOptions: MoveOptions): Move | null;
+  public move(notation: string, parseOptions?: MoveParseOptions): Move | null;
+  public move(moveOptions: MoveOptions | string, parseOptions?: MoveParseOptions): Move | null {
+    const result =
+      typeof moveOptions === 'string'
+        ? this.tryMove(moveOptions, parseOptions)
+        : this.tryMove(moveOptions);
+    return result.valid ? result.move : null;
+  }
+
+  /**
+   * Make a move, reporting why it was rejected
+   *
+   * @param moveOptions - Move to make, or the move written as text
+   * @param parseOptions - Strict or lenient reading of a move written as text
+   * @returns The executed move, or the error code and message if it was rejected
+   */
+  public tryMove(moveOptions: MoveOptions): MoveResult;
+  public tryMove(notation: string, parseOptions?: MoveParseOptions): MoveResult;
+  public tryMove(moveOptions: MoveOptions | string, parseOptions?: MoveParseOptions): MoveResult {
+    if (this.checkTime()) {
+      return { valid: false, code: 'game_over', error: 'Game is over on time' };
+    }
+    if (this.isGameOver()) {
+      return { valid: false, code: 'game_over', error: 'Game is already over' };
     }
 
-    const { from, to, promotion } = moveOptions;
-    const piece = this.board.getPiece(from);
-    if (!piece) return null;
+    // Resolve the legal move once; it is played without being validated again
+    const resolution: MoveNotationMatch =
+      typeof moveOptions === 'string'
+        ? matchMoveNotation(
+            moveOptions,
+            this.getLegalMoves(),
+            (move) => this.generateSan(move),
+            parseOptions
+          )
+        : this.resolveMove(moveOptions);
+    if (!resolution.move) {
+      return {
+        valid: false,
+        code: resolution.code ?? 'unreachable',
+        error: resolution.error ?? 'Illegal move',
+        ...(resolution.candidates ? { candidates: resolution.candidates } : {}),
+      };
+    }
+
+    const mover = this.currentTurn;
+    const move = this.playMove(resolution.move);
 
-    const capturedPiece = this.board.getPiece(to);
+    this.redoStack = [];
+    if (this.drawOffer !== mover) {
+      this.drawOffer = null;
+    }
+    this.pressClock(mover, move);
+    this.emitMoveEvents(move);
+    return { valid: true, move };
+  }
+
+  /**
+   * Make a move, throwing if it is rejected
+   *
+   * @param moveOptions - Move to make, or the move written as text
+   * @param parseOptions - Strict or lenient reading of a move written as text
+   * @returns The executed move
+   * @throws GameOverError if the game has ended
+   * @throws IllegalMoveError with the reason if the move is rejected
+   */
+  public moveOrThrow(moveOptions: MoveOptions): Move;
+  public moveOrThrow(notation: string, parseOptions?: MoveParseOptions): Move;
+  public moveOrThrow(moveOptions: MoveOptions | string, parseOptions?: MoveParseOptions): Move {
+    const result =
+      typeof moveOptions === 'string'
+        ? this.tryMove(moveOptions, parseOptions)
+        : this.tryMove(moveOptions);
+    if (!result.valid && result.code === 'game_over') {
+      throw new GameOverError(result.error, this.gameStatus);
+    }
+    if (!result.valid) {
+      throw new IllegalMoveError(result.error, result.code, moveOptions, result.candidates);
+    }
+    return result.move;
+  }
+
+  /**
+   * Read a move written as text
+   *
+   * Accepts SAN ("Nf3", "exd5", "e8=Q", "O-O"), UCI ("g1f3", "e7e8q"), long
+   * algebraic notation ("Ng1-f3") and drops ("N@f3"). Lenient mode, the
+   * default, also accepts variations such as "0-0", "e8Q" or "Ng1f3".
+   *
+   * @param notation - Move written as text
+   * @param options - Set strict to require exact notation
+   * @returns The move to make, or an error listing the candidate moves
+   */
+  public parseMove(notation: string, options: MoveParseOptions = {}): MoveParseResult {
+    return parseMoveNotation(
+      notation,
+      this.getLegalMoves(),
+      (move) => this.generateSan(move),
+      options
+    );
+  }
+
+  /**
+   * Listen to a game event
+   *
+   * Moves made with move() or redo() emit 'move' followed by 'capture',
+   * 'castle', 'promotion', 'check' and 'gameOver' as they apply. The
+   * low-level makeMove()/unmakeMove() used by search emit nothing.
+   *
+   * @param event - Event name
+   * @param listener - Called with the event payload
+   * @returns This game, for chaining
+   */
+  public on<K extends keyof GameEventMap>(
+    event: K,
+    listener: EventListener<GameEventMap[K]>
+  ): this {
+    this.events.on(event, listener);
+    return this;
+  }
 
-    // Handle special moves
+  /**
+   * Listen to a game event once
+   *
+   * @param event - Event name
+   * @param listener - Called with the next event payload
+   * @returns This game, for chaining
+   */
+  public once<K extends keyof GameEventMap>(
+    event: K,
+    listener: EventListener<GameEventMap[K]>
+  ): this {
+    this.events.once(event, listener);
+    return this;
+  }
+
+  /**
+   * Stop listening to a game event
+   *
+   * @param event - Event name
+   * @param listener - Listener added with on() or once()
+   * @returns This game, for chaining
+   */
+  public off<K extends keyof GameEventMap>(
+    event: K,
+    listener: EventListener<GameEventMap[K]>
+  ): this {
+    this.events.off(event, listener);
+    return this;
+  }
+
+  /**
+   * Validate a move and find the legal move it describes
+   *
+   * @param moveOptions - Requested move
+   * @returns The legal move, or why the move is not valid
+   */
+  private resolveMove(moveOptions: MoveOptions): MoveResolution {
+    return this.moveGenerator.resolveMove(
+      this.resolveCastlingDestination(moveOptions),
+      this.currentTurn
+    );
+  }
+
+  /**
+   * Play a legal move, recording it in the history
+   *
+   * @param legalMove - Legal move, as resolved by the move generator
+   * @returns The executed move
+   */
+  private playMove(legalMove: Move): Move {
+    const { from, to, promotion, drop } = legalMove;
+    const piece = drop
+      ? { type: drop, color: this.currentTurn }
+      : (this.board.getPiece(from) ?? legalMove.piece);
+
+    // Handle special moves; the legal move carries what only the move
+    // generator knows, such as castling and Atomic explosions
     const isEnPassant = this.isEnPassantCapture(from, to);
-    const isCastling = this.isCastlingMove(from, to);
+    const isCastling = legalMove.castling;
+
+    // An en passant capture takes the pawn behind the destination square, and
+    // a Chess960 castling move "captures" the king's own rook
+    const capturedSquare = isEnPassant ? (`${to.charAt(0)}${from.charAt(1)}` as Square) : to;
+    const capturedPiece = isCastling ? null : this.board.getPiece(capturedSquare);
 
     // Build the move object
     const move: Move = {
@@ -101,26 +402,22 @@ export class Game {
       promotion,
       enPassant: isEnPassant ?? undefined,
       castling: isCastling ?? undefined,
+      explosion: legalMove.explosion,
+      drop,
     };
 
     // Generate SAN notation before executing the move
     let san = this.generateSan(move);
 
-    // Execute the move
-    this.executeMove(move);
-
-    // Update game state
-    this.updateGameState(move);
-
-    // Record the position for repetition detection
-    this.recordPosition();
+    // Apply the move and record it in the history
+    this.makeMove(move);
 
     // Check game ending conditions
     this.updateGameStatus();
 
     // Add check/checkmate indicators after game status is updated
     const opponent = this.currentTurn;
-    const isCheck = isKingInCheck(this.board, opponent);
+    const isCheck = this.moveGenerator.isInCheck(opponent);
     const isCheckmate = this.gameStatus === 'checkmate';
 
     if (isCheckmate) {
@@ -131,47 +428,80 @@ export class Game {
       move.check = true;
     }
 
-    // Add SAN to the move
+    // Add SAN to the move (the history holds the same object)
     move.san = san;
 
-    // Add move to history
-    this.moveHistory.push(move);
-
     return move;
   }
 
   /**
-   * Get all legal moves for the current player
+   * Make a move without validation or notation, for search
    *
-   * @returns Array of legal moves
+   * Low-level counterpart of move() for engines: the move must be legal in
+   * the current position (e.g. taken from getLegalMoves()). The board, hash,
+   * clocks and repetition counts are updated and the move is pushed onto the
+   * history, but SAN, check flags and the game status are not computed and
+   * the redo stack is left untouched. Pair every call with unmakeMove().
+   *
+   * @param move - Legal move to make
    */
-  public getLegalMoves(): Move[] {
-    return this.moveGenerator.generateLegalMoves(this.currentTurn);
+  public makeMove(move: Move): void {
+    // Save irreversible state so the move can be undone exactly
+    this.stateStack.push(this.saveState());
+
+    // Remove the outgoing en passant key from the hash
+    this.hash ^= getEnPassantKey(this.hashedEnPassant);
+
+    this.executeMove(move);
+    this.updateGameState(move);
+    this.recordPosition();
+    this.moveHistory.push(move);
   }
 
   /**
-   * Get legal moves from a specific square
+   * Take back the last move, for search
    *
-   * @param square - Square to get moves from
-   * @returns Array of legal moves
+   * Restores the previous position exactly, including the game status, but
+   * unlike undo() does not make the move available to redo().
+   *
+   * @returns The unmade move or null if there are no moves
    */
-  public getLegalMovesFrom(square: Square): Move[] {
-    return this.moveGenerator.generateLegalMovesFrom(square, this.currentTurn);
+  public unmakeMove(): Move | null {
+    const move = this.moveHistory.pop();
+    const state = this.stateStack.pop();
+    if (!move || !state) {
+      return null;
+    }
+
+    // The position being left no longer counts towards repetition
+    this.forgetPosition();
+
+    // Handle castling
+    if (move.castling) {
+      this.undoCastling(move, state.castlingRights);
+    } else {
+      this.undoPieceMove(move);
+    }
+
+    // Switch turn back and restore everything the move discarded
+    this.currentTurn = this.currentTurn === 'white' ? 'black' : 'white';
+    this.restoreState(state);
+
+    return move;
   }
 
   /**
-   * Undo the last move
+   * Put a moved piece and anything it captured back on the board
    *
-   * @returns The undone move or null if no moves to undo
+   * @param move - Non-castling move to take back
    */
-  public undo(): Move | null {
-    if (this.moveHistory.length === 0) {
-      return null;
+  private undoPieceMove(move: Move): void {
+    // A dropped piece goes back into the pocket, restored with the state
+    if (move.drop) {
+      this.board.setPiece(move.to, null);
+      return;
     }
 
-    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
-    const move = this.moveHistory.pop()!;
-
     // Restore the piece to its original position
     this.board.setPiece(move.from, move.piece);
 
@@ -192,108 +522,605 @@ export class Game {
       this.board.setPiece(move.to, null);
     }
 
-    // Handle castling
-    if (move.castling) {
-      this.undoCastling(move);
+    // Atomic: restore the pieces destroyed by the explosion
+    for (const { square, piece } of move.explosion ?? []) {
+      this.board.setPiece(square, piece);
+    }
+  }
+
+  /**
+   * Get all legal moves for the current player
+   *
+   * @returns Array of legal moves
+   */
+  public getLegalMoves(): Move[] {
+    return this.moveGenerator.generateLegalMoves(this.currentTurn);
+  }
+
+  /**
+   * Get legal moves from a specific square
+   *
+   * @param square - Square to get moves from
+   * @returns Array of legal moves
+   */
+  public getLegalMovesFrom(square: Square): Move[] {
+    return this.moveGenerator.generateLegalMovesFrom(square, this.currentTurn);
+  }
+
+  /**
+   * Undo the last move
+   *
+   * Restores the position exactly as it was before the move, including
+   * castling rights, en passant square, clocks and repetition counts.
+   * Undone moves can be replayed with redo().
+   *
+   * @returns The undone move or null if no moves to undo
+   */
+  public undo(): Move | null;
+  /**
+   * Undo several moves
+   *
+   * @param count - Number of plies to take back
+   * @returns The undone moves, most recent first (fewer if history is shorter)
+   */
+  public undo(count: number): Move[];
+  public undo(count?: number): Move | Move[] | null {
+    if (count === undefined) {
+      return this.undoOne();
+    }
+
+    const undone: Move[] = [];
+    for (let i = 0; i < count; i++) {
+      const move = this.undoOne();
+      if (!move) break;
+      undone.push(move);
+    }
+    return undone;
+  }
+
+  /**
+   * Redo the last undone move
+   *
+   * @returns The replayed move or null if nothing to redo
+   */
+  public redo(): Move | null;
+  /**
+   * Redo several undone moves
+   *
+   * @param count - Number of plies to replay
+   * @returns The replayed moves in play order (fewer if not enough to redo)
+   */
+  public redo(count: number): Move[];
+  public redo(count?: number): Move | Move[] | null {
+    if (count === undefined) {
+      return this.redoOne();
+    }
+
+    const replayed: Move[] = [];
+    for (let i = 0; i < count; i++) {
+      const move = this.redoOne();
+      if (!move) break;
+      replayed.push(move);
     }
+    return replayed;
+  }
+
+  /**
+   * Check if there are undone moves that can be replayed
+   *
+   * @returns True if redo() would replay a move
+   */
+  public canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
 
-    // Restore game state from previous move or initial state
-    if (this.moveHistory.length > 0) {
-      const previousMove = this.moveHistory[this.moveHistory.length - 1];
-      if (previousMove) {
-        this.restoreGameStateFromMove(previousMove);
+  /**
+   * Take back the last move
+   *
+   * @returns The undone move or null if no moves to undo
+   */
+  private undoOne(): Move | null {
+    const move = this.unmakeMove();
+    if (move) {
+      this.redoStack.push(move);
+      this.drawOffer = null;
+      this.clock?.undoPress();
+      this.events.emit('undo', move);
+    }
+    return move;
+  }
+
+  /**
+   * Replay the last undone move
+   *
+   * @returns The replayed move or null if nothing to redo
+   */
+  private redoOne(): Move | null {
+    const move = this.redoStack[this.redoStack.length - 1];
+    if (!move) {
+      return null;
+    }
+
+    // The move stays available to redo if it cannot be replayed
+    const resolution = this.resolveMove(toMoveOptions(move));
+    if (!resolution.move) {
+      return null;
+    }
+
+    const mover = this.currentTurn;
+    const replayed = this.playMove(resolution.move);
+    this.redoStack.pop();
+    this.pressClock(mover, replayed);
+    this.emitMoveEvents(replayed);
+    return replayed;
+  }
+
+  /**
+   * Press the mover's clock in a timed game and record the time left on the move
+   *
+   * @param mover - Player who made the move
+   * @param move - The move just made
+   */
+  private pressClock(mover: Color, move: Move): void {
+    if (!this.clock) return;
+
+    move.clock = this.clock.press(mover);
+    if (this.isGameOver()) {
+      this.clock.stop();
+    }
+  }
+
+  /**
+   * Get current game status
+   *
+   * @returns Current game status
+   */
+  public getStatus(): GameStatus {
+    return this.gameStatus;
+  }
+
+  /**
+   * Get current turn
+   *
+   * @returns Color of current player
+   */
+  public getTurn(): Color {
+    return this.currentTurn;
+  }
+
+  /**
+   * Get move history
+   *
+   * @returns Array of all moves played
+   */
+  public getHistory(): Move[] {
+    return [...this.moveHistory];
+  }
+
+  /**
+   * Get current board
+   *
+   * @returns The current board
+   */
+  public getBoard(): Board {
+    return this.board;
+  }
+
+  /**
+   * Get current position
+   *
+   * @returns Position object with all game state
+   */
+  public getPosition(): {
+    board: (Piece | null)[][];
+    turn: Color;
+    castlingRights: CastlingRights;
+    enPassantSquare: Square | null;
+    halfMoveClock: number;
+    fullMoveNumber: number;
+  } {
+    return {
+      board: this.board.getBoard(),
+      turn: this.currentTurn,
+      castlingRights: { ...this.castlingRights },
+      enPassantSquare: this.enPassantSquare,
+      halfMoveClock: this.halfMoveClock,
+      fullMoveNumber: this.fullMoveNumber,
+    };
+  }
+
+  /**
+   * Get the Zobrist hash of the current position
+   *
+   * Two positions share a hash when they have the same pieces on the same
+   * squares, side to move, castling rights and en passant capture options.
+   *
+   * @returns 64-bit position hash
+   */
+  public getHash(): bigint {
+    return this.hash;
+  }
+
+  /**
+   * Get how many times the current position has occurred
+   *
+   * Counts every occurrence in the history (including moves made with
+   * makeMove()), so a search can recognise repetitions.
+   *
+   * @returns Occurrences of the current position, including this one
+   */
+  public getRepetitionCount(): number {
+    return this.positionHistory.get(this.hash) ?? 0;
+  }
+
+  /**
+   * Get the rule under which a draw can be claimed in the current position
+   *
+   * Under FIDE rules threefold repetition and the fifty-move rule do not end
+   * the game by themselves; a player has to claim the draw. The claim can
+   * also be based on the move the player intends to make.
+   *
+   * @param move - Move the claiming player intends to make
+   * @returns 'threefold_repetition', 'fifty_move_rule', or null if no claim is possible
+   */
+  public getDrawClaimReason(move?: MoveOptions): DrawClaimReason | null {
+    if (this.isGameOver()) {
+      return null;
+    }
+
+    // Look at the position after the intended move
+    if (move) {
+      const { move: legalMove } = this.resolveMove(move);
+      if (!legalMove) {
+        return null;
       }
-    } else {
-      this.restoreInitialGameState();
+      this.playMove(legalMove);
+      const reason = this.getDrawClaimReason();
+      this.unmakeMove();
+      return reason;
     }
 
-    // Switch turn back
-    this.currentTurn = this.currentTurn === 'white' ? 'black' : 'white';
+    if (this.getRepetitionCount() >= 3) {
+      return 'threefold_repetition';
+    }
+    if (this.halfMoveClock >= 100) {
+      return 'fifty_move_rule';
+    }
+    return null;
+  }
 
-    // Update move generator
-    this.moveGenerator = new MoveGenerator(this.board, this.castlingRights, this.enPassantSquare);
+  /**
+   * Check if a draw can be claimed
+   *
+   * @param move - Move the claiming player intends to make
+   * @returns True if threefold repetition or the fifty-move rule applies
+   */
+  public canClaimDraw(move?: MoveOptions): boolean {
+    return this.getDrawClaimReason(move) !== null;
+  }
 
-    // Update game status
-    this.updateGameStatus();
+  /**
+   * Claim a draw by threefold repetition or the fifty-move rule
+   *
+   * Ends the game with the status of the rule the claim is based on. A claim
+   * based on an intended move plays that move first. An invalid claim
+   * changes nothing. Undoing the last move reopens the game.
+   *
+   * @param move - Move the claiming player intends to make
+   * @returns True if the claim was valid and the game is drawn
+   */
+  public claimDraw(move?: MoveOptions): boolean {
+    const reason = this.getDrawClaimReason(move);
+    if (!reason) {
+      return false;
+    }
+
+    if (move) {
+      this.move(move);
+    }
+    return this.endGame(reason, null);
+  }
+
+  /**
+   * Get the formal result of the game
+   *
+   * Board-derived endings (checkmate, draw rules, variant rules) and endings
+   * recorded with resign(), acceptDraw(), forfeitOnTime(), abandon() or
+   * adjudicate() are all reported here.
+   *
+   * @returns PGN result, winner and termination reason
+   */
+  public getResult(): GameResult {
+    const draw = (termination: TerminationReason): GameResult => ({
+      result: '1/2-1/2',
+      winner: null,
+      termination,
+    });
+    const win = (winner: Color | null, termination: TerminationReason): GameResult =>
+      winner
+        ? { result: winner === 'white' ? '1-0' : '0-1', winner, termination }
+        : draw(termination);
+
+    switch (this.gameStatus) {
+      case 'active':
+      case 'check':
+        return { result: '*', winner: null, termination: null };
+      case 'checkmate':
+        return win(this.currentTurn === 'white' ? 'black' : 'white', 'checkmate');
+      case 'stalemate':
+        return draw('stalemate');
+      case 'variant_win':
+      case 'variant_draw':
+        return win(this.getVariantOutcome()?.winner ?? null, 'variant_rule');
+      case 'resignation':
+      case 'agreement':
+      case 'timeout':
+      case 'abandonment':
+      case 'adjudication':
+        return win(this.decidedWinner, this.gameStatus);
+      default:
+        return draw('draw_rule');
+    }
+  }
+
+  /**
+   * Resign the game
+   *
+   * @param color - Color that resigns
+   * @returns True if the game was in progress and is now lost by this color
+   */
+  public resign(color: Color): boolean {
+    return this.endGame('resignation', color === 'white' ? 'black' : 'white');
+  }
+
+  /**
+   * Offer a draw
+   *
+   * The offer stands until the opponent accepts or declines it or makes a
+   * move.
+   *
+   * @param color - Color offering the draw (defaults to the side to move)
+   * @returns True if the offer was made
+   */
+  public offerDraw(color: Color = this.currentTurn): boolean {
+    if (this.isGameOver()) {
+      return false;
+    }
+    this.drawOffer = color;
+    return true;
+  }
+
+  /**
+   * Get the color whose draw offer is pending
+   *
+   * @returns Offering color, or null if there is no offer
+   */
+  public getDrawOffer(): Color | null {
+    return this.drawOffer;
+  }
+
+  /**
+   * Accept the pending draw offer
+   *
+   * @returns True if there was an offer and the game is now drawn
+   */
+  public acceptDraw(): boolean {
+    return this.drawOffer !== null && this.endGame('agreement', null);
+  }
+
+  /**
+   * Decline the pending draw offer
+   *
+   * @returns True if there was an offer to decline
+   */
+  public declineDraw(): boolean {
+    if (this.drawOffer === null) {
+      return false;
+    }
+    this.drawOffer = null;
+    return true;
+  }
+
+  /**
+   * Record that a player ran out of time
+   *
+   * The player loses unless the opponent could not checkmate by any series
+   * of legal moves, in which case the game is drawn (see isDrawOnTimeout()).
+   *
+   * @param color - Color whose time ran out
+   * @returns True if the game was in progress and is now decided
+   */
+  public forfeitOnTime(color: Color): boolean {
+    const winner = this.isDrawOnTimeout(color) ? null : color === 'white' ? 'black' : 'white';
+    return this.endGame('timeout', winner);
+  }
+
+  /**
+   * Record that a player abandoned the game
+   *
+   * @param color - Color that abandoned the game
+   * @returns True if the game was in progress and is now lost by this color
+   */
+  public abandon(color: Color): boolean {
+    return this.endGame('abandonment', color === 'white' ? 'black' : 'white');
+  }
+
+  /**
+   * End the game by an arbiter's decision
+   *
+   * @param result - Decided result
+   * @returns True if the game was in progress and is now decided
+   */
+  public adjudicate(result: Exclude<GameResultString, '*'>): boolean {
+    const winner = result === '1-0' ? 'white' : result === '0-1' ? 'black' : null;
+    return this.endGame('adjudication', winner);
+  }
+
+  /**
+   * Get the clock of a timed game
+   *
+   * @returns The clock, or null for an untimed game
+   */
+  public getClock(): ChessClock | null {
+    return this.clock;
+  }
+
+  /**
+   * Play the game with a clock, or without one
+   *
+   * @param clock - Clock to use, or null to stop timing the game
+   */
+  public setClock(clock: ChessClock | null): void {
+    this.clock = clock;
+  }
+
+  /**
+   * End the game on time if the flag of a player has fallen
+   *
+   * Called before every move; poll it to notice a flag fall while a player
+   * is thinking. The result respects isDrawOnTimeout().
+   *
+   * @returns True if the game has just ended on time
+   */
+  public checkTime(): boolean {
+    const flagged = this.clock?.getFlagged();
+    return flagged ? this.forfeitOnTime(flagged) : false;
+  }
+
+  /**
+   * Check if neither player has enough material to checkmate
+   *
+   * Covers K vs K, a single minor piece, and any number of bishops that
+   * all stand on squares of one color. Always false in variants that do
+   * not draw by insufficient material.
+   *
+   * @returns True if insufficient material
+   */
+  public isInsufficientMaterial(): boolean {
+    return this.variant.drawsByInsufficientMaterial && isInsufficientMaterial(this.board);
+  }
+
+  /**
+   * Check if the position is dead (FIDE Article 5.2.2)
+   *
+   * Besides insufficient material this detects locked pawn structures in
+   * which neither king can ever break through.
+   *
+   * @returns True if no series of legal moves can end in checkmate
+   */
+  public isDeadPosition(): boolean {
+    return (
+      this.variant.drawsByInsufficientMaterial && isDeadPosition(this.board, this.hashedEnPassant)
+    );
+  }
+
+  /**
+   * Check if a flag fall is a draw rather than a loss (FIDE Article 6.9)
+   *
+   * @param color - Color whose time ran out
+   * @returns True if the opponent could not checkmate by any series of legal moves
+   */
+  public isDrawOnTimeout(color: Color): boolean {
+    return this.variant.drawsByInsufficientMaterial && isTimeoutDraw(this.board, color);
+  }
+
+  /**
+   * Check if the game is over
+   *
+   * @returns True if game is over
+   */
+  public isGameOver(): boolean {
+    return this.gameStatus !== 'active' && this.gameStatus !== 'check';
+  }
 
-    return move;
+  /**
+   * Check if current player is in check
+   *
+   * @returns True if in check
+   */
+  public isInCheck(): boolean {
+    return this.moveGenerator.isInCheck(this.currentTurn);
   }
 
   /**
-   * Get current game status
+   * Check whether a move would put the opponent in check
    *
-   * @returns Current game status
+   * The bitboard backend answers from its bitboards; otherwise the move is
+   * made and taken back with makeMove()/unmakeMove().
+   *
+   * @param move - Legal move in the current position (e.g. from getLegalMoves())
+   * @returns True if the move gives check
    */
-  public getStatus(): GameStatus {
-    return this.gameStatus;
+  public givesCheck(move: Move): boolean {
+    const check = this.moveGenerator.givesCheck(move, this.currentTurn);
+    if (check !== null) {
+      return check;
+    }
+
+    this.makeMove(move);
+    const inCheck = this.isInCheck();
+    this.unmakeMove();
+    return inCheck;
   }
 
   /**
-   * Get current turn
+   * Get the pieces of a color that attack a square
    *
-   * @returns Color of current player
+   * @param square - Target square
+   * @param color - Color of the attacking pieces
+   * @returns Squares of the attackers
    */
-  public getTurn(): Color {
-    return this.currentTurn;
+  public getAttackers(square: Square, color: Color): Square[] {
+    return getAttackers(this.board, square, color);
   }
 
   /**
-   * Get move history
+   * Get the pieces that defend the piece on a square
    *
-   * @returns Array of all moves played
+   * @param square - Square of the defended piece
+   * @returns Squares of its defenders, empty if the square is empty
    */
-  public getHistory(): Move[] {
-    return [...this.moveHistory];
+  public getDefenders(square: Square): Square[] {
+    return getDefenders(this.board, square);
   }
 
   /**
-   * Get current board
+   * Get the pieces giving check to the side to move
    *
-   * @returns The current board
+   * @returns Squares of the checking pieces
    */
-  public getBoard(): Board {
-    return this.board;
+  public getCheckers(): Square[] {
+    return getCheckers(this.board, this.currentTurn);
   }
 
   /**
-   * Get current position
+   * Get the pieces pinned to their king
    *
-   * @returns Position object with all game state
+   * @param color - Color of the pinned pieces (default: side to move)
+   * @returns Pinned pieces with their pinners and pin rays
    */
-  public getPosition(): {
-    board: (Piece | null)[][];
-    turn: Color;
-    castlingRights: CastlingRights;
-    enPassantSquare: Square | null;
-    halfMoveClock: number;
-    fullMoveNumber: number;
-  } {
-    return {
-      board: this.board.getBoard(),
-      turn: this.currentTurn,
-      castlingRights: { ...this.castlingRights },
-      enPassantSquare: this.enPassantSquare,
-      halfMoveClock: this.halfMoveClock,
-      fullMoveNumber: this.fullMoveNumber,
-    };
+  public getPinnedPieces(color: Color = this.currentTurn): Pin[] {
+    return getPinnedPieces(this.board, color);
   }
 
   /**
-   * Check if the game is over
+   * Get the sliding pieces that attack a square through one other piece
    *
-   * @returns True if game is over
+   * @param square - Target square
+   * @param color - Color of the attacking pieces
+   * @returns X-raying pieces with the piece they attack through
    */
-  public isGameOver(): boolean {
-    return this.gameStatus !== 'active' && this.gameStatus !== 'check';
+  public getXrayAttackers(square: Square, color: Color): XrayAttacker[] {
+    return getXrayAttackers(this.board, square, color);
   }
 
   /**
-   * Check if current player is in check
+   * Check if the side to move can give a discovered check
    *
-   * @returns True if in check
+   * @returns True if a legal move uncovers check from a rook, bishop or queen
    */
-  public isInCheck(): boolean {
-    return isKingInCheck(this.board, this.currentTurn);
+  public isDiscoveredCheckPossible(): boolean {
+    return isDiscoveredCheckPossible(this.board, this.currentTurn, this.getLegalMoves());
   }
 
   /**
@@ -336,6 +1163,14 @@ export class Game {
    * Reset the game to starting position
    */
   public reset(): void {
+    this.clock?.reset();
+
+    if (this.variant.key !== 'standard') {
+      this.loadFen(this.initialFen);
+      return;
+    }
+
+    this.startingFen = this.initialFen;
     this.board.setupStartingPosition();
     this.currentTurn = 'white';
     this.moveHistory = [];
@@ -350,15 +1185,138 @@ export class Game {
     this.fullMoveNumber = 1;
     this.gameStatus = 'active';
     this.positionHistory.clear();
+    this.stateStack = [];
+    this.redoStack = [];
+    this.drawOffer = null;
+    this.checksGiven = { white: 0, black: 0 };
+    this.pockets = createEmptyPockets();
+    this.promoted = [];
+    this.moveGenerator = this.createMoveGenerator();
+    this.refreshHash();
     this.recordPosition();
-    this.moveGenerator = new MoveGenerator(this.board, this.castlingRights, this.enPassantSquare);
+    this.events.emit('positionLoaded', { fen: this.getFen() });
+  }
+
+  /**
+   * Get the move generation backend used by this game
+   *
+   * @returns 'array' or 'bitboard'
+   */
+  public getBackend(): MoveGeneratorBackend {
+    return this.backend;
+  }
+
+  /**
+   * Get the chess variant played in this game
+   *
+   * @returns Variant key (e.g. 'standard', 'chess960', 'atomic')
+   */
+  public getVariant(): GameVariant {
+    return this.variant.key;
+  }
+
+  /**
+   * Get the rules of the variant played in this game
+   *
+   * @returns Variant rules
+   */
+  public getVariantRules(): Variant {
+    return this.variant;
+  }
+
+  /**
+   * Check whether a variant rule has ended the game in the current position
+   *
+   * Unlike getStatus() this is evaluated on demand, so it is also correct
+   * during search with makeMove()/unmakeMove().
+   *
+   * @returns The winner and reason, or null if no variant rule applies
+   */
+  public getVariantOutcome(): VariantOutcome | null {
+    return this.variant.getOutcome({
+      board: this.board,
+      turn: this.currentTurn,
+      checksGiven: this.checksGiven,
+      moveGenerator: this.moveGenerator,
+    });
+  }
+
+  /**
+   * Get the pieces each side holds in hand
+   *
+   * Always empty outside drop variants (Crazyhouse, Bughouse).
+   *
+   * @returns Pieces in hand of white and black
+   */
+  public getPockets(): Pockets {
+    return clonePockets(this.pockets);
+  }
+
+  /**
+   * Get the squares of pieces that were promoted from pawns
+   *
+   * Only tracked in drop variants, where a captured promoted piece goes
+   * into the pocket as a pawn.
+   *
+   * @returns Squares of promoted pieces
+   */
+  public getPromotedSquares(): Square[] {
+    return [...this.promoted];
+  }
+
+  /**
+   * Put a piece into a player's pocket
+   *
+   * Used in Bughouse to hand over the pieces captured by the partner. The
+   * piece is not part of any move, so undoing the next move takes it away
+   * again.
+   *
+   * @param color - Pocket owner
+   * @param type - Piece type to add
+   * @returns True if added, false if the variant has no pockets
+   */
+  public addToPocket(color: Color, type: PocketPieceType): boolean {
+    if (!this.variant.usesPockets) {
+      return false;
+    }
+
+    const pockets = clonePockets(this.pockets);
+    pockets[color][type]++;
+    this.setPockets(pockets);
+
+    this.updateMoveGenerator();
+    this.updateGameStatus();
+    return true;
+  }
+
+  /**
+   * Get the number of checks each side has given
+   *
+   * Only counted in variants that need it (Three-check).
+   *
+   * @returns Checks given by white and black
+   */
+  public getChecksGiven(): CheckCounts {
+    return { ...this.checksGiven };
+  }
+
+  /**
+   * Get the position the game started from
+   *
+   * This is the standard starting position, the Chess960 setup or the last
+   * position loaded with loadFen().
+   *
+   * @returns FEN of the starting position
+   */
+  public getStartingFen(): Fen {
+    return this.startingFen;
   }
 
   /**
    * Refresh the move generator (useful after manual board changes)
    */
   public refreshMoveGenerator(): void {
-    this.moveGenerator = new MoveGenerator(this.board, this.castlingRights, this.enPassantSquare);
+    this.moveGenerator = this.createMoveGenerator();
     this.updateGameStatus();
   }
 
@@ -370,7 +1328,13 @@ export class Game {
   public loadFen(fen: string): void {
     const data = FenParser.parse(fen);
 
+    this.startingFen = fen;
     this.board = data.board;
+    this.checksGiven = data.checksGiven ?? { white: 0, black: 0 };
+    this.pockets = this.variant.usesPockets
+      ? (data.pockets ?? createEmptyPockets())
+      : createEmptyPockets();
+    this.promoted = this.variant.usesPockets ? (data.promoted ?? []) : [];
     this.currentTurn = data.turn;
     this.castlingRights = data.castlingRights;
     this.enPassantSquare = data.enPassantSquare;
@@ -379,10 +1343,15 @@ export class Game {
     this.moveHistory = [];
     this.gameStatus = 'active';
     this.positionHistory.clear();
-    this.recordPosition();
+    this.stateStack = [];
+    this.redoStack = [];
+    this.drawOffer = null;
 
-    this.moveGenerator = new MoveGenerator(this.board, this.castlingRights, this.enPassantSquare);
+    this.moveGenerator = this.createMoveGenerator();
+    this.refreshHash();
+    this.recordPosition();
     this.updateGameStatus();
+    this.events.emit('positionLoaded', { fen: this.getFen() });
   }
 
   /**
@@ -397,7 +1366,12 @@ export class Game {
       this.castlingRights,
       this.enPassantSquare,
       this.halfMoveClock,
-      this.fullMoveNumber
+      this.fullMoveNumber,
+      {
+        checksGiven: this.variant.countsChecks ? this.checksGiven : undefined,
+        pockets: this.variant.usesPockets ? this.pockets : undefined,
+        promoted: this.promoted,
+      }
     );
   }
 
@@ -407,11 +1381,17 @@ export class Game {
    * @param move - Move to execute
    */
   private executeMove(move: Move): void {
+    // Handle drops
+    if (move.drop) {
+      this.placePiece(move.to, move.piece);
+      return;
+    }
+
     // Handle en passant capture
     if (move.enPassant) {
       const capturedPawnRank = move.piece.color === 'white' ? '5' : '4';
       const file = move.to.charAt(0);
-      this.board.setPiece(`${file}${capturedPawnRank}` as Square, null);
+      this.placePiece(`${file}${capturedPawnRank}` as Square, null);
     }
 
     // Handle castling
@@ -420,13 +1400,24 @@ export class Game {
       return;
     }
 
+    // Atomic: the capturing piece explodes along with its surroundings
+    if (move.explosion) {
+      this.placePiece(move.to, null);
+      this.placePiece(move.from, null);
+      for (const { square } of move.explosion) {
+        this.placePiece(square, null);
+      }
+      return;
+    }
+
     // Handle promotion
     if (move.promotion) {
-      this.board.setPiece(move.to, { type: move.promotion, color: move.piece.color });
-      this.board.setPiece(move.from, null);
+      this.placePiece(move.to, { type: move.promotion, color: move.piece.color });
+      this.placePiece(move.from, null);
     } else {
       // Normal move
-      this.board.movePiece(move.from, move.to);
+      this.placePiece(move.to, move.piece);
+      this.placePiece(move.from, null);
     }
   }
 
@@ -436,32 +1427,74 @@ export class Game {
    * @param move - Castling move
    */
   private executeCastling(move: Move): void {
-    // Move the king
-    this.board.movePiece(move.from, move.to);
+    if (!move.castling) return;
+    const color = move.piece.color;
+    const squares = this.getCastlingSquares(color, move.castling, this.castlingRights);
+
+    // Lift both pieces first: in Chess960 either may land where the other stood
+    this.placePiece(move.from, null);
+    this.placePiece(squares.rookFrom, null);
+    this.placePiece(squares.kingTo, move.piece);
+    this.placePiece(squares.rookTo, { type: 'rook', color });
+  }
 
-    // Move the rook
-    const rank = move.piece.color === 'white' ? '1' : '8';
-    if (move.castling === 'kingside') {
-      this.board.movePiece(`h${rank}` as Square, `f${rank}` as Square);
-    } else {
-      this.board.movePiece(`a${rank}` as Square, `d${rank}` as Square);
+  /**
+   * Place a piece on (or clear) a square, keeping the hash in sync
+   *
+   * @param square - Target square
+   * @param piece - Piece to place, or null to clear the square
+   */
+  private placePiece(square: Square, piece: Piece | null): void {
+    const coords = this.board.squareToCoords(square);
+    if (!coords) return;
+
+    const existing = this.board.getPieceAt(coords.row, coords.col);
+    if (existing) {
+      this.hash ^= getPieceKey(existing, coords.row, coords.col);
     }
+    if (piece) {
+      this.hash ^= getPieceKey(piece, coords.row, coords.col);
+    }
+
+    this.board.setPieceAt(coords.row, coords.col, piece);
   }
 
   /**
    * Undo castling move
    *
    * @param move - Castling move to undo
+   * @param castlingRights - Castling rights before the move
    */
-  private undoCastling(move: Move): void {
-    const rank = move.piece.color === 'white' ? '1' : '8';
-    if (move.castling === 'kingside') {
-      // Move rook back
-      this.board.movePiece(`f${rank}` as Square, `h${rank}` as Square);
-    } else {
-      // Move rook back
-      this.board.movePiece(`d${rank}` as Square, `a${rank}` as Square);
-    }
+  private undoCastling(move: Move, castlingRights: CastlingRights): void {
+    if (!move.castling) return;
+    const color = move.piece.color;
+    const squares = this.getCastlingSquares(color, move.castling, castlingRights);
+
+    this.board.setPiece(squares.kingTo, null);
+    this.board.setPiece(squares.rookTo, null);
+    this.board.setPiece(move.from, move.piece);
+    this.board.setPiece(squares.rookFrom, { type: 'rook', color });
+  }
+
+  /**
+   * Get the rook's starting square and both destination squares of a castling
+   *
+   * @param color - Castling color
+   * @param side - Castling side
+   * @param castlingRights - Castling rights holding the rook files
+   * @returns Rook origin and king and rook destinations
+   */
+  private getCastlingSquares(
+    color: Color,
+    side: CastlingSide,
+    castlingRights: CastlingRights
+  ): { rookFrom: Square; kingTo: Square; rookTo: Square } {
+    const rank = getBackRank(color) + 1;
+    return {
+      rookFrom: `${fileLetter(getCastlingRookFile(castlingRights, color, side))}${rank}` as Square,
+      kingTo: `${fileLetter(KING_CASTLING_FILE[side])}${rank}` as Square,
+      rookTo: `${fileLetter(ROOK_CASTLING_FILE[side])}${rank}` as Square,
+    };
   }
 
   /**
@@ -478,11 +1511,12 @@ export class Game {
     }
 
     // Update en passant square
-    if (move.piece.type === 'pawn') {
+    if (move.piece.type === 'pawn' && !move.drop) {
       const fromRank = parseInt(move.from.charAt(1));
       const toRank = parseInt(move.to.charAt(1));
-      if (Math.abs(toRank - fromRank) === 2) {
-        // Pawn moved two squares
+      if (Math.abs(toRank - fromRank) === 2 && (fromRank === 2 || fromRank === 7)) {
+        // Pawn moved two squares from its starting rank (Horde pawns on the
+        // first rank may also move two squares but cannot be taken en passant)
         const targetRank = move.piece.color === 'white' ? fromRank + 1 : fromRank - 1;
         this.enPassantSquare = `${move.from.charAt(0)}${targetRank}` as Square;
       } else {
@@ -495,6 +1529,11 @@ export class Game {
     // Update castling rights
     this.updateCastlingRights(move);
 
+    // Update pieces in hand
+    if (this.variant.usesPockets) {
+      this.updatePockets(move);
+    }
+
     // Update turn and move number
     this.currentTurn = this.currentTurn === 'white' ? 'black' : 'white';
     if (this.currentTurn === 'white') {
@@ -502,47 +1541,183 @@ export class Game {
     }
 
     // Update move generator with new state
-    this.moveGenerator = new MoveGenerator(this.board, this.castlingRights, this.enPassantSquare);
+    this.updateMoveGenerator();
+
+    // Count checks for variants that are won by giving check
+    if (this.variant.countsChecks && this.moveGenerator.isInCheck(this.currentTurn)) {
+      const mover = move.piece.color;
+      this.hash ^= getCheckCountKey(mover, this.checksGiven[mover]);
+      this.checksGiven = { ...this.checksGiven, [mover]: this.checksGiven[mover] + 1 };
+      this.hash ^= getCheckCountKey(mover, this.checksGiven[mover]);
+    }
+
+    // Add the incoming side-to-move and en passant keys to the hash
+    this.hashedEnPassant = this.getHashedEnPassantSquare();
+    this.hash ^= SIDE_TO_MOVE_KEY;
+    this.hash ^= getEnPassantKey(this.hashedEnPassant);
+  }
+
+  /**
+   * Update pockets and promoted pieces after a move
+   *
+   * @param move - The move that was made
+   */
+  private updatePockets(move: Move): void {
+    const mover = move.piece.color;
+    const pockets = clonePockets(this.pockets);
+
+    if (move.drop) {
+      pockets[mover][move.drop]--;
+    }
+
+    // A captured promoted piece goes into the pocket as a pawn
+    if (move.captured && this.variant.pocketsCaptures) {
+      const type = this.promoted.includes(move.to) ? 'pawn' : move.captured.type;
+      if (isPocketPieceType(type)) {
+        pockets[mover][type]++;
+      }
+    }
+
+    this.setPockets(pockets);
+
+    // Promoted pieces keep their mark when they move
+    const wasPromoted = this.promoted.includes(move.from);
+    this.promoted = this.promoted.filter((square) => square !== move.from && square !== move.to);
+    if (move.promotion !== undefined || wasPromoted) {
+      this.promoted.push(move.to);
+    }
+  }
+
+  /**
+   * Replace the pockets, keeping the hash in sync
+   *
+   * @param pockets - New pieces in hand
+   */
+  private setPockets(pockets: Pockets): void {
+    this.hash ^= getPocketsKey(this.pockets);
+    this.pockets = pockets;
+    this.hash ^= getPocketsKey(this.pockets);
   }
 
   /**
-   * Update castling rights based on a move
+   * Update castling rights based on a move, keeping the hash in sync
    *
    * @param move - The move that was made
    */
   private updateCastlingRights(move: Move): void {
+    // Only king and rook moves, rook captures and explosions touch the rights
+    const rights = this.castlingRights;
+    const anyRights =
+      rights.whiteKingside ||
+      rights.whiteQueenside ||
+      rights.blackKingside ||
+      rights.blackQueenside;
+    const touchesRights =
+      move.piece.type === 'king' ||
+      move.piece.type === 'rook' ||
+      move.captured?.type === 'rook' ||
+      move.explosion !== undefined;
+    if (!anyRights || !touchesRights) {
+      return;
+    }
+
+    this.hash ^= getCastlingKey(this.castlingRights);
+
+    // Pieces destroyed by an Atomic explosion lose their rights too
+    const destroyed = move.explosion ?? [];
+
     // King moves lose both castling rights
-    if (move.piece.type === 'king') {
-      if (move.piece.color === 'white') {
-        this.castlingRights.whiteKingside = false;
-        this.castlingRights.whiteQueenside = false;
-      } else {
-        this.castlingRights.blackKingside = false;
-        this.castlingRights.blackQueenside = false;
+    for (const color of ['white', 'black'] as const) {
+      const kingMoved = move.piece.type === 'king' && move.piece.color === color;
+      const kingDestroyed = destroyed.some(
+        ({ piece }) => piece.type === 'king' && piece.color === color
+      );
+      if (kingMoved || kingDestroyed) {
+        this.castlingRights[getCastlingRightKey(color, 'kingside')] = false;
+        this.castlingRights[getCastlingRightKey(color, 'queenside')] = false;
+      }
+    }
+
+    // Moving or capturing a castling rook loses castling rights for that side
+    for (const color of ['white', 'black'] as const) {
+      for (const side of CASTLING_SIDES) {
+        const { rookFrom } = this.getCastlingSquares(color, side, this.castlingRights);
+        const rookMoved = move.piece.type === 'rook' && move.from === rookFrom;
+        const rookCaptured = move.captured?.type === 'rook' && move.to === rookFrom;
+        const rookDestroyed = destroyed.some(({ square }) => square === rookFrom);
+        if (rookMoved || rookCaptured || rookDestroyed) {
+          this.castlingRights[getCastlingRightKey(color, side)] = false;
+        }
       }
     }
 
-    // Rook moves lose castling rights for that side
-    if (move.piece.type === 'rook') {
-      if (move.from === 'a1') this.castlingRights.whiteQueenside = false;
-      if (move.from === 'h1') this.castlingRights.whiteKingside = false;
-      if (move.from === 'a8') this.castlingRights.blackQueenside = false;
-      if (move.from === 'h8') this.castlingRights.blackKingside = false;
+    this.hash ^= getCastlingKey(this.castlingRights);
+  }
+
+  /**
+   * Emit the events of a move made with move() or redo()
+   *
+   * @param move - Move that was just made
+   */
+  private emitMoveEvents(move: Move): void {
+    this.events.emit('move', move);
+    if (move.captured) {
+      this.events.emit('capture', { ...move, captured: move.captured });
+    }
+    if (move.castling) {
+      this.events.emit('castle', { ...move, castling: move.castling });
+    }
+    if (move.promotion) {
+      this.events.emit('promotion', { ...move, promotion: move.promotion });
     }
+    if (move.check || move.checkmate) {
+      this.events.emit('check', { move, color: this.currentTurn });
+    }
+    if (this.isGameOver()) {
+      this.emitGameOver();
+    }
+  }
+
+  /**
+   * Emit the gameOver event with the final status and result
+   */
+  private emitGameOver(): void {
+    this.events.emit('gameOver', { status: this.gameStatus, result: this.getResult() });
+  }
 
-    // Capturing a rook loses castling rights
-    if (move.captured?.type === 'rook') {
-      if (move.to === 'a1') this.castlingRights.whiteQueenside = false;
-      if (move.to === 'h1') this.castlingRights.whiteKingside = false;
-      if (move.to === 'a8') this.castlingRights.blackQueenside = false;
-      if (move.to === 'h8') this.castlingRights.blackKingside = false;
+  /**
+   * End a game in progress for a reason outside the board position
+   *
+   * The ending is undone by taking back a move.
+   *
+   * @param status - Status recording how the game ended
+   * @param winner - Winning color, or null for a draw
+   * @returns True if the game was in progress
+   */
+  private endGame(status: GameStatus, winner: Color | null): boolean {
+    if (this.isGameOver()) {
+      return false;
     }
+
+    this.gameStatus = status;
+    this.decidedWinner = winner;
+    this.drawOffer = null;
+    this.clock?.stop();
+    this.emitGameOver();
+    return true;
   }
 
   /**
    * Update game status (check for checkmate, stalemate, draw)
    */
   private updateGameStatus(): void {
+    // Check for a variant-specific ending
+    const outcome = this.getVariantOutcome();
+    if (outcome) {
+      this.gameStatus = outcome.winner ? 'variant_win' : 'variant_draw';
+      return;
+    }
+
     // Check for checkmate
     if (this.moveGenerator.isCheckmate(this.currentTurn)) {
       this.gameStatus = 'checkmate';
@@ -555,26 +1730,29 @@ export class Game {
       return;
     }
 
-    // Check for fifty-move rule
-    if (this.halfMoveClock >= 100) {
-      // 50 full moves = 100 half moves
-      this.gameStatus = 'fifty_move_rule';
+    // Check for the seventy-five-move rule (threefold repetition and the
+    // fifty-move rule only allow a claim, see claimDraw())
+    if (this.halfMoveClock >= 150) {
+      // 75 full moves = 150 half moves
+      this.gameStatus = 'seventy_five_move_rule';
       return;
     }
 
-    // Check for threefold repetition
-    const currentPosition = this.getPositionKey();
-    const repetitions = this.positionHistory.get(currentPosition) ?? 0;
-    if (repetitions >= 3) {
-      this.gameStatus = 'threefold_repetition';
+    // Check for fivefold repetition
+    if (this.getRepetitionCount() >= 5) {
+      this.gameStatus = 'fivefold_repetition';
       return;
     }
 
-    // Check for insufficient material
+    // Check for insufficient material and other dead positions
     if (this.isInsufficientMaterial()) {
       this.gameStatus = 'insufficient_material';
       return;
     }
+    if (this.isDeadPosition()) {
+      this.gameStatus = 'dead_position';
+      return;
+    }
 
     // Check if in check
     if (this.isInCheck()) {
@@ -598,109 +1776,139 @@ export class Game {
   }
 
   /**
-   * Check if move is castling
+   * Accept the king's destination square for Chess960 castling
    *
-   * @param from - Starting square
-   * @param to - Destination square
-   * @returns Castling type or undefined
+   * Chess960 castling is encoded as the king taking its own rook, but a king
+   * move to the g- or c-file is also understood when it is not otherwise legal.
+   *
+   * @param moveOptions - Requested move
+   * @returns The move with the destination rewritten to the rook if needed
    */
-  private isCastlingMove(from: Square, to: Square): 'kingside' | 'queenside' | undefined {
+  private resolveCastlingDestination(moveOptions: MoveOptions): MoveOptions {
+    if (this.variant.key !== 'chess960') return moveOptions;
+
+    const { from, to } = moveOptions;
     const piece = this.board.getPiece(from);
-    if (piece?.type !== 'king') return undefined;
+    if (piece?.type !== 'king' || piece.color !== this.currentTurn) return moveOptions;
 
-    const fromFile = from.charAt(0);
-    const toFile = to.charAt(0);
+    const moves = this.moveGenerator.generateLegalMovesFrom(from, this.currentTurn);
+    if (moves.some((m) => m.to === to)) return moveOptions;
+
+    const castle = moves.find(
+      (m) =>
+        m.castling &&
+        this.getCastlingSquares(piece.color, m.castling, this.castlingRights).kingTo === to
+    );
+    return castle ? { ...moveOptions, to: castle.to } : moveOptions;
+  }
 
-    if (fromFile === 'e' && toFile === 'g') return 'kingside';
-    if (fromFile === 'e' && toFile === 'c') return 'queenside';
+  /**
+   * Create a move generator for the current position using the configured backend
+   *
+   * @returns Move generator
+   */
+  private createMoveGenerator(): MoveGenerator {
+    return this.variant.createMoveGenerator(
+      this.board,
+      this.castlingRights,
+      this.enPassantSquare,
+      this.backend,
+      this.pockets
+    );
+  }
 
-    return undefined;
+  /**
+   * Hand the current castling rights, en passant square and pockets to the
+   * move generator, which follows the board by itself
+   */
+  private updateMoveGenerator(): void {
+    this.moveGenerator.setPosition(this.castlingRights, this.enPassantSquare, this.pockets);
   }
 
   /**
    * Record current position for repetition detection
    */
   private recordPosition(): void {
-    const key = this.getPositionKey();
-    const count = this.positionHistory.get(key) ?? 0;
-    this.positionHistory.set(key, count + 1);
+    const count = this.positionHistory.get(this.hash) ?? 0;
+    this.positionHistory.set(this.hash, count + 1);
   }
 
   /**
-   * Get a unique key for the current position
-   *
-   * @returns Position key string
+   * Remove one occurrence of the current position from repetition tracking
    */
-  private getPositionKey(): string {
-    // Simple key: board state + turn + castling + en passant
-    const boardState = JSON.stringify(this.board.getBoard());
-    return `${boardState}|${this.currentTurn}|${JSON.stringify(this.castlingRights)}|${this.enPassantSquare}`;
+  private forgetPosition(): void {
+    const count = this.positionHistory.get(this.hash) ?? 0;
+    if (count <= 1) {
+      this.positionHistory.delete(this.hash);
+    } else {
+      this.positionHistory.set(this.hash, count - 1);
+    }
   }
 
   /**
-   * Check if position has insufficient material for checkmate
+   * Capture the irreversible state of the current position
    *
-   * @returns True if insufficient material
+   * @returns Snapshot to restore on undo
    */
-  private isInsufficientMaterial(): boolean {
-    const pieces = [...this.board.findPieces('white'), ...this.board.findPieces('black')];
-
-    // King vs King
-    if (pieces.length === 2) return true;
-
-    // King + Bishop/Knight vs King
-    if (pieces.length === 3) {
-      const nonKings = pieces.filter((p) => p.piece.type !== 'king');
-      if (nonKings.length === 1) {
-        // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
-        const pieceType = nonKings[0]!.piece.type;
-        return pieceType === 'bishop' || pieceType === 'knight';
-      }
-    }
-
-    // King + Bishop vs King + Bishop (same color squares)
-    if (pieces.length === 4) {
-      const bishops = pieces.filter((p) => p.piece.type === 'bishop');
-      if (bishops.length === 2) {
-        // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
-        const coords1 = this.board.squareToCoords(bishops[0]!.square);
-        // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
-        const coords2 = this.board.squareToCoords(bishops[1]!.square);
-        if (coords1 && coords2) {
-          // Same color square if (row + col) have same parity
-          const sameColor = (coords1.row + coords1.col) % 2 === (coords2.row + coords2.col) % 2;
-          return sameColor;
-        }
-      }
-    }
+  private saveState(): IrreversibleState {
+    return {
+      castlingRights: { ...this.castlingRights },
+      enPassantSquare: this.enPassantSquare,
+      halfMoveClock: this.halfMoveClock,
+      fullMoveNumber: this.fullMoveNumber,
+      hash: this.hash,
+      hashedEnPassant: this.hashedEnPassant,
+      checksGiven: this.checksGiven,
+      pockets: this.pockets,
+      promoted: this.promoted,
+      status: this.gameStatus,
+    };
+  }
 
-    return false;
+  /**
+   * Restore a previously saved irreversible state
+   *
+   * @param state - Snapshot taken before the move being undone
+   */
+  private restoreState(state: IrreversibleState): void {
+    this.castlingRights = { ...state.castlingRights };
+    this.enPassantSquare = state.enPassantSquare;
+    this.halfMoveClock = state.halfMoveClock;
+    this.fullMoveNumber = state.fullMoveNumber;
+    this.hash = state.hash;
+    this.hashedEnPassant = state.hashedEnPassant;
+    this.checksGiven = state.checksGiven;
+    this.pockets = state.pockets;
+    this.promoted = state.promoted;
+    this.gameStatus = state.status;
+    this.updateMoveGenerator();
   }
 
   /**
-   * Restore game state from a move
+   * Recompute the position hash from scratch
    *
-   * @param move - Move to restore state from
+   * Used whenever the position is replaced rather than updated by a move.
    */
-  private restoreGameStateFromMove(move: Move): void {
-    // This is a simplified restoration - in a full implementation,
-    // you'd want to store more state with each move
-    this.updateCastlingRights(move);
+  private refreshHash(): void {
+    this.hashedEnPassant = this.getHashedEnPassantSquare();
+    this.hash = computeHash(this.board, this.currentTurn, this.castlingRights, null);
+    this.hash ^= getEnPassantKey(this.hashedEnPassant);
+    this.hash ^= getCheckCountKey('white', this.checksGiven.white);
+    this.hash ^= getCheckCountKey('black', this.checksGiven.black);
+    this.hash ^= getPocketsKey(this.pockets);
   }
 
   /**
-   * Restore initial game state
+   * Get the en passant square that is relevant for repetition
+   *
+   * The target square only distinguishes positions when the side to move
+   * can actually capture en passant.
+   *
+   * @returns En passant square if a legal capture exists, otherwise null
    */
-  private restoreInitialGameState(): void {
-    this.castlingRights = {
-      whiteKingside: true,
-      whiteQueenside: true,
-      blackKingside: true,
-      blackQueenside: true,
-    };
-    this.enPassantSquare = null;
-    this.halfMoveClock = 0;
-    this.fullMoveNumber = 1;
+  private getHashedEnPassantSquare(): Square | null {
+    if (!this.enPassantSquare) return null;
+    return this.moveGenerator.hasEnPassantCapture(this.currentTurn) ? this.enPassantSquare : null;
   }
 
   /**
@@ -715,18 +1923,16 @@ export class Game {
       return move.castling === 'kingside' ? 'O-O' : 'O-O-O';
     }
 
+    // Drops
+    if (move.drop) {
+      return `${PIECE_LETTERS[move.drop] || 'P'}@${move.to}`;
+    }
+
     let san = '';
 
     // Piece notation (not for pawns)
     if (move.piece.type !== 'pawn') {
-      const pieceMap: Record<string, string> = {
-        king: 'K',
-        queen: 'Q',
-        rook: 'R',
-        bishop: 'B',
-        knight: 'N',
-      };
-      san += pieceMap[move.piece.type] ?? '';
+      san += PIECE_LETTERS[move.piece.type];
     }
 
     // Disambiguation (if needed)
@@ -746,7 +1952,7 @@ export class Game {
 
     // Promotion
     if (move.promotion) {
-      san += '=' + move.promotion[0]?.toUpperCase();
+      san += '=' + PIECE_LETTERS[move.promotion];
     }
 
     // Check/checkmate indicators will be added after the move is executed
@@ -769,7 +1975,7 @@ export class Game {
     // Find all pieces of the same type and color that can move to the destination
     const legalMoves = this.moveGenerator.generateLegalMoves(move.piece.color);
     const ambiguousMoves = legalMoves.filter(
-      (m) => m.to === move.to && m.piece.type === move.piece.type && m.from !== move.from
+      (m) => m.to === move.to && m.piece.type === move.piece.type && m.from !== move.from && !m.drop
     );
 
     if (ambiguousMoves.length === 0) {
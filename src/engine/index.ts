@@ -6,10 +6,103 @@
 
 export { Board } from './board';
 export { MoveGenerator } from './moves';
+export type { MoveResolution } from './moves';
+export { BitboardMoveGenerator } from './bitboard';
 export { Game } from './game';
-export { FenParser } from './fen';
+export { FenParser, THREE_CHECK_LIMIT } from './fen';
+export type { FenOptions } from './fen';
+export { EpdParser, loadEpdFile } from './epd';
+export type { EpdOperations, EpdRecord } from './epd';
+export { PositionBuilder } from './position-builder';
 export { PgnParser } from './pgn';
 export type { PgnTags, PgnGame } from './pgn';
-export { getPseudoLegalMoves, isSquareUnderAttack, isKingInCheck } from './pieces';
+export { readPgn, readPgnFile, readPgnGames, tokenizePgn } from './pgn-reader';
+export type {
+  PgnGameEntry,
+  PgnStreamOptions,
+  PgnToken,
+  PgnTokenType,
+  PgnCommands,
+  PgnNode,
+  PgnTree,
+  PgnReadOptions,
+} from './pgn-reader';
+export { writePgn } from './pgn-writer';
+export type { PgnFormat, PgnWriteOptions } from './pgn-writer';
+export { GameTree } from './game-tree';
+export type { GameTreeNode } from './game-tree';
+export {
+  getPseudoLegalMoves,
+  getSquareAttackers,
+  isSquareUnderAttack,
+  isKingInCheck,
+} from './pieces';
+export {
+  getAttackers,
+  getDefenders,
+  getCheckers,
+  getPinnedPieces,
+  getXrayAttackers,
+  isDiscoveredCheckPossible,
+} from './attacks';
+export {
+  CHESS960_POSITION_COUNT,
+  CHESS960_STANDARD_INDEX,
+  getChess960BackRank,
+  getChess960Fen,
+  randomChess960Index,
+} from './chess960';
+export {
+  Variant,
+  Chess960Variant,
+  KingOfTheHillVariant,
+  ThreeCheckVariant,
+  AntichessVariant,
+  AntichessMoveGenerator,
+  AtomicVariant,
+  AtomicMoveGenerator,
+  HordeVariant,
+  HordeMoveGenerator,
+  RacingKingsVariant,
+  RacingKingsMoveGenerator,
+  CrazyhouseVariant,
+  BughouseVariant,
+  CrazyhouseMoveGenerator,
+  getVariantByKey,
+  findVariantByName,
+} from './variants/index';
+export type { VariantPosition } from './variants/index';
+export {
+  DROP_SQUARE,
+  POCKET_PIECE_TYPES,
+  createEmptyPockets,
+  clonePockets,
+  isPocketPieceType,
+  countPocket,
+} from './pockets';
+export {
+  canCheckmate,
+  isInsufficientMaterial,
+  isTimeoutDraw,
+  isLockedPosition,
+  isDeadPosition,
+} from './dead-position';
+export { ChessClock, parseTimeControl, formatTimeControl, formatClockTime } from './clock';
+export type { ChessClockOptions } from './clock';
+export { TypedEventEmitter } from './events';
+export type { EventListener } from './events';
+export { parseMoveNotation } from './notation';
+export { perft, divide, moveToUci } from './perft';
+export type { PerftResult } from './perft';
+export {
+  computeHash,
+  hashFen,
+  getPieceKey,
+  getCastlingKey,
+  getEnPassantKey,
+  getCheckCountKey,
+  getPocketsKey,
+  SIDE_TO_MOVE_KEY,
+} from './zobrist';
 
 export const ENGINE_VERSION = '1.0.0';
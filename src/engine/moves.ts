@@ -13,11 +13,40 @@ import type {
   Color,
   PieceType,
   CastlingRights,
+  CastlingSide,
+  GameVariant,
   MoveOptions,
   MoveValidation,
+  Pockets,
 } from '@/types/index';
 import type { Board } from './board';
 import { getPseudoLegalMoves, isKingInCheck, isSquareUnderAttack } from './pieces';
+import {
+  CASTLING_SIDES,
+  KING_CASTLING_FILE,
+  ROOK_CASTLING_FILE,
+  getBackRank,
+  getCastlingRightKey,
+  getCastlingRookFile,
+} from './castling';
+
+/**
+ * Back rank files of the king and rook taking part in castling
+ */
+export interface CastlingSquares {
+  row: number;
+  kingFrom: number;
+  rookFrom: number;
+  kingTo: number;
+  rookTo: number;
+}
+
+/**
+ * Validation result with the legal move a valid move describes
+ */
+export interface MoveResolution extends MoveValidation {
+  move?: Move; // Legal move, if valid
+}
 
 /**
  * Move Generator class
@@ -25,9 +54,10 @@ import { getPseudoLegalMoves, isKingInCheck, isSquareUnderAttack } from './piece
  * Generates all legal moves for a position and validates move legality.
  */
 export class MoveGenerator {
-  private board: Board;
-  private castlingRights: CastlingRights;
-  private enPassantSquare: Square | null;
+  protected board: Board;
+  protected castlingRights: CastlingRights;
+  protected enPassantSquare: Square | null;
+  protected variant: GameVariant;
 
   /**
    * Create a new move generator
@@ -35,11 +65,37 @@ export class MoveGenerator {
    * @param board - The chess board
    * @param castlingRights - Castling rights for both colors
    * @param enPassantSquare - Current en passant target square
+   * @param variant - Chess variant (decides how castling moves are encoded)
    */
-  constructor(board: Board, castlingRights: CastlingRights, enPassantSquare: Square | null = null) {
+  constructor(
+    board: Board,
+    castlingRights: CastlingRights,
+    enPassantSquare: Square | null = null,
+    variant: GameVariant = 'standard'
+  ) {
     this.board = board;
     this.castlingRights = castlingRights;
     this.enPassantSquare = enPassantSquare;
+    this.variant = variant;
+  }
+
+  /**
+   * Update the castling rights and en passant square
+   *
+   * Lets a game keep one generator from move to move instead of creating
+   * a new one for every position.
+   *
+   * @param castlingRights - Castling rights for both colors
+   * @param enPassantSquare - Current en passant target square
+   * @param _pockets - Pieces in hand, for variants with drops
+   */
+  public setPosition(
+    castlingRights: CastlingRights,
+    enPassantSquare: Square | null,
+    _pockets?: Pockets
+  ): void {
+    this.castlingRights = castlingRights;
+    this.enPassantSquare = enPassantSquare;
   }
 
   /**
@@ -73,55 +129,125 @@ export class MoveGenerator {
       return [];
     }
 
+    // Filter out moves that leave king in check
+    const legalMoves = this.generatePseudoLegalMovesFrom(from, color).filter((move) =>
+      this.isKingSafeAfter(move, color)
+    );
+
+    // Add castling moves
+    if (piece.type === 'king') {
+      const castlingMoves = this.getCastlingMoves(color);
+      legalMoves.push(...castlingMoves);
+    }
+
+    return legalMoves;
+  }
+
+  /**
+   * Check if the current player is in check
+   *
+   * @param color - Color to check
+   * @returns True if the color's king is attacked
+   */
+  public isInCheck(color: Color): boolean {
+    return isKingInCheck(this.board, color);
+  }
+
+  /**
+   * Check whether a legal move gives check, without making it
+   *
+   * The array backend and variants with their own check rules cannot tell
+   * without playing the move out, so they leave it to the caller.
+   *
+   * @param _move - Legal move
+   * @param _color - Color making the move
+   * @returns True if the move checks the opponent, or null if the move must be made to tell
+   */
+  public givesCheck(_move: Move, _color: Color): boolean | null {
+    return null;
+  }
+
+  /**
+   * Generate moves from a square ignoring king safety
+   *
+   * Includes promotions and en passant captures but not castling, which
+   * checks king safety as part of its own rules.
+   *
+   * @param from - Starting square
+   * @param color - Color of the piece
+   * @returns Array of pseudo-legal moves
+   */
+  protected generatePseudoLegalMovesFrom(from: Square, color: Color): Move[] {
+    const piece = this.board.getPiece(from);
+    if (piece?.color !== color) {
+      return [];
+    }
+
     const fromCoords = this.board.squareToCoords(from);
     if (!fromCoords) return [];
 
-    // Get pseudo-legal moves (ignoring check)
-    const pseudoLegalMoves = getPseudoLegalMoves(this.board, fromCoords, piece.type, color);
-
-    const legalMoves: Move[] = [];
+    const moves: Move[] = [];
 
-    // Filter out moves that leave king in check
-    for (const toCoords of pseudoLegalMoves) {
+    for (const toCoords of getPseudoLegalMoves(this.board, fromCoords, piece.type, color)) {
       const to = this.board.coordsToSquare(toCoords.row, toCoords.col);
       if (!to) continue;
 
-      if (this.isMoveLegal(from, to, color)) {
-        const captured = this.board.getPiece(to);
-        const move: Move = {
-          from,
-          to,
-          piece,
-          captured: captured ?? undefined,
-        };
-
-        // Check if pawn promotion is possible
-        if (piece.type === 'pawn' && this.isPawnPromotionRank(toCoords.row, color)) {
-          // Generate moves for each promotion piece
-          for (const promotion of ['queen', 'rook', 'bishop', 'knight'] as PieceType[]) {
-            legalMoves.push({ ...move, promotion });
-          }
-        } else {
-          legalMoves.push(move);
+      const captured = this.board.getPiece(to);
+      const move: Move = {
+        from,
+        to,
+        piece,
+        captured: captured ?? undefined,
+      };
+
+      // Check if pawn promotion is possible
+      if (piece.type === 'pawn' && this.isPawnPromotionRank(toCoords.row, color)) {
+        // Generate moves for each promotion piece
+        for (const promotion of this.getPromotionPieces()) {
+          moves.push({ ...move, promotion });
         }
+      } else {
+        moves.push(move);
       }
     }
 
     // Add en passant captures
     if (piece.type === 'pawn' && this.enPassantSquare) {
-      const enPassantMove = this.getEnPassantMove(from, color);
+      const enPassantMove = this.getPseudoLegalEnPassantMove(from, color);
       if (enPassantMove) {
-        legalMoves.push(enPassantMove);
+        moves.push(enPassantMove);
       }
     }
 
-    // Add castling moves
-    if (piece.type === 'king') {
-      const castlingMoves = this.getCastlingMoves(color);
-      legalMoves.push(...castlingMoves);
+    return moves;
+  }
+
+  /**
+   * Check that a move does not leave the mover's king in check
+   *
+   * @param move - Pseudo-legal move
+   * @param color - Color making the move
+   * @returns True if the king is safe after the move
+   */
+  protected isKingSafeAfter(move: Move, color: Color): boolean {
+    const clonedBoard = this.board.clone();
+    clonedBoard.movePiece(move.from, move.to);
+
+    // The pawn taken en passant may have been shielding the king
+    if (move.enPassant) {
+      clonedBoard.setPiece(`${move.to.charAt(0)}${move.from.charAt(1)}`, null);
     }
 
-    return legalMoves;
+    return !isKingInCheck(clonedBoard, color);
+  }
+
+  /**
+   * Get the piece types a pawn may promote to
+   *
+   * @returns Promotion piece types, strongest first
+   */
+  protected getPromotionPieces(): PieceType[] {
+    return ['queen', 'rook', 'bishop', 'knight'];
   }
 
   /**
@@ -149,27 +275,39 @@ export class MoveGenerator {
    * @returns Validation result
    */
   public validateMove(move: MoveOptions, color: Color): MoveValidation {
+    const { move: _legalMove, ...validation } = this.resolveMove(move, color);
+    return validation;
+  }
+
+  /**
+   * Validate a move and find the legal move it describes
+   *
+   * @param move - Move options to validate
+   * @param color - Color making the move
+   * @returns The legal move, or why the move is not valid
+   */
+  public resolveMove(move: MoveOptions, color: Color): MoveResolution {
     const { from, to, promotion } = move;
 
     // Check if squares are valid
     if (!this.board.isValidSquare(from) || !this.board.isValidSquare(to)) {
-      return { valid: false, error: 'Invalid square' };
+      return { valid: false, code: 'invalid_square', error: 'Invalid square' };
     }
 
     // Check if there's a piece at the starting square
     const piece = this.board.getPiece(from);
     if (!piece) {
-      return { valid: false, error: 'No piece at starting square' };
+      return { valid: false, code: 'no_piece', error: 'No piece at starting square' };
     }
 
     // Check if the piece belongs to the player
     if (piece.color !== color) {
-      return { valid: false, error: 'Not your piece' };
+      return { valid: false, code: 'wrong_color', error: 'Not your piece' };
     }
 
     // Check if destination is the same as source
     if (from === to) {
-      return { valid: false, error: 'Cannot move to the same square' };
+      return { valid: false, code: 'same_square', error: 'Cannot move to the same square' };
     }
 
     // Generate legal moves for this piece
@@ -185,15 +323,42 @@ export class MoveGenerator {
     });
 
     if (!matchingMove) {
-      return { valid: false, error: 'Illegal move' };
+      return this.explainIllegalMove(move, color, legalMoves);
     }
 
     // Check if promotion is required but not provided
     if (piece.type === 'pawn' && this.isPawnPromotionRequired(from, to, color) && !promotion) {
-      return { valid: false, error: 'Pawn promotion required' };
+      return { valid: false, code: 'promotion_required', error: 'Pawn promotion required' };
     }
 
-    return { valid: true };
+    return { valid: true, move: matchingMove };
+  }
+
+  /**
+   * Work out why a move of a piece on the board is not legal
+   *
+   * @param move - Rejected move
+   * @param color - Color making the move
+   * @param legalMoves - Legal moves of the piece
+   * @returns Validation result with the reason
+   */
+  protected explainIllegalMove(
+    move: MoveOptions,
+    color: Color,
+    legalMoves: Move[]
+  ): MoveValidation {
+    if (move.promotion && legalMoves.some((m) => m.to === move.to)) {
+      return { valid: false, code: 'invalid_promotion', error: 'Invalid promotion piece' };
+    }
+
+    const reachable = this.generatePseudoLegalMovesFrom(move.from, color).filter(
+      (m) => m.to === move.to
+    );
+    if (reachable.length > 0 && !reachable.some((m) => this.isKingSafeAfter(m, color))) {
+      return { valid: false, code: 'king_in_check', error: 'Move would leave the king in check' };
+    }
+
+    return { valid: false, code: 'unreachable', error: 'Illegal move' };
   }
 
   /**
@@ -204,7 +369,7 @@ export class MoveGenerator {
    */
   public isCheckmate(color: Color): boolean {
     // Must be in check
-    if (!isKingInCheck(this.board, color)) {
+    if (!this.isInCheck(color)) {
       return false;
     }
 
@@ -220,7 +385,7 @@ export class MoveGenerator {
    */
   public isStalemate(color: Color): boolean {
     // Not in check
-    if (isKingInCheck(this.board, color)) {
+    if (this.isInCheck(color)) {
       return false;
     }
 
@@ -228,6 +393,33 @@ export class MoveGenerator {
     return this.generateLegalMoves(color).length === 0;
   }
 
+  /**
+   * Check if a legal en passant capture is available
+   *
+   * @param color - Color to move
+   * @returns True if any pawn of the color can legally capture en passant
+   */
+  public hasEnPassantCapture(color: Color): boolean {
+    if (!this.enPassantSquare) return false;
+
+    const epCoords = this.board.squareToCoords(this.enPassantSquare);
+    if (!epCoords) return false;
+
+    // Capturing pawns sit beside the double-pushed pawn, one rank behind the target
+    const row = color === 'white' ? epCoords.row - 1 : epCoords.row + 1;
+    for (const col of [epCoords.col - 1, epCoords.col + 1]) {
+      const piece = this.board.getPieceAt(row, col);
+      if (piece?.type !== 'pawn' || piece.color !== color) continue;
+
+      const from = this.board.coordsToSquare(row, col);
+      if (from && this.getEnPassantMove(from, color)) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
   /**
    * Get en passant capture move if available
    *
@@ -235,7 +427,19 @@ export class MoveGenerator {
    * @param color - Pawn color
    * @returns En passant move or null
    */
-  private getEnPassantMove(from: Square, color: Color): Move | null {
+  protected getEnPassantMove(from: Square, color: Color): Move | null {
+    const move = this.getPseudoLegalEnPassantMove(from, color);
+    return move && this.isKingSafeAfter(move, color) ? move : null;
+  }
+
+  /**
+   * Get en passant capture move ignoring king safety
+   *
+   * @param from - Pawn square
+   * @param color - Pawn color
+   * @returns En passant move or null
+   */
+  protected getPseudoLegalEnPassantMove(from: Square, color: Color): Move | null {
     if (!this.enPassantSquare) return null;
 
     const fromCoords = this.board.squareToCoords(from);
@@ -250,20 +454,16 @@ export class MoveGenerator {
 
     if (!canCapture) return null;
 
-    // Check if move is legal (doesn't leave king in check)
-    if (!this.isMoveLegal(from, this.enPassantSquare, color)) {
-      return null;
-    }
-
     const capturedPawnRank = color === 'white' ? enPassantCoords.row - 1 : enPassantCoords.row + 1;
-    const capturedPawnSquare = this.board.coordsToSquare(capturedPawnRank, enPassantCoords.col);
-    const capturedPawn = capturedPawnSquare ? this.board.getPiece(capturedPawnSquare) : null;
+    const capturedPawn = this.board.getPieceAt(capturedPawnRank, enPassantCoords.col);
+
+    if (capturedPawn?.type !== 'pawn' || capturedPawn.color === color) return null;
 
     return {
       from,
       to: this.enPassantSquare,
       piece: { type: 'pawn', color },
-      captured: capturedPawn ?? undefined,
+      captured: capturedPawn,
       enPassant: true,
     };
   }
@@ -274,48 +474,13 @@ export class MoveGenerator {
    * @param color - King color
    * @returns Array of castling moves
    */
-  private getCastlingMoves(color: Color): Move[] {
+  protected getCastlingMoves(color: Color): Move[] {
     const moves: Move[] = [];
 
-    if (color === 'white') {
-      // White kingside castling
-      if (this.canCastleKingside('white')) {
-        moves.push({
-          from: 'e1',
-          to: 'g1',
-          piece: { type: 'king', color: 'white' },
-          castling: 'kingside',
-        });
-      }
-
-      // White queenside castling
-      if (this.canCastleQueenside('white')) {
-        moves.push({
-          from: 'e1',
-          to: 'c1',
-          piece: { type: 'king', color: 'white' },
-          castling: 'queenside',
-        });
-      }
-    } else {
-      // Black kingside castling
-      if (this.canCastleKingside('black')) {
-        moves.push({
-          from: 'e8',
-          to: 'g8',
-          piece: { type: 'king', color: 'black' },
-          castling: 'kingside',
-        });
-      }
-
-      // Black queenside castling
-      if (this.canCastleQueenside('black')) {
-        moves.push({
-          from: 'e8',
-          to: 'c8',
-          piece: { type: 'king', color: 'black' },
-          castling: 'queenside',
-        });
+    for (const side of CASTLING_SIDES) {
+      const squares = this.getCastlingSquares(color, side);
+      if (squares && this.canCastle(color, squares)) {
+        moves.push(this.createCastlingMove(color, side, squares));
       }
     }
 
@@ -323,103 +488,115 @@ export class MoveGenerator {
   }
 
   /**
-   * Check if kingside castling is possible
+   * Locate the king and rook for castling
+   *
+   * Requires the castling right, the king on its back rank and the right's
+   * rook on the matching side of the king (the e-file king and a/h-file rooks
+   * outside Chess960).
    *
    * @param color - King color
-   * @returns True if kingside castling is legal
+   * @param side - Castling side
+   * @returns Castling squares, or null if this castling is unavailable
    */
-  private canCastleKingside(color: Color): boolean {
-    const hasRights =
-      color === 'white' ? this.castlingRights.whiteKingside : this.castlingRights.blackKingside;
-
-    if (!hasRights) return false;
-
-    const rank = color === 'white' ? '1' : '8';
-    const kingSquare = `e${rank}`;
-    const rookSquare = `h${rank}`;
-
-    // Check if king and rook are in place
-    const king = this.board.getPiece(kingSquare);
-    const rook = this.board.getPiece(rookSquare);
-
-    if (!king || king?.type !== 'king' || king?.color !== color) return false;
-    if (!rook || rook?.type !== 'rook' || rook?.color !== color) return false;
-
-    // Check if squares between king and rook are empty
-    if (!this.board.isEmpty(`f${rank}`) || !this.board.isEmpty(`g${rank}`)) {
-      return false;
+  protected getCastlingSquares(color: Color, side: CastlingSide): CastlingSquares | null {
+    if (!this.castlingRights[getCastlingRightKey(color, side)]) return null;
+
+    const row = getBackRank(color);
+    let kingFrom = -1;
+    for (let col = 0; col < 8; col++) {
+      const piece = this.board.getPieceAt(row, col);
+      if (piece?.type === 'king' && piece.color === color) {
+        kingFrom = col;
+        break;
+      }
     }
+    if (kingFrom < 0) return null;
 
-    // King cannot be in check
-    if (isKingInCheck(this.board, color)) return false;
-
-    // Squares the king passes through cannot be under attack
-    const opponentColor = color === 'white' ? 'black' : 'white';
-    const f = this.board.squareToCoords(`f${rank}`);
-    const g = this.board.squareToCoords(`g${rank}`);
-
-    if (!f || !g) return false;
-
+    const rookFrom = getCastlingRookFile(this.castlingRights, color, side);
     if (
-      isSquareUnderAttack(this.board, f, opponentColor) ||
-      isSquareUnderAttack(this.board, g, opponentColor)
+      this.variant !== 'chess960' &&
+      (kingFrom !== 4 || rookFrom !== (side === 'kingside' ? 7 : 0))
     ) {
-      return false;
+      return null;
     }
+    if (side === 'kingside' ? rookFrom <= kingFrom : rookFrom >= kingFrom) return null;
+
+    const rook = this.board.getPieceAt(row, rookFrom);
+    if (rook?.type !== 'rook' || rook.color !== color) return null;
 
-    return true;
+    return {
+      row,
+      kingFrom,
+      rookFrom,
+      kingTo: KING_CASTLING_FILE[side],
+      rookTo: ROOK_CASTLING_FILE[side],
+    };
   }
 
   /**
-   * Check if queenside castling is possible
+   * Check the path and attack conditions for castling
    *
    * @param color - King color
-   * @returns True if queenside castling is legal
+   * @param squares - King and rook squares
+   * @returns True if castling is legal
    */
-  private canCastleQueenside(color: Color): boolean {
-    const hasRights =
-      color === 'white' ? this.castlingRights.whiteQueenside : this.castlingRights.blackQueenside;
-
-    if (!hasRights) return false;
-
-    const rank = color === 'white' ? '1' : '8';
-    const kingSquare = `e${rank}`;
-    const rookSquare = `a${rank}`;
-
-    // Check if king and rook are in place
-    const king = this.board.getPiece(kingSquare);
-    const rook = this.board.getPiece(rookSquare);
-
-    if (!king || king?.type !== 'king' || king?.color !== color) return false;
-    if (!rook || rook?.type !== 'rook' || rook?.color !== color) return false;
-
-    // Check if squares between king and rook are empty
-    if (
-      !this.board.isEmpty(`b${rank}`) ||
-      !this.board.isEmpty(`c${rank}`) ||
-      !this.board.isEmpty(`d${rank}`)
-    ) {
-      return false;
+  protected canCastle(color: Color, squares: CastlingSquares): boolean {
+    const { row, kingFrom, rookFrom, kingTo, rookTo } = squares;
+
+    // Every square the king and rook cross must be empty, apart from themselves
+    const first = Math.min(kingFrom, kingTo, rookFrom, rookTo);
+    const last = Math.max(kingFrom, kingTo, rookFrom, rookTo);
+    for (let col = first; col <= last; col++) {
+      if (col !== kingFrom && col !== rookFrom && this.board.getPieceAt(row, col)) {
+        return false;
+      }
     }
 
-    // King cannot be in check
-    if (isKingInCheck(this.board, color)) return false;
-
-    // Squares the king passes through cannot be under attack
+    // King cannot be in check or pass through an attacked square
     const opponentColor = color === 'white' ? 'black' : 'white';
-    const c = this.board.squareToCoords(`c${rank}`);
-    const d = this.board.squareToCoords(`d${rank}`);
-
-    if (!c || !d) return false;
-
-    if (
-      isSquareUnderAttack(this.board, c, opponentColor) ||
-      isSquareUnderAttack(this.board, d, opponentColor)
-    ) {
-      return false;
+    const low = Math.min(kingFrom, kingTo);
+    const high = Math.max(kingFrom, kingTo);
+    for (let col = low; col <= high; col++) {
+      if (isSquareUnderAttack(this.board, { row, col }, opponentColor)) {
+        return false;
+      }
     }
 
-    return true;
+    // In Chess960 the castling rook may have been screening the king's
+    // destination, so verify the final position as well
+    const after = this.board.clone();
+    const king = after.getPieceAt(row, kingFrom);
+    const rook = after.getPieceAt(row, rookFrom);
+    after.setPieceAt(row, kingFrom, null);
+    after.setPieceAt(row, rookFrom, null);
+    after.setPieceAt(row, kingTo, king);
+    after.setPieceAt(row, rookTo, rook);
+
+    return !isKingInCheck(after, color);
+  }
+
+  /**
+   * Build a castling move
+   *
+   * Chess960 castling is encoded as the king capturing its own rook, which
+   * keeps it distinct from ordinary king moves; standard castling uses the
+   * king's destination square.
+   *
+   * @param color - King color
+   * @param side - Castling side
+   * @param squares - King and rook squares
+   * @returns Castling move
+   */
+  protected createCastlingMove(color: Color, side: CastlingSide, squares: CastlingSquares): Move {
+    const toCol = this.variant === 'chess960' ? squares.rookFrom : squares.kingTo;
+    return {
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      from: this.board.coordsToSquare(squares.row, squares.kingFrom)!,
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      to: this.board.coordsToSquare(squares.row, toCol)!,
+      piece: { type: 'king', color },
+      castling: side,
+    };
   }
 
   /**
@@ -429,7 +606,7 @@ export class MoveGenerator {
    * @param color - Pawn color
    * @returns True if pawns of this color promote on this rank
    */
-  private isPawnPromotionRank(rank: number, color: Color): boolean {
+  protected isPawnPromotionRank(rank: number, color: Color): boolean {
     return (color === 'white' && rank === 7) || (color === 'black' && rank === 0);
   }
 
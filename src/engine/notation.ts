@@ -0,0 +1,291 @@
+/**
+ * Move Notation
+ *
+ * Resolves a move written as text against the legal moves of a position.
+ * Standard Algebraic Notation ("Nf3", "exd5", "e8=Q", "O-O"), UCI
+ * coordinates ("g1f3", "e7e8q"), long algebraic notation ("Ng1-f3",
+ * "Ng1xf3") and Crazyhouse drops ("N@f3") are understood.
+ *
+ * In strict mode SAN must be written exactly as it would be generated (check
+ * and mate suffixes are optional), and UCI and long algebraic moves must
+ * name the right piece and capture marker. Lenient mode also accepts common
+ * variations: zeros for castling, a missing "=" before a promotion piece,
+ * lower-case piece letters, a "P" for pawns, redundant disambiguation,
+ * missing or extra capture marks and trailing annotations such as "!?".
+ *
+ * @module engine/notation
+ */
+
+import type {
+  Move,
+  MoveOptions,
+  MoveParseOptions,
+  MoveParseResult,
+  PieceType,
+  Square,
+} from '@/types/index';
+import { ChessError } from '../utils/errors';
+
+/**
+ * Piece letters used in move notation
+ */
+const PIECE_TYPES: Record<string, PieceType> = {
+  P: 'pawn',
+  N: 'knight',
+  B: 'bishop',
+  R: 'rook',
+  Q: 'queen',
+  K: 'king',
+};
+
+const CASTLING_PATTERN = /^O-O(-O)?$/;
+const LENIENT_CASTLING_PATTERN = /^[O0]-[O0](-[O0])?$/i;
+const DROP_PATTERN = /^([PNBRQ])?@([a-h][1-8])$/;
+const UCI_PATTERN = /^([a-h][1-8])([a-h][1-8])([qrbnk])?$/;
+const LENIENT_UCI_PATTERN = /^([a-h][1-8])([a-h][1-8])=?([qrbnkQRBNK])?$/;
+const LAN_PATTERN = /^([KQRBN])?([a-h][1-8])([-x])([a-h][1-8])(?:=([QRBNK]))?$/;
+const LENIENT_LAN_PATTERN = /^([KQRBNP])?([a-h][1-8])([-x:])([a-h][1-8])=?([QRBNKqrbnk])?$/;
+const SAN_PATTERN = /^([KQRBN])?([a-h]?)([1-8]?)(x?)([a-h][1-8])(=[QRBNK])?$/;
+const LENIENT_SAN_PATTERN = /^([KQRBNP])?([a-h]?)([1-8]?)([x:]?)([a-h][1-8])=?([QRBNKqrbnk])?$/;
+
+/**
+ * What a move written as text says about the move
+ */
+interface MoveCriteria {
+  format: 'castling' | 'drop' | 'uci' | 'lan' | 'san';
+  piece?: PieceType;
+  from?: Square;
+  fromFile?: string;
+  fromRank?: string;
+  to?: Square;
+  capture?: boolean; // Only checked in strict mode
+  promotion?: PieceType;
+  castling?: 'kingside' | 'queenside';
+}
+
+/**
+ * Legal move a move written as text names, or why it names none
+ */
+export interface MoveNotationMatch extends Omit<MoveParseResult, 'move'> {
+  move?: Move; // Legal move, if valid
+}
+
+/**
+ * Resolve a move written as text against the legal moves of a position
+ *
+ * @param notation - Move as SAN, UCI, long algebraic notation or a drop
+ * @param legalMoves - Legal moves of the side to move
+ * @param toSan - Writes a legal move in SAN, for strict checks and error messages
+ * @param options - Parsing options
+ * @returns The resolved move, or an error with the candidate moves
+ */
+export function parseMoveNotation(
+  notation: string,
+  legalMoves: Move[],
+  toSan: (move: Move) => string,
+  options: MoveParseOptions = {}
+): MoveParseResult {
+  const { move, ...result } = matchMoveNotation(notation, legalMoves, toSan, options);
+  return move ? { ...result, move: toMoveOptions(move) } : result;
+}
+
+/**
+ * Find the legal move a move written as text names
+ *
+ * Like parseMoveNotation(), but returns the legal move itself, so it can be
+ * played without being validated again.
+ *
+ * @param notation - Move as SAN, UCI, long algebraic notation or a drop
+ * @param legalMoves - Legal moves of the side to move
+ * @param toSan - Writes a legal move in SAN, for strict checks and error messages
+ * @param options - Parsing options
+ * @returns The legal move, or an error with the candidate moves
+ */
+export function matchMoveNotation(
+  notation: string,
+  legalMoves: Move[],
+  toSan: (move: Move) => string,
+  options: MoveParseOptions = {}
+): MoveNotationMatch {
+  const strict = options.strict ?? false;
+  const text = stripSuffixes(notation.trim(), strict);
+  const criteria = parseCriteria(text, strict);
+  if (!criteria) {
+    return {
+      valid: false,
+      code: 'invalid_notation',
+      error: `Invalid move notation: '${notation}'`,
+    };
+  }
+
+  const matches = legalMoves.filter((move) => matchesCriteria(move, criteria, strict));
+
+  if (matches.length === 0) {
+    // List the moves the player probably meant: those of the same piece or
+    // from the same square, or every legal move
+    const related = legalMoves.filter(
+      (move) =>
+        (criteria.from !== undefined && move.from === criteria.from) ||
+        (criteria.from === undefined &&
+          criteria.piece !== undefined &&
+          move.piece.type === criteria.piece &&
+          !move.drop === (criteria.format !== 'drop'))
+    );
+    const candidates = (related.length > 0 ? related : legalMoves).map(toSan);
+    return {
+      valid: false,
+      code: 'illegal_move',
+      error:
+        candidates.length > 0
+          ? `Illegal move '${notation}'; legal moves are ${candidates.join(', ')}`
+          : `Illegal move '${notation}': there are no legal moves`,
+      candidates,
+    };
+  }
+
+  if (matches.length > 1) {
+    const candidates = matches.map(toSan);
+    return {
+      valid: false,
+      code: 'ambiguous_move',
+      error: `Ambiguous move '${notation}': could be ${candidates.join(', ')}`,
+      candidates,
+    };
+  }
+
+  const [move] = matches as [Move];
+  const san = toSan(move);
+  if (strict && criteria.format === 'san' && text !== san) {
+    return {
+      valid: false,
+      code: 'invalid_notation',
+      error: `Non-standard SAN '${notation}': expected '${san}'`,
+      candidates: [san],
+    };
+  }
+
+  return { valid: true, move };
+}
+
+/**
+ * Remove check, mate and annotation suffixes
+ */
+function stripSuffixes(text: string, strict: boolean): string {
+  return strict ? text.replace(/[+#]$/, '') : text.replace(/[+#!?]+$/, '');
+}
+
+/**
+ * Work out what a move written as text says about the move
+ */
+function parseCriteria(text: string, strict: boolean): MoveCriteria | null {
+  if ((strict ? CASTLING_PATTERN : LENIENT_CASTLING_PATTERN).test(text)) {
+    return {
+      format: 'castling',
+      piece: 'king',
+      castling: text.length > 3 ? 'queenside' : 'kingside',
+    };
+  }
+
+  const drop = DROP_PATTERN.exec(strict ? text : capitalizePiece(text));
+  if (drop) {
+    return { format: 'drop', piece: pieceType(drop[1] ?? 'P'), to: drop[2] as Square };
+  }
+
+  const uci = (strict ? UCI_PATTERN : LENIENT_UCI_PATTERN).exec(text);
+  if (uci) {
+    return {
+      format: 'uci',
+      from: uci[1] as Square,
+      to: uci[2] as Square,
+      ...(uci[3] ? { promotion: pieceType(uci[3]) } : {}),
+    };
+  }
+
+  const lenientText = strict ? text : capitalizePiece(text);
+
+  const lan = (strict ? LAN_PATTERN : LENIENT_LAN_PATTERN).exec(lenientText);
+  if (lan) {
+    return {
+      format: 'lan',
+      piece: pieceType(lan[1] ?? 'P'),
+      from: lan[2] as Square,
+      to: lan[4] as Square,
+      capture: lan[3] === 'x',
+      ...(lan[5] ? { promotion: pieceType(lan[5]) } : {}),
+    };
+  }
+
+  const san = (strict ? SAN_PATTERN : LENIENT_SAN_PATTERN).exec(lenientText);
+  if (san) {
+    const promotion = strict ? san[6]?.slice(1) : san[6];
+    return {
+      format: 'san',
+      piece: pieceType(san[1] ?? 'P'),
+      ...(san[2] ? { fromFile: san[2] } : {}),
+      ...(san[3] ? { fromRank: san[3] } : {}),
+      to: san[5] as Square,
+      capture: san[4] !== '',
+      ...(promotion ? { promotion: pieceType(promotion) } : {}),
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Capitalize a lower-case piece letter at the start of a move
+ *
+ * "b" is left alone because it names the b-file in pawn captures.
+ */
+function capitalizePiece(text: string): string {
+  return /^[pnrqk][a-h@]/.test(text) ? text.charAt(0).toUpperCase() + text.slice(1) : text;
+}
+
+/**
+ * Get the piece type of a piece letter
+ */
+function pieceType(letter: string): PieceType {
+  const type = PIECE_TYPES[letter.toUpperCase()];
+  if (!type) {
+    throw new ChessError(`Invalid piece letter: '${letter}'`, 'INVALID_NOTATION', { letter });
+  }
+  return type;
+}
+
+/**
+ * Check if a legal move matches what the notation says
+ */
+function matchesCriteria(move: Move, criteria: MoveCriteria, strict: boolean): boolean {
+  if (criteria.format === 'castling') {
+    return move.castling === criteria.castling;
+  }
+  if (!move.drop !== (criteria.format !== 'drop')) return false;
+  if (criteria.piece && move.piece.type !== criteria.piece) return false;
+  if (criteria.from && move.from !== criteria.from) return false;
+  if (criteria.fromFile && move.from.charAt(0) !== criteria.fromFile) return false;
+  if (criteria.fromRank && move.from.charAt(1) !== criteria.fromRank) return false;
+  if (criteria.to && move.to !== criteria.to) return false;
+  if (criteria.promotion && move.promotion !== criteria.promotion) return false;
+
+  // A capture mark on a quiet move, or a missing one on a capture, only
+  // counts in strict long algebraic notation; strict SAN is compared whole
+  if (strict && criteria.format === 'lan') {
+    return criteria.capture === Boolean(move.captured ?? move.enPassant);
+  }
+  return true;
+}
+
+/**
+ * Get the options that replay a legal move
+ *
+ * @param move - Move to replay
+ * @returns Its squares, promotion piece and dropped piece
+ */
+export function toMoveOptions(move: Move): MoveOptions {
+  return {
+    from: move.from,
+    to: move.to,
+    ...(move.promotion ? { promotion: move.promotion } : {}),
+    ...(move.drop ? { drop: move.drop } : {}),
+  };
+}
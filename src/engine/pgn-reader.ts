@@ -0,0 +1,661 @@
+/**
+ * PGN Reader
+ *
+ * Tokenizer and parser for the PGN import format. Unlike the move list of
+ * PgnParser.parse(), the parsed game keeps everything it is annotated with:
+ * comments in braces and after semicolons, nested variations, NAGs and
+ * suffix annotations ("!", "?!"), and commands embedded in comments such as
+ * [%clk 0:03:12], [%eval 0.35], [%csl Gd4] and [%cal Ge2e4]. Lines starting
+ * with "%" are escaped and skipped. Malformed input is reported with its
+ * line and column.
+ *
+ * readPgnGames() reads a PGN database from a stream one game at a time,
+ * for files too large to hold in memory.
+ *
+ * @module engine/pgn-reader
+ */
+
+import type { Pgn } from '@/types/index';
+import type { PgnTags } from './pgn';
+import { InvalidPgnError } from '../utils/errors';
+
+/**
+ * NAGs of the suffix annotations allowed in import format
+ */
+const SUFFIX_NAGS: Record<string, number> = {
+  '!': 1,
+  '?': 2,
+  '!!': 3,
+  '??': 4,
+  '!?': 5,
+  '?!': 6,
+};
+
+/**
+ * Game termination markers
+ */
+const RESULTS = new Set(['1-0', '0-1', '1/2-1/2', '*']);
+
+/**
+ * Moves in SAN: pieces, pawns, castling and Crazyhouse drops
+ */
+const SAN_PATTERN =
+  /^(?:O-O(?:-O)?|[NBRQK]?[a-h]?[1-8]?x?[a-h][1-8](?:=[NBRQK])?|[PNBRQ]?@[a-h][1-8])[+#]?$/;
+
+/**
+ * Commands embedded in comments: [%name value]
+ */
+const COMMAND_PATTERN = /\[%(\w+)\s*([^\]]*)\]/g;
+
+/**
+ * Longest game kept from a PGN stream, in characters
+ */
+const MAX_GAME_LENGTH = 1_000_000;
+
+/**
+ * Kinds of PGN tokens
+ */
+export type PgnTokenType = 'string' | 'symbol' | 'nag' | 'comment' | 'punctuation';
+
+/**
+ * A token of PGN text
+ */
+export interface PgnToken {
+  type: PgnTokenType;
+  value: string; // Without quotes or braces; NAG number for NAGs and suffix annotations
+  line: number; // 1-based
+  column: number; // 1-based
+}
+
+/**
+ * Commands embedded in a comment, by name: { clk: '0:03:12', eval: '0.35' }
+ */
+export type PgnCommands = Record<string, string>;
+
+/**
+ * A move of a parsed PGN game
+ */
+export interface PgnNode {
+  san: string;
+  nags: number[];
+  comments: string[]; // After the move, without their commands
+  startingComments: string[]; // Before the first move of a variation
+  commands: PgnCommands;
+  children: PgnNode[]; // Main continuation first, then variations
+  line: number; // Where the move is written, 0 if it was not read
+  column: number;
+}
+
+/**
+ * A parsed PGN game
+ */
+export interface PgnTree {
+  tags: PgnTags;
+  comments: string[]; // Before the first move
+  commands: PgnCommands;
+  children: PgnNode[]; // First move, then its variations
+  result: string | null; // Game termination marker, if written
+}
+
+/**
+ * PGN reading options
+ */
+export interface PgnReadOptions {
+  strict?: boolean; // Throw on malformed input instead of skipping it (default: true)
+  line?: number; // Line number of the first line, for positions in a larger file (default: 1)
+}
+
+/**
+ * Options for reading a stream of PGN games
+ */
+export interface PgnStreamOptions {
+  strict?: boolean; // Report malformed games instead of reading what can be read (default: true)
+  maxGameLength?: number; // Longer games are reported and not kept (default: 1,000,000 characters)
+}
+
+/**
+ * A game read from a PGN stream, or why it could not be read
+ */
+export type PgnGameEntry =
+  | { valid: true; index: number; line: number; pgn: Pgn; tree: PgnTree }
+  | { valid: false; index: number; line: number; pgn: Pgn; error: InvalidPgnError };
+
+/**
+ * The text of one game split off a PGN stream
+ */
+interface SplitGame {
+  text: string;
+  line: number; // Line the game starts on
+  oversized: boolean; // Longer than the limit; its text was dropped
+}
+
+/**
+ * A line of moves being read: the main line or an open variation
+ */
+interface OpenLine {
+  siblings: PgnNode[]; // Where the next move goes
+  last: PgnNode | null; // Move that comments and NAGs belong to
+  lastSiblings: PgnNode[] | null; // Where the last move went, for variations of it
+  pending: string[]; // Comments before the first move of a variation
+  start: PgnToken | null; // "(" that opened the variation
+}
+
+/**
+ * Split PGN text into tokens
+ *
+ * @param text - PGN text
+ * @param options - Strict or lenient reading, and where the text starts
+ * @returns Tokens in text order
+ * @throws InvalidPgnError with the line and column of an unterminated
+ *   comment or string, or of a character that cannot start a token
+ */
+export function tokenizePgn(text: string, options: PgnReadOptions = {}): PgnToken[] {
+  const strict = options.strict ?? true;
+  const tokens: PgnToken[] = [];
+  let index = 0;
+  let line = options.line ?? 1;
+  let column = 1;
+
+  const advance = (to: number): void => {
+    for (; index < to; index++) {
+      if (text[index] === '\n') {
+        line++;
+        column = 1;
+      } else {
+        column++;
+      }
+    }
+  };
+  const match = (pattern: RegExp): string | null => {
+    pattern.lastIndex = index;
+    return pattern.exec(text)?.[0] ?? null;
+  };
+  const fail = (message: string, atLine: number, atColumn: number): void => {
+    if (strict) {
+      throw pgnError(message, atLine, atColumn);
+    }
+  };
+
+  while (index < text.length) {
+    const char = text[index] ?? '';
+    const token = (type: PgnTokenType, value: string): PgnToken => ({ type, value, line, column });
+
+    if (/\s/.test(char)) {
+      advance(index + 1);
+    } else if (char === '%' && column === 1) {
+      // Escaped line
+      advance(lineEnd(text, index));
+    } else if (char === ';') {
+      const end = lineEnd(text, index);
+      tokens.push(token('comment', text.slice(index + 1, end).replace(/\r$/, '')));
+      advance(end);
+    } else if (char === '{') {
+      const end = text.indexOf('}', index);
+      if (end === -1) {
+        fail('unterminated comment', line, column);
+      }
+      const close = end === -1 ? text.length : end;
+      tokens.push(token('comment', text.slice(index + 1, close)));
+      advance(close + 1);
+    } else if (char === '"') {
+      const string = match(/"(?:[^"\\\n]|\\.)*"?/y) ?? '"';
+      if (!string.endsWith('"') || string.length === 1) {
+        fail('unterminated string', line, column);
+      }
+      const value = string.replace(/^"|"$/g, '').replace(/\\(.)/g, '$1');
+      tokens.push(token('string', value));
+      advance(index + string.length);
+    } else if (char === '$') {
+      const nag = match(/\$\d+/y);
+      if (nag) {
+        tokens.push(token('nag', nag.slice(1)));
+      } else {
+        fail("invalid NAG '$'", line, column);
+      }
+      advance(index + (nag?.length ?? 1));
+    } else if (char === '!' || char === '?') {
+      const annotation = match(/[!?]+/y) ?? char;
+      const nag = SUFFIX_NAGS[annotation];
+      if (nag !== undefined) {
+        tokens.push(token('nag', String(nag)));
+      } else {
+        fail(`invalid annotation '${annotation}'`, line, column);
+      }
+      advance(index + annotation.length);
+    } else if (char === '<') {
+      // Reserved for future expansion
+      const end = text.indexOf('>', index);
+      advance(end === -1 ? text.length : end + 1);
+    } else if ('[]().*'.includes(char)) {
+      tokens.push(token('punctuation', char));
+      advance(index + 1);
+    } else if (/[A-Za-z0-9@]/.test(char)) {
+      const symbol = match(/[A-Za-z0-9@][A-Za-z0-9_+#=:\-/@]*/y) ?? char;
+      tokens.push(token('symbol', symbol));
+      advance(index + symbol.length);
+    } else {
+      fail(`unexpected character '${char}'`, line, column);
+      advance(index + 1);
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Read one PGN game with its comments, variations, NAGs and commands
+ *
+ * In lenient mode anything that cannot be read is skipped: malformed tag
+ * pairs, unknown symbols, unbalanced parentheses and text after the result.
+ *
+ * @param text - PGN text of one game
+ * @param options - Strict or lenient reading, and where the text starts
+ * @returns Tags and move tree
+ * @throws InvalidPgnError with the line and column of malformed input (strict mode)
+ */
+export function readPgn(text: string, options: PgnReadOptions = {}): PgnTree {
+  const strict = options.strict ?? true;
+  const tokens = tokenizePgn(text, options);
+  const tree: PgnTree = { tags: {}, comments: [], commands: {}, children: [], result: null };
+  const fail = (message: string, token: PgnToken): void => {
+    if (strict) {
+      throw pgnError(message, token.line, token.column);
+    }
+  };
+
+  const variations: OpenLine[] = [];
+  let line = openLine(tree.children, null);
+  let inMovetext = false;
+  let index = 0;
+
+  while (index < tokens.length) {
+    const token = tokens[index] as PgnToken;
+    const { type, value } = token;
+    index++;
+
+    if (type === 'punctuation' && value === '[') {
+      if (inMovetext) {
+        fail('tag pair after the moves', token);
+      }
+      index = readTag(tokens, index, tree.tags, fail);
+      continue;
+    }
+    inMovetext = inMovetext || type !== 'comment';
+
+    if (type === 'comment') {
+      if (line.last) {
+        addComment(line.last.comments, line.last.commands, value);
+      } else if (line.start) {
+        line.pending.push(value);
+      } else {
+        addComment(tree.comments, tree.commands, value);
+      }
+    } else if (type === 'nag') {
+      if (line.last) {
+        line.last.nags.push(parseInt(value, 10));
+      } else {
+        fail(`NAG '${value}' before any move`, token);
+      }
+    } else if (type === 'punctuation' && value === '(') {
+      if (!line.lastSiblings) {
+        fail('variation before any move', token);
+      }
+      variations.push(line);
+      line = openLine(line.lastSiblings ?? [], token);
+    } else if (type === 'punctuation' && value === ')') {
+      const outer = variations.pop();
+      if (outer) {
+        line = outer;
+      } else {
+        fail("unexpected ')'", token);
+      }
+    } else if (type !== 'string' && RESULTS.has(value)) {
+      if (line.start) {
+        fail('unterminated variation', line.start);
+      }
+      tree.result = value;
+      const extra = tokens[index];
+      if (extra) {
+        fail(`unexpected '${extra.value}' after the result`, extra);
+      }
+      break;
+    } else if (type === 'symbol' && /^\d+$/.test(value)) {
+      // Move number, followed by periods
+    } else if (type === 'punctuation' && value === '.') {
+      // Periods of a move number
+    } else if (type === 'symbol' && SAN_PATTERN.test(value)) {
+      const node: PgnNode = {
+        san: value,
+        nags: [],
+        comments: [],
+        startingComments: [],
+        commands: {},
+        children: [],
+        line: token.line,
+        column: token.column,
+      };
+      line.pending.forEach((comment) => addComment(node.startingComments, node.commands, comment));
+      line.pending = [];
+      line.siblings.push(node);
+      line.lastSiblings = line.siblings;
+      line.siblings = node.children;
+      line.last = node;
+    } else {
+      fail(`unexpected '${value}'`, token);
+    }
+  }
+
+  const unclosed = variations.length > 0 ? line.start : null;
+  if (unclosed) {
+    fail('unterminated variation', unclosed);
+  }
+
+  return tree;
+}
+
+/**
+ * Read the games of a PGN database from a stream, one at a time
+ *
+ * Games are split off as the text arrives, so only the game being read is
+ * held in memory, whatever the size of the file. Text between games that
+ * is neither a tag pair nor a move number is skipped, and a game that
+ * cannot be read is reported in its entry without stopping the others.
+ *
+ * @param stream - Node.js readable stream, or any iterable of text or bytes (UTF-8)
+ * @param options - Strict or lenient reading, and the longest game kept
+ * @returns Entries in stream order, each with the game's tree or error and
+ *   the line it starts on
+ *
+ * @example
+ * for await (const entry of readPgnGames(fs.createReadStream('games.pgn'))) {
+ *   if (entry.valid) console.log(entry.tree.tags.White, entry.tree.tags.Black);
+ *   else console.warn(`Game ${entry.index + 1}: ${entry.error.message}`);
+ * }
+ */
+export async function* readPgnGames(
+  stream: AsyncIterable<string | Uint8Array> | Iterable<string | Uint8Array>,
+  options: PgnStreamOptions = {}
+): AsyncGenerator<PgnGameEntry> {
+  const maxLength = options.maxGameLength ?? MAX_GAME_LENGTH;
+  const splitter = new GameSplitter(maxLength);
+  const decoder = new TextDecoder();
+  let index = 0;
+  let rest = '';
+
+  for await (const chunk of stream) {
+    const text = typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+    const lines = (rest + text).split('\n');
+    rest = lines.pop() ?? '';
+    // A line longer than any game is cut so it cannot fill the memory
+    if (rest.length > maxLength) {
+      lines.push(rest);
+      rest = '';
+    }
+
+    for (const line of lines) {
+      const game = splitter.push(line);
+      if (game) {
+        yield readEntry(game, index++, options.strict ?? true, maxLength);
+      }
+    }
+  }
+
+  for (const game of [splitter.push(rest + decoder.decode()), splitter.finish()]) {
+    if (game) {
+      yield readEntry(game, index++, options.strict ?? true, maxLength);
+    }
+  }
+}
+
+/**
+ * Read the games of a PGN file, one at a time (Node.js only)
+ *
+ * @param filePath - Path to the PGN file
+ * @param options - Strict or lenient reading, and the longest game kept
+ * @returns Entries in file order, as readPgnGames()
+ * @throws InvalidPgnError if the file cannot be read
+ */
+export async function* readPgnFile(
+  filePath: string,
+  options: PgnStreamOptions = {}
+): AsyncGenerator<PgnGameEntry> {
+  // Dynamic import for Node.js fs module
+  const fs = await import('fs');
+  try {
+    yield* readPgnGames(fs.createReadStream(filePath), options);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new InvalidPgnError(`Cannot read PGN file '${filePath}': ${reason}`, { filePath });
+  }
+}
+
+/**
+ * Read a game split off a stream into its entry
+ */
+function readEntry(
+  { text, line, oversized }: SplitGame,
+  index: number,
+  strict: boolean,
+  maxLength: number
+): PgnGameEntry {
+  if (oversized) {
+    const error = new InvalidPgnError(
+      `Invalid PGN: game at line ${line} is longer than ${maxLength} characters`,
+      { line }
+    );
+    return { valid: false, index, line, pgn: '', error };
+  }
+
+  try {
+    return { valid: true, index, line, pgn: text, tree: readPgn(text, { strict, line }) };
+  } catch (error) {
+    if (!(error instanceof InvalidPgnError)) {
+      throw error;
+    }
+    return { valid: false, index, line, pgn: text, error };
+  }
+}
+
+/**
+ * Read a tag pair after its "["
+ *
+ * @param tokens - Tokens of the game
+ * @param start - Index of the token after the "["
+ * @param tags - Tags to add the pair to
+ * @param fail - Reports a malformed pair
+ * @returns Index of the token after the pair, or after what was skipped
+ */
+function readTag(
+  tokens: PgnToken[],
+  start: number,
+  tags: PgnTags,
+  fail: (message: string, token: PgnToken) => void
+): number {
+  const [name, value, close] = tokens.slice(start, start + 3);
+  const open = tokens[start - 1] as PgnToken;
+
+  if (name?.type !== 'symbol') {
+    fail('expected a tag name', name ?? open);
+  } else if (value?.type !== 'string') {
+    fail('expected a tag value', value ?? name);
+  } else if (close?.type !== 'punctuation' || close.value !== ']') {
+    fail("expected ']'", close ?? value);
+  } else {
+    tags[name.value] = value.value;
+    return start + 3;
+  }
+
+  // Skip to the end of the pair, or to the next pair if it is not closed
+  let index = start;
+  while (index < tokens.length) {
+    const token = tokens[index] as PgnToken;
+    if (token.type === 'punctuation' && token.value === '[') break;
+    index++;
+    if (token.type === 'punctuation' && token.value === ']') break;
+  }
+  return index;
+}
+
+/**
+ * Start reading a line of moves
+ */
+function openLine(siblings: PgnNode[], start: PgnToken | null): OpenLine {
+  return { siblings, last: null, lastSiblings: null, pending: [], start };
+}
+
+/**
+ * Add a comment, moving its embedded commands to the commands
+ *
+ * A comment that held only commands is not kept.
+ */
+function addComment(comments: string[], commands: PgnCommands, comment: string): void {
+  let found = false;
+  const text = comment
+    .replace(COMMAND_PATTERN, (_, name: string, value: string) => {
+      commands[name] = value.trim();
+      found = true;
+      return '';
+    })
+    .trim();
+
+  if (text || !found) {
+    comments.push(text);
+  }
+}
+
+/**
+ * Find the end of the line a character is on
+ */
+function lineEnd(text: string, index: number): number {
+  const end = text.indexOf('\n', index);
+  return end === -1 ? text.length : end;
+}
+
+/**
+ * Create an error for malformed PGN at a place in the text
+ */
+function pgnError(message: string, line: number, column: number): InvalidPgnError {
+  return new InvalidPgnError(`Invalid PGN: ${message} at line ${line}, column ${column}`, {
+    line,
+    column,
+  });
+}
+
+/**
+ * Splits a PGN stream into games, line by line
+ *
+ * A game starts with a tag pair, or with a move number if it has no tags,
+ * and ends with its result or when the tags of the next game begin.
+ * Comments and variations are followed so that a "[" or result inside
+ * them is not mistaken for the start or end of a game.
+ */
+class GameSplitter {
+  private readonly maxLength: number;
+  private lines: string[] = [];
+  private length = 0;
+  private start = 0; // Line the open game starts on, 0 between games
+  private lineNumber = 0;
+  private hasMoves = false;
+  private inComment = false;
+  private depth = 0; // Open variations
+  private oversized = false;
+
+  /**
+   * @param maxLength - Longest game kept, in characters
+   */
+  constructor(maxLength: number) {
+    this.maxLength = maxLength;
+  }
+
+  /**
+   * Add the next line of the stream
+   *
+   * @param rawLine - Line without its newline
+   * @returns A game the line completed, or null
+   */
+  public push(rawLine: string): SplitGame | null {
+    const line = rawLine.replace(/\r$/, '');
+    const trimmed = line.trim();
+    const isTag = !this.inComment && trimmed.startsWith('[');
+    this.lineNumber++;
+
+    // The tags of the next game end a game without a result
+    let finished = isTag && this.hasMoves ? this.finish() : null;
+
+    if (!this.start) {
+      if (!isTag && !/^\d+\s*\./.test(trimmed)) {
+        return finished;
+      }
+      this.start = this.lineNumber;
+    }
+
+    this.add(line);
+    if (!isTag && trimmed && !line.startsWith('%')) {
+      this.hasMoves = true;
+      if (this.endsWithResult(line)) {
+        finished = this.finish();
+      }
+    }
+    return finished;
+  }
+
+  /**
+   * End the open game at the end of the stream
+   *
+   * @returns The game, or null if none is open
+   */
+  public finish(): SplitGame | null {
+    const game = this.start
+      ? { text: this.lines.join('\n'), line: this.start, oversized: this.oversized }
+      : null;
+
+    this.lines = [];
+    this.length = 0;
+    this.start = 0;
+    this.hasMoves = false;
+    this.inComment = false;
+    this.depth = 0;
+    this.oversized = false;
+    return game;
+  }
+
+  /**
+   * Keep a line of the open game, unless the game has grown too long
+   */
+  private add(line: string): void {
+    this.length += line.length + 1;
+    if (this.length > this.maxLength) {
+      this.oversized = true;
+      this.lines = [];
+    } else if (!this.oversized) {
+      this.lines.push(line);
+    }
+  }
+
+  /**
+   * Follow the comments and variations of a movetext line
+   *
+   * @returns True if the line ends with a result outside them
+   */
+  private endsWithResult(line: string): boolean {
+    let text = '';
+    for (const char of line) {
+      if (this.inComment) {
+        this.inComment = char !== '}';
+      } else if (char === ';') {
+        break;
+      } else if (char === '{') {
+        this.inComment = true;
+        text += ' ';
+      } else if (char === '(') {
+        this.depth++;
+      } else if (char === ')') {
+        this.depth = Math.max(0, this.depth - 1);
+      } else if (this.depth === 0) {
+        text += char;
+      }
+    }
+
+    return !this.inComment && this.depth === 0 && /(?:1-0|0-1|1\/2-1\/2|\*)\s*$/.test(text);
+  }
+}
@@ -0,0 +1,284 @@
+/**
+ * PGN Writer
+ *
+ * Writes a PGN game tree in the PGN export format: the Seven Tag Roster
+ * first and the other tags in ASCII order, tag values escaped, move text
+ * wrapped at 80 columns, and black's moves numbered ("12...") wherever a
+ * comment or variation comes before them. Games from a custom position
+ * are numbered from the fullmove number of their FEN tag. What
+ * readPgn() reads, writePgn() writes back unchanged.
+ *
+ * @module engine/pgn-writer
+ */
+
+import type { Color, Pgn } from '@/types/index';
+import { FenParser } from './fen';
+import type { PgnTags } from './pgn';
+import type { PgnCommands, PgnNode, PgnTree } from './pgn-reader';
+
+/**
+ * Tags every exported game has, in the order they are written
+ */
+const SEVEN_TAG_ROSTER: Record<string, string> = {
+  Event: '?',
+  Site: '?',
+  Date: '????.??.??',
+  Round: '?',
+  White: '?',
+  Black: '?',
+  Result: '*',
+};
+
+/**
+ * Tags the moves cannot be replayed without, kept in reduced export format
+ */
+const SETUP_TAGS = new Set(['Variant', 'SetUp', 'FEN']);
+
+/**
+ * Commands holding clock times
+ */
+const CLOCK_COMMANDS = new Set(['clk', 'emt']);
+
+/**
+ * Suffix annotations of NAGs 1 to 6, written in import format
+ */
+const SUFFIX_ANNOTATIONS = ['', '!', '?', '!!', '??', '!?', '?!'];
+
+/**
+ * Longest line of PGN move text
+ */
+const MAX_LINE_LENGTH = 80;
+
+/**
+ * PGN output format
+ *
+ * - export: the standard export format
+ * - reduced: the Seven Tag Roster and bare moves, for bulk storage
+ * - import: every tag, move text on one line and suffix annotations
+ *   ("e4!") instead of NAGs 1 to 6, for pasting into import boxes
+ */
+export type PgnFormat = 'export' | 'reduced' | 'import';
+
+/**
+ * PGN writing options
+ *
+ * What is included defaults to everything, or to nothing in reduced format.
+ */
+export interface PgnWriteOptions {
+  format?: PgnFormat; // Default 'export'
+  comments?: boolean; // Comments and commands other than clock times
+  variations?: boolean;
+  nags?: boolean;
+  clocks?: boolean; // [%clk] and [%emt] commands
+}
+
+/**
+ * Writing options with their defaults and where the move numbers start
+ */
+interface WriteSettings extends Required<PgnWriteOptions> {
+  startTurn: Color;
+  startMoveNumber: number;
+}
+
+/**
+ * Write a PGN game
+ *
+ * Missing Seven Tag Roster tags are written with their unknown values
+ * ("?", "????.??.??"), and the Result tag and the game termination marker
+ * agree: the Result tag is used if given, then the tree's result, then "*".
+ *
+ * @param tree - Tags and move tree, as read by readPgn()
+ * @param options - Format and what to include
+ * @returns PGN text of the game
+ */
+export function writePgn(tree: PgnTree, options: PgnWriteOptions = {}): Pgn {
+  const format = options.format ?? 'export';
+  const full = format !== 'reduced';
+  const settings: WriteSettings = {
+    format,
+    comments: options.comments ?? full,
+    variations: options.variations ?? full,
+    nags: options.nags ?? full,
+    clocks: options.clocks ?? full,
+    ...getStart(tree.tags),
+  };
+
+  const result = tree.tags.Result ?? tree.result ?? '*';
+  const tags = writeTags({ ...tree.tags, Result: result }, format);
+  const tokens = [
+    ...writeComments(tree.comments, tree.commands, settings),
+    ...writeLine(tree.children, 0, true, settings),
+    result,
+  ];
+  const moveText = format === 'import' ? tokens.join(' ') : wrap(tokens);
+
+  return [...tags, '', moveText].join('\n');
+}
+
+/**
+ * Write the tag pairs, Seven Tag Roster first and the others in ASCII order
+ */
+function writeTags(tags: PgnTags, format: PgnFormat): string[] {
+  const roster = Object.entries(SEVEN_TAG_ROSTER).map(([name, unknown]): [string, string] => [
+    name,
+    tags[name] ?? unknown,
+  ]);
+  const others = Object.entries(tags)
+    .filter((tag): tag is [string, string] => {
+      const [name, value] = tag;
+      return (
+        value !== undefined &&
+        !Object.hasOwn(SEVEN_TAG_ROSTER, name) &&
+        (format !== 'reduced' || SETUP_TAGS.has(name))
+      );
+    })
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+
+  return [...roster, ...others].map(([name, value]) => `[${name} "${escapeTagValue(value)}"]`);
+}
+
+/**
+ * Escape the quotes and backslashes of a tag value
+ */
+function escapeTagValue(value: string): string {
+  return value.replace(/[\\"]/g, '\\$&');
+}
+
+/**
+ * Get the side and move number the game starts with, from its FEN tag
+ */
+function getStart(tags: PgnTags): Pick<WriteSettings, 'startTurn' | 'startMoveNumber'> {
+  if (tags.FEN !== undefined && tags.SetUp !== '0') {
+    try {
+      const { turn, fullMoveNumber } = FenParser.parse(tags.FEN);
+      return { startTurn: turn, startMoveNumber: fullMoveNumber };
+    } catch {
+      // Numbered from the usual start instead
+    }
+  }
+  return { startTurn: 'white', startMoveNumber: 1 };
+}
+
+/**
+ * Write a line of moves with the variations that branch off it
+ *
+ * @param moves - First move of the line, then its variations
+ * @param ply - Half-moves before the first move
+ * @param numbered - Whether the first move needs its number even if black plays it
+ * @param settings - Writing settings
+ * @returns PGN move text tokens
+ */
+function writeLine(
+  moves: PgnNode[],
+  ply: number,
+  numbered: boolean,
+  settings: WriteSettings
+): string[] {
+  const tokens: string[] = [];
+  let needsNumber = numbered;
+  let siblings = moves;
+  let main = siblings[0];
+
+  for (let index = ply; main; index++) {
+    const comments = writeComments(main.comments, main.commands, settings);
+    tokens.push(...writeMove(main, index, needsNumber, settings), ...comments);
+    needsNumber = comments.length > 0;
+
+    for (const variation of settings.variations ? siblings.slice(1) : []) {
+      const after = writeComments(variation.comments, variation.commands, settings);
+      const line = [
+        ...writeMove(variation, index, true, settings),
+        ...after,
+        ...writeLine(variation.children, index + 1, after.length > 0, settings),
+      ];
+      line[0] = `(${line[0] ?? ''}`;
+      line[line.length - 1] += ')';
+      tokens.push(...line);
+      needsNumber = true;
+    }
+
+    siblings = main.children;
+    main = siblings[0];
+  }
+
+  return tokens;
+}
+
+/**
+ * Write one move with its starting comments, number and NAGs
+ */
+function writeMove(
+  node: PgnNode,
+  ply: number,
+  numbered: boolean,
+  settings: WriteSettings
+): string[] {
+  const index = ply + (settings.startTurn === 'black' ? 1 : 0);
+  const moveNumber = settings.startMoveNumber + Math.floor(index / 2);
+  const tokens = writeComments(node.startingComments, {}, settings);
+
+  let san = node.san;
+  let nags = settings.nags ? node.nags : [];
+  const suffix = SUFFIX_ANNOTATIONS[nags[0] ?? 0];
+  if (settings.format === 'import' && suffix) {
+    san += suffix;
+    nags = nags.slice(1);
+  }
+
+  // The number stays on the line of its move
+  if (index % 2 === 0) {
+    tokens.push(`${moveNumber}. ${san}`);
+  } else if (numbered || tokens.length > 0) {
+    tokens.push(`${moveNumber}... ${san}`);
+  } else {
+    tokens.push(san);
+  }
+  tokens.push(...nags.map((nag) => `$${nag}`));
+
+  return tokens;
+}
+
+/**
+ * Write comments in braces, split into words so they can be wrapped
+ *
+ * The commands the settings include go at the start of the first comment.
+ */
+function writeComments(
+  comments: string[],
+  commands: PgnCommands,
+  settings: WriteSettings
+): string[] {
+  const written = Object.entries(commands)
+    .filter(([name]) => (CLOCK_COMMANDS.has(name) ? settings.clocks : settings.comments))
+    .map(([name, value]) => `[%${name} ${value}]`);
+  const texts = settings.comments ? comments : [];
+  const joined =
+    written.length > 0 ? [[...written, ...texts.slice(0, 1)].join(' '), ...texts.slice(1)] : texts;
+
+  return joined.flatMap((comment) => {
+    const words = comment.replace(/}/g, ')').split(/\s+/).filter(Boolean);
+    return `{${words.join(' ')}}`.split(' ');
+  });
+}
+
+/**
+ * Join move text tokens into lines of at most 80 characters
+ */
+function wrap(tokens: string[]): string {
+  const lines: string[] = [];
+  let line = '';
+
+  for (const token of tokens) {
+    if (line && line.length + token.length + 1 > MAX_LINE_LENGTH) {
+      lines.push(line);
+      line = token;
+    } else {
+      line = line ? `${line} ${token}` : token;
+    }
+  }
+  if (line) {
+    lines.push(line);
+  }
+
+  return lines.join('\n');
+}
@@ -2,13 +2,42 @@
  * PGN (Portable Game Notation) Parser and Generator
  *
  * Handles parsing and generation of PGN format chess games.
- * Supports PGN tags, Standard Algebraic Notation (SAN), and basic comments.
+ * Supports PGN tags and Standard Algebraic Notation (SAN); comments,
+ * variations and NAGs are read by engine/pgn-reader.
+ * Games are written in the PGN export format by engine/pgn-writer.
+ * Variant games are marked with the Variant tag, and a starting position
+ * other than the variant's own (e.g. an endgame study or any Chess960
+ * setup) is given in the SetUp/FEN tags. Timed games get a TimeControl tag
+ * and a %clk comment after every move.
  *
  * @module engine/pgn
  */
 
-import type { Pgn, Move, Square, PieceType } from '@/types/index';
+import type { Pgn, Move, TerminationReason } from '@/types/index';
 import { Game } from './game';
+import { CHESS960_STANDARD_INDEX } from './chess960';
+import { findVariantByName, getVariantByKey } from './variants/index';
+import { formatClockTime, formatTimeControl } from './clock';
+import { readPgn } from './pgn-reader';
+import type { PgnNode, PgnTree } from './pgn-reader';
+import { writePgn } from './pgn-writer';
+import type { PgnWriteOptions } from './pgn-writer';
+import { InvalidPgnError } from '../utils/errors';
+
+/**
+ * PGN Termination tag values
+ */
+const PGN_TERMINATIONS: Record<TerminationReason, string> = {
+  checkmate: 'normal',
+  stalemate: 'normal',
+  draw_rule: 'normal',
+  variant_rule: 'normal',
+  resignation: 'normal',
+  agreement: 'normal',
+  timeout: 'time forfeit',
+  abandonment: 'abandoned',
+  adjudication: 'adjudication',
+};
 
 /**
  * PGN tag pairs
@@ -21,6 +50,11 @@ export interface PgnTags {
   White?: string;
   Black?: string;
   Result?: string;
+  Variant?: string;
+  SetUp?: string;
+  FEN?: string;
+  TimeControl?: string;
+  Termination?: string;
   [key: string]: string | undefined;
 }
 
@@ -41,243 +75,115 @@ export interface PgnGame {
 export class PgnParser {
   /**
    * Parse a PGN string into tags and moves
+   *
+   * Reads leniently and keeps only the main line; anything that cannot be
+   * read is skipped. Use parseTree() for comments, variations and NAGs.
    */
   public static parse(pgn: Pgn): PgnGame {
-    const lines = pgn.split('\n');
-    const tags: PgnTags = {};
-    const moveText: string[] = [];
-    let inMoveSection = false;
-
-    for (const line of lines) {
-      const trimmedLine = line.trim();
-
-      // Skip empty lines
-      if (!trimmedLine) {
-        if (Object.keys(tags).length > 0) {
-          inMoveSection = true;
-        }
-        continue;
-      }
-
-      // Parse tag pairs
-      if (trimmedLine.startsWith('[') && trimmedLine.endsWith(']')) {
-        const tagMatch = trimmedLine.match(/\[(\w+)\s+"([^"]*)"\]/);
-        if (tagMatch) {
-          const [, key, value] = tagMatch;
-          if (key && value !== undefined) {
-            tags[key] = value;
-          }
-        }
-      } else if (inMoveSection) {
-        // Collect move text
-        moveText.push(trimmedLine);
-      }
-    }
-
-    // Parse moves from move text
-    const fullMoveText = moveText.join(' ');
-    const moves = this.parseMoveText(fullMoveText);
-    const result = tags.Result;
+    const tree = readPgn(pgn, { strict: false });
 
-    return { tags, moves, result };
-  }
-
-  /**
-   * Parse move text into individual moves
-   */
-  private static parseMoveText(moveText: string): string[] {
     const moves: string[] = [];
-
-    // Remove comments in braces
-    let cleanText = moveText.replace(/\{[^}]*\}/g, '');
-
-    // Remove variations in parentheses
-    cleanText = this.removeVariations(cleanText);
-
-    // Remove result markers
-    cleanText = cleanText.replace(/\s*(1-0|0-1|1\/2-1\/2|\*)\s*$/, '');
-
-    // Split by move numbers and extract moves
-    const tokens = cleanText.split(/\s+/).filter((token) => token.length > 0);
-
-    for (const token of tokens) {
-      // Skip move numbers (e.g., "1.", "2.", "10...")
-      if (/^\d+\.+$/.test(token)) {
-        continue;
-      }
-
-      // Skip result indicators
-      if (/^(1-0|0-1|1\/2-1\/2|\*)$/.test(token)) {
-        continue;
-      }
-
-      // Valid move in SAN notation
-      if (this.isValidSanMove(token)) {
-        moves.push(token);
-      }
+    for (let node = tree.children[0]; node; node = node.children[0]) {
+      moves.push(node.san);
     }
+    const result = tree.tags.Result ?? tree.result ?? undefined;
 
-    return moves;
+    return { tags: tree.tags, moves, result };
   }
 
   /**
-   * Remove nested variations from move text
+   * Parse a PGN string with its comments, variations, NAGs and commands
+   *
+   * @param pgn - PGN text of one game
+   * @returns Tags and move tree
+   * @throws InvalidPgnError with the line and column of malformed input
    */
-  private static removeVariations(text: string): string {
-    const result = text;
-    let depth = 0;
-    let cleaned = '';
-
-    for (let i = 0; i < result.length; i++) {
-      const char = result[i];
-      if (char === '(') {
-        depth++;
-      } else if (char === ')') {
-        depth--;
-      } else if (depth === 0) {
-        cleaned += char;
-      }
-    }
-
-    return cleaned;
-  }
-
-  /**
-   * Check if a token is a valid SAN move
-   */
-  private static isValidSanMove(token: string): boolean {
-    // Remove check/checkmate indicators
-    const move = token.replace(/[+#]$/, '');
-
-    // Castling
-    if (/^O-O(-O)?$/.test(move)) {
-      return true;
-    }
-
-    // Regular moves: [Piece][file/rank disambiguation][x][destination][=promotion]
-    // Examples: e4, Nf3, Bxc4, exd5, e8=Q, Nbd7, R1a3
-    if (/^[NBRQK]?[a-h]?[1-8]?x?[a-h][1-8](=[NBRQ])?$/.test(move)) {
-      return true;
-    }
-
-    return false;
+  public static parseTree(pgn: Pgn): PgnTree {
+    return readPgn(pgn);
   }
 
   /**
    * Generate PGN string from game
+   *
+   * @param game - Game to write
+   * @param tags - Tags that override or add to the generated ones
+   * @param options - Format and what to include; see writePgn()
+   * @returns PGN text, with the time left after each move in timed games
    */
-  public static generate(game: Game, tags: PgnTags = {}): Pgn {
-    const lines: string[] = [];
-
-    // Generate tag pairs
-    const defaultTags: PgnTags = {
-      Event: tags.Event ?? '?',
-      Site: tags.Site ?? '?',
-      Date: tags.Date ?? '????.??.??',
-      Round: tags.Round ?? '?',
-      White: tags.White ?? '?',
-      Black: tags.Black ?? '?',
-      Result: tags.Result ?? this.getResultString(game),
+  public static generate(game: Game, tags: PgnTags = {}, options: PgnWriteOptions = {}): Pgn {
+    const children: PgnNode[] = [];
+    let line = children;
+
+    for (const move of game.getHistory()) {
+      const node: PgnNode = {
+        san: move.san ?? this.moveToSan(move),
+        nags: [],
+        comments: [],
+        startingComments: [],
+        commands: move.clock !== undefined ? { clk: formatClockTime(move.clock) } : {},
+        children: [],
+        line: 0,
+        column: 0,
+      };
+      line.push(node);
+      line = node.children;
+    }
+
+    const tree: PgnTree = {
+      tags: this.generateTags(game, tags),
+      comments: [],
+      commands: {},
+      children,
+      result: this.getResultString(game),
     };
-
-    // Add all tags
-    const allTags = { ...defaultTags, ...tags };
-    const sevenRosterTags = ['Event', 'Site', 'Date', 'Round', 'White', 'Black', 'Result'];
-
-    // Seven Tag Roster first
-    for (const key of sevenRosterTags) {
-      const value = allTags[key];
-      if (value !== undefined) {
-        lines.push(`[${key} "${value}"]`);
-      }
-    }
-
-    // Additional tags
-    for (const [key, value] of Object.entries(allTags)) {
-      if (!sevenRosterTags.includes(key) && value !== undefined) {
-        lines.push(`[${key} "${value}"]`);
-      }
-    }
-
-    // Empty line before moves
-    lines.push('');
-
-    // Generate moves
-    const moveText = this.generateMoveText(game);
-    lines.push(moveText);
-
-    return lines.join('\n');
+    return writePgn(tree, options);
   }
 
   /**
-   * Generate move text in PGN format
+   * Generate the tag pairs of a game
+   *
+   * @param game - Game to describe
+   * @param tags - Tags that override or add to the generated ones
+   * @returns Result, Variant, SetUp, FEN, TimeControl and Termination
+   *   tags as the game calls for, with the given tags over them
    */
-  private static generateMoveText(game: Game): string {
-    const history = game.getHistory();
-    const lines: string[] = [];
-    let currentLine = '';
-    const maxLineLength = 80;
-
-    for (let i = 0; i < history.length; i++) {
-      const move = history[i];
-      if (!move) continue;
-
-      let moveStr = '';
-
-      // Add move number for white's moves
-      if (i % 2 === 0) {
-        const moveNumber = Math.floor(i / 2) + 1;
-        moveStr = `${moveNumber}. ${move.san ?? this.moveToSan(move)}`;
-      } else {
-        moveStr = move.san ?? this.moveToSan(move);
-      }
+  public static generateTags(game: Game, tags: PgnTags = {}): PgnTags {
+    // Timed games record their time control
+    const clock = game.getClock();
+    const clockTags: PgnTags = clock
+      ? { TimeControl: formatTimeControl(clock.getTimeControl()) }
+      : {};
 
-      // Check if adding this move would exceed line length
-      if (currentLine && currentLine.length + moveStr.length + 1 > maxLineLength) {
-        lines.push(currentLine);
-        currentLine = moveStr;
-      } else {
-        currentLine = currentLine ? `${currentLine} ${moveStr}` : moveStr;
-      }
-    }
+    // Finished games record how they ended
+    const termination = game.getResult().termination;
+    const resultTags: PgnTags = termination ? { Termination: PGN_TERMINATIONS[termination] } : {};
 
-    // Add remaining moves
-    if (currentLine) {
-      lines.push(currentLine);
+    // Variant games record their variant, and games from any position but
+    // the variant's own record their starting position
+    const variant = getVariantByKey(game.getVariant());
+    const variantTags: PgnTags = {};
+    if (variant.key !== 'standard') {
+      variantTags.Variant = variant.name;
     }
-
-    // Add result
-    const result = this.getResultString(game);
-    if (lines.length > 0) {
-      lines[lines.length - 1] += ` ${result}`;
-    } else {
-      lines.push(result);
+    if (variant.key === 'chess960' || game.getStartingFen() !== variant.startingFen) {
+      variantTags.SetUp = '1';
+      variantTags.FEN = game.getStartingFen();
     }
 
-    return lines.join('\n');
+    return {
+      Result: this.getResultString(game),
+      ...variantTags,
+      ...clockTags,
+      ...resultTags,
+      ...tags,
+    };
   }
 
   /**
-   * Get result string from game status
+   * Get result string from the game's result
    */
   private static getResultString(game: Game): string {
-    const status = game.getStatus();
-
-    if (status === 'checkmate') {
-      return game.getTurn() === 'white' ? '0-1' : '1-0';
-    }
-
-    if (
-      status === 'stalemate' ||
-      status === 'draw' ||
-      status === 'insufficient_material' ||
-      status === 'threefold_repetition' ||
-      status === 'fifty_move_rule'
-    ) {
-      return '1/2-1/2';
-    }
-
-    return '*';
+    return game.getResult().result;
   }
 
   /**
@@ -294,6 +200,12 @@ export class PgnParser {
       return move.castling === 'kingside' ? 'O-O' : 'O-O-O';
     }
 
+    // Drops
+    if (move.drop) {
+      const letter = move.drop === 'knight' ? 'N' : (move.drop[0]?.toUpperCase() ?? '');
+      return `${letter}@${move.to}`;
+    }
+
     let san = '';
 
     // Piece notation (not for pawns)
@@ -332,212 +244,112 @@ export class PgnParser {
 
   /**
    * Apply a SAN move to a game
+   *
+   * The move is read as Game.tryMove() reads it, so moves the game rejects,
+   * such as an ambiguous "Nd2", cannot be imported either. A capture mark on
+   * a move that captures nothing is also rejected: in PGN move text it means
+   * the game was recorded wrongly, not just loosely.
+   *
+   * @param game - Game to play the move in
+   * @param san - Move in SAN
+   * @returns True if the move was played
    */
   public static applySanMove(game: Game, san: string): boolean {
-    // Remove check/checkmate indicators
-    const cleanSan = san.replace(/[+#]$/, '');
-
-    // Handle castling
-    if (cleanSan === 'O-O') {
-      return this.tryCastling(game, 'kingside');
-    }
-    if (cleanSan === 'O-O-O') {
-      return this.tryCastling(game, 'queenside');
-    }
-
-    // Parse regular move
-    const moveInfo = this.parseSanMove(cleanSan);
-    if (!moveInfo) {
+    const { move } = game.parseMove(san);
+    if (!move) {
       return false;
     }
 
-    // Find matching legal move
-    const legalMoves = game.getLegalMoves();
-    for (const move of legalMoves) {
-      if (this.matchesMoveCriteria(move, moveInfo)) {
-        const result = game.move({
-          from: move.from,
-          to: move.to,
-          promotion: moveInfo.promotion,
-        });
-        return result !== null;
-      }
+    const captures = game
+      .getLegalMoves()
+      .some(
+        (legal) =>
+          legal.from === move.from && legal.to === move.to && (legal.captured ?? legal.enPassant)
+      );
+    if (san.includes('x') && !captures) {
+      return false;
     }
 
-    return false;
+    return game.tryMove(move).valid;
   }
 
   /**
-   * Try to castle
+   * Load a game from PGN
+   *
+   * @returns The game, or null if the PGN cannot be replayed
    */
-  private static tryCastling(game: Game, side: 'kingside' | 'queenside'): boolean {
-    const turn = game.getTurn();
-    const rank = turn === 'white' ? '1' : '8';
-    const kingSquare: Square = `e${rank}`;
-    const kingTo: Square = side === 'kingside' ? `g${rank}` : `c${rank}`;
-
-    const board = game.getBoard();
-    const king = board.getPiece(kingSquare);
-
-    if (king?.type !== 'king' || king.color !== turn) {
-      return false;
+  public static loadGame(pgn: Pgn): Game | null {
+    try {
+      return this.loadGameOrThrow(pgn);
+    } catch {
+      return null;
     }
-
-    const result = game.move({ from: kingSquare, to: kingTo });
-    return result !== null;
   }
 
   /**
-   * Parse SAN move into components
+   * Load a game from PGN, reporting why it cannot be replayed
+   *
+   * @throws InvalidPgnError naming the variant, position or move at fault
    */
-  private static parseSanMove(san: string): {
-    pieceType: PieceType;
-    toSquare: Square;
-    fromFile?: string;
-    fromRank?: string;
-    capture: boolean;
-    promotion?: PieceType;
-  } | null {
-    // Piece type
-    let pieceType: PieceType = 'pawn';
-    let rest = san;
-
-    if (/^[NBRQK]/.test(san)) {
-      const pieceChar = san[0];
-      pieceType = this.pieceCharToType(pieceChar ?? '');
-      rest = san.slice(1);
-    }
-
-    // Capture
-    const capture = rest.includes('x');
-    rest = rest.replace('x', '');
-
-    // Promotion
-    let promotion: PieceType | undefined;
-    const promotionMatch = rest.match(/=([NBRQ])$/);
-    if (promotionMatch) {
-      promotion = this.pieceCharToType(promotionMatch[1] ?? '');
-      rest = rest.replace(/=[NBRQ]$/, '');
-    }
-
-    // Destination square (always last 2 characters)
-    if (rest.length < 2) {
-      return null;
-    }
-    const toSquare: Square = rest.slice(-2);
-
-    // Disambiguation (file and/or rank)
-    const disambiguation = rest.slice(0, -2);
-    let fromFile: string | undefined;
-    let fromRank: string | undefined;
-
-    if (disambiguation.length > 0) {
-      if (/[a-h]/.test(disambiguation)) {
-        fromFile = disambiguation.match(/[a-h]/)?.[0];
-      }
-      if (/[1-8]/.test(disambiguation)) {
-        fromRank = disambiguation.match(/[1-8]/)?.[0];
+  public static loadGameOrThrow(pgn: Pgn): Game {
+    const parsed = this.parse(pgn);
+    const game = this.createGame(parsed.tags);
+
+    // Apply all moves
+    for (const [index, san] of parsed.moves.entries()) {
+      if (!this.applySanMove(game, san)) {
+        throw new InvalidPgnError(`Invalid PGN: cannot play '${san}' at ply ${index + 1}`, {
+          move: san,
+          ply: index + 1,
+        });
       }
     }
 
-    return {
-      pieceType,
-      toSquare,
-      fromFile,
-      fromRank,
-      capture,
-      promotion,
-    };
-  }
-
-  /**
-   * Convert piece character to PieceType
-   */
-  private static pieceCharToType(char: string): PieceType {
-    const map: Record<string, PieceType> = {
-      K: 'king',
-      Q: 'queen',
-      R: 'rook',
-      B: 'bishop',
-      N: 'knight',
-      P: 'pawn',
-    };
-    return map[char] ?? 'pawn';
+    return game;
   }
 
   /**
-   * Check if a move matches the parsed SAN criteria
+   * Create the game a PGN game starts from
+   *
+   * The game starts from the FEN tag, unless SetUp is "0", and otherwise
+   * from the variant's starting position.
+   *
+   * @param tags - Tags of the PGN game; Variant, SetUp and FEN are used
+   * @returns New game without moves
+   * @throws InvalidPgnError if the variant is unknown or the position invalid
    */
-  private static matchesMoveCriteria(
-    move: Move,
-    criteria: {
-      pieceType: PieceType;
-      toSquare: Square;
-      fromFile?: string;
-      fromRank?: string;
-      capture: boolean;
-      promotion?: PieceType;
-    }
-  ): boolean {
-    // Check piece type
-    if (move.piece.type !== criteria.pieceType) {
-      return false;
-    }
-
-    // Check destination
-    if (move.to !== criteria.toSquare) {
-      return false;
-    }
-
-    // Check capture
-    if (criteria.capture && !move.captured && !move.enPassant) {
-      return false;
-    }
-
-    // Check disambiguation
-    if (criteria.fromFile && move.from[0] !== criteria.fromFile) {
-      return false;
+  public static createGame(tags: PgnTags): Game {
+    const variant = findVariantByName(tags.Variant ?? 'Standard');
+    if (!variant) {
+      throw new InvalidPgnError(`Invalid PGN: unknown variant '${tags.Variant}'`, {
+        tag: 'Variant',
+        value: tags.Variant,
+      });
     }
-    if (criteria.fromRank && move.from[1] !== criteria.fromRank) {
-      return false;
-    }
-
-    // Check promotion
-    if (criteria.promotion && move.promotion !== criteria.promotion) {
-      return false;
-    }
-
-    return true;
-  }
 
-  /**
-   * Load a game from PGN
-   */
-  public static loadGame(pgn: Pgn): Game | null {
     try {
-      const parsed = this.parse(pgn);
-      const game = new Game();
-
-      // Apply all moves
-      for (const san of parsed.moves) {
-        const success = this.applySanMove(game, san);
-        if (!success) {
-          return null;
-        }
-      }
-
-      return game;
-    } catch {
-      return null;
+      return new Game({
+        variant: variant.key,
+        fen: tags.SetUp === '0' ? undefined : tags.FEN,
+        chess960Position: CHESS960_STANDARD_INDEX,
+      });
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new InvalidPgnError(`Invalid PGN: ${reason}`, { tag: 'FEN', value: tags.FEN });
     }
   }
 
   /**
-   * Validate PGN string
+   * Check that a PGN string can be read
+   *
+   * Checks the syntax only: tag pairs, comments, variations and SAN, not
+   * whether the moves are legal.
+   *
+   * @returns True if parseTree() accepts it
    */
   public static validate(pgn: Pgn): boolean {
     try {
-      this.parse(pgn);
+      readPgn(pgn);
       return true;
     } catch {
       return false;
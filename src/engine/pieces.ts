@@ -330,6 +330,77 @@ export function isSquareUnderAttack(
   return false;
 }
 
+/**
+ * Find the pieces of a color that attack a square
+ *
+ * Unlike isSquareUnderAttack(), this does not stop at the first attacker.
+ *
+ * @param board - The chess board
+ * @param square - Target square coordinates
+ * @param attackingColor - Color of attacking pieces
+ * @returns Coordinates of every attacking piece
+ */
+export function getSquareAttackers(
+  board: Board,
+  square: Coordinates,
+  attackingColor: Color
+): Coordinates[] {
+  const { row, col } = square;
+  const attackers: Coordinates[] = [];
+
+  // Pieces that attack from a single step away
+  const steps: Array<[PieceType, readonly (readonly [number, number])[]]> = [
+    [
+      'pawn',
+      attackingColor === 'white'
+        ? [
+            [-1, -1],
+            [-1, 1],
+          ]
+        : [
+            [1, -1],
+            [1, 1],
+          ],
+    ],
+    ['knight', DIRECTIONS.KNIGHT],
+    ['king', DIRECTIONS.ALL],
+  ];
+  for (const [type, offsets] of steps) {
+    for (const [dRow, dCol] of offsets) {
+      const piece = board.getPieceAt(row + dRow, col + dCol);
+      if (piece?.type === type && piece.color === attackingColor) {
+        attackers.push({ row: row + dRow, col: col + dCol });
+      }
+    }
+  }
+
+  // Sliding pieces, up to the first piece in each direction
+  const slides: Array<[readonly (readonly [number, number])[], PieceType]> = [
+    [DIRECTIONS.DIAGONAL, 'bishop'],
+    [DIRECTIONS.ORTHOGONAL, 'rook'],
+  ];
+  for (const [directions, type] of slides) {
+    for (const [dRow, dCol] of directions) {
+      let currentRow = row + dRow;
+      let currentCol = col + dCol;
+
+      while (board.isValidCoords(currentRow, currentCol)) {
+        const piece = board.getPieceAt(currentRow, currentCol);
+        if (piece) {
+          if (piece.color === attackingColor && (piece.type === type || piece.type === 'queen')) {
+            attackers.push({ row: currentRow, col: currentCol });
+          }
+          break;
+        }
+        currentRow += dRow;
+        currentCol += dCol;
+      }
+    }
+  }
+
+  return attackers;
+}
+
 /**
  * Check if the king of a specific color is in check
  *
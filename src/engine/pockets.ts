@@ -0,0 +1,68 @@
+/**
+ * Pieces in Hand
+ *
+ * Pockets of captured pieces for drop variants (Crazyhouse, Bughouse). A
+ * drop move places a piece from the pocket on an empty square; it is
+ * written "N@f3" and uses "@" as its from square.
+ *
+ * @module engine/pockets
+ */
+
+import type { Color, PieceType, Pocket, PocketPieceType, Pockets } from '@/types/index';
+
+/**
+ * From square of drop moves
+ */
+export const DROP_SQUARE = '@';
+
+/**
+ * Piece types that can be held in hand, most valuable first
+ */
+export const POCKET_PIECE_TYPES: readonly PocketPieceType[] = [
+  'queen',
+  'rook',
+  'bishop',
+  'knight',
+  'pawn',
+];
+
+/**
+ * Create a pair of empty pockets
+ *
+ * @returns Pockets holding no pieces
+ */
+export function createEmptyPockets(): Pockets {
+  const empty = (): Pocket => ({ queen: 0, rook: 0, bishop: 0, knight: 0, pawn: 0 });
+  return { white: empty(), black: empty() };
+}
+
+/**
+ * Copy pockets so they can be changed without affecting the original
+ *
+ * @param pockets - Pockets to copy
+ * @returns Independent copy
+ */
+export function clonePockets(pockets: Pockets): Pockets {
+  return { white: { ...pockets.white }, black: { ...pockets.black } };
+}
+
+/**
+ * Check if a piece type can be held in hand
+ *
+ * @param type - Piece type
+ * @returns True for every piece but the king
+ */
+export function isPocketPieceType(type: PieceType): type is PocketPieceType {
+  return type !== 'king';
+}
+
+/**
+ * Count the pieces in a color's pocket
+ *
+ * @param pockets - Pockets of both colors
+ * @param color - Pocket owner
+ * @returns Total number of pieces in hand
+ */
+export function countPocket(pockets: Pockets, color: Color): number {
+  return POCKET_PIECE_TYPES.reduce((total, type) => total + pockets[color][type], 0);
+}
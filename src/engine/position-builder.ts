@@ -0,0 +1,331 @@
+/**
+ * Position Builder
+ *
+ * Sets up a position piece by piece for board editors and analysis boards,
+ * checks that it can occur in a game and turns it into a Game. Pieces can
+ * be placed and removed freely; the rules are only enforced by validate()
+ * and toGame().
+ *
+ * @module engine/position-builder
+ */
+
+import type {
+  CastlingRights,
+  Color,
+  Fen,
+  FenIssue,
+  GameConfig,
+  Piece,
+  PieceType,
+  Square,
+} from '@/types/index';
+import { Board } from './board';
+import { FenParser } from './fen';
+import { Game } from './game';
+import { ChessError, IllegalPositionError, InvalidFenError } from '../utils/errors';
+
+/**
+ * Piece types by FEN letter
+ */
+const PIECE_LETTERS: Record<string, PieceType> = {
+  p: 'pawn',
+  n: 'knight',
+  b: 'bishop',
+  r: 'rook',
+  q: 'queen',
+  k: 'king',
+};
+
+/**
+ * Castling rights with nothing allowed
+ */
+const NO_CASTLING: CastlingRights = {
+  whiteKingside: false,
+  whiteQueenside: false,
+  blackKingside: false,
+  blackQueenside: false,
+};
+
+/**
+ * Builds a position and turns it into a Game
+ *
+ * @example
+ * const game = new PositionBuilder()
+ *   .put('e1', 'K')
+ *   .put('e8', 'k')
+ *   .put('a1', { type: 'rook', color: 'white' })
+ *   .setCastling('Q')
+ *   .toGame();
+ */
+export class PositionBuilder {
+  private board = new Board();
+  private turn: Color = 'white';
+  private castling = '-'; // FEN castling field, kept as text until the board is complete
+  private enPassant: Square | null = null;
+  private halfMoveClock = 0;
+  private fullMoveNumber = 1;
+
+  /**
+   * Create a builder with an empty board, or with the position of a FEN
+   *
+   * @param fen - Position to start from
+   * @throws InvalidFenError if the FEN cannot be read
+   */
+  constructor(fen?: Fen) {
+    if (fen !== undefined) {
+      this.load(fen);
+    }
+  }
+
+  /**
+   * Replace the position with the one of a FEN
+   *
+   * @param fen - Position to load
+   * @returns This builder
+   * @throws InvalidFenError if the FEN cannot be read
+   */
+  public load(fen: Fen): this {
+    const position = FenParser.parse(fen);
+    this.board = position.board;
+    this.turn = position.turn;
+    this.castling = fen.trim().split(/\s+/)[2] ?? '-';
+    this.enPassant = position.enPassantSquare;
+    this.halfMoveClock = position.halfMoveClock;
+    this.fullMoveNumber = position.fullMoveNumber;
+    return this;
+  }
+
+  /**
+   * Get the piece on a square
+   *
+   * @param square - Square to look at
+   * @returns Piece, or null if the square is empty
+   */
+  public getPiece(square: Square): Piece | null {
+    return this.board.getPiece(square);
+  }
+
+  /**
+   * Put a piece on a square, replacing what was there
+   *
+   * @param square - Square to put the piece on
+   * @param piece - Piece, or its FEN letter ("K" for a white king, "p" for a black pawn)
+   * @returns This builder
+   * @throws ChessError if the square or piece letter is invalid
+   */
+  public put(square: Square, piece: Piece | string): this {
+    this.checkSquare(square);
+    this.board.setPiece(square, typeof piece === 'string' ? this.pieceFromLetter(piece) : piece);
+    return this;
+  }
+
+  /**
+   * Remove the piece on a square
+   *
+   * @param square - Square to empty
+   * @returns This builder
+   * @throws ChessError if the square is invalid
+   */
+  public remove(square: Square): this {
+    this.checkSquare(square);
+    this.board.setPiece(square, null);
+    return this;
+  }
+
+  /**
+   * Remove every piece, castling right and en passant square
+   *
+   * @returns This builder
+   */
+  public clear(): this {
+    this.board.clear();
+    this.castling = '-';
+    this.enPassant = null;
+    return this;
+  }
+
+  /**
+   * Turn the board upside down, keeping the colors of the pieces
+   *
+   * Castling rights and the en passant square are dropped, as they no
+   * longer fit the board.
+   *
+   * @returns This builder
+   */
+  public flip(): this {
+    this.board = this.transform((piece) => piece);
+    this.castling = '-';
+    this.enPassant = null;
+    return this;
+  }
+
+  /**
+   * Swap the sides: turn the board upside down and swap the colors of the
+   * pieces, the side to move, the castling rights and the en passant square
+   *
+   * The result is the same position seen from the other side.
+   *
+   * @returns This builder
+   */
+  public mirror(): this {
+    this.board = this.transform((piece) => ({ ...piece, color: opposite(piece.color) }));
+    this.turn = opposite(this.turn);
+    this.castling = [...this.castling]
+      .map((char) => (char === char.toUpperCase() ? char.toLowerCase() : char.toUpperCase()))
+      .sort((a, b) => Number(a === a.toLowerCase()) - Number(b === b.toLowerCase()))
+      .join('');
+    if (this.enPassant) {
+      this.enPassant =
+        `${this.enPassant.charAt(0)}${this.enPassant.charAt(1) === '3' ? 6 : 3}` as Square;
+    }
+    return this;
+  }
+
+  /**
+   * Set the side to move
+   *
+   * @param color - Side to move
+   * @returns This builder
+   */
+  public setTurn(color: Color): this {
+    this.turn = color;
+    return this;
+  }
+
+  /**
+   * Set the castling rights
+   *
+   * @param castling - Castling rights in FEN ("KQkq", "-", or Chess960 rook files such as "HAha")
+   * @returns This builder
+   * @throws InvalidFenError if the castling rights cannot be read
+   */
+  public setCastling(castling: string): this {
+    if (!/^(-|[KQkqA-Ha-h]+)$/.test(castling)) {
+      throw new InvalidFenError(`Invalid castling rights '${castling}'`, {
+        field: 'castling',
+        value: castling,
+      });
+    }
+    this.castling = castling;
+    return this;
+  }
+
+  /**
+   * Set the en passant square
+   *
+   * @param square - Square behind a pawn that just moved two squares, or null
+   * @returns This builder
+   * @throws InvalidFenError if the square is not on the third or sixth rank
+   */
+  public setEnPassant(square: Square | null): this {
+    if (square !== null && !/^[a-h][36]$/.test(square)) {
+      throw new InvalidFenError(`Invalid en passant square '${square}'`, {
+        field: 'enPassant',
+        value: square,
+      });
+    }
+    this.enPassant = square;
+    return this;
+  }
+
+  /**
+   * Get the position as FEN
+   *
+   * @returns FEN string, which may describe an illegal position
+   */
+  public toFen(): Fen {
+    const fields = FenParser.generate(
+      this.board,
+      this.turn,
+      NO_CASTLING,
+      this.enPassant,
+      this.halfMoveClock,
+      this.fullMoveNumber
+    ).split(' ');
+    fields[2] = this.castling;
+    return fields.join(' ');
+  }
+
+  /**
+   * Check that the position can occur in a game
+   *
+   * Enforces one king per side, at most two pieces giving check and only
+   * in a way one move can, pawn and promoted piece counts that add up, and
+   * the other FenParser.diagnose() rules.
+   *
+   * @returns Problems found, empty if the position is legal
+   */
+  public validate(): FenIssue[] {
+    return FenParser.diagnose(this.toFen());
+  }
+
+  /**
+   * Start a game from the position
+   *
+   * @param config - Game options other than the starting position
+   * @returns New game
+   * @throws IllegalPositionError if the position cannot occur in a game
+   */
+  public toGame(config: Omit<GameConfig, 'fen'> = {}): Game {
+    const fen = this.toFen();
+    const issues = FenParser.diagnose(fen);
+    const [first] = issues;
+    if (first) {
+      throw new IllegalPositionError(`Illegal position: ${first.message}`, fen, issues);
+    }
+    return new Game({ ...config, fen });
+  }
+
+  /**
+   * Copy the board with the ranks reversed
+   *
+   * @param map - Changes each piece as it is copied
+   * @returns New board
+   */
+  private transform(map: (piece: Piece) => Piece): Board {
+    const board = new Board();
+    for (let row = 0; row < 8; row++) {
+      for (let col = 0; col < 8; col++) {
+        const piece = this.board.getPieceAt(row, col);
+        if (piece) {
+          board.setPieceAt(7 - row, col, map(piece));
+        }
+      }
+    }
+    return board;
+  }
+
+  /**
+   * Reject squares that are not on the board
+   *
+   * @param square - Square to check
+   * @throws ChessError if the square is invalid
+   */
+  private checkSquare(square: Square): void {
+    if (!this.board.isValidSquare(square)) {
+      throw new ChessError(`Invalid square '${square}'`, 'INVALID_SQUARE', { square });
+    }
+  }
+
+  /**
+   * Get the piece of a FEN letter
+   *
+   * @param letter - FEN piece letter
+   * @returns Piece
+   * @throws ChessError if the letter is not a piece
+   */
+  private pieceFromLetter(letter: string): Piece {
+    const type = PIECE_LETTERS[letter.toLowerCase()];
+    if (!type || letter.length !== 1) {
+      throw new ChessError(`Invalid piece letter '${letter}'`, 'INVALID_PIECE', { letter });
+    }
+    return { type, color: letter === letter.toUpperCase() ? 'white' : 'black' };
+  }
+}
+
+/**
+ * Get the other color
+ */
+function opposite(color: Color): Color {
+  return color === 'white' ? 'black' : 'white';
+}
@@ -0,0 +1,130 @@
+/**
+ * Antichess Variant
+ *
+ * The aim is to lose every piece. Captures are compulsory, the king is an
+ * ordinary piece that can be captured and promoted to, there is no check
+ * and no castling, and a player with no legal move wins.
+ *
+ * @module engine/variants/antichess
+ */
+
+import type {
+  Color,
+  Move,
+  MoveOptions,
+  MoveValidation,
+  PieceType,
+  Square,
+  CastlingRights,
+  GameVariant,
+  MoveGeneratorBackend,
+  VariantOutcome,
+} from '@/types/index';
+import type { Board } from '../board';
+import { MoveGenerator } from '../moves';
+import { Variant } from './variant';
+import type { VariantPosition } from './variant';
+
+/**
+ * Antichess move generator
+ *
+ * Ignores king safety and keeps only captures whenever a capture exists.
+ */
+export class AntichessMoveGenerator extends MoveGenerator {
+  /**
+   * Generate all legal moves for a color
+   *
+   * @param color - Color to generate moves for
+   * @returns Captures if any are available, otherwise all moves
+   */
+  public override generateLegalMoves(color: Color): Move[] {
+    const moves = this.board
+      .findPieces(color)
+      .flatMap(({ square }) => super.generateLegalMovesFrom(square, color));
+
+    const captures = moves.filter((move) => move.captured);
+    return captures.length > 0 ? captures : moves;
+  }
+
+  /**
+   * Generate legal moves from a specific square
+   *
+   * @param from - Starting square
+   * @param color - Color of the piece
+   * @returns Legal moves of the piece, taking compulsory captures into account
+   */
+  public override generateLegalMovesFrom(from: Square, color: Color): Move[] {
+    return this.generateLegalMoves(color).filter((move) => move.from === from);
+  }
+
+  /**
+   * There is no check in Antichess
+   *
+   * @returns Always false
+   */
+  public override isInCheck(): boolean {
+    return false;
+  }
+
+  protected override explainIllegalMove(
+    move: MoveOptions,
+    color: Color,
+    legalMoves: Move[]
+  ): MoveValidation {
+    const validation = super.explainIllegalMove(move, color, legalMoves);
+    const reachable = this.generatePseudoLegalMovesFrom(move.from, color).some(
+      (m) => m.to === move.to
+    );
+    return validation.code === 'unreachable' && reachable
+      ? { valid: false, code: 'capture_required', error: 'A capture is compulsory' }
+      : validation;
+  }
+
+  protected override isKingSafeAfter(): boolean {
+    return true;
+  }
+
+  protected override getPromotionPieces(): PieceType[] {
+    return [...super.getPromotionPieces(), 'king'];
+  }
+
+  protected override getCastlingMoves(): Move[] {
+    return [];
+  }
+}
+
+/**
+ * Antichess rules
+ */
+export class AntichessVariant extends Variant {
+  public override readonly key: GameVariant = 'antichess';
+  public override readonly name: string = 'Antichess';
+  public override readonly startingFen: string =
+    'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w - - 0 1';
+  public override readonly drawsByInsufficientMaterial: boolean = false;
+
+  /**
+   * Always uses the array backend
+   */
+  public override createMoveGenerator(
+    board: Board,
+    castlingRights: CastlingRights,
+    enPassantSquare: Square | null,
+    _backend: MoveGeneratorBackend
+  ): MoveGenerator {
+    return new AntichessMoveGenerator(board, castlingRights, enPassantSquare, this.key);
+  }
+
+  /**
+   * A player who cannot move (including one with no pieces left) wins
+   *
+   * @param position - Current position
+   * @returns The outcome, or null if the side to move has a legal move
+   */
+  public override getOutcome(position: VariantPosition): VariantOutcome | null {
+    if (position.moveGenerator.generateLegalMoves(position.turn).length === 0) {
+      return { winner: position.turn, reason: 'no_legal_moves' };
+    }
+    return null;
+  }
+}
@@ -0,0 +1,170 @@
+/**
+ * Atomic Variant
+ *
+ * Every capture causes an explosion that removes the capturing piece, the
+ * captured piece and all pieces other than pawns on the surrounding
+ * squares. Kings cannot capture, a king next to the enemy king cannot be
+ * in check, and blowing up the enemy king wins the game.
+ *
+ * @module engine/variants/atomic
+ */
+
+import type {
+  Color,
+  Move,
+  PiecePlacement,
+  Square,
+  CastlingRights,
+  GameVariant,
+  MoveGeneratorBackend,
+  VariantOutcome,
+} from '@/types/index';
+import type { Board } from '../board';
+import { MoveGenerator } from '../moves';
+import { isKingInCheck } from '../pieces';
+import { Variant, opponentOf } from './variant';
+import type { VariantPosition } from './variant';
+
+/**
+ * Check if two squares touch
+ */
+function isAdjacent(board: Board, a: Square, b: Square): boolean {
+  const first = board.squareToCoords(a);
+  const second = board.squareToCoords(b);
+  if (!first || !second) return false;
+  return Math.max(Math.abs(first.row - second.row), Math.abs(first.col - second.col)) === 1;
+}
+
+/**
+ * Check if a king is in check under Atomic rules
+ *
+ * A king touching the enemy king cannot be captured, since capturing it
+ * would blow up the capturing side's own king too.
+ */
+function isInAtomicCheck(board: Board, color: Color): boolean {
+  const king = board.findKing(color);
+  const enemyKing = board.findKing(opponentOf(color));
+  if (!king || !enemyKing || isAdjacent(board, king, enemyKing)) {
+    return false;
+  }
+  return isKingInCheck(board, color);
+}
+
+/**
+ * Atomic move generator
+ *
+ * Annotates captures with the pieces their explosion destroys and judges
+ * king safety on the board after the explosion.
+ */
+export class AtomicMoveGenerator extends MoveGenerator {
+  /**
+   * Check if the current player is in check
+   *
+   * @param color - Color to check
+   * @returns True if the king is attacked and not next to the enemy king
+   */
+  public override isInCheck(color: Color): boolean {
+    return isInAtomicCheck(this.board, color);
+  }
+
+  protected override generatePseudoLegalMovesFrom(from: Square, color: Color): Move[] {
+    return (
+      super
+        .generatePseudoLegalMovesFrom(from, color)
+        // Kings cannot capture
+        .filter((move) => !(move.piece.type === 'king' && move.captured))
+        .map((move) => (move.captured && !move.explosion ? this.withExplosion(move) : move))
+    );
+  }
+
+  protected override getPseudoLegalEnPassantMove(from: Square, color: Color): Move | null {
+    const move = super.getPseudoLegalEnPassantMove(from, color);
+    return move ? this.withExplosion(move) : null;
+  }
+
+  /**
+   * Check the mover's king after the move and any explosion
+   *
+   * Exploding the enemy king is legal even if it leaves the mover in check.
+   */
+  protected override isKingSafeAfter(move: Move, color: Color): boolean {
+    const after = this.board.clone();
+
+    if (move.explosion) {
+      const capturedSquare = move.enPassant
+        ? `${move.to.charAt(0)}${move.from.charAt(1)}`
+        : move.to;
+      after.setPiece(move.from, null);
+      after.setPiece(capturedSquare, null);
+      for (const { square } of move.explosion) {
+        after.setPiece(square, null);
+      }
+    } else {
+      after.movePiece(move.from, move.to);
+    }
+
+    if (!after.findKing(color)) return false;
+    if (!after.findKing(opponentOf(color))) return true;
+    return !isInAtomicCheck(after, color);
+  }
+
+  /**
+   * Add the pieces destroyed by a capture's explosion to the move
+   *
+   * @param move - Capturing move
+   * @returns The move with its explosion
+   */
+  private withExplosion(move: Move): Move {
+    const center = this.board.squareToCoords(move.to);
+    const explosion: PiecePlacement[] = [];
+
+    if (center) {
+      for (let row = center.row - 1; row <= center.row + 1; row++) {
+        for (let col = center.col - 1; col <= center.col + 1; col++) {
+          const square = this.board.coordsToSquare(row, col);
+          const piece = this.board.getPieceAt(row, col);
+          if (!square || !piece || piece.type === 'pawn') continue;
+          if (square === move.to || square === move.from) continue;
+          explosion.push({ square, piece });
+        }
+      }
+    }
+
+    return { ...move, explosion };
+  }
+}
+
+/**
+ * Atomic rules
+ */
+export class AtomicVariant extends Variant {
+  public override readonly key: GameVariant = 'atomic';
+  public override readonly name: string = 'Atomic';
+
+  /**
+   * Always uses the array backend
+   */
+  public override createMoveGenerator(
+    board: Board,
+    castlingRights: CastlingRights,
+    enPassantSquare: Square | null,
+    _backend: MoveGeneratorBackend
+  ): MoveGenerator {
+    return new AtomicMoveGenerator(board, castlingRights, enPassantSquare, this.key);
+  }
+
+  /**
+   * A player whose king has exploded loses
+   *
+   * @param position - Current position
+   * @returns The outcome, or null if both kings are on the board
+   */
+  public override getOutcome(position: VariantPosition): VariantOutcome | null {
+    for (const color of ['white', 'black'] as Color[]) {
+      if (!position.board.findKing(color)) {
+        return { winner: opponentOf(color), reason: 'king_exploded' };
+      }
+    }
+    return null;
+  }
+}
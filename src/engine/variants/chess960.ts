@@ -0,0 +1,31 @@
+/**
+ * Chess960 Variant
+ *
+ * Standard rules from one of 960 starting positions, with castling
+ * encoded as the king capturing its own rook.
+ *
+ * @module engine/variants/chess960
+ */
+
+import type { Fen, GameConfig, GameVariant } from '@/types/index';
+import { Variant } from './variant';
+import { getChess960Fen, randomChess960Index } from '../chess960';
+
+/**
+ * Chess960 (Fischer Random) rules
+ */
+export class Chess960Variant extends Variant {
+  public override readonly key: GameVariant = 'chess960';
+  public override readonly name: string = 'Chess960';
+  public override readonly aliases: readonly string[] = ['Fischerandom', 'Fischer Random'];
+
+  /**
+   * Get the position a new game starts from
+   *
+   * @param config - Game configuration (chess960Position picks the setup)
+   * @returns Starting FEN, random when no position index is configured
+   */
+  public override getStartingFen(config?: GameConfig): Fen {
+    return getChess960Fen(config?.chess960Position ?? randomChess960Index());
+  }
+}
@@ -0,0 +1,212 @@
+/**
+ * Crazyhouse and Bughouse Variants
+ *
+ * Captured pieces go into a pocket and can later be dropped on any empty
+ * square instead of making a move ("N@f3"). Pawns cannot be dropped on the
+ * first or eighth rank, and a promoted piece turns back into a pawn when it
+ * is captured. In Bughouse the pieces come from the partner's game, so
+ * captures do not fill the capturer's own pocket.
+ *
+ * @module engine/variants/crazyhouse
+ */
+
+import type {
+  Color,
+  Move,
+  MoveOptions,
+  Pockets,
+  Square,
+  CastlingRights,
+  GameVariant,
+  MoveGeneratorBackend,
+} from '@/types/index';
+import type { Board } from '../board';
+import { MoveGenerator } from '../moves';
+import type { MoveResolution } from '../moves';
+import { isKingInCheck } from '../pieces';
+import { DROP_SQUARE, POCKET_PIECE_TYPES, createEmptyPockets } from '../pockets';
+import { Variant } from './variant';
+
+/**
+ * Crazyhouse move generator
+ *
+ * Adds drops of the pieces in hand to the regular moves.
+ */
+export class CrazyhouseMoveGenerator extends MoveGenerator {
+  protected pockets: Pockets;
+
+  /**
+   * Create a new Crazyhouse move generator
+   *
+   * @param board - The chess board
+   * @param castlingRights - Castling rights for both colors
+   * @param enPassantSquare - Current en passant target square
+   * @param variant - Chess variant
+   * @param pockets - Pieces in hand of both colors
+   */
+  constructor(
+    board: Board,
+    castlingRights: CastlingRights,
+    enPassantSquare: Square | null,
+    variant: GameVariant,
+    pockets: Pockets
+  ) {
+    super(board, castlingRights, enPassantSquare, variant);
+    this.pockets = pockets;
+  }
+
+  /**
+   * Update the castling rights, en passant square and pieces in hand
+   *
+   * @param castlingRights - Castling rights for both colors
+   * @param enPassantSquare - Current en passant target square
+   * @param pockets - Pieces in hand of both colors
+   */
+  public override setPosition(
+    castlingRights: CastlingRights,
+    enPassantSquare: Square | null,
+    pockets?: Pockets
+  ): void {
+    super.setPosition(castlingRights, enPassantSquare);
+    this.pockets = pockets ?? createEmptyPockets();
+  }
+
+  /**
+   * Generate all legal moves for a color
+   *
+   * @param color - Color to generate moves for
+   * @returns Board moves followed by drops
+   */
+  public override generateLegalMoves(color: Color): Move[] {
+    return [...super.generateLegalMoves(color), ...this.generateDrops(color)];
+  }
+
+  /**
+   * Generate legal moves from a specific square
+   *
+   * @param from - Starting square, or "@" for drops
+   * @param color - Color of the piece
+   * @returns Array of legal moves
+   */
+  public override generateLegalMovesFrom(from: Square, color: Color): Move[] {
+    if (from === DROP_SQUARE) {
+      return this.generateDrops(color);
+    }
+    return super.generateLegalMovesFrom(from, color);
+  }
+
+  /**
+   * Validate a move or drop and find the legal move it describes
+   *
+   * @param move - Move options to validate
+   * @param color - Color making the move
+   * @returns The legal move or drop, or why it is not valid
+   */
+  public override resolveMove(move: MoveOptions, color: Color): MoveResolution {
+    if (move.from !== DROP_SQUARE) {
+      return super.resolveMove(move, color);
+    }
+
+    if (!move.drop) {
+      return { valid: false, code: 'invalid_drop', error: 'Drop piece required' };
+    }
+    if (this.pockets[color][move.drop] === 0) {
+      return { valid: false, code: 'no_piece', error: 'Piece not in hand' };
+    }
+
+    const legal = this.generateDrops(color).find(
+      (drop) => drop.to === move.to && drop.drop === move.drop
+    );
+    return legal
+      ? { valid: true, move: legal }
+      : { valid: false, code: 'invalid_drop', error: 'Illegal drop' };
+  }
+
+  protected override isKingSafeAfter(move: Move, color: Color): boolean {
+    if (!move.drop) {
+      return super.isKingSafeAfter(move, color);
+    }
+
+    const clonedBoard = this.board.clone();
+    clonedBoard.setPiece(move.to, move.piece);
+    return !isKingInCheck(clonedBoard, color);
+  }
+
+  /**
+   * Generate the legal drops of a color
+   *
+   * @param color - Color to generate drops for
+   * @returns Drops of every piece in hand on every allowed empty square
+   */
+  private generateDrops(color: Color): Move[] {
+    const drops: Move[] = [];
+
+    // Outside check a drop can never expose the king
+    const inCheck = this.isInCheck(color);
+
+    for (const type of POCKET_PIECE_TYPES) {
+      if (this.pockets[color][type] === 0) continue;
+
+      for (let row = 0; row < 8; row++) {
+        // Pawns cannot be dropped on the first or eighth rank
+        if (type === 'pawn' && (row === 0 || row === 7)) continue;
+
+        for (let col = 0; col < 8; col++) {
+          const to = this.board.coordsToSquare(row, col);
+          if (!to || this.board.getPieceAt(row, col)) continue;
+
+          const drop: Move = { from: DROP_SQUARE, to, piece: { type, color }, drop: type };
+          if (!inCheck || this.isKingSafeAfter(drop, color)) {
+            drops.push(drop);
+          }
+        }
+      }
+    }
+
+    return drops;
+  }
+}
+
+/**
+ * Crazyhouse rules
+ */
+export class CrazyhouseVariant extends Variant {
+  public override readonly key: GameVariant = 'crazyhouse';
+  public override readonly name: string = 'Crazyhouse';
+  public override readonly startingFen: string =
+    'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR[] w KQkq - 0 1';
+  public override readonly drawsByInsufficientMaterial: boolean = false;
+  public override readonly usesPockets: boolean = true;
+  public override readonly pocketsCaptures: boolean = true;
+
+  /**
+   * Always uses the array backend
+   */
+  public override createMoveGenerator(
+    board: Board,
+    castlingRights: CastlingRights,
+    enPassantSquare: Square | null,
+    _backend: MoveGeneratorBackend,
+    pockets?: Pockets
+  ): MoveGenerator {
+    return new CrazyhouseMoveGenerator(
+      board,
+      castlingRights,
+      enPassantSquare,
+      this.key,
+      pockets ?? createEmptyPockets()
+    );
+  }
+}
+
+/**
+ * Bughouse rules for one of the two boards
+ *
+ * Pieces captured here belong to the partner; pieces captured by the
+ * partner are handed over with Game.addToPocket().
+ */
+export class BughouseVariant extends CrazyhouseVariant {
+  public override readonly key: GameVariant = 'bughouse';
+  public override readonly name: string = 'Bughouse';
+  public override readonly pocketsCaptures: boolean = false;
+}
@@ -0,0 +1,82 @@
+/**
+ * Horde Variant
+ *
+ * White plays 36 pawns and no king against a standard black army. White
+ * wins by checkmating, black by capturing every white piece. White pawns
+ * on the first rank may advance two squares.
+ *
+ * @module engine/variants/horde
+ */
+
+import type {
+  Color,
+  Move,
+  Square,
+  CastlingRights,
+  GameVariant,
+  MoveGeneratorBackend,
+  VariantOutcome,
+} from '@/types/index';
+import type { Board } from '../board';
+import { MoveGenerator } from '../moves';
+import { Variant } from './variant';
+import type { VariantPosition } from './variant';
+
+/**
+ * Horde move generator
+ *
+ * Adds the double step of white pawns from the first rank.
+ */
+export class HordeMoveGenerator extends MoveGenerator {
+  protected override generatePseudoLegalMovesFrom(from: Square, color: Color): Move[] {
+    const moves = super.generatePseudoLegalMovesFrom(from, color);
+
+    const piece = this.board.getPiece(from);
+    const coords = this.board.squareToCoords(from);
+    if (piece?.type === 'pawn' && color === 'white' && coords?.row === 0) {
+      const to = this.board.coordsToSquare(2, coords.col);
+      const blocked = this.board.getPieceAt(1, coords.col) ?? this.board.getPieceAt(2, coords.col);
+      if (to && !blocked) {
+        moves.push({ from, to, piece });
+      }
+    }
+
+    return moves;
+  }
+}
+
+/**
+ * Horde rules
+ */
+export class HordeVariant extends Variant {
+  public override readonly key: GameVariant = 'horde';
+  public override readonly name: string = 'Horde';
+  public override readonly startingFen: string =
+    'rnbqkbnr/pppppppp/8/1PP2PP1/PPPPPPPP/PPPPPPPP/PPPPPPPP/PPPPPPPP w kq - 0 1';
+  public override readonly drawsByInsufficientMaterial: boolean = false;
+
+  /**
+   * Always uses the array backend
+   */
+  public override createMoveGenerator(
+    board: Board,
+    castlingRights: CastlingRights,
+    enPassantSquare: Square | null,
+    _backend: MoveGeneratorBackend
+  ): MoveGenerator {
+    return new HordeMoveGenerator(board, castlingRights, enPassantSquare, this.key);
+  }
+
+  /**
+   * Black wins once the horde is destroyed
+   *
+   * @param position - Current position
+   * @returns The outcome, or null while white has pieces left
+   */
+  public override getOutcome(position: VariantPosition): VariantOutcome | null {
+    if (position.board.findPieces('white').length === 0) {
+      return { winner: 'black', reason: 'horde_destroyed' };
+    }
+    return null;
+  }
+}
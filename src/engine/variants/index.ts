@@ -0,0 +1,79 @@
+/**
+ * Chess Variants
+ *
+ * Registry of the built-in variants, looked up by GameConfig key or by
+ * PGN Variant tag.
+ *
+ * @module engine/variants
+ */
+
+import type { GameVariant } from '@/types/index';
+import { Variant } from './variant';
+import { Chess960Variant } from './chess960';
+import { KingOfTheHillVariant } from './king-of-the-hill';
+import { ThreeCheckVariant } from './three-check';
+import { AntichessVariant } from './antichess';
+import { AtomicVariant } from './atomic';
+import { HordeVariant } from './horde';
+import { RacingKingsVariant } from './racing-kings';
+import { CrazyhouseVariant, BughouseVariant } from './crazyhouse';
+
+export { Variant, opponentOf } from './variant';
+export type { VariantPosition } from './variant';
+export { Chess960Variant } from './chess960';
+export { KingOfTheHillVariant } from './king-of-the-hill';
+export { ThreeCheckVariant } from './three-check';
+export { AntichessVariant, AntichessMoveGenerator } from './antichess';
+export { AtomicVariant, AtomicMoveGenerator } from './atomic';
+export { HordeVariant, HordeMoveGenerator } from './horde';
+export { RacingKingsVariant, RacingKingsMoveGenerator } from './racing-kings';
+export { CrazyhouseVariant, BughouseVariant, CrazyhouseMoveGenerator } from './crazyhouse';
+
+/**
+ * Built-in variants by key
+ */
+const VARIANTS: Record<GameVariant, Variant> = {
+  standard: new Variant(),
+  chess960: new Chess960Variant(),
+  kingOfTheHill: new KingOfTheHillVariant(),
+  threeCheck: new ThreeCheckVariant(),
+  antichess: new AntichessVariant(),
+  atomic: new AtomicVariant(),
+  horde: new HordeVariant(),
+  racingKings: new RacingKingsVariant(),
+  crazyhouse: new CrazyhouseVariant(),
+  bughouse: new BughouseVariant(),
+};
+
+/**
+ * Get the rules of a variant
+ *
+ * @param key - Variant key
+ * @returns Variant rules
+ */
+export function getVariantByKey(key: GameVariant): Variant {
+  return VARIANTS[key];
+}
+
+/**
+ * Find a variant by its PGN Variant tag
+ *
+ * Matching ignores case, spaces and hyphens, so "Three-check" and
+ * "threecheck" are the same variant.
+ *
+ * @param name - Variant name (e.g. "King of the Hill")
+ * @returns Variant rules, or null if the name is unknown
+ */
+export function findVariantByName(name: string): Variant | null {
+  const normalize = (value: string): string => value.toLowerCase().replace(/[\s-]/g, '');
+  const wanted = normalize(name);
+
+  for (const variant of Object.values(VARIANTS)) {
+    const names = [variant.name, variant.key, ...variant.aliases];
+    if (names.some((candidate) => normalize(candidate) === wanted)) {
+      return variant;
+    }
+  }
+
+  return null;
+}
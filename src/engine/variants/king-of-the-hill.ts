@@ -0,0 +1,43 @@
+/**
+ * King of the Hill Variant
+ *
+ * Standard rules, but a player also wins by bringing their king to one of
+ * the four centre squares.
+ *
+ * @module engine/variants/king-of-the-hill
+ */
+
+import type { Color, GameVariant, Square, VariantOutcome } from '@/types/index';
+import { Variant } from './variant';
+import type { VariantPosition } from './variant';
+
+/**
+ * Centre squares the kings race to
+ */
+const HILL: readonly Square[] = ['d4', 'e4', 'd5', 'e5'];
+
+/**
+ * King of the Hill rules
+ */
+export class KingOfTheHillVariant extends Variant {
+  public override readonly key: GameVariant = 'kingOfTheHill';
+  public override readonly name: string = 'King of the Hill';
+  public override readonly aliases: readonly string[] = ['KOTH'];
+  public override readonly drawsByInsufficientMaterial: boolean = false;
+
+  /**
+   * A king on a centre square wins
+   *
+   * @param position - Current position
+   * @returns The outcome, or null if neither king has reached the centre
+   */
+  public override getOutcome(position: VariantPosition): VariantOutcome | null {
+    for (const color of ['white', 'black'] as Color[]) {
+      const king = position.board.findKing(color);
+      if (king && HILL.includes(king)) {
+        return { winner: color, reason: 'king_in_center' };
+      }
+    }
+    return null;
+  }
+}
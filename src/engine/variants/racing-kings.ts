@@ -0,0 +1,91 @@
+/**
+ * Racing Kings Variant
+ *
+ * Both kings race to the eighth rank. Giving check is not allowed, and if
+ * black reaches the eighth rank on the move right after white did, the
+ * game is drawn.
+ *
+ * @module engine/variants/racing-kings
+ */
+
+import type {
+  Color,
+  Move,
+  Square,
+  CastlingRights,
+  GameVariant,
+  MoveGeneratorBackend,
+  VariantOutcome,
+} from '@/types/index';
+import type { Board } from '../board';
+import { MoveGenerator } from '../moves';
+import { isKingInCheck } from '../pieces';
+import { Variant, opponentOf } from './variant';
+import type { VariantPosition } from './variant';
+
+/**
+ * Racing Kings move generator
+ *
+ * Rejects moves that give check as well as moves that leave the king in check.
+ */
+export class RacingKingsMoveGenerator extends MoveGenerator {
+  protected override isKingSafeAfter(move: Move, color: Color): boolean {
+    const after = this.board.clone();
+    after.movePiece(move.from, move.to);
+    return !isKingInCheck(after, color) && !isKingInCheck(after, opponentOf(color));
+  }
+}
+
+/**
+ * Racing Kings rules
+ */
+export class RacingKingsVariant extends Variant {
+  public override readonly key: GameVariant = 'racingKings';
+  public override readonly name: string = 'Racing Kings';
+  public override readonly startingFen: string = '8/8/8/8/8/8/krbnNBRK/qrbnNBRQ w - - 0 1';
+  public override readonly drawsByInsufficientMaterial: boolean = false;
+
+  /**
+   * Always uses the array backend
+   */
+  public override createMoveGenerator(
+    board: Board,
+    castlingRights: CastlingRights,
+    enPassantSquare: Square | null,
+    _backend: MoveGeneratorBackend
+  ): MoveGenerator {
+    return new RacingKingsMoveGenerator(board, castlingRights, enPassantSquare, this.key);
+  }
+
+  /**
+   * The first king on the eighth rank wins, unless black can follow at once
+   *
+   * @param position - Current position
+   * @returns The outcome, or null if the race is still on
+   */
+  public override getOutcome(position: VariantPosition): VariantOutcome | null {
+    const whiteHome = position.board.findKing('white')?.charAt(1) === '8';
+    const blackHome = position.board.findKing('black')?.charAt(1) === '8';
+
+    if (whiteHome && blackHome) {
+      return { winner: null, reason: 'kings_reached_goal' };
+    }
+    if (blackHome) {
+      return { winner: 'black', reason: 'king_reached_goal' };
+    }
+    if (!whiteHome) {
+      return null;
+    }
+
+    // Black gets one more move to draw by reaching the goal too
+    if (position.turn === 'black') {
+      const canFollow = position.moveGenerator
+        .generateLegalMoves('black')
+        .some((move) => move.piece.type === 'king' && move.to.charAt(1) === '8');
+      if (canFollow) {
+        return null;
+      }
+    }
+    return { winner: 'white', reason: 'king_reached_goal' };
+  }
+}
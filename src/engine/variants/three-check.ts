@@ -0,0 +1,38 @@
+/**
+ * Three-check Variant
+ *
+ * Standard rules, but a player also wins by giving check three times.
+ *
+ * @module engine/variants/three-check
+ */
+
+import type { Color, GameVariant, VariantOutcome } from '@/types/index';
+import { Variant } from './variant';
+import type { VariantPosition } from './variant';
+import { THREE_CHECK_LIMIT } from '../fen';
+
+/**
+ * Three-check rules
+ */
+export class ThreeCheckVariant extends Variant {
+  public override readonly key: GameVariant = 'threeCheck';
+  public override readonly name: string = 'Three-check';
+  public override readonly aliases: readonly string[] = ['3-check'];
+  public override readonly drawsByInsufficientMaterial: boolean = false;
+  public override readonly countsChecks: boolean = true;
+
+  /**
+   * The third check wins
+   *
+   * @param position - Current position
+   * @returns The outcome, or null if neither side has given three checks
+   */
+  public override getOutcome(position: VariantPosition): VariantOutcome | null {
+    for (const color of ['white', 'black'] as Color[]) {
+      if (position.checksGiven[color] >= THREE_CHECK_LIMIT) {
+        return { winner: color, reason: 'three_checks' };
+      }
+    }
+    return null;
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * Chess Variant Rules
+ *
+ * Base class for chess variants. A variant decides the starting position,
+ * how legal moves are generated and how a game can end besides checkmate,
+ * stalemate and the standard draw rules. The base class plays standard
+ * chess; each variant overrides only the rules it changes.
+ *
+ * @module engine/variants/variant
+ */
+
+import type {
+  Color,
+  Square,
+  CastlingRights,
+  CheckCounts,
+  Fen,
+  GameConfig,
+  GameVariant,
+  MoveGeneratorBackend,
+  Pockets,
+  VariantOutcome,
+} from '@/types/index';
+import type { Board } from '../board';
+import { MoveGenerator } from '../moves';
+import { BitboardMoveGenerator } from '../bitboard';
+import { FenParser } from '../fen';
+
+/**
+ * Position handed to a variant to decide whether the game is over
+ */
+export interface VariantPosition {
+  board: Board;
+  turn: Color;
+  checksGiven: CheckCounts;
+  moveGenerator: MoveGenerator;
+}
+
+/**
+ * Variant class
+ *
+ * Standard chess rules, extended by each variant.
+ */
+export class Variant {
+  /**
+   * Key used in GameConfig.variant
+   */
+  public readonly key: GameVariant = 'standard';
+
+  /**
+   * Name used in the PGN Variant tag
+   */
+  public readonly name: string = 'Standard';
+
+  /**
+   * Other names accepted in the PGN Variant tag
+   */
+  public readonly aliases: readonly string[] = [];
+
+  /**
+   * Starting position
+   */
+  public readonly startingFen: Fen = FenParser.STARTING_POSITION;
+
+  /**
+   * Whether positions without mating material are drawn
+   */
+  public readonly drawsByInsufficientMaterial: boolean = true;
+
+  /**
+   * Whether the game keeps count of the checks given by each side
+   */
+  public readonly countsChecks: boolean = false;
+
+  /**
+   * Whether players hold pieces in hand that they can drop on the board
+   */
+  public readonly usesPockets: boolean = false;
+
+  /**
+   * Whether captured pieces go into the capturer's pocket
+   */
+  public readonly pocketsCaptures: boolean = false;
+
+  /**
+   * Get the position a new game starts from
+   *
+   * @param _config - Game configuration
+   * @returns Starting FEN
+   */
+  public getStartingFen(_config?: GameConfig): Fen {
+    return this.startingFen;
+  }
+
+  /**
+   * Create the move generator for a position
+   *
+   * @param board - The chess board
+   * @param castlingRights - Castling rights for both colors
+   * @param enPassantSquare - Current en passant target square
+   * @param backend - Requested move generation backend
+   * @param _pockets - Pieces in hand, for variants with drops
+   * @returns Move generator applying this variant's rules
+   */
+  public createMoveGenerator(
+    board: Board,
+    castlingRights: CastlingRights,
+    enPassantSquare: Square | null,
+    backend: MoveGeneratorBackend,
+    _pockets?: Pockets
+  ): MoveGenerator {
+    if (backend === 'bitboard') {
+      return new BitboardMoveGenerator(board, castlingRights, enPassantSquare, this.key);
+    }
+    return new MoveGenerator(board, castlingRights, enPassantSquare, this.key);
+  }
+
+  /**
+   * Check whether a variant rule has ended the game
+   *
+   * Called before checkmate and stalemate are considered.
+   *
+   * @param _position - Current position
+   * @returns The outcome, or null if no variant rule applies
+   */
+  public getOutcome(_position: VariantPosition): VariantOutcome | null {
+    return null;
+  }
+}
+
+/**
+ * Get the opposing color
+ *
+ * @param color - A color
+ * @returns The other color
+ */
+export function opponentOf(color: Color): Color {
+  return color === 'white' ? 'black' : 'white';
+}
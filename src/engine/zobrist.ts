@@ -0,0 +1,211 @@
+/**
+ * Zobrist Hashing
+ *
+ * 64-bit Zobrist keys for chess positions. A position hash is the XOR of one
+ * key per piece on its square, one key per castling right, a key for the en
+ * passant file and a key for black to move. Because XOR is its own inverse,
+ * hashes can be updated incrementally as pieces move.
+ *
+ * Following FIDE repetition rules, the en passant file only contributes to
+ * the hash when an en passant capture is actually legal for the side to move.
+ *
+ * @module engine/zobrist
+ */
+
+import type { Piece, PieceType, Color, Square, CastlingRights, Pockets, Fen } from '@/types/index';
+import type { Board } from './board';
+import { MoveGenerator } from './moves';
+import { FenParser } from './fen';
+import { POCKET_PIECE_TYPES } from './pockets';
+
+/**
+ * Mask used to keep generated keys within 64 bits
+ */
+const MASK_64 = (1n << 64n) - 1n;
+
+/**
+ * Piece type offsets into the piece key table
+ */
+const PIECE_INDEX: Record<PieceType, number> = {
+  pawn: 0,
+  knight: 1,
+  bishop: 2,
+  rook: 3,
+  queen: 4,
+  king: 5,
+};
+
+/**
+ * Create a deterministic SplitMix64 key generator
+ *
+ * Keys must be identical across runs so that hashes can be persisted
+ * (e.g. in opening books or transposition tables).
+ *
+ * @param seed - Initial generator state
+ * @returns Function returning the next 64-bit key
+ */
+function createKeyGenerator(seed: bigint): () => bigint {
+  let state = seed;
+  return () => {
+    state = (state + 0x9e3779b97f4a7c15n) & MASK_64;
+    let z = state;
+    z = ((z ^ (z >> 30n)) * 0xbf58476d1ce4e5b9n) & MASK_64;
+    z = ((z ^ (z >> 27n)) * 0x94d049bb133111ebn) & MASK_64;
+    return z ^ (z >> 31n);
+  };
+}
+
+const nextKey = createKeyGenerator(0x2545f4914f6cdd1dn);
+
+// 12 piece kinds x 64 squares
+const PIECE_KEYS: bigint[] = Array.from({ length: 12 * 64 }, () => nextKey());
+
+// White kingside, white queenside, black kingside, black queenside
+const CASTLING_KEYS: bigint[] = Array.from({ length: 4 }, () => nextKey());
+
+// One key per en passant file (a-h)
+const EN_PASSANT_KEYS: bigint[] = Array.from({ length: 8 }, () => nextKey());
+
+/**
+ * Key XORed into the hash when black is to move
+ */
+export const SIDE_TO_MOVE_KEY: bigint = nextKey();
+
+// Checks given by white and by black (Three-check), one key per count 1-3
+const CHECK_KEYS: bigint[] = Array.from({ length: 2 * 3 }, () => nextKey());
+
+// Pieces in hand (Crazyhouse): 2 colors x 5 piece types x counts 1-16
+const MAX_POCKET_COUNT = 16;
+const POCKET_KEYS: bigint[] = Array.from({ length: 2 * 5 * MAX_POCKET_COUNT }, () => nextKey());
+
+/**
+ * Get the Zobrist key for a piece on a square
+ *
+ * @param piece - The piece
+ * @param row - Row index (0-7)
+ * @param col - Column index (0-7)
+ * @returns 64-bit key
+ */
+export function getPieceKey(piece: Piece, row: number, col: number): bigint {
+  const kind = PIECE_INDEX[piece.type] + (piece.color === 'white' ? 0 : 6);
+  return PIECE_KEYS[kind * 64 + row * 8 + col] ?? 0n;
+}
+
+/**
+ * Get the combined Zobrist key for a set of castling rights
+ *
+ * @param rights - Castling rights
+ * @returns XOR of the keys of all available rights
+ */
+export function getCastlingKey(rights: CastlingRights): bigint {
+  let key = 0n;
+  if (rights.whiteKingside) key ^= CASTLING_KEYS[0] ?? 0n;
+  if (rights.whiteQueenside) key ^= CASTLING_KEYS[1] ?? 0n;
+  if (rights.blackKingside) key ^= CASTLING_KEYS[2] ?? 0n;
+  if (rights.blackQueenside) key ^= CASTLING_KEYS[3] ?? 0n;
+  return key;
+}
+
+/**
+ * Get the Zobrist key for an en passant target square
+ *
+ * @param square - En passant square, or null when none applies
+ * @returns Key for the square's file, or 0 when null
+ */
+export function getEnPassantKey(square: Square | null): bigint {
+  if (!square) return 0n;
+  const file = square.charCodeAt(0) - 'a'.charCodeAt(0);
+  return EN_PASSANT_KEYS[file] ?? 0n;
+}
+
+/**
+ * Get the Zobrist key for the number of checks a side has given
+ *
+ * @param color - Side that gave the checks
+ * @param count - Number of checks given
+ * @returns Key for the count, or 0 when no checks were given
+ */
+export function getCheckCountKey(color: Color, count: number): bigint {
+  if (count <= 0) return 0n;
+  const index = (color === 'white' ? 0 : 3) + Math.min(count, 3) - 1;
+  return CHECK_KEYS[index] ?? 0n;
+}
+
+/**
+ * Get the combined Zobrist key for the pieces in hand
+ *
+ * @param pockets - Pieces in hand of both colors
+ * @returns XOR of one key per color, piece type and count; 0 when both are empty
+ */
+export function getPocketsKey(pockets: Pockets): bigint {
+  let key = 0n;
+  (['white', 'black'] as const).forEach((color, colorIndex) => {
+    POCKET_PIECE_TYPES.forEach((type, typeIndex) => {
+      const count = Math.min(pockets[color][type], MAX_POCKET_COUNT);
+      if (count > 0) {
+        const index = (colorIndex * 5 + typeIndex) * MAX_POCKET_COUNT + count - 1;
+        key ^= POCKET_KEYS[index] ?? 0n;
+      }
+    });
+  });
+  return key;
+}
+
+/**
+ * Compute the hash of a position from scratch
+ *
+ * @param board - The chess board
+ * @param turn - Side to move
+ * @param castlingRights - Castling rights
+ * @param enPassantSquare - En passant target square (ignored unless a capture is legal)
+ * @returns 64-bit Zobrist hash
+ */
+export function computeHash(
+  board: Board,
+  turn: Color,
+  castlingRights: CastlingRights,
+  enPassantSquare: Square | null
+): bigint {
+  let hash = 0n;
+
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const piece = board.getPieceAt(row, col);
+      if (piece) {
+        hash ^= getPieceKey(piece, row, col);
+      }
+    }
+  }
+
+  hash ^= getCastlingKey(castlingRights);
+
+  if (enPassantSquare) {
+    const generator = new MoveGenerator(board, castlingRights, enPassantSquare);
+    if (generator.hasEnPassantCapture(turn)) {
+      hash ^= getEnPassantKey(enPassantSquare);
+    }
+  }
+
+  if (turn === 'black') {
+    hash ^= SIDE_TO_MOVE_KEY;
+  }
+
+  return hash;
+}
+
+/**
+ * Compute the hash of a FEN position
+ *
+ * Move counters are optional, so four-field keys (as used by opening
+ * books) are accepted as well.
+ *
+ * @param fen - FEN string
+ * @returns 64-bit Zobrist hash
+ * @throws Error if FEN is invalid
+ */
+export function hashFen(fen: Fen): bigint {
+  const parts = fen.trim().split(/\s+/);
+  const fullFen = parts.length === 4 ? `${parts.join(' ')} 0 1` : fen;
+  const data = FenParser.parse(fullFen);
+  return computeHash(data.board, data.turn, data.castlingRights, data.enPassantSquare);
+}
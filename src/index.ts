@@ -18,7 +18,14 @@ export * from './utils/index';
 
 // Export API Server
 export { ApiServer } from './api-server';
-export type { ApiConfig, GameResponse, MoveRecord, ErrorResponse } from './api-server';
+export type {
+  ApiConfig,
+  GameResponse,
+  ClockState,
+  MoveRecord,
+  AttacksResponse,
+  ErrorResponse,
+} from './api-server';
 
 // Re-export commonly used types
 export type { Color, PieceType, Piece, Square, Position, Move, GameStatus } from './types/index';
@@ -53,21 +53,59 @@ export interface Move {
   piece: Piece;
   captured?: Piece;
   promotion?: PieceType;
-  castling?: 'kingside' | 'queenside';
+  castling?: CastlingSide;
   enPassant?: boolean;
+  explosion?: PiecePlacement[]; // Atomic: other pieces destroyed by a capture
+  drop?: PocketPieceType; // Crazyhouse: piece dropped from the pocket ("@" as from)
   san?: string; // Standard Algebraic Notation (e.g., "Nf3", "e4")
   check?: boolean;
   checkmate?: boolean;
+  clock?: number; // Time left on the mover's clock after the move, in milliseconds
 }
 
+/**
+ * A piece and the square it stands on
+ */
+export interface PiecePlacement {
+  square: Square;
+  piece: Piece;
+}
+
+/**
+ * Why a move was rejected
+ */
+export type MoveErrorCode =
+  | 'invalid_square' // Not a square on the board
+  | 'no_piece' // No piece on the starting square, or none in hand to drop
+  | 'wrong_color' // The piece belongs to the player not on move
+  | 'same_square' // Starting and destination squares are the same
+  | 'unreachable' // The piece cannot move to the destination
+  | 'king_in_check' // The move would leave the king in check
+  | 'promotion_required' // A pawn reaching the last rank needs a promotion piece
+  | 'invalid_promotion' // The promotion piece is not allowed
+  | 'capture_required' // Antichess: a capture is compulsory
+  | 'invalid_drop' // Crazyhouse: the drop is not allowed
+  | 'invalid_notation' // A move written as text could not be read
+  | 'ambiguous_move' // A move written as text matches several moves
+  | 'illegal_move' // A move written as text matches no legal move
+  | 'game_over'; // The game has already ended
+
 /**
  * Move validation result
  */
 export interface MoveValidation {
   valid: boolean;
   error?: string;
+  code?: MoveErrorCode; // Set when the move is not valid
 }
 
+/**
+ * Result of making a move: the move, or why it was rejected
+ */
+export type MoveResult =
+  | { valid: true; move: Move }
+  | { valid: false; code: MoveErrorCode; error: string; candidates?: string[] };
+
 /**
  * Game status
  */
@@ -78,8 +116,111 @@ export type GameStatus =
   | 'stalemate'
   | 'draw'
   | 'insufficient_material'
-  | 'threefold_repetition'
-  | 'fifty_move_rule';
+  | 'dead_position'
+  | 'threefold_repetition' // Claimed, see Game.claimDraw()
+  | 'fifty_move_rule' // Claimed, see Game.claimDraw()
+  | 'fivefold_repetition'
+  | 'seventy_five_move_rule'
+  | 'variant_win'
+  | 'variant_draw'
+  | 'resignation'
+  | 'agreement'
+  | 'timeout'
+  | 'abandonment'
+  | 'adjudication';
+
+/**
+ * Rules under which a player may claim a draw
+ */
+export type DrawClaimReason = 'threefold_repetition' | 'fifty_move_rule';
+
+/**
+ * Game result in PGN notation ('*' while the game is in progress)
+ */
+export type GameResultString = '1-0' | '0-1' | '1/2-1/2' | '*';
+
+/**
+ * How a game ended
+ */
+export type TerminationReason =
+  | 'checkmate'
+  | 'stalemate'
+  | 'draw_rule' // Insufficient material, dead position, repetition, move rules
+  | 'variant_rule'
+  | 'resignation'
+  | 'agreement'
+  | 'timeout'
+  | 'abandonment'
+  | 'adjudication';
+
+/**
+ * Formal result of a game
+ */
+export interface GameResult {
+  result: GameResultString;
+  winner: Color | null; // null for a draw or a game in progress
+  termination: TerminationReason | null; // null while the game is in progress
+}
+
+/**
+ * Events emitted by Game and their payloads
+ */
+export interface GameEventMap {
+  move: Move; // Any move made with move() or redo()
+  undo: Move; // A move taken back with undo()
+  check: { move: Move; color: Color }; // The move put `color` in check (or mate)
+  capture: Move & { captured: Piece };
+  castle: Move & { castling: CastlingSide };
+  promotion: Move & { promotion: PieceType };
+  gameOver: { status: GameStatus; result: GameResult };
+  positionLoaded: { fen: Fen }; // loadFen() or reset()
+}
+
+/**
+ * Variant-specific ways a game can end
+ */
+export type VariantEndReason =
+  | 'king_in_center'
+  | 'three_checks'
+  | 'no_legal_moves'
+  | 'king_exploded'
+  | 'horde_destroyed'
+  | 'king_reached_goal'
+  | 'kings_reached_goal';
+
+/**
+ * Result of a game ended by a variant rule
+ */
+export interface VariantOutcome {
+  winner: Color | null; // null for a draw
+  reason: VariantEndReason;
+}
+
+/**
+ * Number of checks each color has given (Three-check)
+ */
+export interface CheckCounts {
+  white: number;
+  black: number;
+}
+
+/**
+ * Piece types that can be held in hand and dropped (Crazyhouse)
+ */
+export type PocketPieceType = Exclude<PieceType, 'king'>;
+
+/**
+ * Pieces in hand of one color
+ */
+export type Pocket = Record<PocketPieceType, number>;
+
+/**
+ * Pieces in hand of both colors (Crazyhouse)
+ */
+export interface Pockets {
+  white: Pocket;
+  black: Pocket;
+}
 
 /**
  * Game state
@@ -95,6 +236,11 @@ export interface GameState {
   enPassantSquare: Square | null;
 }
 
+/**
+ * Castling side
+ */
+export type CastlingSide = 'kingside' | 'queenside';
+
 /**
  * Castling rights
  */
@@ -103,6 +249,17 @@ export interface CastlingRights {
   whiteQueenside: boolean;
   blackKingside: boolean;
   blackQueenside: boolean;
+  rookFiles?: CastlingRookFiles; // Chess960 rook files (a- and h-file rooks when omitted)
+}
+
+/**
+ * Starting files of the rooks each castling right refers to
+ */
+export interface CastlingRookFiles {
+  whiteKingside: File;
+  whiteQueenside: File;
+  blackKingside: File;
+  blackQueenside: File;
 }
 
 /**
@@ -110,6 +267,31 @@ export interface CastlingRights {
  */
 export type Fen = string;
 
+/**
+ * Piece pinned to its king
+ */
+export interface Pin {
+  square: Square; // Pinned piece
+  pinner: Square; // Rook, bishop or queen pinning it
+  ray: Square[]; // Squares from the king (exclusive) to the pinner (inclusive)
+}
+
+/**
+ * Sliding piece attacking a square through another piece
+ */
+export interface XrayAttacker {
+  square: Square; // Attacking piece
+  through: Square; // Piece in between
+}
+
+/**
+ * Problem found in a FEN string
+ */
+export interface FenIssue {
+  field: number; // 0-5: placement, side to move, castling, en passant, halfmove, fullmove
+  message: string;
+}
+
 /**
  * PGN string
  */
@@ -127,17 +309,97 @@ export interface Coordinates {
  * Move options for game.move()
  */
 export interface MoveOptions {
-  from: Square;
+  from: Square; // "@" for drops
   to: Square;
   promotion?: PieceType;
+  drop?: PocketPieceType; // Crazyhouse: piece to drop from the pocket
 }
 
+/**
+ * Options for reading a move written as text
+ */
+export interface MoveParseOptions {
+  strict?: boolean; // Require exact SAN, UCI or long algebraic notation
+}
+
+/**
+ * Result of reading a move written as text
+ */
+export interface MoveParseResult extends MoveValidation {
+  move?: MoveOptions; // Resolved move, if valid
+  candidates?: string[]; // SAN of the moves that matched, or that were likely meant
+}
+
+/**
+ * Move generation implementation
+ *
+ * 'array' walks the 8x8 board array; 'bitboard' uses 64-bit bitboards
+ * and is considerably faster for perft and search.
+ */
+export type MoveGeneratorBackend = 'array' | 'bitboard';
+
+/**
+ * Castling field notation in generated FEN
+ *
+ * 'xfen' writes KQkq unless another rook stands outside the castling rook;
+ * 'shredder' always writes the rook's file letter (e.g. "HAha").
+ */
+export type CastlingNotation = 'xfen' | 'shredder';
+
+/**
+ * Chess variant
+ *
+ * In 'chess960' (Fischer Random) games castling moves are encoded as the
+ * king capturing its own rook, e.g. e1h1 rather than e1g1.
+ */
+export type GameVariant =
+  | 'standard'
+  | 'chess960'
+  | 'kingOfTheHill'
+  | 'threeCheck'
+  | 'antichess'
+  | 'atomic'
+  | 'horde'
+  | 'racingKings'
+  | 'crazyhouse'
+  | 'bughouse';
+
 /**
  * Game configuration options
  */
 export interface GameConfig {
   fen?: Fen;
   validateMoves?: boolean;
+  backend?: MoveGeneratorBackend;
+  variant?: GameVariant;
+  chess960Position?: number; // Starting position index (0-959), random when omitted
+  timeControl?: TimeControl | string; // Starts a ChessClock; strings use the PGN TimeControl format
+}
+
+/**
+ * How a clock adds time per move
+ *
+ * - increment: Fischer, the full increment is added after every move
+ * - bronstein: Bronstein delay, the time used is added back up to the delay
+ * - delay: simple (US) delay, the clock waits for the delay before counting down
+ */
+export type ClockMode = 'increment' | 'bronstein' | 'delay';
+
+/**
+ * One period of a time control (e.g. "40 moves in 2 hours")
+ */
+export interface TimeControlStage {
+  moves?: number; // Moves to complete in this period, rest of the game when omitted
+  time: number; // Time added at the start of the period, in milliseconds
+  increment: number; // Increment or delay per move, in milliseconds
+}
+
+/**
+ * Time control with one or more periods
+ */
+export interface TimeControl {
+  stages: TimeControlStage[];
+  mode: ClockMode;
 }
 
 // Re-export all types
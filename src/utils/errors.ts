@@ -0,0 +1,188 @@
+/**
+ * Errors
+ *
+ * Error classes thrown by the chess engine, the AI and the opening book.
+ * Every error is a ChessError with a machine-readable code, such as
+ * "INVALID_FEN", and context describing what was rejected, so callers can
+ * react without parsing messages.
+ *
+ * @module utils/errors
+ */
+
+import type { Fen, FenIssue, GameStatus, MoveErrorCode, MoveOptions } from '@/types/index';
+
+/**
+ * Details about what caused an error
+ */
+export type ChessErrorContext = Record<string, unknown>;
+
+/**
+ * Base class of all errors thrown by the library
+ */
+export class ChessError extends Error {
+  public readonly code: string;
+  public readonly context: ChessErrorContext;
+
+  /**
+   * Create a new chess error
+   *
+   * @param message - What went wrong
+   * @param code - Machine-readable error code
+   * @param context - Details about what caused the error
+   */
+  constructor(message: string, code = 'CHESS_ERROR', context: ChessErrorContext = {}) {
+    super(message);
+    this.name = 'ChessError';
+    this.code = code;
+    this.context = context;
+  }
+}
+
+/**
+ * Thrown when a FEN string cannot be read
+ */
+export class InvalidFenError extends ChessError {
+  /**
+   * Create a new invalid FEN error
+   *
+   * @param message - What is wrong with the FEN
+   * @param context - The FEN field and value at fault
+   */
+  constructor(message: string, context: ChessErrorContext = {}) {
+    super(message, 'INVALID_FEN', context);
+    this.name = 'InvalidFenError';
+  }
+}
+
+/**
+ * Thrown when a PGN game cannot be read or replayed
+ */
+export class InvalidPgnError extends ChessError {
+  /**
+   * Create a new invalid PGN error
+   *
+   * @param message - What is wrong with the PGN
+   * @param context - The tag or move at fault
+   */
+  constructor(message: string, context: ChessErrorContext = {}) {
+    super(message, 'INVALID_PGN', context);
+    this.name = 'InvalidPgnError';
+  }
+}
+
+/**
+ * Thrown when an EPD record or file cannot be read
+ */
+export class InvalidEpdError extends ChessError {
+  /**
+   * Create a new invalid EPD error
+   *
+   * @param message - What is wrong with the EPD
+   * @param context - The line or file at fault
+   */
+  constructor(message: string, context: ChessErrorContext = {}) {
+    super(message, 'INVALID_EPD', context);
+    this.name = 'InvalidEpdError';
+  }
+}
+
+/**
+ * Thrown when a position breaks the rules of chess, e.g. has no king
+ */
+export class IllegalPositionError extends ChessError {
+  public readonly issues: FenIssue[];
+
+  /**
+   * Create a new illegal position error
+   *
+   * @param message - What is wrong with the position
+   * @param fen - The position
+   * @param issues - Every problem found in the position
+   */
+  constructor(message: string, fen: Fen, issues: FenIssue[]) {
+    super(message, 'ILLEGAL_POSITION', { fen, issues });
+    this.name = 'IllegalPositionError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Thrown when a move is rejected
+ *
+ * The code is the upper-cased rejection reason (e.g. "KING_IN_CHECK").
+ */
+export class IllegalMoveError extends ChessError {
+  public readonly reason: MoveErrorCode;
+  public readonly move: MoveOptions | string; // Rejected move as it was given
+  public readonly candidates: string[]; // SAN of the moves that were likely meant
+
+  /**
+   * Create a new illegal move error
+   *
+   * @param message - Why the move was rejected
+   * @param reason - Machine-readable reason
+   * @param move - Rejected move as it was given
+   * @param candidates - SAN of the moves that were likely meant
+   */
+  constructor(
+    message: string,
+    reason: MoveErrorCode,
+    move: MoveOptions | string,
+    candidates: string[] = []
+  ) {
+    super(message, reason.toUpperCase(), { reason, move, candidates });
+    this.name = 'IllegalMoveError';
+    this.reason = reason;
+    this.move = move;
+    this.candidates = candidates;
+  }
+}
+
+/**
+ * Thrown when an action needs a game that is still in progress
+ */
+export class GameOverError extends ChessError {
+  /**
+   * Create a new game over error
+   *
+   * @param message - What could not be done
+   * @param status - How the game ended
+   */
+  constructor(message: string, status: GameStatus) {
+    super(message, 'GAME_OVER', { status });
+    this.name = 'GameOverError';
+  }
+}
+
+/**
+ * Thrown when an AI engine cannot search or evaluate a position
+ */
+export class EngineError extends ChessError {
+  /**
+   * Create a new engine error
+   *
+   * @param message - What went wrong
+   * @param code - Machine-readable error code
+   * @param context - The position or move at fault
+   */
+  constructor(message: string, code = 'ENGINE_ERROR', context: ChessErrorContext = {}) {
+    super(message, code, context);
+    this.name = 'EngineError';
+  }
+}
+
+/**
+ * Thrown when an opening book cannot be loaded or used
+ */
+export class OpeningBookError extends ChessError {
+  /**
+   * Create a new opening book error
+   *
+   * @param message - What went wrong
+   * @param context - The file or position at fault
+   */
+  constructor(message: string, context: ChessErrorContext = {}) {
+    super(message, 'OPENING_BOOK_ERROR', context);
+    this.name = 'OpeningBookError';
+  }
+}
@@ -8,10 +8,22 @@
 
 // Export utilities (to be implemented)
 // export { validateMove } from './validation.js';
-// export { ChessError } from './errors.js';
 // export { logger } from './logger.js';
 // export { config } from './config.js';
 
+export {
+  ChessError,
+  InvalidFenError,
+  InvalidPgnError,
+  InvalidEpdError,
+  IllegalPositionError,
+  IllegalMoveError,
+  GameOverError,
+  EngineError,
+  OpeningBookError,
+} from './errors';
+export type { ChessErrorContext } from './errors';
+
 // Placeholder export for Phase 1
 export const UTILS_VERSION = '0.1.0';
 
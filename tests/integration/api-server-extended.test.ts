@@ -249,6 +249,81 @@ describe('ApiServer - Extended Coverage', () => {
       expect(res.status).toBe(400);
       expect(res.body).toHaveProperty('code', 'INVALID_FEN');
     });
+
+    it('POST /games/:id/fen - should list the problems of an illegal position', async () => {
+      const res = await request(app)
+        .post(`/api/v1/games/${gameId}/fen`)
+        .send({ fen: '4k3/8/8/8/8/8/8/4R1K1 w K - 0 1' });
+
+      expect(res.status).toBe(400);
+      expect(res.body.code).toBe('INVALID_FEN');
+      expect(res.body.details).toEqual([
+        { field: 1, message: "Black is in check but it is white's move" },
+        { field: 2, message: "Castling right 'K' but there is no white rook on h1" },
+      ]);
+    });
+  });
+
+  describe('Board Editor', () => {
+    it('PUT /games/:id/board - should set up a position piece by piece', async () => {
+      const res = await request(app)
+        .put(`/api/v1/games/${gameId}/board`)
+        .send({ pieces: { e1: 'K', a1: 'R', e8: 'k' }, turn: 'black', castling: 'Q' });
+
+      expect(res.status).toBe(200);
+      expect(res.body.fen).toBe('4k3/8/8/8/8/8/8/R3K3 b Q - 0 1');
+      expect(res.body.turn).toBe('black');
+    });
+
+    it('PUT /games/:id/board - should reject an illegal position', async () => {
+      const res = await request(app)
+        .put(`/api/v1/games/${gameId}/board`)
+        .send({ pieces: { e1: 'K', e2: 'K' } });
+
+      expect(res.status).toBe(400);
+      expect(res.body.code).toBe('ILLEGAL_POSITION');
+      expect(res.body.details).toEqual([
+        { field: 0, message: 'White has 2 kings' },
+        { field: 0, message: 'Black has no king' },
+      ]);
+    });
+
+    it('PUT /games/:id/board - should reject unknown pieces and missing input', async () => {
+      const invalid = await request(app)
+        .put(`/api/v1/games/${gameId}/board`)
+        .send({ pieces: { e1: 'X' } });
+      expect(invalid.status).toBe(400);
+      expect(invalid.body.code).toBe('INVALID_PIECE');
+
+      const missing = await request(app).put(`/api/v1/games/${gameId}/board`).send({});
+      expect(missing.status).toBe(400);
+      expect(missing.body.code).toBe('INVALID_INPUT');
+    });
+  });
+
+  describe('Attack Overlays', () => {
+    it('GET /games/:id/attacks - should describe the attacks on a square', async () => {
+      const res = await request(app).get(`/api/v1/games/${gameId}/attacks`).query({ square: 'f3' });
+
+      expect(res.status).toBe(200);
+      expect(res.body).toEqual({
+        square: 'f3',
+        piece: null,
+        attackers: { white: ['e2', 'g2', 'g1'], black: [] },
+        defenders: [],
+        xrayAttackers: { white: [{ square: 'd1', through: 'e2' }], black: [] },
+        checkers: [],
+        pins: { white: [], black: [] },
+        discoveredCheckPossible: false,
+      });
+    });
+
+    it('GET /games/:id/attacks - should reject an invalid square', async () => {
+      const res = await request(app).get(`/api/v1/games/${gameId}/attacks`).query({ square: 'z9' });
+
+      expect(res.status).toBe(400);
+      expect(res.body.code).toBe('INVALID_SQUARE');
+    });
   });
 
   describe('PGN Export Edge Cases', () => {
@@ -305,6 +380,43 @@ describe('ApiServer - Extended Coverage', () => {
       expect(res.body).toHaveProperty('moveHistory');
       expect(res.body.moveHistory).toHaveLength(0); // Move undone
     });
+
+    it('POST /games/:id/undo - should undo several moves with count', async () => {
+      await request(app).post(`/api/v1/games/${gameId}/moves`).send({ from: 'e2', to: 'e4' });
+      await request(app).post(`/api/v1/games/${gameId}/moves`).send({ from: 'e7', to: 'e5' });
+      await request(app).post(`/api/v1/games/${gameId}/moves`).send({ from: 'g1', to: 'f3' });
+
+      const res = await request(app).post(`/api/v1/games/${gameId}/undo`).send({ count: 2 });
+
+      expect(res.status).toBe(200);
+      expect(res.body.moveHistory).toHaveLength(1);
+      expect(res.body.fen).toBe('rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq e3 0 1');
+    });
+
+    it('POST /games/:id/undo - should reject an invalid count', async () => {
+      const res = await request(app).post(`/api/v1/games/${gameId}/undo`).send({ count: 0 });
+
+      expect(res.status).toBe(400);
+      expect(res.body).toHaveProperty('code', 'INVALID_INPUT');
+    });
+
+    it('POST /games/:id/redo - should replay an undone move', async () => {
+      await request(app).post(`/api/v1/games/${gameId}/moves`).send({ from: 'e2', to: 'e4' });
+      await request(app).post(`/api/v1/games/${gameId}/undo`);
+
+      const res = await request(app).post(`/api/v1/games/${gameId}/redo`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.moveHistory).toHaveLength(1);
+      expect(res.body.moveHistory[0].san).toBe('e4');
+    });
+
+    it('POST /games/:id/redo - should return 400 when nothing to redo', async () => {
+      const res = await request(app).post(`/api/v1/games/${gameId}/redo`);
+
+      expect(res.status).toBe(400);
+      expect(res.body).toHaveProperty('code', 'NO_MOVES');
+    });
   });
 
   describe('Move Validation Edge Cases', () => {
@@ -337,7 +449,7 @@ describe('ApiServer - Extended Coverage', () => {
         .send({ from: 'e2', to: 'e5' });
 
       expect(res.status).toBe(400);
-      expect(res.body).toHaveProperty('code', 'INVALID_MOVE');
+      expect(res.body).toHaveProperty('code', 'UNREACHABLE');
     });
 
     it('POST /games/:id/moves - should handle pawn promotion', async () => {
@@ -365,7 +477,7 @@ describe('ApiServer - Extended Coverage', () => {
         .send({ from: 'a7', to: 'a8' });
 
       expect(res.status).toBe(400);
-      expect(res.body).toHaveProperty('code', 'INVALID_MOVE');
+      expect(res.body).toHaveProperty('code', 'PROMOTION_REQUIRED');
     });
   });
 
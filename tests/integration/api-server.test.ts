@@ -82,6 +82,79 @@ describe('ApiServer', () => {
       expect(res.body).toHaveProperty('code', 'INVALID_FEN');
     });
 
+    it('POST /games - should import a game from PGN', async () => {
+      const pgn = [
+        '[SetUp "1"]',
+        '[FEN "rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq e3 0 1"]',
+        '',
+        '1... e5 2. Nf3 *',
+      ].join('\n');
+      const res = await request(app).post('/api/v1/games').send({ pgn });
+
+      expect(res.status).toBe(201);
+      expect(res.body.moveHistory.map((move: { san: string }) => move.san)).toEqual(['e5', 'Nf3']);
+      expect(res.body.turn).toBe('black');
+      expect(res.body.pgn).toContain('1... e5 2. Nf3 *');
+
+      const exported = await request(app).get(`/api/v1/games/${res.body.id}/pgn`);
+      expect(exported.text).toContain('[FEN "rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b');
+      expect(exported.text).toContain('1... e5 2. Nf3 *');
+    });
+
+    it('POST /games - should reject PGN that cannot be replayed', async () => {
+      const res = await request(app).post('/api/v1/games').send({ pgn: '1. e4 e5 2. Ke3 *' });
+
+      expect(res.status).toBe(400);
+      expect(res.body).toHaveProperty('code', 'INVALID_PGN');
+      expect(res.body.details).toContain("cannot play 'Ke3' at ply 3");
+
+      const ambiguous = await request(app)
+        .post('/api/v1/games')
+        .send({ pgn: '[SetUp "1"]\n[FEN "4k3/8/8/8/8/8/8/1N2KN2 w - - 0 1"]\n\n1. Nd2 *' });
+      expect(ambiguous.status).toBe(400);
+      expect(ambiguous.body.details).toContain("cannot play 'Nd2' at ply 1");
+
+      const both = await request(app).post('/api/v1/games').send({ pgn: '*', fen: 'x' });
+      expect(both.status).toBe(400);
+      expect(both.body).toHaveProperty('code', 'INVALID_INPUT');
+    });
+
+    it('POST /games - should create a timed game', async () => {
+      const res = await request(app).post('/api/v1/games').send({ timeControl: '300+3' });
+
+      expect(res.status).toBe(201);
+      expect(res.body.clock).toEqual({
+        timeControl: '300+3',
+        white: 300000,
+        black: 300000,
+        running: null,
+      });
+
+      const moveRes = await request(app)
+        .post(`/api/v1/games/${res.body.id}/moves`)
+        .send({ from: 'e2', to: 'e4' });
+      expect(moveRes.body.moveHistory[0].clock).toBe(303000);
+      expect(moveRes.body.clock.running).toBe('black');
+    });
+
+    it('POST /games/:id/undo - should let a timed game go on after a takeback', async () => {
+      const { body } = await request(app).post('/api/v1/games').send({ timeControl: '300+3' });
+      await request(app).post(`/api/v1/games/${body.id}/moves`).send({ move: 'e4' });
+      await request(app).post(`/api/v1/games/${body.id}/undo`);
+
+      const res = await request(app).post(`/api/v1/games/${body.id}/moves`).send({ move: 'e4' });
+      expect(res.status).toBe(200);
+      expect(res.body.clock.running).toBe('black');
+      expect(res.body.moveHistory).toHaveLength(1);
+    });
+
+    it('POST /games - should reject an invalid time control', async () => {
+      const res = await request(app).post('/api/v1/games').send({ timeControl: '5 minutes' });
+
+      expect(res.status).toBe(400);
+      expect(res.body).toHaveProperty('code', 'INVALID_TIME_CONTROL');
+    });
+
     it('GET /games/:id - should get game by ID', async () => {
       const res = await request(app).get(`/api/v1/games/${gameId}`);
 
@@ -164,7 +237,33 @@ describe('ApiServer', () => {
         .send({ from: 'e2', to: 'e5' });
 
       expect(res.status).toBe(400);
-      expect(res.body.code).toBe('INVALID_MOVE');
+      expect(res.body.code).toBe('UNREACHABLE');
+      expect(res.body.details).toBe('Illegal move');
+    });
+
+    it('POST /games/:id/moves - should make a move written as text', async () => {
+      await request(app).post(`/api/v1/games/${moveGameId}/moves`).send({ move: 'Nf3' });
+      const res = await request(app)
+        .post(`/api/v1/games/${moveGameId}/moves`)
+        .send({ move: 'g8f6', strict: true });
+
+      expect(res.status).toBe(200);
+      expect(res.body.moveHistory.map((move: { san: string }) => move.san)).toEqual(['Nf3', 'Nf6']);
+    });
+
+    it('POST /games/:id/moves - should list candidates for an ambiguous move', async () => {
+      const createRes = await request(app)
+        .post('/api/v1/games')
+        .send({ fen: '4k3/8/8/8/8/8/8/1N2KN2 w - - 0 1' });
+
+      const res = await request(app)
+        .post(`/api/v1/games/${createRes.body.id}/moves`)
+        .send({ move: 'Nd2' });
+
+      expect(res.status).toBe(400);
+      expect(res.body.code).toBe('AMBIGUOUS_MOVE');
+      expect(res.body.details).toBe("Ambiguous move 'Nd2': could be Nbd2, Nfd2");
+      expect(res.body.candidates).toEqual(['Nbd2', 'Nfd2']);
     });
 
     it('POST /games/:id/moves - should handle pawn promotion', async () => {
@@ -209,6 +308,31 @@ describe('ApiServer', () => {
       expect(res.status).toBe(400);
       expect(res.body.code).toBe('NO_MOVES');
     });
+
+    it('POST /games/:id/claim-draw - should claim a fifty-move draw', async () => {
+      const createRes = await request(app)
+        .post('/api/v1/games')
+        .send({ fen: '4k3/8/8/8/8/8/8/R3K3 w - - 100 80' });
+      const claimGameId = createRes.body.id;
+      expect(createRes.body.canClaimDraw).toBe(true);
+      expect(createRes.body.gameOver).toBe(false);
+
+      const res = await request(app).post(`/api/v1/games/${claimGameId}/claim-draw`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.status).toBe('fifty_move_rule');
+      expect(res.body.gameOver).toBe(true);
+      expect(res.body.result).toBe('1/2-1/2');
+      expect(res.body.termination).toBe('draw_rule');
+      expect(res.body.winner).toBeNull();
+    });
+
+    it('POST /games/:id/claim-draw - should reject an invalid claim', async () => {
+      const res = await request(app).post(`/api/v1/games/${moveGameId}/claim-draw`);
+
+      expect(res.status).toBe(400);
+      expect(res.body.code).toBe('NO_DRAW_CLAIM');
+    });
   });
 
   describe('AI Operations', () => {
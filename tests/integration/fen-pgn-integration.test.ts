@@ -331,14 +331,24 @@ describe('FEN and PGN Integration', () => {
     it('should handle long games with many moves', () => {
       const game = new Game();
 
-      // Play 50 moves
+      // Play 50 moves, pushing pawns between the knight shuffles so that no
+      // position occurs five times and ends the game
       for (let i = 0; i < 25; i++) {
+        if (i % 4 === 3) {
+          const file = 'ahbgcd'.charAt((i - 3) / 4);
+          game.move({ from: `${file}2`, to: `${file}3` });
+          game.move({ from: `${file}7`, to: `${file}6` });
+          game.move({ from: `${file}3`, to: `${file}4` });
+          game.move({ from: `${file}6`, to: `${file}5` });
+          continue;
+        }
         game.move({ from: 'g1', to: 'f3' });
         game.move({ from: 'g8', to: 'f6' });
         game.move({ from: 'f3', to: 'g1' });
         game.move({ from: 'f6', to: 'g8' });
       }
 
+      expect(game.isGameOver()).toBe(false);
       expect(game.getHistory()).toHaveLength(100);
       expect(game.getFullMoveNumber()).toBe(51);
     });
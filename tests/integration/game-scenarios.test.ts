@@ -294,6 +294,8 @@ describe('Game Scenarios', () => {
         'insufficient_material',
         'threefold_repetition',
         'fifty_move_rule',
+        'fivefold_repetition',
+        'seventy_five_move_rule',
       ]).toContain(status);
     });
   });
@@ -439,25 +441,17 @@ describe('Game Scenarios', () => {
 
   describe('Clock Management', () => {
     it('should track fifty-move rule', () => {
-      const game = new Game();
+      // 49 moves without pawn move or capture
+      const game = new Game({ fen: '4k3/8/8/8/8/8/8/R3K3 w - - 98 60' });
+      expect(game.canClaimDraw()).toBe(false);
 
-      // Manually set halfmove clock
-      game.getBoard().clear();
-      game.getBoard().setPiece('e1', { type: 'king', color: 'white' });
-      game.getBoard().setPiece('e8', { type: 'king', color: 'black' });
-      game.getBoard().setPiece('a1', { type: 'rook', color: 'white' });
-      game.refreshMoveGenerator();
-
-      // Make 50 moves without pawn move or capture
-      for (let i = 0; i < 25; i++) {
-        game.move({ from: 'a1', to: 'a2' });
-        game.move({ from: 'e8', to: 'd8' });
-        game.move({ from: 'a2', to: 'a1' });
-        game.move({ from: 'd8', to: 'e8' });
-      }
+      // The 50th move makes a draw claimable without ending the game
+      game.move({ from: 'a1', to: 'a2' });
+      game.move({ from: 'e8', to: 'd8' });
 
-      expect(game.getHalfMoveClock()).toBeGreaterThanOrEqual(50);
-      expect(game.getStatus()).toBe('fifty_move_rule');
+      expect(game.getHalfMoveClock()).toBe(100);
+      expect(game.getStatus()).toBe('active');
+      expect(game.getDrawClaimReason()).toBe('fifty_move_rule');
     });
 
     it('should reset halfmove clock on pawn moves', () => {
@@ -529,7 +523,8 @@ describe('Game Scenarios', () => {
         game.move({ from: 'f6', to: 'g8' });
       }
 
-      expect(game.getStatus()).toBe('threefold_repetition');
+      expect(game.getStatus()).toBe('active');
+      expect(game.getDrawClaimReason()).toBe('threefold_repetition');
     });
   });
 });
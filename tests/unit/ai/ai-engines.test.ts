@@ -6,7 +6,7 @@
 import { Game } from '../../../src/engine/game';
 import { RandomAI } from '../../../src/ai/random';
 import { MinimaxAI } from '../../../src/ai/minimax';
-import type { Move } from '../../../src/types';
+import type { GameVariant, Move } from '../../../src/types';
 
 describe('AI Engines', () => {
   describe('RandomAI', () => {
@@ -211,6 +211,38 @@ describe('AI Engines', () => {
       game.move(move);
       expect(game.getStatus()).toBe('checkmate');
     });
+
+    it('should leave the game unchanged after searching', async () => {
+      const game = new Game();
+      game.move({ from: 'e2', to: 'e4' });
+      game.move({ from: 'e7', to: 'e5' });
+      const fen = game.getFen();
+      const hash = game.getHash();
+
+      const ai = new MinimaxAI({ difficulty: 'easy' });
+      await ai.analyze(game);
+
+      expect(game.getFen()).toBe(fen);
+      expect(game.getHash()).toBe(hash);
+      expect(game.getHistory()).toHaveLength(2);
+    });
+
+    it('should score a move that repeats an earlier position as a draw', async () => {
+      const game = new Game();
+      game.loadFen('6k1/8/8/8/8/8/8/QN4K1 w - - 0 1');
+      game.move({ from: 'b1', to: 'c3' });
+      game.move({ from: 'g8', to: 'h8' });
+      game.move({ from: 'c3', to: 'b1' });
+      game.move({ from: 'h8', to: 'g8' });
+
+      const ai = new MinimaxAI({ difficulty: 'easy' });
+      const legalMoves = game.getLegalMoves();
+      const repeat = legalMoves.find((m) => m.from === 'b1' && m.to === 'c3')!;
+      const other = legalMoves.find((m) => m.from === 'a1' && m.to === 'a2')!;
+
+      expect((await ai.evaluateMove(game, repeat)).score).toBe(0);
+      expect((await ai.evaluateMove(game, other)).score).toBeGreaterThan(0);
+    });
   });
 
   describe('AI Comparison', () => {
@@ -286,4 +318,69 @@ describe('AI Engines', () => {
       expect(analysis.bestMove).toBeDefined();
     });
   });
+
+  describe('Variants', () => {
+    const variants: GameVariant[] = [
+      'kingOfTheHill',
+      'threeCheck',
+      'antichess',
+      'atomic',
+      'horde',
+      'racingKings',
+      'crazyhouse',
+      'bughouse',
+    ];
+
+    it.each(variants)('RandomAI should play legal moves in %s', async (variant) => {
+      const game = new Game({ variant });
+      const ai = new RandomAI();
+
+      for (let i = 0; i < 10 && !game.isGameOver(); i++) {
+        const move = await ai.getBestMove(game);
+        expect(game.move(move)).not.toBeNull();
+      }
+    });
+
+    it.each(variants)(
+      'MinimaxAI should play legal moves in %s',
+      async (variant) => {
+        const game = new Game({ variant });
+        const ai = new MinimaxAI({ difficulty: 'easy' });
+
+        for (let i = 0; i < 4 && !game.isGameOver(); i++) {
+          const move = await ai.getBestMove(game);
+          expect(game.move(move)).not.toBeNull();
+        }
+      },
+      30000
+    );
+
+    it('MinimaxAI should take a variant win', async () => {
+      const game = new Game({ variant: 'kingOfTheHill', fen: '7k/8/8/8/8/4K3/8/8 w - - 0 1' });
+      const ai = new MinimaxAI({ difficulty: 'easy', randomness: 0 });
+
+      const move = await ai.getBestMove(game);
+      game.move(move);
+
+      expect(game.getVariantOutcome()?.winner).toBe('white');
+    });
+
+    it('MinimaxAI should evaluate the drop it is given among drops to the same square', async () => {
+      // Q@d8 and R@d8 mate, N@d8 does not
+      const game = new Game({ variant: 'crazyhouse', fen: 'k7/pp6/8/8/8/8/8/4K3[QRN] w - - 0 1' });
+      const ai = new MinimaxAI({ difficulty: 'easy', randomness: 0 });
+      const drops = game.getLegalMoves().filter((m) => m.drop && m.to === 'd8');
+      const score = async (piece: string): Promise<number> =>
+        (
+          await ai.evaluateMove(
+            game,
+            drops.find((m) => m.drop === piece)!
+          )
+        ).score;
+
+      expect(drops).toHaveLength(3);
+      expect(await score('knight')).toBeLessThan(await score('queen'));
+      expect(await score('knight')).toBeLessThan(await score('rook'));
+    });
+  });
 });
@@ -0,0 +1,41 @@
+/**
+ * EPD Test Suite Runner Tests
+ *
+ * Tests running an engine over EPD positions and checking its moves
+ * against the bm and am operations.
+ */
+
+import { describe, expect, it } from '@jest/globals';
+import { runEpdSuite } from '@/ai/epd-suite';
+import { MinimaxAI } from '@/ai/minimax';
+
+const SUITE = `
+6k1/5ppp/8/8/8/8/8/R5K1 w - - bm Ra8#; id "mate.1";
+6k1/5ppp/8/8/8/8/8/R5K1 w - - bm Kf1; id "wrong.1";
+6k1/5ppp/8/8/8/8/8/R5K1 w - - am Ra8; id "avoid.1";
+4k3/8/8/8/8/8/8/4K3 w - - id "not a test";
+`;
+
+describe('runEpdSuite', () => {
+  it('should check the engine move against bm and am', async () => {
+    const ai = new MinimaxAI({ difficulty: 'expert', maxDepth: 2 });
+    const suite = await runEpdSuite(ai, SUITE);
+
+    expect(suite).toMatchObject({ total: 3, passed: 1, failed: 2 });
+    expect(suite.results.map((result) => [result.id, result.move, result.passed])).toEqual([
+      ['mate.1', 'Ra8#', true],
+      ['wrong.1', 'Ra8#', false],
+      ['avoid.1', 'Ra8#', false],
+    ]);
+  });
+
+  it('should record the analysis as EPD operations', async () => {
+    const ai = new MinimaxAI({ difficulty: 'expert', maxDepth: 2 });
+    const [result] = (await runEpdSuite(ai, SUITE)).results;
+
+    expect(result?.score).toBeGreaterThan(0);
+    expect(result?.epd).toMatch(
+      /^6k1\/5ppp\/8\/8\/8\/8\/8\/R5K1 w - - bm Ra8#; id "mate\.1"; acd \d+; ce \d+; pv Ra8#;$/
+    );
+  });
+});
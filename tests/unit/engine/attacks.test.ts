@@ -0,0 +1,52 @@
+/**
+ * Attack Query Tests
+ *
+ * Tests finding attackers, defenders, checkers, pins and x-ray attackers,
+ * and whether a discovered check can be played.
+ */
+
+import { describe, expect, it } from '@jest/globals';
+import { Game } from '@/engine/game';
+
+describe('Attack queries', () => {
+  it('should find the attackers and defenders of a square', () => {
+    const game = new Game();
+
+    expect(game.getAttackers('f3', 'white')).toEqual(['e2', 'g2', 'g1']);
+    expect(game.getAttackers('f3', 'black')).toEqual([]);
+    expect(game.getDefenders('e2').sort()).toEqual(['d1', 'e1', 'f1', 'g1']);
+    expect(game.getDefenders('e4')).toEqual([]);
+  });
+
+  it('should find the pieces giving check', () => {
+    const game = new Game({ fen: '4k3/8/8/8/1b6/3n4/8/4K3 w - - 0 1' });
+    expect(game.getCheckers().sort()).toEqual(['b4', 'd3']);
+    expect(new Game().getCheckers()).toEqual([]);
+  });
+
+  it('should find pinned pieces with their pin rays', () => {
+    const game = new Game({ fen: '4k3/4r3/8/8/8/8/4B3/4K3 w - - 0 1' });
+
+    expect(game.getPinnedPieces()).toEqual([
+      { square: 'e2', pinner: 'e7', ray: ['e2', 'e3', 'e4', 'e5', 'e6', 'e7'] },
+    ]);
+    expect(game.getPinnedPieces('black')).toEqual([]);
+  });
+
+  it('should find x-ray attackers behind another piece', () => {
+    const game = new Game({ fen: 'k7/8/8/8/8/8/R7/R3K3 w - - 0 1' });
+
+    expect(game.getXrayAttackers('a5', 'white')).toEqual([{ square: 'a1', through: 'a2' }]);
+    expect(game.getAttackers('a5', 'white')).toEqual(['a2']);
+  });
+
+  it('should tell if a discovered check can be played', () => {
+    expect(new Game({ fen: '4k3/8/8/8/8/8/4N3/4R1K1 w - - 0 1' }).isDiscoveredCheckPossible()).toBe(
+      true
+    );
+    // The pawn can only move along the file, keeping it closed
+    expect(new Game({ fen: '4k3/8/8/8/8/8/4P3/4R1K1 w - - 0 1' }).isDiscoveredCheckPossible()).toBe(
+      false
+    );
+  });
+});
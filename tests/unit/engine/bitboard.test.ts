@@ -0,0 +1,230 @@
+/**
+ * Bitboard Move Generator Tests
+ *
+ * Tests the bitboard backend against perft reference counts and
+ * against the array backend on the same positions.
+ */
+
+import { describe, expect, it } from '@jest/globals';
+import { Game } from '@/engine/game';
+import { FenParser } from '@/engine/fen';
+import { MoveGenerator } from '@/engine/moves';
+import { BitboardMoveGenerator } from '@/engine/bitboard';
+import { perft, moveToUci } from '@/engine/perft';
+import type { Color, Fen } from '@/types/index';
+
+const PERFT_TIMEOUT = 30000;
+
+const KIWIPETE = 'r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1';
+const POSITION_3 = '8/2p5/3p4/KP5r/1R3p1k/8/4P1P1/8 w - - 0 1';
+const POSITION_4 = 'r3k2r/Pppp1ppp/1b3nbN/nP6/BBP1P3/q4N2/Pp1P2PP/R2Q1RK1 w kq - 0 1';
+const POSITION_5 = 'rnbq1k1r/pp1Pbppp/2p5/8/2B5/8/PPP1NnPP/RNBQK2R w KQ - 1 8';
+
+/**
+ * Create a game using the bitboard backend at a FEN position
+ */
+function bitboardGame(fen: Fen = FenParser.STARTING_POSITION): Game {
+  const game = new Game({ backend: 'bitboard' });
+  game.loadFen(fen);
+  return game;
+}
+
+/**
+ * Legal moves of a position as a sorted list of UCI strings
+ */
+function legalMoves(generator: MoveGenerator, color: Color): string[] {
+  return generator.generateLegalMoves(color).map(moveToUci).sort();
+}
+
+/**
+ * Compare both backends on a FEN position
+ */
+function expectSameMoves(fen: Fen): void {
+  const data = FenParser.parse(fen);
+  const array = new MoveGenerator(data.board, data.castlingRights, data.enPassantSquare);
+  const bitboard = new BitboardMoveGenerator(data.board, data.castlingRights, data.enPassantSquare);
+
+  expect(legalMoves(bitboard, data.turn)).toEqual(legalMoves(array, data.turn));
+  expect(bitboard.isCheckmate(data.turn)).toBe(array.isCheckmate(data.turn));
+  expect(bitboard.isStalemate(data.turn)).toBe(array.isStalemate(data.turn));
+  expect(bitboard.isInCheck(data.turn)).toBe(array.isInCheck(data.turn));
+}
+
+describe('BitboardMoveGenerator', () => {
+  describe('perft', () => {
+    it(
+      'should match the starting position to depth 3',
+      () => {
+        expect(perft(bitboardGame(), 3).nodes).toBe(8902);
+      },
+      PERFT_TIMEOUT
+    );
+
+    it(
+      'should match Kiwipete to depth 2',
+      () => {
+        expect(perft(bitboardGame(KIWIPETE), 2)).toEqual({
+          nodes: 2039,
+          captures: 351,
+          enPassant: 1,
+          castles: 91,
+          promotions: 0,
+          checks: 3,
+          checkmates: 0,
+        });
+      },
+      PERFT_TIMEOUT
+    );
+
+    it(
+      'should match position 3 to depth 3',
+      () => {
+        const result = perft(bitboardGame(POSITION_3), 3);
+        expect(result.nodes).toBe(2812);
+        expect(result.enPassant).toBe(2);
+        expect(result.checks).toBe(267);
+      },
+      PERFT_TIMEOUT
+    );
+
+    it(
+      'should match position 4 to depth 2',
+      () => {
+        const result = perft(bitboardGame(POSITION_4), 2);
+        expect(result.nodes).toBe(264);
+        expect(result.promotions).toBe(48);
+      },
+      PERFT_TIMEOUT
+    );
+
+    it(
+      'should match position 5 to depth 2',
+      () => {
+        expect(perft(bitboardGame(POSITION_5), 2).nodes).toBe(1486);
+      },
+      PERFT_TIMEOUT
+    );
+  });
+
+  describe('agreement with the array backend', () => {
+    it('should generate the same moves for standard test positions', () => {
+      for (const fen of [
+        FenParser.STARTING_POSITION,
+        KIWIPETE,
+        POSITION_3,
+        POSITION_4,
+        POSITION_5,
+      ]) {
+        expectSameMoves(fen);
+      }
+    });
+
+    it('should handle pins, checks and en passant edge cases', () => {
+      // Pinned knight, pinned bishop sliding along the pin, double check
+      expectSameMoves('4k3/8/8/8/8/8/4n3/r2BK2q w - - 0 1');
+      expectSameMoves('4k3/8/8/8/b7/8/2B5/4K3 w - - 0 1');
+      expectSameMoves('4k3/8/8/8/8/5n2/8/r3K3 w - - 0 1');
+      // En passant exposing the king along the rank
+      expectSameMoves('8/8/8/8/k2pP2R/8/8/4K3 b - e3 0 1');
+      // Checkmate and stalemate
+      expectSameMoves('rnb1kbnr/pppp1ppp/8/4p3/6Pq/5P2/PPPPP2P/RNBQKBNR w KQkq - 1 3');
+      expectSameMoves('7k/5Q2/6K1/8/8/8/8/8 b - - 0 1');
+    });
+
+    it('should tell which moves give check without making them', () => {
+      for (const fen of [
+        KIWIPETE,
+        POSITION_4,
+        POSITION_5,
+        // En passant captures opening the rank to either king
+        '8/8/8/K2pP2r/8/8/8/7k w - d6 0 1',
+        '8/8/8/R2pP2k/8/8/8/K7 w - d6 0 1',
+        // Promotions, castling and discovered checks
+        'r3k3/1P6/8/8/8/8/8/R3K2R w KQ - 0 1',
+        '4k3/8/8/4N3/8/8/8/4R1K1 w - - 0 1',
+      ]) {
+        for (const backend of ['array', 'bitboard'] as const) {
+          const game = new Game({ fen, backend });
+          for (const move of game.getLegalMoves()) {
+            game.makeMove(move);
+            const inCheck = game.isInCheck();
+            game.unmakeMove();
+            expect({ move: moveToUci(move), check: game.givesCheck(move) }).toEqual({
+              move: moveToUci(move),
+              check: inCheck,
+            });
+          }
+        }
+      }
+    });
+
+    it('should agree along a sequence of played moves', () => {
+      const array = new Game();
+      const bitboard = new Game({ backend: 'bitboard' });
+      let seed = 12345;
+
+      for (let ply = 0; ply < 80; ply++) {
+        const arrayMoves = array.getLegalMoves().map(moveToUci).sort();
+        const bitboardMoves = bitboard.getLegalMoves().map(moveToUci).sort();
+        expect(bitboardMoves).toEqual(arrayMoves);
+        expect(bitboard.getStatus()).toBe(array.getStatus());
+        if (arrayMoves.length === 0 || array.isGameOver()) break;
+
+        // Deterministic pseudo-random move choice
+        seed = (seed * 16807) % 2147483647;
+        const uci = arrayMoves[seed % arrayMoves.length] ?? '';
+        const move = { from: uci.slice(0, 2), to: uci.slice(2, 4) };
+        const promotion = uci.length > 4 ? { promotion: 'queen' as const } : {};
+        array.move({ ...move, ...promotion });
+        bitboard.move({ ...move, ...promotion });
+      }
+    });
+  });
+
+  describe('board synchronisation', () => {
+    it('should pick up board edits made through the Board API', () => {
+      const game = new Game({ backend: 'bitboard' });
+      game.getBoard().setPiece('f1', null);
+      game.getBoard().setPiece('g1', null);
+
+      const castle = game.move({ from: 'e1', to: 'g1' });
+      expect(castle).not.toBeNull();
+      expect(castle?.castling).toBe('kingside');
+    });
+
+    it('should follow moves and takebacks made on the game', () => {
+      const game = bitboardGame(KIWIPETE);
+      const before = game.getLegalMoves().map(moveToUci).sort();
+
+      game.move('Qxf6');
+      game.move('Bxf6');
+      expect(game.getLegalMoves().map(moveToUci)).not.toContain('f3f6');
+
+      game.undo();
+      game.undo();
+      expect(game.getLegalMoves().map(moveToUci).sort()).toEqual(before);
+      expect(game.getFen()).toBe(KIWIPETE);
+    });
+
+    it('should rebuild after more board edits than the board remembers', () => {
+      const game = new Game({ backend: 'bitboard' });
+      const board = game.getBoard();
+      game.getLegalMoves();
+
+      for (let i = 0; i < 100; i++) {
+        board.setPiece('d2', i % 2 === 0 ? null : { type: 'pawn', color: 'white' });
+      }
+      board.setPiece('e2', null);
+
+      const moves = game.getLegalMoves().map(moveToUci);
+      expect(moves).toContain('d2d4');
+      expect(moves).toContain('e1e2');
+      expect(moves).toContain('f1a6');
+    });
+
+    it('should report the configured backend', () => {
+      expect(new Game().getBackend()).toBe('array');
+      expect(new Game({ backend: 'bitboard' }).getBackend()).toBe('bitboard');
+    });
+  });
+});
@@ -272,6 +272,26 @@ describe('Board', () => {
     });
   });
 
+  describe('getChangesSince', () => {
+    it('should list the squares changed since a revision', () => {
+      board.setupStartingPosition();
+      const revision = board.getRevision();
+      board.movePiece('e2', 'e4');
+
+      expect(board.getChangesSince(revision)).toEqual([3 * 8 + 4, 1 * 8 + 4]);
+      expect(board.getChangesSince(board.getRevision())).toEqual([]);
+    });
+
+    it('should return null once the changes are no longer known', () => {
+      const revision = board.getRevision();
+      board.setPiece('e4', { type: 'queen', color: 'white' });
+      board.clear();
+
+      expect(board.getChangesSince(revision)).toBeNull();
+      expect(board.getChangesSince(-1)).toBeNull();
+    });
+  });
+
   describe('isEmpty and isOccupiedBy', () => {
     it('should check if square is empty', () => {
       expect(board.isEmpty('e4')).toBe(true);
@@ -0,0 +1,269 @@
+/**
+ * Chess960 Tests
+ *
+ * Tests starting position generation, king-takes-rook castling on both
+ * move generation backends, X-FEN/Shredder-FEN and the PGN Variant tag.
+ */
+
+import { describe, expect, it } from '@jest/globals';
+import { Game } from '@/engine/game';
+import { FenParser } from '@/engine/fen';
+import { PgnParser } from '@/engine/pgn';
+import { perft, moveToUci } from '@/engine/perft';
+import { CHESS960_POSITION_COUNT, getChess960BackRank, getChess960Fen } from '@/engine/chess960';
+import type { MoveGeneratorBackend } from '@/types/index';
+
+const PERFT_TIMEOUT = 30000;
+const BACKENDS: MoveGeneratorBackend[] = ['array', 'bitboard'];
+
+// Rooks on the b- and g-files, king on the e-file
+const INNER_ROOKS = '1r2k1r1/pppppppp/8/8/8/8/PPPPPPPP/1R2K1R1 w KQkq - 0 1';
+
+/**
+ * Create a Chess960 game at a FEN position
+ */
+function chess960Game(fen: string, backend: MoveGeneratorBackend = 'array'): Game {
+  return new Game({ variant: 'chess960', backend, fen });
+}
+
+describe('Chess960', () => {
+  describe('starting positions', () => {
+    it('should number the classical setup 518', () => {
+      expect(getChess960BackRank(518)).toBe('RNBQKBNR');
+      expect(getChess960Fen(518)).toBe(FenParser.STARTING_POSITION);
+    });
+
+    it('should follow the standard numbering', () => {
+      expect(getChess960BackRank(0)).toBe('BBQNNRKR');
+      expect(getChess960BackRank(959)).toBe('RKRNNQBB');
+    });
+
+    it('should generate 960 distinct legal setups', () => {
+      const seen = new Set<string>();
+
+      for (let index = 0; index < CHESS960_POSITION_COUNT; index++) {
+        const rank = getChess960BackRank(index);
+        seen.add(rank);
+
+        const bishops = [...rank].flatMap((piece, file) => (piece === 'B' ? [file] : []));
+        const rooks = [...rank].flatMap((piece, file) => (piece === 'R' ? [file] : []));
+        const king = rank.indexOf('K');
+
+        expect(bishops).toHaveLength(2);
+        expect(((bishops[0] ?? 0) + (bishops[1] ?? 0)) % 2).toBe(1);
+        expect(rooks[0]).toBeLessThan(king);
+        expect(rooks[1]).toBeGreaterThan(king);
+      }
+
+      expect(seen.size).toBe(CHESS960_POSITION_COUNT);
+    });
+
+    it('should reject out of range indices', () => {
+      expect(() => getChess960BackRank(-1)).toThrow('Invalid Chess960 position index');
+      expect(() => getChess960BackRank(960)).toThrow('Invalid Chess960 position index');
+    });
+
+    it('should start a game from a position index', () => {
+      const game = new Game({ variant: 'chess960', chess960Position: 0 });
+      expect(game.getVariant()).toBe('chess960');
+      expect(game.getFen()).toBe(getChess960Fen(0));
+
+      game.move({ from: 'e2', to: 'e4' });
+      game.reset();
+      expect(game.getFen()).toBe(getChess960Fen(0));
+    });
+  });
+
+  describe('perft', () => {
+    for (const backend of BACKENDS) {
+      it(
+        `should match reference counts with the ${backend} backend`,
+        () => {
+          const game = chess960Game(
+            'bqnb1rkr/pp3ppp/3ppn2/2p5/5P2/P2P4/NPP1P1PP/BQ1BNRKR w HFhf - 2 9',
+            backend
+          );
+          expect(perft(game, 3).nodes).toBe(12189);
+          expect(
+            perft(
+              chess960Game(
+                '2nnrbkr/p1qppppp/8/1ppb4/6PP/3PP3/PPP2P2/BQNNRBKR w HEhe - 1 9',
+                backend
+              ),
+              2
+            ).nodes
+          ).toBe(807);
+          expect(
+            perft(
+              chess960Game(
+                'qbbnnrkr/2pp2pp/p7/1p2pp2/8/P3PP2/1PPP1KPP/QBBNNR1R w hf - 0 9',
+                backend
+              ),
+              2
+            ).nodes
+          ).toBe(593);
+        },
+        PERFT_TIMEOUT
+      );
+    }
+  });
+
+  describe('castling', () => {
+    for (const backend of BACKENDS) {
+      it(`should encode castling as king takes rook with the ${backend} backend`, () => {
+        const game = chess960Game(INNER_ROOKS, backend);
+        const castles = game
+          .getLegalMoves()
+          .filter((move) => move.castling)
+          .map(moveToUci)
+          .sort();
+        expect(castles).toEqual(['e1b1', 'e1g1']);
+      });
+
+      it(`should not castle into a check the rook was screening with the ${backend} backend`, () => {
+        // Castling queenside would uncover the a1 rook against the king on c1
+        const game = chess960Game('4k3/8/8/8/8/8/8/rRK5 w B - 0 1', backend);
+        expect(game.getLegalMoves().some((move) => move.castling)).toBe(false);
+      });
+    }
+
+    it('should place king and rook on their castling squares', () => {
+      const game = chess960Game(INNER_ROOKS);
+
+      const kingside = game.move({ from: 'e1', to: 'g1' });
+      expect(kingside?.castling).toBe('kingside');
+      expect(kingside?.captured).toBeUndefined();
+      expect(kingside?.san).toBe('O-O');
+
+      const queenside = game.move({ from: 'e8', to: 'b8' });
+      expect(queenside?.castling).toBe('queenside');
+      expect(game.getFen()).toBe('2kr2r1/pppppppp/8/8/8/8/PPPPPPPP/1R3RK1 w - - 2 2');
+    });
+
+    it('should castle when the king already stands on its destination', () => {
+      const game = chess960Game('4k3/8/8/8/8/8/8/6KR w H - 0 1');
+      game.move({ from: 'g1', to: 'h1' });
+      expect(game.getFen()).toBe('4k3/8/8/8/8/8/8/5RK1 b - - 1 1');
+    });
+
+    it("should accept the king's destination square", () => {
+      const game = chess960Game(INNER_ROOKS);
+      const move = game.move({ from: 'e1', to: 'c1' });
+
+      expect(move?.castling).toBe('queenside');
+      expect(move?.to).toBe('b1');
+      expect(game.getBoard().getPiece('c1')?.type).toBe('king');
+      expect(game.getBoard().getPiece('d1')?.type).toBe('rook');
+    });
+
+    it('should undo castling exactly', () => {
+      for (const backend of BACKENDS) {
+        const game = chess960Game(INNER_ROOKS, backend);
+        game.move({ from: 'e1', to: 'g1' });
+        game.undo();
+        expect(game.getFen()).toBe(INNER_ROOKS);
+      }
+    });
+
+    it('should drop the right when the castling rook moves', () => {
+      const game = chess960Game(INNER_ROOKS);
+      game.move({ from: 'b1', to: 'a1' });
+      expect(game.getCastlingRights().whiteQueenside).toBe(false);
+      expect(game.getCastlingRights().whiteKingside).toBe(true);
+    });
+  });
+
+  describe('FEN castling notation', () => {
+    it('should read Shredder-FEN rook files', () => {
+      const { castlingRights } = FenParser.parse(
+        'bqnb1rkr/pp3ppp/3ppn2/2p5/5P2/P2P4/NPP1P1PP/BQ1BNRKR w HFhf - 2 9'
+      );
+      expect(castlingRights.rookFiles).toEqual({
+        whiteKingside: 'h',
+        whiteQueenside: 'f',
+        blackKingside: 'h',
+        blackQueenside: 'f',
+      });
+    });
+
+    it('should resolve X-FEN letters to the outermost rook', () => {
+      const { castlingRights } = FenParser.parse(INNER_ROOKS);
+      expect(castlingRights.rookFiles).toEqual({
+        whiteKingside: 'g',
+        whiteQueenside: 'b',
+        blackKingside: 'g',
+        blackQueenside: 'b',
+      });
+    });
+
+    it('should use a file letter for an inner rook in X-FEN', () => {
+      const fen = '1k4rr/8/8/8/8/8/8/1K4RR w Gg - 0 1';
+      const data = FenParser.parse(fen);
+      expect(data.castlingRights.rookFiles?.whiteKingside).toBe('g');
+
+      const generated = FenParser.generate(
+        data.board,
+        data.turn,
+        data.castlingRights,
+        data.enPassantSquare,
+        data.halfMoveClock,
+        data.fullMoveNumber
+      );
+      expect(generated).toBe(fen);
+    });
+
+    it('should generate Shredder-FEN on request', () => {
+      const data = FenParser.parse(INNER_ROOKS);
+      const generated = FenParser.generate(
+        data.board,
+        data.turn,
+        data.castlingRights,
+        data.enPassantSquare,
+        data.halfMoveClock,
+        data.fullMoveNumber,
+        { castlingNotation: 'shredder' }
+      );
+      expect(generated).toBe('1r2k1r1/pppppppp/8/8/8/8/PPPPPPPP/1R2K1R1 w GBgb - 0 1');
+      expect(FenParser.parse(generated).castlingRights).toEqual(data.castlingRights);
+    });
+
+    it('should keep standard castling rights free of rook files', () => {
+      const { castlingRights } = FenParser.parse(
+        'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w HAha - 0 1'
+      );
+      expect(castlingRights.rookFiles).toBeUndefined();
+      expect(castlingRights.whiteKingside).toBe(true);
+    });
+  });
+
+  describe('PGN', () => {
+    const pgn = [
+      '[Event "?"]',
+      '[Variant "Chess960"]',
+      '[SetUp "1"]',
+      `[FEN "${INNER_ROOKS}"]`,
+      '',
+      '1. O-O O-O-O 2. Rfe1 *',
+    ].join('\n');
+
+    it('should load a game with the Variant tag', () => {
+      const game = PgnParser.loadGame(pgn);
+      expect(game?.getVariant()).toBe('chess960');
+      expect(game?.getFen()).toBe('2kr2r1/pppppppp/8/8/8/8/PPPPPPPP/1R2R1K1 b - - 3 2');
+    });
+
+    it('should write the Variant, SetUp and FEN tags', () => {
+      const game = PgnParser.loadGame(pgn);
+      expect(game).not.toBeNull();
+      if (!game) return;
+
+      const output = PgnParser.generate(game);
+      expect(output).toContain('[Variant "Chess960"]');
+      expect(output).toContain('[SetUp "1"]');
+      expect(output).toContain(`[FEN "${INNER_ROOKS}"]`);
+      expect(output).toContain('1. O-O O-O-O 2. Rfe1');
+
+      expect(PgnParser.loadGame(output)?.getFen()).toBe(game.getFen());
+    });
+  });
+});
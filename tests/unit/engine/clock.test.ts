@@ -0,0 +1,263 @@
+/**
+ * Chess Clock Tests
+ *
+ * Tests TimeControl tag parsing, the increment and delay modes, multi-period
+ * controls, flag falls and the clock integration in Game and PGN export.
+ */
+
+import { describe, expect, it } from '@jest/globals';
+import { ChessClock, formatClockTime, formatTimeControl, parseTimeControl } from '@/engine/clock';
+import { Game } from '@/engine/game';
+import { PgnParser } from '@/engine/pgn';
+import type { ClockMode } from '@/types/index';
+
+/**
+ * Manually advanced time source
+ */
+class FakeTime {
+  public ms = 0;
+  public readonly now = (): number => this.ms;
+
+  public advance(seconds: number): void {
+    this.ms += seconds * 1000;
+  }
+}
+
+/**
+ * Create a clock driven by a fake time source
+ */
+function createClock(
+  timeControl: string,
+  mode: ClockMode = 'increment'
+): { clock: ChessClock; time: FakeTime } {
+  const time = new FakeTime();
+  const clock = new ChessClock(timeControl, { mode, now: time.now });
+  return { clock, time };
+}
+
+describe('ChessClock', () => {
+  describe('time control tags', () => {
+    it('should parse sudden death, increment and multi-period controls', () => {
+      expect(parseTimeControl('300')).toEqual({
+        stages: [{ time: 300000, increment: 0 }],
+        mode: 'increment',
+      });
+      expect(parseTimeControl('180+2').stages).toEqual([{ time: 180000, increment: 2000 }]);
+      expect(parseTimeControl('40/7200:3600+30', 'bronstein')).toEqual({
+        stages: [
+          { moves: 40, time: 7200000, increment: 0 },
+          { time: 3600000, increment: 30000 },
+        ],
+        mode: 'bronstein',
+      });
+    });
+
+    it('should reject unknown, untimed and malformed controls', () => {
+      for (const value of ['?', '-', '*180', '5 min', '40/', '0/300']) {
+        expect(() => parseTimeControl(value)).toThrow('Invalid time control');
+      }
+    });
+
+    it('should write controls back in tag format', () => {
+      for (const value of ['300', '180+2', '40/7200:3600+30', '40/5400+30:1800+30']) {
+        expect(formatTimeControl(parseTimeControl(value))).toBe(value);
+      }
+    });
+
+    it('should format %clk times', () => {
+      expect(formatClockTime(3723000)).toBe('1:02:03');
+      expect(formatClockTime(59999)).toBe('0:00:59');
+      expect(formatClockTime(-500)).toBe('0:00:00');
+    });
+  });
+
+  describe('timing', () => {
+    it('should add a Fischer increment after every move', () => {
+      const { clock, time } = createClock('60+2');
+
+      // The first press starts the opponent's clock without charging time
+      expect(clock.press('white')).toBe(62000);
+      expect(clock.getRunning()).toBe('black');
+
+      time.advance(5);
+      expect(clock.getRemaining('black')).toBe(55000);
+      expect(clock.press('black')).toBe(57000);
+    });
+
+    it('should give back at most the Bronstein delay', () => {
+      const { clock, time } = createClock('60+2', 'bronstein');
+      clock.start('white');
+
+      time.advance(1);
+      expect(clock.press('white')).toBe(60000);
+
+      time.advance(5);
+      expect(clock.press('black')).toBe(57000);
+    });
+
+    it('should not count down during a simple delay', () => {
+      const { clock, time } = createClock('60+2', 'delay');
+      clock.start('white');
+
+      time.advance(1.5);
+      expect(clock.getRemaining('white')).toBe(60000);
+      expect(clock.press('white')).toBe(60000);
+
+      time.advance(5);
+      expect(clock.getRemaining('black')).toBe(57000);
+      expect(clock.press('black')).toBe(57000);
+    });
+
+    it('should add the next period after the required moves', () => {
+      const { clock, time } = createClock('2/60:30');
+      clock.start('white');
+
+      time.advance(10);
+      clock.press('white');
+      clock.press('black');
+      time.advance(10);
+      expect(clock.press('white')).toBe(70000);
+      expect(clock.getMoveCount('white')).toBe(2);
+    });
+
+    it('should pause and resume the running clock', () => {
+      const { clock, time } = createClock('60');
+      clock.start('white');
+
+      time.advance(5);
+      clock.pause();
+      time.advance(100);
+      expect(clock.isPaused()).toBe(true);
+      expect(clock.getRemaining('white')).toBe(55000);
+
+      clock.resume();
+      time.advance(5);
+      expect(clock.getRemaining('white')).toBe(50000);
+    });
+
+    it('should refuse a press by the player not on move', () => {
+      const { clock } = createClock('60');
+      clock.start('white');
+      expect(() => clock.press('black')).toThrow("It is not black's move");
+    });
+  });
+
+  describe('flag fall', () => {
+    it('should stop the clock when a flag falls', () => {
+      const { clock, time } = createClock('10');
+      clock.start('white');
+
+      time.advance(9);
+      expect(clock.getFlagged()).toBeNull();
+
+      time.advance(2);
+      expect(clock.getFlagged()).toBe('white');
+      expect(clock.getRemaining('white')).toBe(0);
+      expect(clock.getRunning()).toBeNull();
+    });
+
+    it('should end the game on time when the flag falls before a move', () => {
+      const game = new Game();
+      const { clock, time } = createClock('10');
+      game.setClock(clock);
+
+      game.move({ from: 'e2', to: 'e4' });
+      time.advance(11);
+
+      expect(game.move({ from: 'e7', to: 'e5' })).toBeNull();
+      expect(game.getStatus()).toBe('timeout');
+      expect(game.getResult()).toEqual({ result: '1-0', winner: 'white', termination: 'timeout' });
+    });
+
+    it('should draw on time when the opponent cannot mate', () => {
+      const game = new Game({ fen: '4k3/8/8/8/8/8/8/Q3K3 w - - 0 1' });
+      const { clock, time } = createClock('10');
+      game.setClock(clock);
+
+      clock.start('white');
+      time.advance(11);
+
+      expect(game.checkTime()).toBe(true);
+      expect(game.getResult().result).toBe('1/2-1/2');
+    });
+  });
+
+  describe('game integration', () => {
+    it('should create a clock from the game configuration', () => {
+      const game = new Game({ timeControl: '300+3' });
+      expect(game.getClock()?.getTimeControl().stages).toEqual([{ time: 300000, increment: 3000 }]);
+      expect(new Game().getClock()).toBeNull();
+    });
+
+    it('should record the time left on every move', () => {
+      const game = new Game();
+      const { clock, time } = createClock('300+3');
+      game.setClock(clock);
+
+      game.move({ from: 'e2', to: 'e4' });
+      time.advance(7);
+      const reply = game.move({ from: 'e7', to: 'e5' });
+
+      expect(reply?.clock).toBe(296000);
+    });
+
+    it('should stop the clock when the game ends', () => {
+      const game = new Game();
+      const { clock } = createClock('300');
+      game.setClock(clock);
+
+      game.move({ from: 'e2', to: 'e4' });
+      game.resign('black');
+      expect(clock.getRunning()).toBeNull();
+    });
+
+    it('should take back the clock press on undo', () => {
+      const game = new Game();
+      const { clock, time } = createClock('300+3');
+      game.setClock(clock);
+
+      game.move('e4');
+      game.move('e5');
+      time.advance(4);
+      expect(game.undo()?.san).toBe('e5');
+      expect(clock.getRunning()).toBe('black');
+      expect(clock.getRemaining('white')).toBe(299000);
+      expect(game.move('e5')?.clock).toBe(303000);
+
+      // Undoing the first move leaves the clock waiting for it
+      game.undo(2);
+      expect(clock.getRunning()).toBeNull();
+      expect(game.move('e4')).not.toBeNull();
+      expect(game.getFen()).toBe('rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq e3 0 1');
+    });
+
+    it('should press the clock on redo', () => {
+      const game = new Game();
+      const { clock, time } = createClock('300+3');
+      game.setClock(clock);
+
+      game.move('e4');
+      game.undo();
+      time.advance(10);
+      expect(game.redo()?.clock).toBe(303000);
+      expect(clock.getRunning()).toBe('black');
+      expect(game.move('e5')).not.toBeNull();
+      expect(clock.getRunning()).toBe('white');
+    });
+
+    it('should export the time control and %clk comments', () => {
+      const game = new Game();
+      const { clock, time } = createClock('300+3');
+      game.setClock(clock);
+
+      game.move({ from: 'e2', to: 'e4' });
+      time.advance(7);
+      game.move({ from: 'e7', to: 'e5' });
+
+      const pgn = PgnParser.generate(game);
+      expect(pgn).toContain('[TimeControl "300+3"]');
+      expect(pgn).toContain('1. e4 {[%clk 0:05:03]} 1... e5 {[%clk 0:04:56]}');
+      expect(PgnParser.loadGame(pgn)?.getFen()).toBe(game.getFen());
+    });
+  });
+});
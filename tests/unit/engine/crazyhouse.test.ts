@@ -0,0 +1,206 @@
+/**
+ * Crazyhouse Tests
+ *
+ * Tests pockets, drop moves and their legality, promoted-piece tracking,
+ * the FEN pocket suffix, SAN drop notation and Bughouse pocket hand-over.
+ */
+
+import { describe, expect, it } from '@jest/globals';
+import { Game } from '@/engine/game';
+import { FenParser } from '@/engine/fen';
+import { PgnParser } from '@/engine/pgn';
+import { perft, moveToUci } from '@/engine/perft';
+import { DROP_SQUARE } from '@/engine/pockets';
+
+const PERFT_TIMEOUT = 30000;
+
+// Bare kings with one of every piece in each pocket
+const FULL_POCKETS = '2k5/8/8/8/8/8/8/4K3[QRBNPqrbnp] w - - 0 1';
+
+describe('Crazyhouse', () => {
+  describe('FEN', () => {
+    it('should write empty pockets in the starting position', () => {
+      const game = new Game({ variant: 'crazyhouse' });
+      expect(game.getFen()).toBe('rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR[] w KQkq - 0 1');
+    });
+
+    it('should read pockets in brackets and as a ninth rank', () => {
+      const bracketed = FenParser.parse('4k3/8/8/8/8/8/8/4K3[QNPpp] w - - 0 1');
+      const ninthRank = FenParser.parse('4k3/8/8/8/8/8/8/4K3/QNPpp w - - 0 1');
+
+      for (const data of [bracketed, ninthRank]) {
+        expect(data.pockets?.white).toEqual({ queen: 1, rook: 0, bishop: 0, knight: 1, pawn: 1 });
+        expect(data.pockets?.black).toEqual({ queen: 0, rook: 0, bishop: 0, knight: 0, pawn: 2 });
+      }
+
+      const game = new Game({ variant: 'crazyhouse', fen: '4k3/8/8/8/8/8/8/4K3/QNPpp w - - 0 1' });
+      expect(game.getFen()).toBe('4k3/8/8/8/8/8/8/4K3[QNPpp] w - - 0 1');
+    });
+
+    it('should read and write promoted pieces', () => {
+      const fen = 'k2r4/8/8/8/8/8/8/K2Q~4[] b - - 0 1';
+      expect(FenParser.parse(fen).promoted).toEqual(['d1']);
+      expect(new Game({ variant: 'crazyhouse', fen }).getFen()).toBe(fen);
+    });
+
+    it('should reject kings in hand and stray promotion markers', () => {
+      expect(FenParser.validate('4k3/8/8/8/8/8/8/4K3[K] w - - 0 1')).toBe(false);
+      expect(FenParser.validate('4k3/8/8/8/8/8/8/~4K3[] w - - 0 1')).toBe(false);
+    });
+  });
+
+  describe('pockets', () => {
+    it("should put captured pieces into the capturer's pocket", () => {
+      const game = new Game({ variant: 'crazyhouse' });
+      game.move({ from: 'e2', to: 'e4' });
+      game.move({ from: 'd7', to: 'd5' });
+      game.move({ from: 'e4', to: 'd5' });
+
+      expect(game.getPockets().white.pawn).toBe(1);
+      expect(game.getFen()).toContain('[P] b');
+    });
+
+    it('should turn captured promoted pieces back into pawns', () => {
+      const game = new Game({
+        variant: 'crazyhouse',
+        fen: 'k2r4/8/8/8/8/8/8/K2Q~4[] b - - 0 1',
+      });
+
+      game.move({ from: 'd8', to: 'd1' });
+
+      expect(game.getPockets().black).toEqual({ queen: 0, rook: 0, bishop: 0, knight: 0, pawn: 1 });
+      expect(game.getPromotedSquares()).toEqual([]);
+    });
+
+    it('should mark promoted pieces and follow them as they move', () => {
+      const game = new Game({ variant: 'crazyhouse', fen: 'k7/4P3/8/8/8/8/8/K7[] w - - 0 1' });
+
+      game.move({ from: 'e7', to: 'e8', promotion: 'queen' });
+      expect(game.getFen()).toBe('k3Q~3/8/8/8/8/8/8/K7[] b - - 0 1');
+
+      game.move({ from: 'a8', to: 'b7' });
+      game.move({ from: 'e8', to: 'e4' });
+      expect(game.getPromotedSquares()).toEqual(['e4']);
+    });
+  });
+
+  describe('drops', () => {
+    it('should drop a piece from the pocket', () => {
+      const game = new Game({ variant: 'crazyhouse', fen: '4k3/8/8/8/8/8/8/4K3[N] w - - 0 1' });
+
+      const move = game.move({ from: DROP_SQUARE, to: 'f3', drop: 'knight' });
+
+      expect(move?.san).toBe('N@f3');
+      expect(move && moveToUci(move)).toBe('N@f3');
+      expect(game.getBoard().getPiece('f3')).toEqual({ type: 'knight', color: 'white' });
+      expect(game.getPockets().white.knight).toBe(0);
+    });
+
+    it('should take back a drop exactly', () => {
+      const fen = '4k3/8/8/8/8/8/8/4K3[N] w - - 0 1';
+      const game = new Game({ variant: 'crazyhouse', fen });
+      const hash = game.getHash();
+
+      game.move({ from: DROP_SQUARE, to: 'f3', drop: 'knight' });
+      game.undo();
+
+      expect(game.getFen()).toBe(fen);
+      expect(game.getHash()).toBe(hash);
+    });
+
+    it('should redo an undone drop', () => {
+      const game = new Game({ variant: 'crazyhouse' });
+      for (const san of ['e4', 'd5', 'exd5', 'Qxd5', 'Nc3', 'Qa5', 'P@e4']) {
+        game.move(san);
+      }
+      const fen = game.getFen();
+
+      expect(game.undo()?.drop).toBe('pawn');
+      expect(game.redo()?.san).toBe('P@e4');
+      expect(game.getFen()).toBe(fen);
+      expect(game.canRedo()).toBe(false);
+    });
+
+    it('should not drop pawns on the first or eighth rank', () => {
+      const game = new Game({ variant: 'crazyhouse', fen: '4k3/8/8/8/8/8/8/4K3[P] w - - 0 1' });
+      const drops = game.getLegalMoves().filter((move) => move.drop);
+
+      expect(drops).toHaveLength(48);
+      expect(game.move({ from: DROP_SQUARE, to: 'a8', drop: 'pawn' })).toBeNull();
+      expect(game.move({ from: DROP_SQUARE, to: 'a1', drop: 'pawn' })).toBeNull();
+    });
+
+    it('should not drop pieces that are not in hand or onto occupied squares', () => {
+      const game = new Game({ variant: 'crazyhouse', fen: '4k3/8/8/8/8/8/8/4K3[N] w - - 0 1' });
+      expect(game.move({ from: DROP_SQUARE, to: 'f3', drop: 'queen' })).toBeNull();
+      expect(game.move({ from: DROP_SQUARE, to: 'e1', drop: 'knight' })).toBeNull();
+    });
+
+    it('should block a check with a drop instead of being mated', () => {
+      const game = new Game({ variant: 'crazyhouse', fen: 'k7/8/8/8/8/8/5PPP/r5K1[B] w - - 0 1' });
+
+      expect(game.getStatus()).toBe('check');
+      expect(game.getLegalMoves().map((move) => move.san ?? moveToUci(move))).toEqual(
+        expect.arrayContaining(['B@b1', 'B@f1'])
+      );
+      expect(game.getLegalMoves().every((move) => move.drop)).toBe(true);
+    });
+
+    it(
+      'should match reference perft counts',
+      () => {
+        const start = new Game({ variant: 'crazyhouse' });
+        expect(perft(start, 3).nodes).toBe(8902);
+
+        const pockets = new Game({ variant: 'crazyhouse', fen: FULL_POCKETS });
+        expect(perft(pockets, 1).nodes).toBe(301);
+      },
+      PERFT_TIMEOUT
+    );
+  });
+
+  describe('PGN', () => {
+    it('should write and replay drops', () => {
+      const game = new Game({ variant: 'crazyhouse' });
+      for (const san of ['e4', 'd5', 'exd5', 'Qxd5', 'Nc3', 'Qa5', 'P@b4']) {
+        expect(PgnParser.applySanMove(game, san)).toBe(true);
+      }
+
+      const pgn = PgnParser.generate(game);
+      expect(pgn).toContain('[Variant "Crazyhouse"]');
+      expect(pgn).toContain('4. P@b4');
+
+      const loaded = PgnParser.loadGame(pgn);
+      expect(loaded?.getFen()).toBe(game.getFen());
+    });
+
+    it('should accept pawn drops without a piece letter', () => {
+      const game = new Game({ variant: 'crazyhouse', fen: '4k3/8/8/8/8/8/8/4K3[P] w - - 0 1' });
+      expect(PgnParser.applySanMove(game, '@e4')).toBe(true);
+      expect(game.getBoard().getPiece('e4')).toEqual({ type: 'pawn', color: 'white' });
+    });
+  });
+
+  describe('Bughouse', () => {
+    it('should leave captured pieces for the partner', () => {
+      const game = new Game({ variant: 'bughouse' });
+      game.move({ from: 'e2', to: 'e4' });
+      game.move({ from: 'd7', to: 'd5' });
+      game.move({ from: 'e4', to: 'd5' });
+
+      expect(game.getPockets().white.pawn).toBe(0);
+    });
+
+    it('should accept pieces handed over by the partner', () => {
+      const game = new Game({ variant: 'bughouse' });
+
+      expect(game.addToPocket('white', 'knight')).toBe(true);
+      expect(game.getFen()).toBe('rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR[N] w KQkq - 0 1');
+      expect(game.move({ from: DROP_SQUARE, to: 'e4', drop: 'knight' })?.san).toBe('N@e4');
+    });
+
+    it('should not add pieces in hand outside drop variants', () => {
+      expect(new Game().addToPocket('white', 'knight')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Dead Position Tests
+ *
+ * Tests insufficient material with any number of same-colored bishops,
+ * helpmate-aware flag-fall results and locked pawn structures.
+ */
+
+import { describe, expect, it } from '@jest/globals';
+import { Game } from '@/engine/game';
+import { FenParser } from '@/engine/fen';
+import type { Board } from '@/engine/board';
+import {
+  canCheckmate,
+  isDeadPosition,
+  isInsufficientMaterial,
+  isLockedPosition,
+  isTimeoutDraw,
+} from '@/engine/dead-position';
+
+/**
+ * Build a board from the piece placement of a FEN
+ */
+function boardFrom(fen: string): Board {
+  return FenParser.parse(fen).board;
+}
+
+// Kings and pawns locked along the fourth and fifth ranks
+const LOCKED = '8/8/4k3/1p1p1p1p/1P1P1P1P/4K3/8/8 w - - 0 1';
+
+describe('Dead position', () => {
+  describe('insufficient material', () => {
+    it('should detect bare kings and single minor pieces', () => {
+      expect(isInsufficientMaterial(boardFrom('4k3/8/8/8/8/8/8/4K3 w - - 0 1'))).toBe(true);
+      expect(isInsufficientMaterial(boardFrom('4k3/8/8/8/8/8/8/2B1K3 w - - 0 1'))).toBe(true);
+      expect(isInsufficientMaterial(boardFrom('4k3/8/8/8/8/8/8/1N2K3 w - - 0 1'))).toBe(true);
+    });
+
+    it('should detect any number of bishops on squares of one color', () => {
+      // c1, e3, g5 and f8 are all dark squares
+      expect(isInsufficientMaterial(boardFrom('4k3/8/8/6B1/8/4B3/8/2B1K3 w - - 0 1'))).toBe(true);
+      expect(isInsufficientMaterial(boardFrom('4kb2/8/8/6B1/8/4b3/8/2B1K3 w - - 0 1'))).toBe(true);
+    });
+
+    it('should not treat opposite-colored bishops as insufficient', () => {
+      expect(isInsufficientMaterial(boardFrom('2b1k3/8/8/8/8/8/8/2B1K3 w - - 0 1'))).toBe(false);
+      expect(isInsufficientMaterial(boardFrom('4k3/8/8/8/8/8/8/2BBK3 w - - 0 1'))).toBe(false);
+    });
+
+    it('should count helpmates with a blocking piece', () => {
+      // Two knights can mate a bare king if it walks into the corner
+      expect(canCheckmate(boardFrom('4k3/8/8/8/8/8/8/1N2K1N1 w - - 0 1'), 'white')).toBe(true);
+      // A lone knight needs an enemy piece to block its own king
+      expect(canCheckmate(boardFrom('4k3/8/8/8/8/8/8/1N2K3 w - - 0 1'), 'white')).toBe(false);
+      expect(canCheckmate(boardFrom('4k3/p7/8/8/8/8/8/1N2K3 w - - 0 1'), 'white')).toBe(true);
+      // Same-colored bishops cannot mate with same-colored bishops around
+      expect(canCheckmate(boardFrom('4kb2/8/8/8/8/8/8/2B1K3 w - - 0 1'), 'white')).toBe(false);
+      expect(canCheckmate(boardFrom('4k3/4n3/8/8/8/8/8/2B1K3 w - - 0 1'), 'white')).toBe(true);
+    });
+  });
+
+  describe('timeout', () => {
+    it('should only draw when the opponent cannot mate', () => {
+      const board = boardFrom('4k3/8/8/8/8/8/8/1N2K1N1 w - - 0 1');
+
+      expect(isTimeoutDraw(board, 'white')).toBe(true);
+      expect(isTimeoutDraw(board, 'black')).toBe(false);
+    });
+
+    it('should lose on time against a lone knight when there are blockers', () => {
+      const board = boardFrom('4k3/p7/8/8/8/8/8/1N2K3 w - - 0 1');
+      expect(isTimeoutDraw(board, 'black')).toBe(false);
+      expect(isInsufficientMaterial(board)).toBe(false);
+    });
+
+    it('should be exposed on the game', () => {
+      const game = new Game({ fen: '4k3/8/8/8/8/8/8/Q3K3 w - - 0 1' });
+      expect(game.isDrawOnTimeout('white')).toBe(true);
+      expect(game.isDrawOnTimeout('black')).toBe(false);
+    });
+  });
+
+  describe('locked pawns', () => {
+    it('should detect a fully blocked pawn chain', () => {
+      expect(isLockedPosition(boardFrom(LOCKED))).toBe(true);
+      expect(isDeadPosition(boardFrom(LOCKED))).toBe(true);
+    });
+
+    it('should not be dead when a king can break through', () => {
+      const open = '8/8/4k3/1p1p1p2/1P1P1P2/4K3/8/8 w - - 0 1';
+      expect(isLockedPosition(boardFrom(open))).toBe(false);
+    });
+
+    it('should not be dead when a pawn can still capture or move', () => {
+      expect(isLockedPosition(boardFrom('8/8/4k3/1p1p1p1p/1P1P1PP1/4K3/8/8 w - - 0 1'))).toBe(
+        false
+      );
+      expect(isLockedPosition(boardFrom('8/8/4k3/1p1p1p2/1P1P1P1P/4K3/8/8 w - - 0 1'))).toBe(false);
+    });
+
+    it('should not be dead with other pieces or an en passant capture', () => {
+      expect(isLockedPosition(boardFrom('8/8/4k3/1p1p1p1p/1P1P1P1P/4K3/8/7R w - - 0 1'))).toBe(
+        false
+      );
+      expect(isLockedPosition(boardFrom(LOCKED), 'e6')).toBe(false);
+    });
+  });
+
+  describe('game status', () => {
+    it('should end the game in a dead position', () => {
+      const game = new Game({ fen: LOCKED });
+      expect(game.isDeadPosition()).toBe(true);
+      expect(game.isInsufficientMaterial()).toBe(false);
+      expect(game.getStatus()).toBe('dead_position');
+      expect(game.isGameOver()).toBe(true);
+    });
+
+    it('should end the game when a capture leaves same-colored bishops', () => {
+      const game = new Game({ fen: '4k3/8/8/8/8/4b3/3N4/4KB2 b - - 0 1' });
+      game.move({ from: 'e3', to: 'd2' });
+      expect(game.isGameOver()).toBe(false);
+
+      const sameColor = new Game({ fen: '4k3/8/8/6B1/8/4b3/3N4/2B1K3 b - - 0 1' });
+      sameColor.move({ from: 'e3', to: 'd2' });
+      expect(sameColor.getStatus()).toBe('insufficient_material');
+    });
+
+    it('should not apply in variants without insufficient material draws', () => {
+      const game = new Game({ variant: 'antichess', fen: LOCKED });
+      expect(game.isDeadPosition()).toBe(false);
+      expect(game.isDrawOnTimeout('white')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * EPD Parser Tests
+ *
+ * Tests reading and writing EPD records and their operations, and loading
+ * multi-line EPD files.
+ */
+
+import { describe, expect, it } from '@jest/globals';
+import { EpdParser, loadEpdFile } from '@/engine/epd';
+import { InvalidEpdError, InvalidFenError } from '@/utils/errors';
+
+const RUY_LOPEZ = 'r1bqkbnr/pppp1ppp/2n5/4p3/4P3/5N2/PPPP1PPP/RNBQKB1R w KQkq -';
+
+describe('EpdParser', () => {
+  describe('parse', () => {
+    it('should read the position and operations', () => {
+      const record = EpdParser.parse(
+        '1k1r4/pp1b1R2/3q2pp/4p3/2B5/4Q3/PPP2B2/2K5 b - - bm Qd1+; id "BK.01";'
+      );
+
+      expect(record.fen).toBe('1k1r4/pp1b1R2/3q2pp/4p3/2B5/4Q3/PPP2B2/2K5 b - - 0 1');
+      expect(record.operations).toEqual({ bm: ['Qd1+'], id: ['BK.01'] });
+    });
+
+    it('should read several operands, quoted strings and the clocks', () => {
+      const record = EpdParser.parse(
+        `${RUY_LOPEZ} acd 5; ce 32; pv Bb5 a6 Ba4; hmvc 2; fmvn 3; c0 "Ruy Lopez; main line"`
+      );
+
+      expect(record.fen).toBe(`${RUY_LOPEZ} 2 3`);
+      expect(record.operations).toEqual({
+        acd: ['5'],
+        ce: ['32'],
+        pv: ['Bb5', 'a6', 'Ba4'],
+        hmvc: ['2'],
+        fmvn: ['3'],
+        c0: ['Ruy Lopez; main line'],
+      });
+    });
+
+    it('should reject malformed records', () => {
+      expect(() => EpdParser.parse('rnbqkbnr w')).toThrow(InvalidEpdError);
+      expect(() => EpdParser.parse(`${RUY_LOPEZ} id "open;`)).toThrow('unterminated string');
+      expect(() => EpdParser.parse(`${RUY_LOPEZ} 1bm e4;`)).toThrow("invalid opcode '1bm'");
+      expect(() => EpdParser.parse('8/8/8/8/8/8/8/8 x - - bm e4;')).toThrow(InvalidFenError);
+    });
+  });
+
+  describe('generate', () => {
+    it('should write the first four FEN fields and the operations', () => {
+      const epd = EpdParser.generate(`${RUY_LOPEZ} 2 3`, {
+        bm: ['Bb5', 'Bc4'],
+        id: ['test 1'],
+        c0: [''],
+      });
+
+      expect(epd).toBe(`${RUY_LOPEZ} bm Bb5 Bc4; id "test 1"; c0 "";`);
+      expect(EpdParser.parse(epd).operations).toEqual({
+        bm: ['Bb5', 'Bc4'],
+        id: ['test 1'],
+        c0: [''],
+      });
+    });
+  });
+
+  describe('files', () => {
+    it('should read every record, skipping blank and comment lines', () => {
+      const records = EpdParser.parseAll(
+        `# Two positions\n\n${RUY_LOPEZ} bm Bb5; id "1";\r\n${RUY_LOPEZ} bm Bc4; id "2";\n`
+      );
+
+      expect(records.map((record) => record.operations['id'])).toEqual([['1'], ['2']]);
+    });
+
+    it('should name the line of a malformed record', () => {
+      expect(() => EpdParser.parseAll(`${RUY_LOPEZ} bm Bb5;\n\nbroken`)).toThrow(
+        expect.objectContaining({ code: 'INVALID_EPD', context: { line: 3, value: 'broken' } })
+      );
+    });
+
+    it('should reject a file that cannot be read', async () => {
+      await expect(loadEpdFile('/nonexistent/suite.epd')).rejects.toBeInstanceOf(InvalidEpdError);
+    });
+  });
+});
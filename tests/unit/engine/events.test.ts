@@ -0,0 +1,194 @@
+/**
+ * Game Event Tests
+ *
+ * Tests the typed on/off/once emitter and the events Game emits for moves,
+ * takebacks, loaded positions and game endings.
+ */
+
+import { describe, expect, it } from '@jest/globals';
+import { TypedEventEmitter } from '@/engine/events';
+import { Game } from '@/engine/game';
+import type { GameEventMap } from '@/types/index';
+
+/**
+ * Record the names of all events a game emits
+ */
+function recordEvents(game: Game): string[] {
+  const names: (keyof GameEventMap)[] = [
+    'move',
+    'undo',
+    'check',
+    'capture',
+    'castle',
+    'promotion',
+    'gameOver',
+    'positionLoaded',
+  ];
+  const events: string[] = [];
+  for (const name of names) {
+    game.on(name, () => events.push(name));
+  }
+  return events;
+}
+
+describe('TypedEventEmitter', () => {
+  it('should call listeners in order with the payload', () => {
+    const emitter = new TypedEventEmitter<{ tick: number }>();
+    const calls: string[] = [];
+    emitter.on('tick', (n) => calls.push(`a${n}`)).on('tick', (n) => calls.push(`b${n}`));
+
+    expect(emitter.emit('tick', 1)).toBe(true);
+    expect(calls).toEqual(['a1', 'b1']);
+  });
+
+  it('should remove listeners with off() and after once()', () => {
+    const emitter = new TypedEventEmitter<{ tick: number }>();
+    const calls: number[] = [];
+    const listener = (n: number): void => {
+      calls.push(n);
+    };
+
+    emitter.once('tick', listener);
+    emitter.emit('tick', 1);
+    emitter.emit('tick', 2);
+
+    emitter.on('tick', listener);
+    emitter.off('tick', listener);
+    emitter.emit('tick', 3);
+
+    expect(calls).toEqual([1]);
+    expect(emitter.listenerCount('tick')).toBe(0);
+    expect(emitter.emit('tick', 4)).toBe(false);
+  });
+
+  it('should remove all listeners', () => {
+    const emitter = new TypedEventEmitter<{ a: void; b: void }>();
+    emitter.on('a', () => undefined).on('b', () => undefined);
+
+    emitter.removeAllListeners('a');
+    expect(emitter.listenerCount('a')).toBe(0);
+    expect(emitter.listenerCount('b')).toBe(1);
+
+    emitter.removeAllListeners();
+    expect(emitter.listenerCount('b')).toBe(0);
+  });
+});
+
+describe('Game events', () => {
+  it('should emit move with the played move', () => {
+    const game = new Game();
+    const moves: string[] = [];
+    game.on('move', (move) => moves.push(move.san ?? ''));
+
+    game.move({ from: 'e2', to: 'e4' });
+    game.move({ from: 'e2', to: 'e5' });
+
+    expect(moves).toEqual(['e4']);
+  });
+
+  it('should emit capture, castle and promotion with narrowed payloads', () => {
+    const captures: string[] = [];
+    const castles: string[] = [];
+    const promotions: string[] = [];
+
+    const game = new Game({ fen: 'r3k3/1P6/8/8/8/8/8/4K2R w Kq - 0 1' });
+    game.on('capture', (move) => captures.push(move.captured.type));
+    game.on('castle', (move) => castles.push(move.castling));
+    game.on('promotion', (move) => promotions.push(move.promotion));
+
+    game.move({ from: 'e1', to: 'g1' });
+    game.move({ from: 'e8', to: 'd7' });
+    game.move({ from: 'b7', to: 'a8', promotion: 'queen' });
+
+    expect(castles).toEqual(['kingside']);
+    expect(captures).toEqual(['rook']);
+    expect(promotions).toEqual(['queen']);
+  });
+
+  it('should emit check and gameOver on checkmate', () => {
+    const game = new Game();
+    const events = recordEvents(game);
+    let checked = '';
+    game.on('check', ({ color }) => (checked = color));
+    game.on('gameOver', ({ status, result }) => {
+      expect(status).toBe('checkmate');
+      expect(result.winner).toBe('black');
+    });
+
+    game.move({ from: 'f2', to: 'f3' });
+    game.move({ from: 'e7', to: 'e5' });
+    game.move({ from: 'g2', to: 'g4' });
+    game.move({ from: 'd8', to: 'h4' });
+
+    expect(events).toEqual(['move', 'move', 'move', 'move', 'check', 'gameOver']);
+    expect(checked).toBe('white');
+  });
+
+  it('should emit undo and replay moves on redo', () => {
+    const game = new Game();
+    game.move({ from: 'e2', to: 'e4' });
+    const events = recordEvents(game);
+
+    game.undo();
+    game.redo();
+
+    expect(events).toEqual(['undo', 'move']);
+  });
+
+  it('should emit gameOver for endings off the board', () => {
+    const game = new Game();
+    const terminations: (string | null)[] = [];
+    game.on('gameOver', ({ result }) => terminations.push(result.termination));
+
+    game.resign('white');
+    game.undo();
+    game.loadFen('4k3/8/8/8/8/8/8/R3K3 w - - 100 80');
+    game.claimDraw();
+
+    expect(terminations).toEqual(['resignation', 'draw_rule']);
+  });
+
+  it('should emit positionLoaded on loadFen and reset', () => {
+    const game = new Game();
+    const fens: string[] = [];
+    game.on('positionLoaded', ({ fen }) => fens.push(fen));
+
+    game.loadFen('4k3/8/8/8/8/8/8/4K3 w - - 0 1');
+    game.reset();
+
+    expect(fens).toEqual([
+      '4k3/8/8/8/8/8/8/4K3 w - - 0 1',
+      'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1',
+    ]);
+  });
+
+  it('should not emit events during search', () => {
+    const game = new Game();
+    const events = recordEvents(game);
+
+    const [move] = game.getLegalMoves();
+    if (move) {
+      game.makeMove(move);
+      game.unmakeMove();
+    }
+    game.canClaimDraw({ from: 'e2', to: 'e4' });
+
+    expect(events).toEqual([]);
+  });
+
+  it('should stop emitting to removed listeners', () => {
+    const game = new Game();
+    let count = 0;
+    const listener = (): void => {
+      count++;
+    };
+
+    game.once('move', listener);
+    game.move({ from: 'e2', to: 'e4' });
+    game.move({ from: 'e7', to: 'e5' });
+    game.on('move', listener).off('move', listener);
+    game.move({ from: 'g1', to: 'f3' });
+
+    expect(count).toBe(1);
+  });
+});
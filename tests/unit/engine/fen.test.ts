@@ -251,6 +251,76 @@ describe('FenParser', () => {
     });
   });
 
+  describe('diagnose', () => {
+    it('should find no issues in legal positions', () => {
+      const fens: Fen[] = [
+        FenParser.STARTING_POSITION,
+        'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq e3 0 1',
+        'r1bqkb1r/pppp1ppp/2n2n2/4p3/2B1P3/5N2/PPPP1PPP/RNBQK2R w KQkq - 4 4',
+        'bqnb1rkr/pppppppp/8/8/8/8/PPPPPPPP/BQNB1RKR w HFhf - 0 1',
+      ];
+
+      for (const fen of fens) {
+        expect(FenParser.diagnose(fen)).toEqual([]);
+      }
+    });
+
+    it('should report every malformed rank and missing field', () => {
+      expect(FenParser.diagnose('rnbqkbnr/ppppXppp/8/8/8/8/PPPPPPPP/RNBQKBN w')).toEqual([
+        { field: 2, message: 'Missing castling rights' },
+        { field: 3, message: 'Missing en passant square' },
+        { field: 4, message: 'Missing halfmove clock' },
+        { field: 5, message: 'Missing fullmove number' },
+        { field: 0, message: "Invalid piece letter 'X' in rank 7" },
+        { field: 0, message: 'Rank 1 has 7 squares, expected 8' },
+      ]);
+    });
+
+    it('should report kings, impossible material and pawns on back ranks', () => {
+      expect(FenParser.diagnose('k3k3/8/8/8/8/8/8/P7 w - - 0 1')).toEqual([
+        { field: 0, message: 'White has no king' },
+        { field: 0, message: 'White pawn on a1, a first or last rank' },
+        { field: 0, message: 'Black has 2 kings' },
+      ]);
+      expect(FenParser.diagnose('QQQ5/8/8/8/8/8/PPPPPPP1/k3K3 w - - 0 1')).toEqual([
+        { field: 0, message: 'White has 2 promoted pieces but only 1 missing pawns' },
+      ]);
+    });
+
+    it('should report checks no single move can give', () => {
+      expect(FenParser.diagnose('4r1k1/8/8/8/8/3n4/8/4K3 w - - 0 1')).toEqual([]);
+      expect(FenParser.diagnose('4r1k1/8/8/8/1b6/3n4/8/4K3 w - - 0 1')).toEqual([
+        { field: 1, message: 'White is in check from 3 pieces, at most 2 are possible' },
+      ]);
+      expect(FenParser.diagnose('k7/8/8/8/8/3n1n2/8/4K3 w - - 0 1')).toEqual([
+        { field: 1, message: 'White is in double check from d3 and f3, which no move can give' },
+      ]);
+      expect(FenParser.diagnose('6k1/8/8/8/8/8/8/r3K2r w - - 0 1')).toEqual([
+        { field: 1, message: 'White is in double check from a1 and h1, which no move can give' },
+      ]);
+    });
+
+    it('should report the side not to move in check', () => {
+      expect(FenParser.diagnose('4k3/8/8/8/8/8/8/4R1K1 w - - 0 1')).toEqual([
+        { field: 1, message: "Black is in check but it is white's move" },
+      ]);
+    });
+
+    it('should check castling rights, en passant and clocks against the position', () => {
+      expect(FenParser.diagnose('4k3/8/8/8/8/8/8/R3K3 b KQ e6 3 1')).toEqual([
+        { field: 2, message: "Castling right 'K' but there is no white rook on h1" },
+        { field: 3, message: 'En passant square e6 is impossible with black to move' },
+        { field: 4, message: 'Halfmove clock is 3 but must be 0 after a double pawn push' },
+        { field: 4, message: 'Halfmove clock 3 is more than the 1 half-moves played' },
+      ]);
+      expect(
+        FenParser.diagnose('rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR b KQkq e3 0 1')
+      ).toEqual([
+        { field: 3, message: 'En passant square e3 but no white pawn has just moved two squares' },
+      ]);
+    });
+  });
+
   describe('STARTING_POSITION', () => {
     it('should have correct starting position constant', () => {
       expect(FenParser.STARTING_POSITION).toBe(
@@ -0,0 +1,131 @@
+/**
+ * Game Tree Tests
+ *
+ * Tests adding variations, navigating between them, promoting and deleting
+ * them, and writing the tree as PGN.
+ */
+
+import { describe, expect, it } from '@jest/globals';
+import { Game } from '@/engine/game';
+import { GameTree } from '@/engine/game-tree';
+import { FenParser } from '@/engine/fen';
+
+/**
+ * 1. e4 e5 2. Nf3, with 1... c5 2. Nf3 and 1... e6 as variations
+ */
+function createTree(): GameTree {
+  const tree = new GameTree();
+  tree.addMove('e4');
+  tree.addMove('e5');
+  tree.addMove('Nf3');
+  tree.goToPly(1);
+  tree.addMove('c5');
+  tree.addMove('Nf3');
+  tree.goToPly(1);
+  tree.addMove('e6');
+  return tree;
+}
+
+describe('GameTree', () => {
+  it('should add moves as the main line and variations', () => {
+    const tree = createTree();
+    const afterE4 = tree.getMainLine()[0];
+
+    expect(tree.getMainLine().map((node) => node.move?.san)).toEqual(['e4', 'e5', 'Nf3']);
+    expect(afterE4?.children.map((node) => node.move?.san)).toEqual(['e5', 'c5', 'e6']);
+    expect(tree.getCurrentNode().ply).toBe(2);
+    expect(tree.isMainLine()).toBe(false);
+
+    // Playing a move that is already in the tree reuses its node
+    tree.back();
+    const node = tree.addMove('c5');
+    expect(node).toBe(afterE4?.children[1]);
+    expect(afterE4?.children).toHaveLength(3);
+    expect(tree.addMove('Ke3')).toBeNull();
+  });
+
+  it('should keep the game at the current node', () => {
+    const tree = createTree();
+    const game = tree.getGame();
+
+    expect(tree.goToStart()).toBe(tree.getRoot());
+    expect(game.getFen()).toBe(FenParser.STARTING_POSITION);
+
+    tree.forward();
+    const sicilian = tree.forward(1);
+    expect(sicilian?.move?.san).toBe('c5');
+    expect(game.getFen()).toBe(sicilian?.fen);
+
+    expect(tree.goToEnd().move?.san).toBe('Nf3');
+    expect(game.getHistory().map((move) => move.san)).toEqual(['e4', 'c5', 'Nf3']);
+
+    const mainEnd = tree.getMainLine()[2];
+    expect(tree.goToNode(mainEnd?.id ?? -1)).toBe(mainEnd);
+    expect(game.getHistory().map((move) => move.san)).toEqual(['e4', 'e5', 'Nf3']);
+    expect(tree.goToPly(1)?.move?.san).toBe('e4');
+    expect(tree.goToPly(5)).toBeNull();
+    expect(tree.getCurrentNode().ply).toBe(1);
+    expect(tree.back()).toBe(tree.getRoot());
+    expect(tree.back()).toBeNull();
+  });
+
+  it('should promote and delete variations', () => {
+    const tree = createTree();
+    const sicilian = tree.getMainLine()[0]?.children[1];
+    const line = sicilian?.children[0];
+
+    expect(tree.promoteVariation(line)).toBe(true);
+    expect(tree.getMainLine().map((node) => node.move?.san)).toEqual(['e4', 'c5', 'Nf3']);
+    expect(tree.promoteVariation(line)).toBe(false);
+
+    // Deleting the variation the game is in goes back to where it branches off
+    expect(tree.getCurrentNode().move?.san).toBe('e6');
+    expect(tree.deleteVariation()).toBe(true);
+    expect(tree.getCurrentNode().ply).toBe(1);
+    expect(tree.getMainLine()[0]?.children.map((node) => node.move?.san)).toEqual(['c5', 'e5']);
+    expect(tree.deleteVariation(line)).toBe(false);
+  });
+
+  it('should write variations, comments and NAGs as PGN', () => {
+    const tree = createTree();
+    tree.getRoot().comments.push('Open games');
+    const [e4, e5] = tree.getMainLine();
+    e4?.nags.push(1);
+    e5?.comments.push('Classical');
+
+    const pgn = tree.toPgn({ Event: 'Analysis' });
+
+    expect(pgn).toContain('[Event "Analysis"]');
+    expect(pgn).toContain('[Result "*"]');
+    expect(pgn.split('\n\n')[1]).toBe(
+      '{Open games} 1. e4 $1 e5 {Classical} (1... c5 2. Nf3) (1... e6) 2. Nf3 *'
+    );
+  });
+
+  it('should number moves from a position with black to move', () => {
+    const tree = new GameTree({ fen: '4k3/8/8/8/8/8/4P3/4K3 b - - 0 40' });
+    tree.addMove('Kd7');
+    tree.addMove('e4');
+    tree.back();
+    tree.addMove('Kd2');
+
+    expect(tree.toPgn().split('\n\n')[1]).toBe('40... Kd7 41. e4 (41. Kd2) *');
+  });
+
+  it('should copy the moves of a game and its result', () => {
+    const game = new Game();
+    for (const move of ['f3', 'e5', 'g4', 'Qh4#']) {
+      game.move(move);
+    }
+
+    const tree = GameTree.fromGame(game);
+    expect(tree.getCurrentNode().ply).toBe(4);
+    expect(tree.getGame().getStatus()).toBe('checkmate');
+    expect(tree.toPgn()).toContain('1. f3 e5 2. g4 Qh4# 0-1');
+
+    const copy = GameTree.fromPgn(tree.toPgn());
+    expect(copy.getMainLine().map((node) => node.fen)).toEqual(
+      tree.getMainLine().map((node) => node.fen)
+    );
+  });
+});
@@ -5,8 +5,22 @@
  * and special rules.
  */
 
-import { describe, expect, it } from '@jest/globals';
+import { describe, expect, it, jest } from '@jest/globals';
 import { Game } from '@/engine/game';
+import { MoveGenerator } from '@/engine/moves';
+import { IllegalMoveError } from '@/utils/errors';
+import type { Move } from '@/types/index';
+
+/**
+ * Find a legal move by its UCI coordinates
+ */
+function findMove(game: Game, uci: string): Move {
+  const move = game.getLegalMoves().find((m) => `${m.from}${m.to}` === uci);
+  if (!move) {
+    throw new Error(`No legal move ${uci}`);
+  }
+  return move;
+}
 
 describe('Game', () => {
   describe('constructor', () => {
@@ -136,6 +150,86 @@ describe('Game', () => {
     });
   });
 
+  describe('move rejection', () => {
+    it('should report why a move was rejected', () => {
+      const game = new Game({ fen: '4k3/1P6/8/8/1b6/8/3B4/4K3 w - - 0 1' });
+
+      const reasons = [
+        game.tryMove({ from: 'e4', to: 'e5' }),
+        game.tryMove({ from: 'e8', to: 'd8' }),
+        game.tryMove({ from: 'b7', to: 'b6' }),
+        game.tryMove({ from: 'd2', to: 'e3' }),
+        game.tryMove({ from: 'b7', to: 'b8' }),
+        game.tryMove({ from: 'b7', to: 'b8', promotion: 'king' }),
+      ].map((result) => (result.valid ? null : result.code));
+
+      expect(reasons).toEqual([
+        'no_piece',
+        'wrong_color',
+        'unreachable',
+        'king_in_check',
+        'promotion_required',
+        'invalid_promotion',
+      ]);
+    });
+
+    it('should return the move when it is made', () => {
+      const game = new Game();
+      const result = game.tryMove({ from: 'e2', to: 'e4' });
+
+      expect(result.valid && result.move.san).toBe('e4');
+    });
+
+    it('should validate a move only once', () => {
+      const game = new Game();
+      const resolveMove = jest.spyOn(MoveGenerator.prototype, 'resolveMove');
+
+      try {
+        game.tryMove({ from: 'e2', to: 'e4' });
+        expect(resolveMove).toHaveBeenCalledTimes(1);
+
+        game.tryMove('e5');
+        expect(resolveMove).toHaveBeenCalledTimes(1);
+        expect(game.getHistory().map((move) => move.san)).toEqual(['e4', 'e5']);
+      } finally {
+        resolveMove.mockRestore();
+      }
+    });
+
+    it('should reject moves once the game is over', () => {
+      const game = new Game();
+      game.resign('black');
+
+      expect(game.tryMove({ from: 'e2', to: 'e4' })).toEqual({
+        valid: false,
+        code: 'game_over',
+        error: 'Game is already over',
+      });
+      expect(game.move({ from: 'e2', to: 'e4' })).toBeNull();
+    });
+
+    it('should throw IllegalMoveError from moveOrThrow', () => {
+      const game = new Game({ fen: '4k3/8/8/8/8/8/8/1N2KN2 w - - 0 1' });
+
+      expect(game.moveOrThrow('Nbd2').san).toBe('Nbd2');
+      expect(() => game.moveOrThrow({ from: 'e1', to: 'e3' })).toThrow(IllegalMoveError);
+      try {
+        game.moveOrThrow('Nf6');
+      } catch (error) {
+        expect(error).toBeInstanceOf(IllegalMoveError);
+        expect((error as IllegalMoveError).reason).toBe('illegal_move');
+        expect((error as IllegalMoveError).move).toBe('Nf6');
+      }
+    });
+
+    it('should report a compulsory capture in Antichess', () => {
+      const game = new Game({ variant: 'antichess', fen: '8/8/8/3p4/4P3/8/8/8 w - - 0 1' });
+      const result = game.tryMove({ from: 'e4', to: 'e5' });
+
+      expect(!result.valid && result.code).toBe('capture_required');
+    });
+  });
+
   describe('en passant', () => {
     it('should set en passant square after pawn double move', () => {
       const game = new Game();
@@ -280,6 +374,196 @@ describe('Game', () => {
 
       expect(undoneMove).toBeNull();
     });
+
+    it('should restore the exact FEN after every move', () => {
+      const game = new Game();
+      const moves = [
+        { from: 'e2', to: 'e4' },
+        { from: 'g8', to: 'f6' },
+        { from: 'e4', to: 'e5' },
+        { from: 'd7', to: 'd5' },
+        { from: 'e5', to: 'd6' }, // en passant
+        { from: 'e7', to: 'd6' },
+        { from: 'g1', to: 'f3' },
+        { from: 'f8', to: 'e7' },
+        { from: 'f1', to: 'c4' },
+        { from: 'e8', to: 'g8' }, // castling
+        { from: 'h1', to: 'g1' }, // loses kingside rights
+      ];
+
+      const fens: string[] = [game.getFen()];
+      for (const move of moves) {
+        expect(game.move(move)).not.toBeNull();
+        fens.push(game.getFen());
+      }
+
+      for (let i = fens.length - 2; i >= 0; i--) {
+        game.undo();
+        expect(game.getFen()).toBe(fens[i]);
+      }
+    });
+
+    it('should restore the status from before the move', () => {
+      const game = new Game();
+      game.move({ from: 'e2', to: 'e4' });
+      game.move({ from: 'f7', to: 'f6' });
+      game.move({ from: 'd2', to: 'd4' });
+      game.move({ from: 'g7', to: 'g5' });
+      game.move({ from: 'd1', to: 'h5' });
+
+      expect(game.getStatus()).toBe('checkmate');
+
+      game.undo();
+      expect(game.getStatus()).toBe('active');
+    });
+
+    it('should undo several moves at once', () => {
+      const game = new Game();
+      game.move({ from: 'e2', to: 'e4' });
+      game.move({ from: 'e7', to: 'e5' });
+      game.move({ from: 'g1', to: 'f3' });
+
+      const undone = game.undo(2);
+
+      expect(undone.map((m) => m.to)).toEqual(['f3', 'e5']);
+      expect(game.getHistory()).toHaveLength(1);
+      expect(game.getTurn()).toBe('black');
+    });
+
+    it('should stop when asked to undo more moves than played', () => {
+      const game = new Game();
+      game.move({ from: 'e2', to: 'e4' });
+
+      expect(game.undo(5)).toHaveLength(1);
+      expect(game.getFen()).toBe(new Game().getFen());
+    });
+
+    it('should forget undone positions for repetition detection', () => {
+      const game = new Game();
+      const shuffle = [
+        { from: 'g1', to: 'f3' },
+        { from: 'g8', to: 'f6' },
+        { from: 'f3', to: 'g1' },
+        { from: 'f6', to: 'g8' },
+      ];
+
+      for (let i = 0; i < 2; i++) {
+        for (const move of shuffle) {
+          game.move(move);
+        }
+      }
+      expect(game.getDrawClaimReason()).toBe('threefold_repetition');
+
+      game.undo(4);
+      expect(game.canClaimDraw()).toBe(false);
+      for (const move of shuffle) {
+        game.move(move);
+      }
+      expect(game.getDrawClaimReason()).toBe('threefold_repetition');
+
+      game.undo();
+      game.move({ from: 'f6', to: 'g8' });
+      expect(game.getDrawClaimReason()).toBe('threefold_repetition');
+    });
+  });
+
+  describe('redo', () => {
+    it('should replay an undone move', () => {
+      const game = new Game();
+      game.move({ from: 'e2', to: 'e4' });
+      const fen = game.getFen();
+
+      game.undo();
+      expect(game.canRedo()).toBe(true);
+
+      const replayed = game.redo();
+
+      expect(replayed?.san).toBe('e4');
+      expect(game.getFen()).toBe(fen);
+      expect(game.canRedo()).toBe(false);
+    });
+
+    it('should replay several moves in order', () => {
+      const game = new Game();
+      game.move({ from: 'e2', to: 'e4' });
+      game.move({ from: 'e7', to: 'e5' });
+      game.move({ from: 'g1', to: 'f3' });
+      const fen = game.getFen();
+
+      game.undo(3);
+      const replayed = game.redo(3);
+
+      expect(replayed.map((m) => m.san)).toEqual(['e4', 'e5', 'Nf3']);
+      expect(game.getFen()).toBe(fen);
+    });
+
+    it('should discard redo history when a new move is made', () => {
+      const game = new Game();
+      game.move({ from: 'e2', to: 'e4' });
+      game.undo();
+      game.move({ from: 'd2', to: 'd4' });
+
+      expect(game.canRedo()).toBe(false);
+      expect(game.redo()).toBeNull();
+    });
+  });
+
+  describe('makeMove / unmakeMove', () => {
+    it('should restore the exact position for every legal move', () => {
+      const game = new Game();
+      // Castling, en passant, promotion and captures are all available
+      game.loadFen('r3k2r/1P2q3/8/3pP3/8/8/8/R3K2R w KQkq d6 0 1');
+      const fen = game.getFen();
+      const hash = game.getHash();
+
+      for (const move of game.getLegalMoves()) {
+        game.makeMove(move);
+        expect(game.getTurn()).toBe('black');
+        expect(game.unmakeMove()).toBe(move);
+        expect(game.getFen()).toBe(fen);
+        expect(game.getHash()).toBe(hash);
+      }
+    });
+
+    it('should skip notation and keep the redo stack', () => {
+      const game = new Game();
+      game.move({ from: 'e2', to: 'e4' });
+      game.undo();
+
+      game.makeMove(findMove(game, 'd2d4'));
+
+      expect(game.getHistory()[0]?.san).toBeUndefined();
+      game.unmakeMove();
+      expect(game.canRedo()).toBe(true);
+      expect(game.getHistory()).toHaveLength(0);
+    });
+
+    it('should restore the game status', () => {
+      const game = new Game();
+      game.loadFen('7k/8/6K1/8/8/8/8/5Q2 w - - 0 1');
+      game.makeMove(findMove(game, 'f1f8'));
+      game.unmakeMove();
+
+      expect(game.getStatus()).toBe('active');
+    });
+
+    it('should return null when there is nothing to unmake', () => {
+      expect(new Game().unmakeMove()).toBeNull();
+    });
+
+    it('should count repetitions of the current position', () => {
+      const game = new Game();
+      expect(game.getRepetitionCount()).toBe(1);
+
+      const shuffle = ['g1f3', 'g8f6', 'f3g1', 'f6g8'];
+      for (const uci of shuffle) {
+        game.makeMove(findMove(game, uci));
+      }
+
+      expect(game.getRepetitionCount()).toBe(2);
+      game.unmakeMove();
+      expect(game.getRepetitionCount()).toBe(1);
+    });
   });
 
   describe('game status', () => {
@@ -336,6 +620,203 @@ describe('Game', () => {
     });
   });
 
+  describe('draw claims', () => {
+    const shuffle = [
+      { from: 'g1', to: 'f3' },
+      { from: 'g8', to: 'f6' },
+      { from: 'f3', to: 'g1' },
+      { from: 'f6', to: 'g8' },
+    ];
+
+    it('should let threefold repetition be claimed instead of ending the game', () => {
+      const game = new Game();
+      for (let i = 0; i < 2; i++) {
+        shuffle.forEach((move) => game.move(move));
+      }
+
+      expect(game.getStatus()).toBe('active');
+      expect(game.getDrawClaimReason()).toBe('threefold_repetition');
+
+      // Playing on is allowed
+      expect(game.move({ from: 'e2', to: 'e4' })).not.toBeNull();
+      expect(game.canClaimDraw()).toBe(false);
+    });
+
+    it('should end the game when a draw is claimed', () => {
+      const game = new Game();
+      for (let i = 0; i < 2; i++) {
+        shuffle.forEach((move) => game.move(move));
+      }
+
+      expect(game.claimDraw()).toBe(true);
+      expect(game.getStatus()).toBe('threefold_repetition');
+      expect(game.isGameOver()).toBe(true);
+    });
+
+    it('should accept a claim based on the intended move', () => {
+      const game = new Game();
+      shuffle.forEach((move) => game.move(move));
+      shuffle.slice(0, 3).forEach((move) => game.move(move));
+
+      const intended = { from: 'f6', to: 'g8' };
+      expect(game.canClaimDraw()).toBe(false);
+      expect(game.getDrawClaimReason(intended)).toBe('threefold_repetition');
+      expect(game.getHistory()).toHaveLength(7);
+
+      expect(game.claimDraw(intended)).toBe(true);
+      expect(game.getHistory()).toHaveLength(8);
+      expect(game.getStatus()).toBe('threefold_repetition');
+    });
+
+    it('should reject a claim when no rule applies', () => {
+      const game = new Game();
+      expect(game.claimDraw()).toBe(false);
+      expect(game.claimDraw({ from: 'e2', to: 'e4' })).toBe(false);
+      expect(game.getHistory()).toHaveLength(0);
+      expect(game.getStatus()).toBe('active');
+    });
+
+    it('should let the fifty-move rule be claimed', () => {
+      const game = new Game({ fen: '4k3/8/8/8/8/8/8/R3K3 w - - 100 80' });
+
+      expect(game.getStatus()).toBe('active');
+      expect(game.getDrawClaimReason()).toBe('fifty_move_rule');
+      expect(game.claimDraw()).toBe(true);
+      expect(game.getStatus()).toBe('fifty_move_rule');
+    });
+
+    it('should end the game automatically at fivefold repetition', () => {
+      const game = new Game();
+      for (let i = 0; i < 3; i++) {
+        shuffle.forEach((move) => game.move(move));
+      }
+      expect(game.getStatus()).toBe('active');
+
+      shuffle.forEach((move) => game.move(move));
+      expect(game.getStatus()).toBe('fivefold_repetition');
+      expect(game.canClaimDraw()).toBe(false);
+    });
+
+    it('should end the game automatically under the 75-move rule', () => {
+      const game = new Game({ fen: '4k3/8/8/8/8/8/8/R3K3 w - - 149 100' });
+      expect(game.getStatus()).toBe('active');
+
+      game.move({ from: 'a1', to: 'a2' });
+      expect(game.getStatus()).toBe('seventy_five_move_rule');
+    });
+  });
+
+  describe('result', () => {
+    it('should be in progress at the start', () => {
+      expect(new Game().getResult()).toEqual({ result: '*', winner: null, termination: null });
+    });
+
+    it('should report checkmate and draw rules', () => {
+      const game = new Game();
+      for (const [from, to] of [
+        ['f2', 'f3'],
+        ['e7', 'e5'],
+        ['g2', 'g4'],
+        ['d8', 'h4'],
+      ] as const) {
+        game.move({ from, to });
+      }
+      expect(game.getResult()).toEqual({
+        result: '0-1',
+        winner: 'black',
+        termination: 'checkmate',
+      });
+
+      const drawn = new Game({ fen: '4k3/8/8/8/8/8/8/4K3 w - - 0 1' });
+      expect(drawn.getResult()).toEqual({
+        result: '1/2-1/2',
+        winner: null,
+        termination: 'draw_rule',
+      });
+    });
+
+    it('should end the game by resignation', () => {
+      const game = new Game();
+      expect(game.resign('white')).toBe(true);
+
+      expect(game.getStatus()).toBe('resignation');
+      expect(game.isGameOver()).toBe(true);
+      expect(game.getResult()).toEqual({
+        result: '0-1',
+        winner: 'black',
+        termination: 'resignation',
+      });
+      expect(game.resign('black')).toBe(false);
+    });
+
+    it('should end the game by draw agreement', () => {
+      const game = new Game();
+      expect(game.acceptDraw()).toBe(false);
+
+      game.move({ from: 'e2', to: 'e4' });
+      expect(game.offerDraw('white')).toBe(true);
+      expect(game.getDrawOffer()).toBe('white');
+      expect(game.acceptDraw()).toBe(true);
+
+      expect(game.getStatus()).toBe('agreement');
+      expect(game.getResult().result).toBe('1/2-1/2');
+      expect(game.getDrawOffer()).toBeNull();
+    });
+
+    it("should keep a draw offer through the offerer's move only", () => {
+      const game = new Game();
+      game.offerDraw();
+      game.move({ from: 'e2', to: 'e4' });
+      expect(game.getDrawOffer()).toBe('white');
+
+      game.move({ from: 'e7', to: 'e5' });
+      expect(game.getDrawOffer()).toBeNull();
+
+      game.offerDraw('black');
+      expect(game.declineDraw()).toBe(true);
+      expect(game.acceptDraw()).toBe(false);
+    });
+
+    it('should draw on time when the opponent cannot mate', () => {
+      const lost = new Game({ fen: '4k3/8/8/8/8/8/8/Q3K3 w - - 0 1' });
+      lost.forfeitOnTime('black');
+      expect(lost.getResult()).toEqual({ result: '1-0', winner: 'white', termination: 'timeout' });
+
+      const drawn = new Game({ fen: '4k3/8/8/8/8/8/8/Q3K3 w - - 0 1' });
+      drawn.forfeitOnTime('white');
+      expect(drawn.getResult()).toEqual({
+        result: '1/2-1/2',
+        winner: null,
+        termination: 'timeout',
+      });
+    });
+
+    it('should record abandonment and adjudication', () => {
+      const abandoned = new Game();
+      abandoned.abandon('black');
+      expect(abandoned.getResult().result).toBe('1-0');
+      expect(abandoned.getResult().termination).toBe('abandonment');
+
+      const adjudicated = new Game();
+      adjudicated.adjudicate('0-1');
+      expect(adjudicated.getResult()).toEqual({
+        result: '0-1',
+        winner: 'black',
+        termination: 'adjudication',
+      });
+    });
+
+    it('should reopen the game when the last move is taken back', () => {
+      const game = new Game();
+      game.move({ from: 'e2', to: 'e4' });
+      game.resign('black');
+
+      game.undo();
+      expect(game.getStatus()).toBe('active');
+      expect(game.getResult().result).toBe('*');
+    });
+  });
+
   describe('getLegalMoves', () => {
     it('should return all legal moves for current player', () => {
       const game = new Game();
@@ -228,9 +228,27 @@ describe('MoveGenerator', () => {
       const result = generator.validateMove({ from: 'e7', to: 'e8' }, 'white');
 
       expect(result.valid).toBe(false);
+      expect(result.code).toBe('promotion_required');
       expect(result.error).toBe('Pawn promotion required');
     });
 
+    it('should reject a move that leaves the king in check', () => {
+      const board = new Board();
+      board.setPiece('e1', { type: 'king', color: 'white' });
+      board.setPiece('e2', { type: 'rook', color: 'white' });
+      board.setPiece('e8', { type: 'rook', color: 'black' });
+      board.setPiece('a8', { type: 'king', color: 'black' });
+
+      const generator = new MoveGenerator(board, defaultCastlingRights);
+      const result = generator.validateMove({ from: 'e2', to: 'd2' }, 'white');
+
+      expect(result).toEqual({
+        valid: false,
+        code: 'king_in_check',
+        error: 'Move would leave the king in check',
+      });
+    });
+
     it('should accept promotion when provided', () => {
       const board = new Board();
       board.setPiece('e7', { type: 'pawn', color: 'white' });
@@ -242,6 +260,33 @@ describe('MoveGenerator', () => {
 
       expect(result.valid).toBe(true);
     });
+
+    it('should resolve the legal move a valid move describes', () => {
+      const board = new Board();
+      board.setPiece('e7', { type: 'pawn', color: 'white' });
+      board.setPiece('d8', { type: 'rook', color: 'black' });
+      board.setPiece('e1', { type: 'king', color: 'white' });
+      board.setPiece('a8', { type: 'king', color: 'black' });
+      const generator = new MoveGenerator(board, defaultCastlingRights);
+
+      const resolution = generator.resolveMove(
+        { from: 'e7', to: 'd8', promotion: 'knight' },
+        'white'
+      );
+
+      expect(resolution.valid).toBe(true);
+      expect(resolution.move).toMatchObject({
+        from: 'e7',
+        to: 'd8',
+        promotion: 'knight',
+        captured: { type: 'rook', color: 'black' },
+      });
+      expect(generator.resolveMove({ from: 'e7', to: 'd8' }, 'white')).toEqual({
+        valid: false,
+        code: 'promotion_required',
+        error: 'Pawn promotion required',
+      });
+    });
   });
 
   describe('isCheckmate', () => {
@@ -0,0 +1,128 @@
+/**
+ * Move Notation Tests
+ *
+ * Tests reading moves written as SAN, UCI, long algebraic notation and
+ * drops, strict and lenient modes, and the errors for ambiguous and illegal
+ * moves.
+ */
+
+import { describe, expect, it } from '@jest/globals';
+import { Game } from '@/engine/game';
+
+describe('Move notation', () => {
+  describe('formats', () => {
+    it('should make moves written in SAN, UCI and long algebraic notation', () => {
+      const game = new Game();
+
+      expect(game.move('Nf3')?.san).toBe('Nf3');
+      expect(game.move('e7e5')?.san).toBe('e5');
+      expect(game.move('Nf3xe5')?.san).toBe('Nxe5');
+      expect(game.move('Ng8-f6')?.san).toBe('Nf6');
+      expect(game.getHistory()).toHaveLength(4);
+    });
+
+    it('should read promotions and castling', () => {
+      const game = new Game({ fen: 'r3k3/6P1/8/8/8/8/8/4K2R w Kq - 0 1' });
+
+      expect(game.move('O-O')?.castling).toBe('kingside');
+      expect(game.move('O-O-O')?.castling).toBe('queenside');
+      expect(game.parseMove('g7g8q').move).toEqual({ from: 'g7', to: 'g8', promotion: 'queen' });
+      expect(game.move('g8=N')?.promotion).toBe('knight');
+    });
+
+    it('should read drops in Crazyhouse', () => {
+      const game = new Game({
+        variant: 'crazyhouse',
+        fen: '4k3/8/8/8/8/8/8/4K3[N] w - - 0 1',
+      });
+
+      expect(game.parseMove('N@f3').move).toEqual({ from: '@', to: 'f3', drop: 'knight' });
+      expect(game.move('N@f3')?.san).toBe('N@f3');
+    });
+  });
+
+  describe('strict and lenient modes', () => {
+    it('should accept common variations in lenient mode', () => {
+      const game = new Game({ fen: 'r3k3/1P6/8/8/8/8/8/4K2R w Kq - 0 1' });
+
+      for (const notation of ['0-0', 'o-o', 'Ke1-g1', 'e1g1']) {
+        expect(game.parseMove(notation).move).toEqual({ from: 'e1', to: 'g1' });
+      }
+      for (const notation of ['b8Q', 'b7b8Q', 'Pb8=Q', 'bxa8q!?', 'bxa8=Q+']) {
+        expect(game.parseMove(notation).valid).toBe(true);
+      }
+      expect(game.parseMove('rh1-h5').move).toEqual({ from: 'h1', to: 'h5' });
+      expect(game.parseMove('Rh1h4').move).toEqual({ from: 'h1', to: 'h4' });
+    });
+
+    it('should require canonical notation in strict mode', () => {
+      const game = new Game();
+      const strict = { strict: true };
+
+      expect(game.parseMove('Nf3', strict).valid).toBe(true);
+      expect(game.parseMove('g1f3', strict).valid).toBe(true);
+      expect(game.parseMove('Ng1-f3', strict).valid).toBe(true);
+
+      expect(game.parseMove('Ng1f3', strict)).toEqual({
+        valid: false,
+        code: 'invalid_notation',
+        error: "Non-standard SAN 'Ng1f3': expected 'Nf3'",
+        candidates: ['Nf3'],
+      });
+      expect(game.parseMove('nf3', strict).valid).toBe(false);
+      expect(game.parseMove('Ng1xf3', strict).valid).toBe(false);
+      expect(game.move('Ng1f3', strict)).toBeNull();
+      expect(game.getHistory()).toHaveLength(0);
+    });
+
+    it('should treat check suffixes as optional in strict mode', () => {
+      const game = new Game({ fen: '4k3/8/8/8/8/8/8/R3K3 w - - 0 1' });
+      expect(game.parseMove('Ra8+', { strict: true }).valid).toBe(true);
+      expect(game.parseMove('Ra8', { strict: true }).valid).toBe(true);
+      expect(game.parseMove('Ra8!', { strict: true }).valid).toBe(false);
+    });
+  });
+
+  describe('errors', () => {
+    it('should list the candidates of an ambiguous move', () => {
+      const game = new Game({ fen: '4k3/8/8/8/8/8/8/1N2KN2 w - - 0 1' });
+
+      expect(game.parseMove('Nd2')).toEqual({
+        valid: false,
+        code: 'ambiguous_move',
+        error: "Ambiguous move 'Nd2': could be Nbd2, Nfd2",
+        candidates: ['Nbd2', 'Nfd2'],
+      });
+      expect(game.parseMove('Nfd2').move).toEqual({ from: 'f1', to: 'd2' });
+    });
+
+    it('should ask for the promotion piece', () => {
+      const game = new Game({ fen: '4k3/1P6/8/8/8/8/8/4K3 w - - 0 1' });
+      const result = game.parseMove('b7b8');
+
+      expect(result.valid).toBe(false);
+      expect(result.candidates).toEqual(['b8=Q', 'b8=R', 'b8=B', 'b8=N']);
+    });
+
+    it('should list the legal moves of the piece for an illegal move', () => {
+      const game = new Game();
+
+      const knight = game.parseMove('Nf6');
+      expect(knight.valid).toBe(false);
+      expect(knight.error).toBe("Illegal move 'Nf6'; legal moves are Na3, Nc3, Nf3, Nh3");
+
+      expect(game.parseMove('e2e5').candidates).toEqual(['e3', 'e4']);
+      expect(game.parseMove('Qd3').candidates).toHaveLength(20);
+    });
+
+    it('should reject text that is not a move', () => {
+      const game = new Game();
+      expect(game.parseMove('hello')).toEqual({
+        valid: false,
+        code: 'invalid_notation',
+        error: "Invalid move notation: 'hello'",
+      });
+      expect(game.move('')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,236 @@
+/**
+ * Perft Tests
+ *
+ * Verifies the legal move generator against published node counts for the
+ * standard perft positions (https://www.chessprogramming.org/Perft_Results).
+ */
+
+import { describe, expect, it } from '@jest/globals';
+import { Game } from '@/engine/game';
+import { perft, divide, moveToUci } from '@/engine/perft';
+import type { PerftResult } from '@/engine/perft';
+
+const PERFT_TIMEOUT = 30000;
+
+/**
+ * Create a game from a FEN string
+ */
+function gameFromFen(fen: string): Game {
+  const game = new Game();
+  game.loadFen(fen);
+  return game;
+}
+
+describe('perft', () => {
+  describe('starting position', () => {
+    const fen = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+
+    it('should count depth 0 as a single node', () => {
+      expect(perft(gameFromFen(fen), 0).nodes).toBe(1);
+    });
+
+    it('should count 20 moves at depth 1', () => {
+      expect(perft(gameFromFen(fen), 1).nodes).toBe(20);
+    });
+
+    it('should count 400 nodes at depth 2', () => {
+      expect(perft(gameFromFen(fen), 2).nodes).toBe(400);
+    });
+
+    it(
+      'should match the reference breakdown at depth 3',
+      () => {
+        expect(perft(gameFromFen(fen), 3)).toEqual<PerftResult>({
+          nodes: 8902,
+          captures: 34,
+          enPassant: 0,
+          castles: 0,
+          promotions: 0,
+          checks: 12,
+          checkmates: 0,
+        });
+      },
+      PERFT_TIMEOUT
+    );
+  });
+
+  describe('Kiwipete (position 2)', () => {
+    const fen = 'r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1';
+
+    it('should match the reference breakdown at depth 1', () => {
+      expect(perft(gameFromFen(fen), 1)).toEqual<PerftResult>({
+        nodes: 48,
+        captures: 8,
+        enPassant: 0,
+        castles: 2,
+        promotions: 0,
+        checks: 0,
+        checkmates: 0,
+      });
+    });
+
+    it(
+      'should match the reference breakdown at depth 2',
+      () => {
+        expect(perft(gameFromFen(fen), 2)).toEqual<PerftResult>({
+          nodes: 2039,
+          captures: 351,
+          enPassant: 1,
+          castles: 91,
+          promotions: 0,
+          checks: 3,
+          checkmates: 0,
+        });
+      },
+      PERFT_TIMEOUT
+    );
+  });
+
+  describe('position 3', () => {
+    const fen = '8/2p5/3p4/KP5r/1R3p1k/8/4P1P1/8 w - - 0 1';
+
+    it('should match the reference breakdown at depth 2', () => {
+      expect(perft(gameFromFen(fen), 2)).toEqual<PerftResult>({
+        nodes: 191,
+        captures: 14,
+        enPassant: 0,
+        castles: 0,
+        promotions: 0,
+        checks: 10,
+        checkmates: 0,
+      });
+    });
+
+    it(
+      'should match the reference breakdown at depth 3',
+      () => {
+        expect(perft(gameFromFen(fen), 3)).toEqual<PerftResult>({
+          nodes: 2812,
+          captures: 209,
+          enPassant: 2,
+          castles: 0,
+          promotions: 0,
+          checks: 267,
+          checkmates: 0,
+        });
+      },
+      PERFT_TIMEOUT
+    );
+  });
+
+  describe('position 4', () => {
+    const fen = 'r3k2r/Pppp1ppp/1b3nbN/nP6/BBP1P3/q4N2/Pp1P2PP/R2Q1RK1 w kq - 0 1';
+
+    it('should count 6 moves at depth 1', () => {
+      expect(perft(gameFromFen(fen), 1).nodes).toBe(6);
+    });
+
+    it('should match the reference breakdown at depth 2', () => {
+      expect(perft(gameFromFen(fen), 2)).toEqual<PerftResult>({
+        nodes: 264,
+        captures: 87,
+        enPassant: 0,
+        castles: 6,
+        promotions: 48,
+        checks: 10,
+        checkmates: 0,
+      });
+    });
+
+    it('should match the mirrored position', () => {
+      const mirrored = 'r2q1rk1/pP1p2pp/Q4n2/bbp1p3/Np6/1B3NBn/pPPP1PPP/R3K2R b KQ - 0 1';
+      expect(perft(gameFromFen(mirrored), 2).nodes).toBe(264);
+    });
+  });
+
+  describe('position 5', () => {
+    const fen = 'rnbq1k1r/pp1Pbppp/2p5/8/2B5/8/PPP1NnPP/RNBQK2R w KQ - 1 8';
+
+    it('should count 44 moves at depth 1', () => {
+      expect(perft(gameFromFen(fen), 1).nodes).toBe(44);
+    });
+
+    it(
+      'should count 1486 nodes at depth 2',
+      () => {
+        expect(perft(gameFromFen(fen), 2).nodes).toBe(1486);
+      },
+      PERFT_TIMEOUT
+    );
+  });
+
+  describe('position 6', () => {
+    const fen = 'r4rk1/1pp1qppp/p1np1n2/2b1p1B1/2B1P1b1/P1NP1N2/1PP1QPPP/R4RK1 w - - 0 10';
+
+    it('should count 46 moves at depth 1', () => {
+      expect(perft(gameFromFen(fen), 1).nodes).toBe(46);
+    });
+
+    it(
+      'should count 2079 nodes at depth 2',
+      () => {
+        expect(perft(gameFromFen(fen), 2).nodes).toBe(2079);
+      },
+      PERFT_TIMEOUT
+    );
+  });
+
+  describe('edge cases', () => {
+    it('should not allow en passant that exposes the king along the rank', () => {
+      const game = gameFromFen('8/8/8/8/k2Pp2Q/8/8/3K4 b - d3 0 1');
+      expect(perft(game, 1).enPassant).toBe(0);
+    });
+
+    it('should not castle through an attacked square', () => {
+      // The rook on d8 covers d1, which the king must cross
+      const game = gameFromFen('3rk3/8/8/8/8/8/8/R3K3 w Q - 0 1');
+      expect(perft(game, 1).castles).toBe(0);
+    });
+
+    it('should leave the game in its original position', () => {
+      const fen = 'r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1';
+      const game = gameFromFen(fen);
+
+      perft(game, 2);
+
+      expect(game.getFen()).toBe(fen);
+      expect(game.getHistory()).toHaveLength(0);
+    });
+  });
+});
+
+describe('divide', () => {
+  it('should split the node count by root move', () => {
+    const game = new Game();
+    const results = divide(game, 2);
+
+    expect(Object.keys(results)).toHaveLength(20);
+    expect(results['e2e4']?.nodes).toBe(20);
+    expect(results['g1f3']?.nodes).toBe(20);
+
+    const total = Object.values(results).reduce((sum, r) => sum + r.nodes, 0);
+    expect(total).toBe(400);
+  });
+
+  it('should key promotions with the promotion piece', () => {
+    const game = gameFromFen('8/4P3/8/8/8/8/k7/4K3 w - - 0 1');
+    const results = divide(game, 1);
+
+    expect(results).toHaveProperty('e7e8q');
+    expect(results).toHaveProperty('e7e8n');
+  });
+
+  it('should return no moves for depth 0', () => {
+    expect(divide(new Game(), 0)).toEqual({});
+  });
+});
+
+describe('moveToUci', () => {
+  it('should format moves in long algebraic notation', () => {
+    const pawn = { type: 'pawn' as const, color: 'white' as const };
+
+    expect(moveToUci({ from: 'e2', to: 'e4', piece: pawn })).toBe('e2e4');
+    expect(moveToUci({ from: 'a7', to: 'a8', piece: pawn, promotion: 'knight' })).toBe('a7a8n');
+    expect(moveToUci({ from: 'a7', to: 'a8', piece: pawn, promotion: 'rook' })).toBe('a7a8r');
+  });
+});
@@ -575,7 +575,7 @@ describe('PgnParser Edge Cases', () => {
     });
   });
 
-  describe('parseSanMove - null cases', () => {
+  describe('applySanMove - unreadable moves', () => {
     it('should return null for move too short', () => {
       const game = new Game();
       // "X" is too short to be a valid destination
@@ -592,7 +592,7 @@ describe('PgnParser Edge Cases', () => {
     });
   });
 
-  describe('matchesMoveCriteria - coverage', () => {
+  describe('applySanMove - move criteria', () => {
     it('should reject move when capture expected but not present', () => {
       const game = new Game();
       game.move({ from: 'e2', to: 'e4' });
@@ -603,6 +603,14 @@ describe('PgnParser Edge Cases', () => {
       expect(result).toBe(false);
     });
 
+    it('should reject ambiguous moves', () => {
+      const game = new Game({ fen: '4k3/8/8/8/8/8/8/1N2KN2 w - - 0 1' });
+
+      expect(PgnParser.applySanMove(game, 'Nd2')).toBe(false);
+      expect(game.getHistory()).toHaveLength(0);
+      expect(PgnParser.applySanMove(game, 'Nfd2')).toBe(true);
+    });
+
     it('should reject move when fromFile does not match', () => {
       const game = new Game();
       game.loadFen('4k3/8/8/8/8/8/8/R3K2R w KQ - 0 1');
@@ -0,0 +1,212 @@
+/**
+ * PGN Reader Tests
+ *
+ * Tests tokenizing PGN and reading games with their comments, variations,
+ * NAGs and embedded commands, reporting where malformed input is, and
+ * reading PGN databases from streams.
+ */
+
+import { describe, expect, it } from '@jest/globals';
+import { Readable } from 'stream';
+import { readPgn, readPgnFile, readPgnGames, tokenizePgn } from '@/engine/pgn-reader';
+import type { PgnGameEntry, PgnStreamOptions } from '@/engine/pgn-reader';
+import { GameTree } from '@/engine/game-tree';
+import { InvalidPgnError } from '@/utils/errors';
+
+describe('tokenizePgn', () => {
+  it('should split PGN into tokens with their positions', () => {
+    const tokens = tokenizePgn(
+      '[Event "A \\"quoted\\" name"]\n1. e4!? $14 {Best} ; rest\n% skip\n*'
+    );
+
+    expect(tokens.map(({ type, value }) => `${type}:${value}`)).toEqual([
+      'punctuation:[',
+      'symbol:Event',
+      'string:A "quoted" name',
+      'punctuation:]',
+      'symbol:1',
+      'punctuation:.',
+      'symbol:e4',
+      'nag:5',
+      'nag:14',
+      'comment:Best',
+      'comment: rest',
+      'punctuation:*',
+    ]);
+    expect(tokens[6]).toMatchObject({ line: 2, column: 4 });
+  });
+
+  it('should report unterminated comments and strings', () => {
+    expect(() => tokenizePgn('1. e4 {Best by test')).toThrow(
+      'Invalid PGN: unterminated comment at line 1, column 7'
+    );
+    expect(() => tokenizePgn('[Event "Open\n1. e4')).toThrow(InvalidPgnError);
+    expect(tokenizePgn('1. e4 {Best', { strict: false }).pop()).toMatchObject({ value: 'Best' });
+  });
+});
+
+describe('readPgn', () => {
+  it('should read comments, nested variations, NAGs and commands', () => {
+    const tree = readPgn(`[Event "Analysis"]
+
+{Start} 1. e4 $1 {[%clk 0:03:12] [%eval 0.35] King's pawn} e5?
+(1... c5 ({Or} 1... e6 2. d4) 2. Nf3 {[%csl Gd4]}) 2. Nf3 {[%cal Ge2e4]} *`);
+
+    expect(tree.tags).toEqual({ Event: 'Analysis' });
+    expect(tree.comments).toEqual(['Start']);
+    expect(tree.result).toBe('*');
+
+    const [e4] = tree.children;
+    expect(e4).toMatchObject({
+      san: 'e4',
+      nags: [1],
+      comments: ["King's pawn"],
+      commands: { clk: '0:03:12', eval: '0.35' },
+    });
+
+    const [e5, c5] = e4?.children ?? [];
+    expect(e5).toMatchObject({ san: 'e5', nags: [2] });
+    expect(e5?.children[0]).toMatchObject({ san: 'Nf3', comments: [], commands: { cal: 'Ge2e4' } });
+    expect(c5?.children[0]).toMatchObject({ san: 'Nf3', comments: [], commands: { csl: 'Gd4' } });
+
+    const e6 = e4?.children[2];
+    expect(e6).toMatchObject({ san: 'e6', startingComments: ['Or'] });
+    expect(e6?.children[0]?.san).toBe('d4');
+  });
+
+  it('should report malformed input with its line and column', () => {
+    const cases: Array<[string, string]> = [
+      ['1. e4 e5 )', "unexpected ')' at line 1, column 10"],
+      ['1. e4 (1. d4 *', 'unterminated variation at line 1, column 7'],
+      ['1. e4 (1. d4', 'unterminated variation at line 1, column 7'],
+      ['( 1. e4 )', 'variation before any move at line 1, column 1'],
+      ['1. e4 xyz e5', "unexpected 'xyz' at line 1, column 7"],
+      ['[Event Test]', 'expected a tag value at line 1, column 8'],
+      ['[Event "Test"\n1. e4', "expected ']' at line 2, column 1"],
+      ['1. e4 *\n[Event "Next"]', "unexpected '[' after the result at line 2, column 1"],
+      ['1. e4 e5 ?!!', "invalid annotation '?!!' at line 1, column 10"],
+    ];
+
+    for (const [pgn, message] of cases) {
+      expect(() => readPgn(pgn)).toThrow(`Invalid PGN: ${message}`);
+    }
+  });
+
+  it('should skip what it cannot read in lenient mode', () => {
+    const tree = readPgn('[Event Test]\n[Site "Here"]\n1. e4 xyz e5 ) (1... c5 *', {
+      strict: false,
+    });
+
+    expect(tree.tags).toEqual({ Site: 'Here' });
+    expect(tree.children[0]?.children.map((node) => node.san)).toEqual(['e5', 'c5']);
+  });
+});
+
+describe('GameTree.fromPgn', () => {
+  it('should load variations, comments and NAGs and write them back', () => {
+    const pgn = `[Event "Analysis"]
+[Site "?"]
+[Date "????.??.??"]
+[Round "?"]
+[White "?"]
+[Black "?"]
+[Result "*"]
+
+{Start} 1. e4 $1 {[%clk 0:03:12] Best} 1... e5 (1... c5 2. Nf3 ({Or} 2. c3))
+2. Nf3 *`;
+
+    const tree = GameTree.fromPgn(pgn);
+    expect(tree.getCurrentNode().move?.san).toBe('Nf3');
+    expect(tree.getMainLine()[0]?.commands).toEqual({ clk: '0:03:12' });
+    expect(tree.toPgn({ Event: 'Analysis' })).toBe(pgn);
+  });
+
+  it('should name the move that cannot be played and where it is', () => {
+    expect(() => GameTree.fromPgn('1. e4 e5 (1... Nf6 2. Nc3 Nxe4 3. Ke3)')).toThrow(
+      "Invalid PGN: cannot play 'Ke3' at ply 5, line 1, column 35"
+    );
+  });
+});
+
+describe('readPgnGames', () => {
+  /**
+   * Collect the entries of a stream
+   */
+  async function collect(
+    chunks: Array<string | Uint8Array>,
+    options: PgnStreamOptions = {}
+  ): Promise<PgnGameEntry[]> {
+    const entries: PgnGameEntry[] = [];
+    for await (const entry of readPgnGames(Readable.from(chunks), options)) {
+      entries.push(entry);
+    }
+    return entries;
+  }
+
+  it('should split a stream into games as it arrives', async () => {
+    const database = `[Event "First"]
+[White "Émile"]
+
+1. e4 {[%clk 0:03:00]
+[not a tag]} e5 (1... c5) 1-0
+
+Downloaded from somewhere
+[Event "Second"]
+
+1. d4 d5
+[Event "Third"]
+1. c4 *
+1. Nf3 Nf6 *`;
+
+    // Chunks that end in the middle of lines and of a UTF-8 character
+    const bytes = Buffer.from(database, 'utf-8');
+    const chunks = [bytes.subarray(0, 25), bytes.subarray(25, 70), bytes.subarray(70)];
+    const entries = await collect(chunks);
+
+    expect(entries.map((entry) => [entry.index, entry.line, entry.valid])).toEqual([
+      [0, 1, true],
+      [1, 8, true],
+      [2, 11, true],
+      [3, 13, true],
+    ]);
+    const [first, second] = entries;
+    expect(first?.valid && first.tree.tags.White).toBe('Émile');
+    expect(first?.valid && first.tree.children[0]?.comments).toEqual(['[not a tag]']);
+    expect(second?.valid && second.tree.result).toBeNull();
+  });
+
+  it('should report a game that cannot be read and go on', async () => {
+    const entries = await collect([
+      '[Event "Broken"]\n\n1. e4 e5 2. Nf3 )\n',
+      '[Event "Next"]\n1. d4 *\n',
+    ]);
+
+    const [broken, next] = entries;
+    expect(broken?.valid).toBe(false);
+    expect(!broken?.valid && broken?.error.message).toBe(
+      "Invalid PGN: unexpected ')' at line 3, column 17"
+    );
+    expect(broken?.pgn).toContain('Nf3 )');
+    expect(next?.valid).toBe(true);
+
+    const lenient = await collect(['1. e4 e5 2. Nf3 ) *'], { strict: false });
+    expect(lenient[0]?.valid).toBe(true);
+  });
+
+  it('should drop games longer than the limit', async () => {
+    const long = `[Event "Long"]\n\n${'1. Nf3 Nf6 2. Ng1 Ng8 '.repeat(10)}*\n`;
+    const entries = await collect([long, '[Event "Short"]\n\n1. e4 *\n'], {
+      maxGameLength: 100,
+    });
+
+    expect(entries.map((entry) => entry.valid)).toEqual([false, true]);
+    expect(!entries[0]?.valid && entries[0]?.error.message).toBe(
+      'Invalid PGN: game at line 1 is longer than 100 characters'
+    );
+  });
+
+  it('should read the games of a file', async () => {
+    const games = readPgnFile('/nonexistent/games.pgn');
+    await expect(games.next()).rejects.toBeInstanceOf(InvalidPgnError);
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * PGN Writer Tests
+ *
+ * Tests writing games in export, reduced export and import format, leaving
+ * out comments, variations and clock times, and writing back what the
+ * reader reads unchanged.
+ */
+
+import { describe, expect, it } from '@jest/globals';
+import { readPgn } from '@/engine/pgn-reader';
+import { writePgn } from '@/engine/pgn-writer';
+import type { PgnFormat } from '@/engine/pgn-writer';
+import { PgnParser } from '@/engine/pgn';
+import { Game } from '@/engine/game';
+
+const ANNOTATED = [
+  '[White "Anderssen, \\"Adolf\\""]',
+  '[Event "Casual"]',
+  '[Opening "King\'s Gambit"]',
+  '[ECO "C33"]',
+  '[Annotator "C:\\\\chess"]',
+  '',
+  '{Immortal game} 1. e4 e5 2. f4 $1 exf4 {[%clk 0:04:58] Accepted}',
+  '3. Bc4 (3. Nf3 {Main} g5) Qh4+ 4. Kf1 b5!? *',
+].join('\n');
+
+const TAGS = [
+  '[Event "Casual"]',
+  '[Site "?"]',
+  '[Date "????.??.??"]',
+  '[Round "?"]',
+  '[White "Anderssen, \\"Adolf\\""]',
+  '[Black "?"]',
+  '[Result "*"]',
+];
+
+describe('writePgn', () => {
+  it('should write the export format', () => {
+    expect(writePgn(readPgn(ANNOTATED)).split('\n')).toEqual([
+      ...TAGS,
+      '[Annotator "C:\\\\chess"]',
+      '[ECO "C33"]',
+      '[Opening "King\'s Gambit"]',
+      '',
+      '{Immortal game} 1. e4 e5 2. f4 $1 exf4 {[%clk 0:04:58] Accepted} 3. Bc4 (3. Nf3',
+      '{Main} 3... g5) 3... Qh4+ 4. Kf1 b5 $5 *',
+    ]);
+  });
+
+  it('should write the reduced export format', () => {
+    expect(writePgn(readPgn(ANNOTATED), { format: 'reduced' }).split('\n')).toEqual([
+      ...TAGS,
+      '',
+      '1. e4 e5 2. f4 exf4 3. Bc4 Qh4+ 4. Kf1 b5 *',
+    ]);
+  });
+
+  it('should write the import format on one line', () => {
+    const pgn = writePgn(readPgn(ANNOTATED), { format: 'import' });
+
+    expect(pgn.split('\n\n')[1]).toBe(
+      '{Immortal game} 1. e4 e5 2. f4! exf4 {[%clk 0:04:58] Accepted} 3. Bc4 ' +
+        '(3. Nf3 {Main} 3... g5) 3... Qh4+ 4. Kf1 b5!? *'
+    );
+  });
+
+  it('should leave out comments, variations, NAGs and clocks', () => {
+    const tree = readPgn(ANNOTATED);
+
+    expect(writePgn(tree, { comments: false, nags: false }).split('\n\n')[1]).toBe(
+      '1. e4 e5 2. f4 exf4 {[%clk 0:04:58]} 3. Bc4 (3. Nf3 g5) 3... Qh4+ 4. Kf1 b5 *'
+    );
+    expect(writePgn(tree, { variations: false, clocks: false }).split('\n\n')[1]).toBe(
+      '{Immortal game} 1. e4 e5 2. f4 $1 exf4 {Accepted} 3. Bc4 Qh4+ 4. Kf1 b5 $5 *'
+    );
+  });
+
+  it.each<PgnFormat>(['export', 'reduced', 'import'])(
+    'should write back what it reads in %s format',
+    (format) => {
+      const pgn = writePgn(readPgn(ANNOTATED), { format });
+      expect(writePgn(readPgn(pgn), { format })).toBe(pgn);
+    }
+  );
+
+  it('should number moves from the FEN of a custom position', () => {
+    const game = new Game({ fen: '4k3/8/8/8/8/8/4P3/4K3 b - - 0 40' });
+    game.move('Kd7');
+    game.move('e4');
+
+    const pgn = PgnParser.generate(game, {}, { format: 'reduced' });
+
+    expect(pgn).toContain('[FEN "4k3/8/8/8/8/8/4P3/4K3 b - - 0 40"]\n[SetUp "1"]');
+    expect(pgn.split('\n\n')[1]).toBe('40... Kd7 41. e4 *');
+  });
+});
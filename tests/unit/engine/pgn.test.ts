@@ -8,6 +8,7 @@ import { describe, expect, it } from '@jest/globals';
 import { PgnParser } from '@/engine/pgn';
 import { Game } from '@/engine/game';
 import type { Pgn } from '@/types/index';
+import { InvalidPgnError } from '@/utils/errors';
 
 describe('PgnParser', () => {
   describe('parse', () => {
@@ -275,6 +276,42 @@ describe('PgnParser', () => {
       expect(pgn).toContain('*');
     });
 
+    it('should take the result and termination from the game', () => {
+      const game = new Game();
+      game.move({ from: 'e2', to: 'e4' });
+      game.resign('black');
+
+      const pgn = PgnParser.generate(game);
+      expect(pgn).toContain('[Result "1-0"]');
+      expect(pgn).toContain('[Termination "normal"]');
+      expect(pgn.trim().endsWith('1. e4 1-0')).toBe(true);
+
+      const flagged = new Game({ fen: '4k3/8/8/8/8/8/8/Q3K3 b - - 0 1' });
+      flagged.forfeitOnTime('white');
+      expect(PgnParser.generate(flagged)).toContain('[Termination "time forfeit"]');
+      expect(PgnParser.generate(flagged)).toContain('[Result "1/2-1/2"]');
+    });
+
+    it('should leave out the termination while the game is in progress', () => {
+      expect(PgnParser.generate(new Game())).not.toContain('Termination');
+    });
+
+    it('should leave out SetUp and FEN after resetting a game loaded from FEN', () => {
+      const game = new Game();
+      game.loadFen('4k3/8/8/8/8/8/4P3/4K3 w - - 0 1');
+      game.reset();
+      game.move('e4');
+
+      const pgn = PgnParser.generate(game);
+
+      expect(game.getStartingFen()).toBe(
+        'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1'
+      );
+      expect(pgn).not.toContain('[SetUp');
+      expect(pgn).not.toContain('[FEN');
+      expect(pgn).toContain('1. e4 *');
+    });
+
     it('should wrap long move sequences', () => {
       const game = new Game();
 
@@ -407,6 +444,59 @@ describe('PgnParser', () => {
       expect(game).not.toBeNull();
       expect(game?.getStatus()).toBe('checkmate');
     });
+
+    it('should load a game from the position in its FEN tag', () => {
+      const fen = 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq e3 0 1';
+      const pgn: Pgn = `[Event "From 1. e4"]
+[SetUp "1"]
+[FEN "${fen}"]
+
+1... e5 2. Nf3 *`;
+
+      const game = PgnParser.loadGameOrThrow(pgn);
+
+      expect(game.getStartingFen()).toBe(fen);
+      expect(game.getHistory().map((move) => move.san)).toEqual(['e5', 'Nf3']);
+      expect(PgnParser.generate(game).split('\n\n')[1]).toBe('1... e5 2. Nf3 *');
+      expect(PgnParser.loadGame(PgnParser.generate(game))?.getFen()).toBe(game.getFen());
+    });
+
+    it('should number moves from the fullmove number of the FEN tag', () => {
+      const pgn: Pgn = `[SetUp "1"]
+[FEN "8/8/8/3k4/8/8/4P3/4K3 w - - 0 40"]
+
+40. e4+ Kd4 41. Ke2 *`;
+
+      const game = PgnParser.loadGameOrThrow(pgn);
+
+      expect(game.getFullMoveNumber()).toBe(41);
+      expect(PgnParser.generate(game)).toContain('\n\n40. e4+ Kd4 41. Ke2 *');
+    });
+
+    it('should reject ambiguous moves', () => {
+      const pgn: Pgn = `[SetUp "1"]
+[FEN "4k3/8/8/8/8/8/8/1N2KN2 w - - 0 1"]
+
+1. Nd2 *`;
+
+      expect(PgnParser.loadGame(pgn)).toBeNull();
+      expect(() => PgnParser.loadGameOrThrow(pgn)).toThrow("cannot play 'Nd2' at ply 1");
+      expect(PgnParser.loadGame(pgn.replace('Nd2', 'Nbd2'))?.getFen()).toBe(
+        '4k3/8/8/8/8/8/3N4/4KN2 b - - 1 1'
+      );
+    });
+
+    it('should start from the initial position when SetUp is 0', () => {
+      const pgn: Pgn = `[SetUp "0"]
+[FEN "8/8/8/3k4/8/8/4P3/4K3 w - - 0 40"]
+
+1. e4 *`;
+
+      expect(PgnParser.loadGame(pgn)?.getHistory()).toHaveLength(1);
+      expect(() => PgnParser.loadGameOrThrow('[SetUp "1"]\n[FEN "8/8/8"]\n\n*')).toThrow(
+        InvalidPgnError
+      );
+    });
   });
 
   describe('validate', () => {
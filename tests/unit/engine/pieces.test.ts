@@ -3,7 +3,12 @@
  */
 
 import { Board } from '@/engine/board';
-import { getPseudoLegalMoves, isSquareUnderAttack, isKingInCheck } from '@/engine/pieces';
+import {
+  getPseudoLegalMoves,
+  getSquareAttackers,
+  isSquareUnderAttack,
+  isKingInCheck,
+} from '@/engine/pieces';
 
 describe('Pieces', () => {
   let board: Board;
@@ -324,4 +329,24 @@ describe('Pieces', () => {
       expect(inCheck).toBe(false); // Own pawn blocks check
     });
   });
+
+  describe('getSquareAttackers', () => {
+    it('should find every attacker of a square', () => {
+      board.setPiece('e4', { type: 'king', color: 'white' });
+      board.setPiece('d5', { type: 'pawn', color: 'black' });
+      board.setPiece('f6', { type: 'knight', color: 'black' });
+      board.setPiece('e8', { type: 'queen', color: 'black' });
+      board.setPiece('a8', { type: 'bishop', color: 'black' });
+      board.setPiece('h4', { type: 'rook', color: 'black' });
+      board.setPiece('f4', { type: 'pawn', color: 'white' });
+
+      const attackers = getSquareAttackers(board, { row: 3, col: 4 }, 'black')
+        .map(({ row, col }) => board.coordsToSquare(row, col))
+        .sort();
+
+      // The bishop is behind the pawn and the rook behind the white pawn
+      expect(attackers).toEqual(['d5', 'e8', 'f6']);
+      expect(getSquareAttackers(board, { row: 3, col: 4 }, 'white')).toEqual([]);
+    });
+  });
 });
@@ -0,0 +1,75 @@
+/**
+ * Position Builder Tests
+ *
+ * Tests setting up positions piece by piece, flipping and mirroring them,
+ * and rejecting illegal positions before a game is started.
+ */
+
+import { describe, expect, it } from '@jest/globals';
+import { FenParser } from '@/engine/fen';
+import { PositionBuilder } from '@/engine/position-builder';
+import { ChessError, IllegalPositionError, InvalidFenError } from '@/utils/errors';
+
+describe('PositionBuilder', () => {
+  it('should build a position and start a game from it', () => {
+    const game = new PositionBuilder()
+      .put('e1', 'K')
+      .put('e8', 'k')
+      .put('a1', { type: 'rook', color: 'white' })
+      .setCastling('Q')
+      .toGame();
+
+    expect(game.getFen()).toBe('4k3/8/8/8/8/8/8/R3K3 w Q - 0 1');
+    expect(game.move('O-O-O')?.castling).toBe('queenside');
+  });
+
+  it('should edit a position loaded from FEN', () => {
+    const builder = new PositionBuilder(FenParser.STARTING_POSITION)
+      .remove('d1')
+      .put('d4', 'Q')
+      .setTurn('black');
+
+    expect(builder.getPiece('d4')).toEqual({ type: 'queen', color: 'white' });
+    expect(builder.getPiece('d1')).toBeNull();
+    expect(builder.toFen()).toBe('rnbqkbnr/pppppppp/8/8/3Q4/8/PPPPPPPP/RNB1KBNR b KQkq - 0 1');
+
+    builder.clear();
+    expect(builder.toFen()).toBe('8/8/8/8/8/8/8/8 b - - 0 1');
+  });
+
+  it('should flip the board and mirror the position', () => {
+    const flipped = new PositionBuilder(FenParser.STARTING_POSITION).flip();
+    expect(flipped.toFen()).toBe('RNBQKBNR/PPPPPPPP/8/8/8/8/pppppppp/rnbqkbnr w - - 0 1');
+
+    const mirrored = new PositionBuilder('4k3/8/8/8/4P3/8/8/4K3 b - e3 0 1').mirror();
+    expect(mirrored.toFen()).toBe('4k3/8/8/4p3/8/8/8/4K3 w - e6 0 1');
+    expect(mirrored.validate()).toEqual([]);
+
+    expect(new PositionBuilder(FenParser.STARTING_POSITION).mirror().toFen()).toBe(
+      'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR b KQkq - 0 1'
+    );
+  });
+
+  it('should refuse to start a game from an illegal position', () => {
+    const builder = new PositionBuilder().put('e1', 'K').put('d3', 'n').put('f3', 'n');
+
+    expect(builder.validate()).toEqual([
+      { field: 0, message: 'Black has no king' },
+      { field: 1, message: 'White is in double check from d3 and f3, which no move can give' },
+    ]);
+    expect(() => builder.toGame()).toThrow(IllegalPositionError);
+    expect(() => builder.toGame()).toThrow('Illegal position: Black has no king');
+
+    builder.put('a8', 'k').remove('f3');
+    expect(builder.toGame().isInCheck()).toBe(true);
+  });
+
+  it('should reject invalid squares, pieces, castling rights and en passant squares', () => {
+    const builder = new PositionBuilder();
+
+    expect(() => builder.put('z9', 'K')).toThrow(ChessError);
+    expect(() => builder.put('e4', 'X')).toThrow("Invalid piece letter 'X'");
+    expect(() => builder.setCastling('KX')).toThrow(InvalidFenError);
+    expect(() => builder.setEnPassant('e4')).toThrow(InvalidFenError);
+  });
+});
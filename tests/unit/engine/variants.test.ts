@@ -0,0 +1,298 @@
+/**
+ * Chess Variant Tests
+ *
+ * Tests move generation (via perft), win conditions and FEN/PGN support of
+ * King of the Hill, Three-check, Antichess, Atomic, Horde and Racing Kings.
+ */
+
+import { describe, expect, it } from '@jest/globals';
+import { Game } from '@/engine/game';
+import { PgnParser } from '@/engine/pgn';
+import { perft } from '@/engine/perft';
+import { findVariantByName, getVariantByKey } from '@/engine/variants/index';
+import type { GameVariant } from '@/types/index';
+
+const PERFT_TIMEOUT = 30000;
+
+// White's rook takes the queen next to the black king
+const ATOMIC_EXPLOSION = '4k3/3q4/8/8/8/8/8/3RK3 w - - 0 1';
+
+/**
+ * Check whether a move is legal in the current position
+ */
+function hasMove(game: Game, from: string, to: string): boolean {
+  return game.getLegalMoves().some((move) => move.from === from && move.to === to);
+}
+
+describe('Chess variants', () => {
+  describe('registry', () => {
+    it('should find variants by PGN name, key and alias', () => {
+      expect(findVariantByName('King of the Hill')?.key).toBe('kingOfTheHill');
+      expect(findVariantByName('three-check')?.key).toBe('threeCheck');
+      expect(findVariantByName('Racing Kings')?.key).toBe('racingKings');
+      expect(findVariantByName('Fischerandom')?.key).toBe('chess960');
+      expect(findVariantByName('Standard')?.key).toBe('standard');
+      expect(findVariantByName('Duck Chess')).toBeNull();
+    });
+
+    it('should start each variant from its own position', () => {
+      expect(new Game({ variant: 'horde' }).getFen()).toBe(getVariantByKey('horde').startingFen);
+      expect(new Game({ variant: 'racingKings' }).getFen()).toBe(
+        '8/8/8/8/8/8/krbnNBRK/qrbnNBRQ w - - 0 1'
+      );
+      expect(new Game({ variant: 'antichess' }).getFen()).toBe(
+        'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w - - 0 1'
+      );
+    });
+  });
+
+  describe('perft', () => {
+    const cases: [GameVariant, number[]][] = [
+      ['kingOfTheHill', [20, 400, 8902]],
+      ['threeCheck', [20, 400, 8902]],
+      ['antichess', [20, 400, 8067]],
+      ['atomic', [20, 400, 8902]],
+      ['horde', [8, 128, 1274]],
+      ['racingKings', [21, 421, 11264]],
+    ];
+
+    it.each(cases)(
+      'should match reference counts for %s',
+      (variant, counts) => {
+        const game = new Game({ variant });
+        counts.forEach((nodes, index) => {
+          expect(perft(game, index + 1).nodes).toBe(nodes);
+        });
+      },
+      PERFT_TIMEOUT
+    );
+
+    it(
+      'should match reference counts for an Atomic middlegame',
+      () => {
+        const game = new Game({
+          variant: 'atomic',
+          fen: 'rn2kb1r/1pp1p2p/p2q1pp1/3P4/2P3b1/4PN2/PP3PPP/R2QKB1R b KQkq - 0 1',
+        });
+        expect(perft(game, 1).nodes).toBe(40);
+        expect(perft(game, 2).nodes).toBe(1238);
+      },
+      PERFT_TIMEOUT
+    );
+  });
+
+  describe('King of the Hill', () => {
+    it('should win by reaching the center', () => {
+      const game = new Game({ variant: 'kingOfTheHill', fen: '4k3/8/8/8/8/4K3/8/8 w - - 0 1' });
+      expect(game.getStatus()).toBe('active');
+
+      game.move({ from: 'e3', to: 'e4' });
+
+      expect(game.getStatus()).toBe('variant_win');
+      expect(game.getVariantOutcome()).toEqual({ winner: 'white', reason: 'king_in_center' });
+      expect(game.isGameOver()).toBe(true);
+    });
+
+    it('should not draw bare kings by insufficient material', () => {
+      const game = new Game({ variant: 'kingOfTheHill', fen: '4k3/8/8/8/8/8/8/4K3 w - - 0 1' });
+      expect(game.getStatus()).toBe('active');
+    });
+  });
+
+  describe('Three-check', () => {
+    it('should write the remaining checks into the FEN', () => {
+      const game = new Game({ variant: 'threeCheck' });
+      expect(game.getFen()).toBe('rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 3+3 0 1');
+    });
+
+    it('should read both check counter notations', () => {
+      const remaining = new Game({
+        variant: 'threeCheck',
+        fen: '4k3/8/8/8/8/8/8/3QK3 w - - 1+3 0 1',
+      });
+      expect(remaining.getChecksGiven()).toEqual({ white: 2, black: 0 });
+
+      const given = new Game({ variant: 'threeCheck', fen: '4k3/8/8/8/8/8/8/3QK3 w - - 0 1 +1+2' });
+      expect(given.getChecksGiven()).toEqual({ white: 1, black: 2 });
+      expect(given.getFen()).toBe('4k3/8/8/8/8/8/8/3QK3 w - - 2+1 0 1');
+    });
+
+    it('should win with the third check and undo the count', () => {
+      const game = new Game({
+        variant: 'threeCheck',
+        fen: '4k3/8/8/8/8/8/8/3QK3 w - - 1+3 0 1',
+      });
+
+      const move = game.move({ from: 'd1', to: 'a4' });
+
+      expect(move?.san).toBe('Qa4+');
+      expect(game.getChecksGiven()).toEqual({ white: 3, black: 0 });
+      expect(game.getStatus()).toBe('variant_win');
+      expect(game.getVariantOutcome()).toEqual({ winner: 'white', reason: 'three_checks' });
+
+      game.undo();
+
+      expect(game.getChecksGiven()).toEqual({ white: 2, black: 0 });
+      expect(game.getFen()).toBe('4k3/8/8/8/8/8/8/3QK3 w - - 1+3 0 1');
+    });
+
+    it('should tell apart positions with different check counts', () => {
+      const fen = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - ';
+      const fresh = new Game({ variant: 'threeCheck', fen: `${fen}3+3 0 1` });
+      const checked = new Game({ variant: 'threeCheck', fen: `${fen}2+3 0 1` });
+      expect(fresh.getHash()).not.toBe(checked.getHash());
+    });
+  });
+
+  describe('Antichess', () => {
+    it('should make captures compulsory', () => {
+      const game = new Game({ variant: 'antichess' });
+      game.move({ from: 'e2', to: 'e4' });
+      game.move({ from: 'd7', to: 'd5' });
+
+      const moves = game.getLegalMoves();
+      expect(moves).toHaveLength(1);
+      expect(hasMove(game, 'e4', 'd5')).toBe(true);
+    });
+
+    it('should ignore check and allow promotion to a king', () => {
+      const game = new Game({ variant: 'antichess', fen: '8/P7/8/8/8/8/8/k7 b - - 0 1' });
+      expect(game.isInCheck()).toBe(false);
+
+      game.move({ from: 'a1', to: 'b1' });
+      const move = game.move({ from: 'a7', to: 'a8', promotion: 'king' });
+
+      expect(move?.san).toBe('a8=K');
+    });
+
+    it('should let the player without pieces win', () => {
+      const game = new Game({ variant: 'antichess', fen: '8/8/8/8/8/8/8/r6R w - - 0 1' });
+
+      game.move({ from: 'h1', to: 'a1' });
+
+      expect(game.getStatus()).toBe('variant_win');
+      expect(game.getVariantOutcome()).toEqual({ winner: 'black', reason: 'no_legal_moves' });
+    });
+  });
+
+  describe('Atomic', () => {
+    it('should blow up the surroundings of a capture', () => {
+      const game = new Game({ variant: 'atomic', fen: ATOMIC_EXPLOSION });
+
+      const move = game.move({ from: 'd1', to: 'd7' });
+
+      expect(move?.explosion).toEqual([{ square: 'e8', piece: { type: 'king', color: 'black' } }]);
+      expect(game.getBoard().getPiece('d7')).toBeNull();
+      expect(game.getBoard().getPiece('e8')).toBeNull();
+      expect(game.getStatus()).toBe('variant_win');
+      expect(game.getVariantOutcome()).toEqual({ winner: 'white', reason: 'king_exploded' });
+    });
+
+    it('should restore exploded pieces on undo', () => {
+      const game = new Game({ variant: 'atomic', fen: ATOMIC_EXPLOSION });
+      const hash = game.getHash();
+
+      game.move({ from: 'd1', to: 'd7' });
+      game.undo();
+
+      expect(game.getFen()).toBe(ATOMIC_EXPLOSION);
+      expect(game.getHash()).toBe(hash);
+    });
+
+    it('should not let kings capture', () => {
+      const game = new Game({ variant: 'atomic', fen: '4k3/8/8/8/8/8/3p4/4K3 w - - 0 1' });
+      expect(game.isInCheck()).toBe(true);
+      expect(hasMove(game, 'e1', 'd2')).toBe(false);
+    });
+
+    it('should not count attacks on a king next to the enemy king', () => {
+      const game = new Game({ variant: 'atomic', fen: '8/8/8/8/8/8/3kK3/7r w - - 0 1' });
+      expect(game.isInCheck()).toBe(false);
+    });
+  });
+
+  describe('Horde', () => {
+    it('should let first-rank pawns advance two squares without en passant', () => {
+      const game = new Game({ variant: 'horde', fen: 'k7/8/8/8/8/8/8/P7 w - - 0 1' });
+      expect(hasMove(game, 'a1', 'a3')).toBe(true);
+
+      game.move({ from: 'a1', to: 'a3' });
+
+      expect(game.getFen()).toBe('k7/8/8/8/8/P7/8/8 b - - 0 1');
+    });
+
+    it('should let black win by destroying the horde', () => {
+      const game = new Game({ variant: 'horde', fen: '4k3/8/8/8/8/8/8/P6r b - - 0 1' });
+
+      game.move({ from: 'h1', to: 'a1' });
+
+      expect(game.getStatus()).toBe('variant_win');
+      expect(game.getVariantOutcome()).toEqual({ winner: 'black', reason: 'horde_destroyed' });
+    });
+  });
+
+  describe('Racing Kings', () => {
+    it('should forbid giving check', () => {
+      const game = new Game({ variant: 'racingKings', fen: 'k7/8/8/8/8/8/8/1R5K w - - 0 1' });
+      expect(hasMove(game, 'b1', 'a1')).toBe(false);
+      expect(hasMove(game, 'b1', 'b2')).toBe(true);
+    });
+
+    it('should win by reaching the eighth rank first', () => {
+      const game = new Game({ variant: 'racingKings', fen: '8/6K1/k7/8/8/8/8/8 w - - 0 1' });
+
+      game.move({ from: 'g7', to: 'g8' });
+
+      expect(game.getStatus()).toBe('variant_win');
+      expect(game.getVariantOutcome()).toEqual({ winner: 'white', reason: 'king_reached_goal' });
+    });
+
+    it('should draw when black reaches the goal right after white', () => {
+      const game = new Game({ variant: 'racingKings', fen: '8/1k4K1/8/8/8/8/8/8 w - - 0 1' });
+
+      game.move({ from: 'g7', to: 'g8' });
+      expect(game.getStatus()).toBe('active');
+
+      game.move({ from: 'b7', to: 'b8' });
+      expect(game.getStatus()).toBe('variant_draw');
+      expect(game.getVariantOutcome()).toEqual({ winner: null, reason: 'kings_reached_goal' });
+    });
+  });
+
+  describe('PGN', () => {
+    it('should write the Variant tag and replay the game', () => {
+      const game = new Game({ variant: 'atomic', fen: ATOMIC_EXPLOSION });
+      game.move({ from: 'd1', to: 'd7' });
+
+      const pgn = PgnParser.generate(game);
+      expect(pgn).toContain('[Variant "Atomic"]');
+      expect(pgn).toContain(`[FEN "${ATOMIC_EXPLOSION}"]`);
+      expect(pgn).toContain('1. Rxd7 1-0');
+
+      const loaded = PgnParser.loadGame(pgn);
+      expect(loaded?.getVariant()).toBe('atomic');
+      expect(loaded?.getFen()).toBe(game.getFen());
+      expect(loaded?.getStatus()).toBe('variant_win');
+    });
+
+    it('should leave out SetUp/FEN for the variant starting position', () => {
+      const game = new Game({ variant: 'kingOfTheHill' });
+      game.move({ from: 'e2', to: 'e4' });
+
+      const pgn = PgnParser.generate(game);
+      expect(pgn).toContain('[Variant "King of the Hill"]');
+      expect(pgn).not.toContain('[FEN');
+    });
+
+    it('should read promotions to a king', () => {
+      const pgn =
+        '[Variant "Antichess"]\n[SetUp "1"]\n[FEN "8/P7/8/8/8/8/8/k7 b - - 0 1"]\n\n1... Kb1 2. a8=K *';
+      const game = PgnParser.loadGame(pgn);
+      expect(game?.getBoard().getPiece('a8')).toEqual({ type: 'king', color: 'white' });
+    });
+
+    it('should reject unknown variants', () => {
+      expect(PgnParser.loadGame('[Variant "Duck Chess"]\n\n1. e4 *')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Zobrist Hashing Tests
+ *
+ * Tests for position hashing, incremental hash updates and
+ * en passant handling in repetition keys.
+ */
+
+import { describe, expect, it } from '@jest/globals';
+import { Game } from '@/engine/game';
+import { computeHash, hashFen } from '@/engine/zobrist';
+import { FenParser } from '@/engine/fen';
+
+/**
+ * Recompute a game's hash from its FEN
+ */
+function hashFromScratch(game: Game): bigint {
+  const data = FenParser.parse(game.getFen());
+  return computeHash(data.board, data.turn, data.castlingRights, data.enPassantSquare);
+}
+
+describe('Zobrist hashing', () => {
+  it('should produce a stable hash for the starting position', () => {
+    const game1 = new Game();
+    const game2 = new Game();
+
+    expect(game1.getHash()).toBe(game2.getHash());
+    expect(game1.getHash()).toBe(hashFen(FenParser.STARTING_POSITION));
+  });
+
+  it('should keep the incremental hash equal to a full recomputation', () => {
+    const game = new Game();
+    const moves = [
+      { from: 'e2', to: 'e4' },
+      { from: 'd7', to: 'd5' },
+      { from: 'e4', to: 'd5' },
+      { from: 'g8', to: 'f6' },
+      { from: 'g1', to: 'f3' },
+      { from: 'f6', to: 'd5' },
+      { from: 'f1', to: 'c4' },
+      { from: 'c8', to: 'g4' },
+      { from: 'e1', to: 'g1' },
+    ];
+
+    for (const move of moves) {
+      expect(game.move(move)).not.toBeNull();
+      expect(game.getHash()).toBe(hashFromScratch(game));
+    }
+  });
+
+  it('should match for transpositions', () => {
+    const game1 = new Game();
+    game1.move({ from: 'g1', to: 'f3' });
+    game1.move({ from: 'g8', to: 'f6' });
+    game1.move({ from: 'b1', to: 'c3' });
+
+    const game2 = new Game();
+    game2.move({ from: 'b1', to: 'c3' });
+    game2.move({ from: 'g8', to: 'f6' });
+    game2.move({ from: 'g1', to: 'f3' });
+
+    expect(game1.getHash()).toBe(game2.getHash());
+  });
+
+  it('should differ by side to move and castling rights', () => {
+    const white = hashFen('4k3/8/8/8/8/8/8/R3K3 w Q - 0 1');
+    const black = hashFen('4k3/8/8/8/8/8/8/R3K3 b Q - 0 1');
+    const noCastling = hashFen('4k3/8/8/8/8/8/8/R3K3 w - - 0 1');
+
+    expect(white).not.toBe(black);
+    expect(white).not.toBe(noCastling);
+  });
+
+  it('should ignore the en passant square when no capture is possible', () => {
+    // After 1. e4 no black pawn can capture on e3
+    expect(hashFen('rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq e3 0 1')).toBe(
+      hashFen('rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1')
+    );
+  });
+
+  it('should include the en passant square when a capture is possible', () => {
+    expect(hashFen('4k3/8/8/8/3pP3/8/8/4K3 b - e3 0 1')).not.toBe(
+      hashFen('4k3/8/8/8/3pP3/8/8/4K3 b - - 0 1')
+    );
+  });
+
+  it('should ignore en passant when the capture would be illegal', () => {
+    // The d4 pawn is pinned against the black king along the rank
+    expect(hashFen('8/8/8/8/k2pP2R/8/8/4K3 b - e3 0 1')).toBe(
+      hashFen('8/8/8/8/k2pP2R/8/8/4K3 b - - 0 1')
+    );
+  });
+
+  it('should accept four-field FEN keys', () => {
+    expect(hashFen('rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq -')).toBe(
+      hashFen(FenParser.STARTING_POSITION)
+    );
+  });
+
+  it('should restore the hash after undo', () => {
+    const game = new Game();
+    const initial = game.getHash();
+
+    game.move({ from: 'e2', to: 'e4' });
+    game.undo();
+
+    expect(game.getHash()).toBe(initial);
+  });
+
+  it('should detect threefold repetition using hashes', () => {
+    const game = new Game();
+    const shuffle = [
+      { from: 'g1', to: 'f3' },
+      { from: 'g8', to: 'f6' },
+      { from: 'f3', to: 'g1' },
+      { from: 'f6', to: 'g8' },
+    ];
+
+    for (let i = 0; i < 2; i++) {
+      for (const move of shuffle) {
+        game.move(move);
+      }
+    }
+
+    expect(game.getDrawClaimReason()).toBe('threefold_repetition');
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Error Hierarchy Tests
+ *
+ * Tests that the engine, the AI and the opening book throw ChessError
+ * subclasses with machine-readable codes and context.
+ */
+
+import { describe, expect, it } from '@jest/globals';
+import { ChessClock } from '@/engine/clock';
+import { FenParser } from '@/engine/fen';
+import { Game } from '@/engine/game';
+import { PgnParser } from '@/engine/pgn';
+import { MinimaxAI } from '@/ai/minimax';
+import { OpeningBook } from '@/ai/opening-book';
+import {
+  ChessError,
+  EngineError,
+  GameOverError,
+  IllegalMoveError,
+  InvalidFenError,
+  InvalidPgnError,
+  OpeningBookError,
+} from '@/utils/errors';
+
+/**
+ * Run a function and return what it threw
+ */
+function catchError(fn: () => unknown): unknown {
+  try {
+    fn();
+  } catch (error) {
+    return error;
+  }
+  throw new Error('Expected an error to be thrown');
+}
+
+describe('ChessError hierarchy', () => {
+  it('should throw InvalidFenError with the field at fault', () => {
+    const error = catchError(() =>
+      FenParser.parse('rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR x KQkq - 0 1')
+    );
+
+    expect(error).toBeInstanceOf(InvalidFenError);
+    expect(error).toBeInstanceOf(ChessError);
+    expect(error).toMatchObject({
+      name: 'InvalidFenError',
+      code: 'INVALID_FEN',
+      message: "Invalid FEN: invalid active color 'x'",
+      context: { field: 'turn', value: 'x' },
+    });
+  });
+
+  it('should throw InvalidPgnError with the move that cannot be played', () => {
+    const pgn = '[Event "Test"]\n\n1. e4 e5 2. Ke3 Nc6';
+    const error = catchError(() => PgnParser.loadGameOrThrow(pgn));
+
+    expect(error).toBeInstanceOf(InvalidPgnError);
+    expect(error).toMatchObject({ code: 'INVALID_PGN', context: { move: 'Ke3', ply: 3 } });
+    expect(PgnParser.loadGame(pgn)).toBeNull();
+  });
+
+  it('should throw IllegalMoveError and GameOverError from moveOrThrow', () => {
+    const game = new Game();
+
+    const illegal = catchError(() => game.moveOrThrow('Nf6'));
+    expect(illegal).toBeInstanceOf(IllegalMoveError);
+    expect(illegal).toMatchObject({ code: 'ILLEGAL_MOVE', reason: 'illegal_move', move: 'Nf6' });
+
+    game.resign('white');
+    const over = catchError(() => game.moveOrThrow({ from: 'e2', to: 'e4' }));
+    expect(over).toBeInstanceOf(GameOverError);
+    expect(over).toMatchObject({ code: 'GAME_OVER', context: { status: 'resignation' } });
+  });
+
+  it('should throw EngineError when the AI has no move to search', async () => {
+    const game = new Game({
+      fen: 'rnb1kbnr/pppp1ppp/8/4p3/6Pq/5P2/PPPPP2P/RNBQKBNR w KQkq - 1 3',
+    });
+    const ai = new MinimaxAI({ difficulty: 'harmless' });
+
+    await expect(ai.analyze(game)).rejects.toBeInstanceOf(EngineError);
+    await expect(ai.analyze(game)).rejects.toMatchObject({ code: 'NO_LEGAL_MOVES' });
+  });
+
+  it('should throw OpeningBookError for a position that is not a FEN', () => {
+    const book = new OpeningBook();
+    const error = catchError(() =>
+      book.loadData({ version: '1', maxDepth: 4, positions: { 'not a fen': [] } })
+    );
+
+    expect(error).toBeInstanceOf(OpeningBookError);
+    expect(error).toMatchObject({ code: 'OPENING_BOOK_ERROR', context: { fen: 'not a fen' } });
+  });
+
+  it('should use ChessError for invalid time controls', () => {
+    const error = catchError(() => new Game({ timeControl: '5 min' }));
+
+    expect(error).toBeInstanceOf(ChessError);
+    expect(error).toMatchObject({ code: 'INVALID_TIME_CONTROL', context: { value: '5 min' } });
+  });
+
+  it('should use ChessError for a clock pressed out of turn', () => {
+    const clock = new ChessClock('300+3');
+    clock.press('white');
+    const error = catchError(() => clock.press('white'));
+
+    expect(error).toBeInstanceOf(ChessError);
+    expect(error).toMatchObject({
+      code: 'CLOCK_OUT_OF_TURN',
+      context: { color: 'white', running: 'black' },
+    });
+  });
+});